@@ -21,13 +21,16 @@ For each lender, return:
 - contactName, contactPhone, contactEmail when shown on the sheet (often in headers/footers or contact panels)
 - website (lender's primary URL) and portalUrl (dealer submission portal) when shown
 - generalNotes summarizing important program-wide notes that are not tier-specific
-- tiers with all available FICO ranges, vehicle year or age limits, mileage limits, term limits, LTV/advance limits, front-end LTV, OTD LTV, rates, backend caps, make restrictions, vehicle type, confidence, and extractionSource
+- tiers with all available FICO ranges, vehicle year or age limits, mileage limits, term limits, LTV/advance limits, front-end LTV, OTD LTV, rates, rate adder grids, backend caps, negative equity caps, allowed balloon/biweekly structures, make restrictions, vehicle type, confidence, and extractionSource
 
 Rules:
 - Use numbers without symbols: 125% becomes 125, $2,500 becomes 2500, 100K becomes 100000.
 - Separate new, used, and certified programs when terms differ.
 - Treat a changed logo, heading, or lender name as a new lender.
 - Preserve front-end advance and OTD/total advance as separate fields.
+- A dollar cap on rolled-in negative equity goes in maxNegativeEquity; omit caps stated only as a percent of book.
+- List "balloon" and/or "biweekly" in allowedStructures only when the program explicitly offers them; omit the field otherwise.
+- Put rate add-ons in rateAdders, one cell per grid entry with its inclusive bounds and adder in rate points: FICO band × term bucket grids in creditTerm, LTV add-ons in ltv, mileage add-ons in mileage. When a tier's grid holds buy rates rather than add-ons, use the lowest rate as baseInterestRate and enter each cell as its difference from it. Keep a single flat add-on in rateAdder.
 - Use maxAge and minYear when both are clear; if only maxAge is shown, include maxAge.
 - Use confidence 1 for direct table values, 0.8-0.9 for clear context, 0.7 for calculated values.
 - Do not include low-confidence guesses for rate-related fields. Omit instead.
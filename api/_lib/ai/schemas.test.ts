@@ -28,6 +28,35 @@ describe("AI response schema validation", () => {
     expect(lenders[0]?.tiers?.[0]?.minYear).toBe(new Date().getFullYear() - 5);
   });
 
+  it("keeps rate adder grid cells that state an adder", () => {
+    const lenders = parseLenderExtractResponse({
+      lenders: [
+        {
+          name: "Grid Bank",
+          tiers: [
+            {
+              name: "Tier 2",
+              baseInterestRate: 7.49,
+              rateAdders: {
+                creditTerm: [
+                  { minFico: "620", maxFico: 659, minTerm: 73, adder: "0.75" },
+                  { minFico: 620, maxFico: 659 },
+                ],
+                ltv: [],
+                mileage: [{ minMileage: 100001, adder: 0.5 }],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(lenders[0]?.tiers?.[0]?.rateAdders).toEqual({
+      creditTerm: [{ minFico: 620, maxFico: 659, minTerm: 73, adder: 0.75 }],
+      mileage: [{ minMileage: 100001, adder: 0.5 }],
+    });
+  });
+
   it("rejects malformed lender extraction responses", () => {
     expect(() =>
       parseLenderExtractResponse({
@@ -1,5 +1,28 @@
 import { z } from "zod";
-import type { DealData, LenderProfile, LenderTier } from "../../../types.js";
+import type {
+  DealData,
+  LenderProfile,
+  LenderTier,
+  RateAdderCell,
+  TierRateAdders,
+} from "../../../types.js";
+
+const rateAdderCellJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    minFico: { type: "number" },
+    maxFico: { type: "number" },
+    minTerm: { type: "number" },
+    maxTerm: { type: "number" },
+    minLtv: { type: "number" },
+    maxLtv: { type: "number" },
+    minMileage: { type: "number" },
+    maxMileage: { type: "number" },
+    adder: { type: "number" },
+  },
+  required: ["adder"],
+} as const;
 
 export const lenderTierJsonSchema = {
   type: "object",
@@ -25,6 +48,15 @@ export const lenderTierJsonSchema = {
     maxAmountFinanced: { type: "number" },
     baseInterestRate: { type: "number" },
     rateAdder: { type: "number" },
+    rateAdders: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        creditTerm: { type: "array", items: rateAdderCellJsonSchema },
+        ltv: { type: "array", items: rateAdderCellJsonSchema },
+        mileage: { type: "array", items: rateAdderCellJsonSchema },
+      },
+    },
     maxRate: { type: "number" },
     vehicleType: { type: "string", enum: ["new", "used", "certified", "all"] },
     excludedMakes: { type: "array", items: { type: "string" } },
@@ -34,6 +66,8 @@ export const lenderTierJsonSchema = {
     maxDti: { type: "number" },
     maxBackend: { type: "number" },
     maxBackendPercent: { type: "number" },
+    maxNegativeEquity: { type: "number" },
+    allowedStructures: { type: "array", items: { type: "string", enum: ["balloon", "biweekly"] } },
     confidence: { type: "number" },
     extractionSource: { type: "string", enum: ["table", "text", "header", "inferred"] },
   },
@@ -137,7 +171,7 @@ export const dealSuggestionJsonSchema = {
               loanTerm: { type: "number" },
               interestRate: { type: "number" },
               stateFees: { type: "number" },
-              buyerState: { type: "string", enum: ["MI", "OH", "IN", "IL", "FL"] },
+              buyerState: { type: "string", enum: ["MI", "OH", "IN", "IL", "FL", "WI", "KY"] },
               rebate: { type: "number" },
               // `notes` intentionally omitted: AI free text must not flow into
               // the deal (it prints on customer paper). Structural enforcement
@@ -158,6 +192,20 @@ const optionalNumber = z.preprocess(
   z.coerce.number().finite().optional()
 );
 
+const AiRateAdderCellSchema = z
+  .object({
+    minFico: optionalNumber,
+    maxFico: optionalNumber,
+    minTerm: optionalNumber,
+    maxTerm: optionalNumber,
+    minLtv: optionalNumber,
+    maxLtv: optionalNumber,
+    minMileage: optionalNumber,
+    maxMileage: optionalNumber,
+    adder: optionalNumber,
+  })
+  .passthrough();
+
 export const AiLenderTierSchema = z
   .object({
     name: z.string().min(1),
@@ -180,6 +228,14 @@ export const AiLenderTierSchema = z
     maxAmountFinanced: optionalNumber,
     baseInterestRate: optionalNumber,
     rateAdder: optionalNumber,
+    rateAdders: z
+      .object({
+        creditTerm: z.array(AiRateAdderCellSchema).optional(),
+        ltv: z.array(AiRateAdderCellSchema).optional(),
+        mileage: z.array(AiRateAdderCellSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
     maxRate: optionalNumber,
     vehicleType: z.enum(["new", "used", "certified", "all"]).optional(),
     excludedMakes: z.array(z.string()).optional(),
@@ -189,6 +245,8 @@ export const AiLenderTierSchema = z
     maxDti: optionalNumber,
     maxBackend: optionalNumber,
     maxBackendPercent: optionalNumber,
+    maxNegativeEquity: optionalNumber,
+    allowedStructures: z.array(z.enum(["balloon", "biweekly"])).optional(),
     confidence: optionalNumber,
     extractionSource: z.enum(["table", "text", "header", "inferred"]).optional(),
   })
@@ -265,7 +323,7 @@ export const AiDealSuggestionSchema = z.object({
           loanTerm: optionalNumber,
           interestRate: optionalNumber,
           stateFees: optionalNumber,
-          buyerState: z.enum(["MI", "OH", "IN", "IL", "FL"]).optional(),
+          buyerState: z.enum(["MI", "OH", "IN", "IL", "FL", "WI", "KY"]).optional(),
           rebate: optionalNumber,
           // `notes` intentionally omitted — see jsonSchema above. [G32]
         })
@@ -293,6 +351,35 @@ const stripUndefined = <T extends Record<string, unknown>>(value: T): T => {
   return value;
 };
 
+/** Keeps the cells that state an adder; undefined when no grid has any. */
+const normalizeRateAdders = (
+  grids: z.infer<typeof AiLenderTierSchema>["rateAdders"]
+): TierRateAdders | undefined => {
+  if (!grids) return undefined;
+  const normalized: TierRateAdders = {};
+  for (const grid of ["creditTerm", "ltv", "mileage"] as const) {
+    const cells = (grids[grid] ?? []).flatMap((cell): RateAdderCell[] => {
+      const adder = normalizeNumber(cell.adder);
+      if (adder === undefined) return [];
+      return [
+        stripUndefined({
+          minFico: normalizeNumber(cell.minFico),
+          maxFico: normalizeNumber(cell.maxFico),
+          minTerm: normalizeNumber(cell.minTerm),
+          maxTerm: normalizeNumber(cell.maxTerm),
+          minLtv: normalizeNumber(cell.minLtv),
+          maxLtv: normalizeNumber(cell.maxLtv),
+          minMileage: normalizeNumber(cell.minMileage),
+          maxMileage: normalizeNumber(cell.maxMileage),
+          adder,
+        }),
+      ];
+    });
+    if (cells.length > 0) normalized[grid] = cells;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
 export const normalizeTier = (tier: z.infer<typeof AiLenderTierSchema>): LenderTier => {
   const maxAge = normalizeNumber(tier.maxAge);
   const minYear = normalizeNumber(tier.minYear) ?? calculateMinYearFromAge(maxAge);
@@ -318,6 +405,7 @@ export const normalizeTier = (tier: z.infer<typeof AiLenderTierSchema>): LenderT
     maxAmountFinanced: normalizeNumber(tier.maxAmountFinanced),
     baseInterestRate: normalizeNumber(tier.baseInterestRate),
     rateAdder: normalizeNumber(tier.rateAdder),
+    rateAdders: normalizeRateAdders(tier.rateAdders),
     maxRate: normalizeNumber(tier.maxRate),
     vehicleType: tier.vehicleType,
     excludedMakes: tier.excludedMakes,
@@ -327,6 +415,8 @@ export const normalizeTier = (tier: z.infer<typeof AiLenderTierSchema>): LenderT
     maxDti: normalizeNumber(tier.maxDti),
     maxBackend: normalizeNumber(tier.maxBackend),
     maxBackendPercent: normalizeNumber(tier.maxBackendPercent),
+    maxNegativeEquity: normalizeNumber(tier.maxNegativeEquity),
+    allowedStructures: tier.allowedStructures?.length ? tier.allowedStructures : undefined,
     confidence: normalizeNumber(tier.confidence),
     extractionSource: tier.extractionSource === "header" ? "text" : tier.extractionSource,
   });
@@ -0,0 +1,265 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type PocketBase from "pocketbase";
+import {
+  handleInventoryFeedRequest,
+  isFeedDue,
+  loadFeedConfigs,
+  readFeedSource,
+  runInventoryFeed,
+  type InventoryFeedConfig,
+} from "./feedImport";
+
+const unit = (vin: string, price: number) => ({
+  id: `id-${vin}`,
+  dealer: "dealer-1",
+  vin,
+  stockNumber: `S-${vin}`,
+  year: 2020,
+  make: "Honda",
+  model: "Civic",
+  mileage: 1000,
+  price,
+  status: "available",
+});
+
+const fakeClient = (existing: ReturnType<typeof unit>[], role = "admin") => {
+  const writes = { created: [] as unknown[], updated: [] as [string, Record<string, unknown>][] };
+  const client = {
+    authStore: { clear: vi.fn() },
+    filter: (raw: string) => raw,
+    collection: (name: string) => ({
+      authWithPassword: vi.fn(async () => ({ record: { role, dealer: "dealer-1" } })),
+      getFullList: vi.fn(async () => existing),
+      create: vi.fn(async (data: unknown) => {
+        if (name === "inventory") writes.created.push(data);
+        return data;
+      }),
+      update: vi.fn(async (id: string, data: Record<string, unknown>) => {
+        writes.updated.push([id, data]);
+        return data;
+      }),
+    }),
+  };
+  return { client: client as unknown as PocketBase, writes };
+};
+
+const feed = (overrides: Partial<InventoryFeedConfig> = {}): InventoryFeedConfig => ({
+  id: "main",
+  source: "",
+  everyMinutes: 60,
+  markMissingSold: true,
+  email: "feed@dealer.test",
+  password: "secret",
+  ...overrides,
+});
+
+const jsonFeed = (rows: Array<{ vin: string; price: number }>) =>
+  JSON.stringify({
+    vehicles: rows.map(({ vin, price }) => ({
+      vin,
+      stock: `S-${vin}`,
+      year: 2020,
+      make: "Honda",
+      model: "Civic",
+      mileage: 1000,
+      price,
+    })),
+  });
+
+describe("inventory feed import", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "feeds-"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs each feed on the first cron tick of its interval", () => {
+    const hourly = { everyMinutes: 60 };
+    expect(isFeedDue(hourly, new Date("2026-01-01T10:00:00Z"))).toBe(true);
+    expect(isFeedDue(hourly, new Date("2026-01-01T10:14:00Z"))).toBe(true);
+    expect(isFeedDue(hourly, new Date("2026-01-01T10:15:00Z"))).toBe(false);
+    expect(isFeedDue({ everyMinutes: 15 }, new Date("2026-01-01T10:45:00Z"))).toBe(true);
+  });
+
+  it("validates the feed configuration", async () => {
+    expect(await loadFeedConfigs({})).toEqual([]);
+    const [loaded] = await loadFeedConfigs({
+      INVENTORY_FEEDS: JSON.stringify([
+        { id: "a", source: "https://x.test/a.xml", email: "e", password: "p" },
+      ]),
+    });
+    expect(loaded).toMatchObject({ everyMinutes: 60, markMissingSold: true });
+    await expect(
+      loadFeedConfigs({ INVENTORY_FEEDS: JSON.stringify([{ id: "a", source: "x" }]) })
+    ).rejects.toThrow(/invalid/);
+    await expect(
+      loadFeedConfigs({
+        INVENTORY_FEEDS: JSON.stringify([
+          { id: "a", source: "x", everyMinutes: 5, email: "e", password: "p" },
+        ]),
+      })
+    ).rejects.toThrow(/everyMinutes/);
+    await expect(
+      loadFeedConfigs({
+        INVENTORY_FEEDS: JSON.stringify([
+          { id: "a", source: "x", everyMinutes: 20, email: "e", password: "p" },
+        ]),
+      })
+    ).rejects.toThrow(/everyMinutes: must be a multiple of 15/);
+  });
+
+  it("syncs a local feed file through the shared plan and writer", async () => {
+    const source = join(dir, "lot.json");
+    await writeFile(
+      source,
+      jsonFeed([
+        { vin: "VIN1", price: 20000 },
+        { vin: "VIN2", price: 18000 },
+        { vin: "VIN9", price: 30000 },
+      ])
+    );
+    const { client, writes } = fakeClient([
+      unit("VIN1", 20000),
+      unit("VIN2", 19000),
+      unit("VIN3", 9000),
+      unit("VIN4", 9000),
+      unit("VIN5", 9000),
+      unit("VIN6", 9000),
+      unit("VIN7", 9000),
+      unit("VIN8", 9000),
+    ]);
+
+    const result = await runInventoryFeed(feed({ source }), {
+      pbUrl: "http://pb.test",
+      createClient: () => client,
+    });
+
+    expect(result).toMatchObject({
+      status: "ok",
+      format: "json",
+      parsed: 3,
+      added: 1,
+      updated: 1,
+      unchanged: 1,
+      // Six of eight units missing reads as a bad export: sold marks are held.
+      removed: 0,
+      heldBackSold: 6,
+    });
+    expect(writes.created).toHaveLength(1);
+    expect(writes.updated.map(([id]) => id)).toEqual(["id-VIN2"]);
+  });
+
+  it("marks a missing unit sold when the feed covers the rest of the lot", async () => {
+    const source = join(dir, "lot.json");
+    const rows = ["A1", "A2", "A3", "A4", "A5"].map((vin) => ({ vin, price: 10000 }));
+    await writeFile(source, jsonFeed(rows));
+    const { client, writes } = fakeClient([...rows.map((r) => unit(r.vin, 10000)), unit("A6", 1)]);
+
+    const result = await runInventoryFeed(feed({ source }), {
+      pbUrl: "http://pb.test",
+      createClient: () => client,
+    });
+
+    expect(result).toMatchObject({ status: "ok", removed: 1, heldBackSold: 0 });
+    expect(writes.updated).toEqual([["id-A6", expect.objectContaining({ status: "sold" })]]);
+  });
+
+  it("refuses a feed user who is not a dealership admin", async () => {
+    const source = join(dir, "lot.json");
+    await writeFile(source, jsonFeed([{ vin: "VIN1", price: 1 }]));
+    const { client, writes } = fakeClient([], "user");
+    const result = await runInventoryFeed(feed({ source }), {
+      pbUrl: "http://pb.test",
+      createClient: () => client,
+    });
+    expect(result.status).toBe("error");
+    expect(result.error).toMatch(/admin/);
+    expect(writes.created).toHaveLength(0);
+  });
+
+  it("reports an unreachable or unparseable feed without writing", async () => {
+    const { client } = fakeClient([]);
+    const deps = { pbUrl: "http://pb.test", createClient: () => client };
+
+    const http = await runInventoryFeed(feed({ source: "https://feeds.test/lot.xml" }), {
+      ...deps,
+      fetchImpl: vi.fn(async () => new Response("nope", { status: 503 })),
+    });
+    expect(http).toMatchObject({ status: "error", error: "Feed URL returned HTTP 503." });
+
+    const source = join(dir, "lot.xml");
+    await writeFile(source, "<inventory><vehicle></inventory>");
+    const bad = await runInventoryFeed(feed({ source }), deps);
+    expect(bad).toMatchObject({ status: "error", error: expect.stringMatching(/well-formed/) });
+  });
+
+  it("stops reading a feed without a Content-Length once it passes 20 MB", async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024 * 1024).fill(32));
+      },
+    });
+    const fetchImpl = vi.fn(async () => new Response(endless, { status: 200 }));
+
+    await expect(readFeedSource("https://feeds.test/lot.json", fetchImpl)).rejects.toThrow(
+      "Feed is larger than 20 MB."
+    );
+    expect(pulled).toBeLessThan(25);
+
+    const small = vi.fn(async () => new Response('{"vehicles":[]}', { status: 200 }));
+    await expect(readFeedSource("https://feeds.test/lot.json", small)).resolves.toMatchObject({
+      text: '{"vehicles":[]}',
+    });
+  });
+
+  describe("handleInventoryFeedRequest", () => {
+    const call = async (
+      env: NodeJS.ProcessEnv,
+      authorization?: string,
+      url = "/api/inventory/feeds"
+    ) => {
+      const request = { method: "GET", url, headers: { authorization } } as IncomingMessage;
+      let body = "";
+      const response = {
+        statusCode: 0,
+        setHeader: vi.fn(),
+        end: (chunk: string) => {
+          body = chunk;
+        },
+      } as unknown as ServerResponse;
+      await handleInventoryFeedRequest(request, response, {
+        env,
+        now: new Date("2026-01-01T10:00:00Z"),
+      });
+      return { status: response.statusCode, body: JSON.parse(body) as Record<string, unknown> };
+    };
+
+    it("fails closed without a matching cron secret", async () => {
+      expect((await call({}, "Bearer anything")).status).toBe(401);
+      expect((await call({ CRON_SECRET: "s3cret" }, "Bearer wrong")).status).toBe(401);
+      expect((await call({ CRON_SECRET: "s3cret" })).status).toBe(401);
+    });
+
+    it("answers 404 for an unknown ?feed= and 200 with no feeds due", async () => {
+      const env = {
+        CRON_SECRET: "s3cret",
+        PB_INTERNAL_URL: "http://pb.test",
+        INVENTORY_FEEDS: "[]",
+      };
+      expect((await call(env, "Bearer s3cret", "/api/inventory/feeds?feed=nope")).status).toBe(404);
+      expect(await call(env, "Bearer s3cret")).toMatchObject({
+        status: 200,
+        body: { ok: true, results: [] },
+      });
+    });
+  });
+});
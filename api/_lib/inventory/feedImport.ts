@@ -0,0 +1,369 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import PocketBase from "pocketbase";
+import { z } from "zod";
+import { createLogger } from "../../../lib/logger.js";
+import type { InventoryItem } from "../../../lib/pocketbase.js";
+import {
+  detectFeedFormat,
+  parseInventoryFeed,
+  type InventoryFeedFormat,
+} from "../../../services/feedParser.js";
+import {
+  looksLikeMassSold,
+  planInventorySync,
+  toInventorySyncItem,
+  writeInventorySync,
+} from "../../../services/inventorySync.js";
+
+// Safe creation: runs in serverless (node) contexts where import.meta.env may
+// not be defined (unlike client Vite bundles).
+const feedLogger = (() => {
+  try {
+    return createLogger("inventory-feed");
+  } catch {
+    return {
+      warn: (message: string, context?: unknown) =>
+        console.warn(`[inventory-feed] ${message}`, context),
+      error: (message: string, error?: unknown) =>
+        console.error(`[inventory-feed] ${message}`, error),
+      debug: () => {},
+      info: (message: string, context?: unknown) =>
+        console.info(`[inventory-feed] ${message}`, context),
+    };
+  }
+})();
+
+/**
+ * Scheduled inventory feed import (/api/inventory/feeds).
+ *
+ * Pulls each configured dealer feed (an XML, JSON or CSV file at a URL or a
+ * local path), parses it with services/feedParser and syncs it through the
+ * same plan/write path as an upload in the app (services/inventorySync).
+ *
+ * A Vercel cron calls the endpoint every CRON_TICK_MINUTES with
+ * `Authorization: Bearer $CRON_SECRET`; each feed runs on the ticks that
+ * fall due for its own interval. `?feed=<id>` runs one feed now.
+ *
+ * Each feed signs in as its own PocketBase user — an admin of the dealership
+ * the feed belongs to — so inventory rules apply exactly as they do to an
+ * upload, and the dealership comes from that user's record. Feeds are read
+ * from INVENTORY_FEEDS (a JSON array) or the file at INVENTORY_FEEDS_FILE.
+ *
+ * Unattended runs have no review step, so a feed that would mark more than
+ * MASS_SOLD_SHARE of the lot sold keeps its adds and updates but holds the
+ * sold marks back; the result reports how many were held.
+ */
+
+export const CRON_TICK_MINUTES = 15;
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+
+const FeedConfigSchema = z.object({
+  id: z.string().min(1),
+  /** http(s) URL, or a path on the server relative to the working directory. */
+  source: z.string().min(1),
+  format: z.enum(["xml", "json", "csv"]).optional(),
+  // Whole cron ticks only: isFeedDue counts windows in ticks, so 20 would run
+  // on every tick and 25 on an irregular few.
+  everyMinutes: z
+    .number()
+    .int()
+    .min(CRON_TICK_MINUTES)
+    .refine((n) => n % CRON_TICK_MINUTES === 0, {
+      message: `must be a multiple of ${CRON_TICK_MINUTES}`,
+    })
+    .default(60),
+  /** Mark units the feed no longer lists as sold. Only for a full-lot feed. */
+  markMissingSold: z.boolean().default(true),
+  email: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export type InventoryFeedConfig = z.infer<typeof FeedConfigSchema>;
+
+/** A feed problem whose message is safe to return to the caller. */
+class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedError";
+  }
+}
+
+export const loadFeedConfigs = async (
+  env: NodeJS.ProcessEnv = process.env
+): Promise<InventoryFeedConfig[]> => {
+  let raw = env.INVENTORY_FEEDS;
+  if (!raw && env.INVENTORY_FEEDS_FILE) {
+    raw = await readFile(resolve(env.INVENTORY_FEEDS_FILE), "utf8");
+  }
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new FeedError("Inventory feed configuration is not valid JSON.");
+  }
+  const result = z.array(FeedConfigSchema).safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new FeedError(
+      `Inventory feed configuration is invalid${issue ? ` at ${issue.path.join(".")}: ${issue.message}` : "."}`
+    );
+  }
+  const ids = new Set<string>();
+  for (const feed of result.data) {
+    if (ids.has(feed.id)) throw new FeedError(`Inventory feed "${feed.id}" is configured twice.`);
+    ids.add(feed.id);
+  }
+  return result.data;
+};
+
+/**
+ * Whether the cron tick at `now` is one this feed runs on: the first tick of
+ * each `everyMinutes` window since the epoch, so a missed tick waits for the
+ * next window instead of running twice.
+ */
+export const isFeedDue = (feed: Pick<InventoryFeedConfig, "everyMinutes">, now: Date): boolean =>
+  Math.floor(now.getTime() / 60_000) % feed.everyMinutes < CRON_TICK_MINUTES;
+
+export interface FeedSource {
+  text: string;
+  /** File name or content type, for format detection. */
+  hint: string;
+}
+
+/**
+ * The response body as text, read as a stream and abandoned once it passes
+ * MAX_FEED_BYTES, so a feed without a Content-Length can't fill memory.
+ */
+const readCappedBody = async (response: Response): Promise<string> => {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > MAX_FEED_BYTES) {
+      await reader.cancel().catch(() => {});
+      throw new FeedError("Feed is larger than 20 MB.");
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+export const readFeedSource = async (
+  source: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<FeedSource> => {
+  if (!/^https?:\/\//i.test(source)) {
+    const text = await readFile(resolve(source), "utf8").catch(() => {
+      throw new FeedError(`Feed file ${source} could not be read.`);
+    });
+    if (text.length > MAX_FEED_BYTES) throw new FeedError("Feed is larger than 20 MB.");
+    return { text, hint: source };
+  }
+
+  const response = await fetchImpl(source, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    headers: { Accept: "application/xml, application/json, text/csv, */*" },
+  }).catch(() => {
+    throw new FeedError("Feed URL could not be reached.");
+  });
+  if (!response.ok) throw new FeedError(`Feed URL returned HTTP ${response.status}.`);
+  const length = Number(response.headers.get("content-length") ?? 0);
+  if (length > MAX_FEED_BYTES) throw new FeedError("Feed is larger than 20 MB.");
+  const text = await readCappedBody(response);
+  return {
+    text,
+    hint: `${response.headers.get("content-type") ?? ""} ${new URL(source).pathname}`,
+  };
+};
+
+export interface FeedRunResult {
+  feed: string;
+  status: "ok" | "error";
+  format?: InventoryFeedFormat;
+  parsed: number;
+  skipped: number;
+  reasons: string[];
+  added: number;
+  updated: number;
+  removed: number;
+  failed: number;
+  unchanged: number;
+  /** Sold marks held back because the feed left out too much of the lot. */
+  heldBackSold: number;
+  error?: string;
+  correlationId?: string;
+}
+
+export interface FeedRunDeps {
+  pbUrl: string;
+  fetchImpl?: typeof fetch;
+  createClient?: (url: string) => PocketBase;
+}
+
+const emptyResult = (feed: string): FeedRunResult => ({
+  feed,
+  status: "ok",
+  parsed: 0,
+  skipped: 0,
+  reasons: [],
+  added: 0,
+  updated: 0,
+  removed: 0,
+  failed: 0,
+  unchanged: 0,
+  heldBackSold: 0,
+});
+
+export const runInventoryFeed = async (
+  feed: InventoryFeedConfig,
+  deps: FeedRunDeps
+): Promise<FeedRunResult> => {
+  const result = emptyResult(feed.id);
+  const client = (deps.createClient ?? ((url) => new PocketBase(url)))(deps.pbUrl);
+  try {
+    const { text, hint } = await readFeedSource(feed.source, deps.fetchImpl);
+    const format = feed.format ?? detectFeedFormat(text, hint);
+    result.format = format;
+    let parsed;
+    try {
+      parsed = parseInventoryFeed(text, format);
+    } catch (error) {
+      throw new FeedError(error instanceof Error ? error.message : "Feed could not be parsed.");
+    }
+    result.parsed = parsed.vehicles.length;
+    result.skipped = parsed.skipped;
+    result.reasons = parsed.reasons;
+
+    const auth = await client
+      .collection("users")
+      .authWithPassword(feed.email, feed.password)
+      .catch(() => {
+        throw new FeedError("Feed user could not sign in.");
+      });
+    const record = auth.record as { role?: string; dealer?: string };
+    if (record.role !== "admin" || !record.dealer) {
+      throw new FeedError("Feed user must be an admin of the dealership the feed belongs to.");
+    }
+    const dealerId = record.dealer;
+
+    const existing = await client.collection("inventory").getFullList<InventoryItem>({
+      filter: client.filter("dealer = {:dealer}", { dealer: dealerId }),
+    });
+    let plan = planInventorySync(existing, parsed.vehicles.map(toInventorySyncItem), {
+      markMissingSold: feed.markMissingSold,
+    });
+    if (looksLikeMassSold(plan)) {
+      result.heldBackSold = plan.markSold.length;
+      plan = { ...plan, markSold: [] };
+      feedLogger.warn("Held back sold marks for a feed that leaves out much of the lot", {
+        feed: feed.id,
+        heldBack: result.heldBackSold,
+        onLot: plan.onLot,
+      });
+    }
+    result.unchanged = plan.unchanged;
+
+    const counts = await writeInventorySync(client, dealerId, plan, {
+      onHistoryError: (vin, error) =>
+        feedLogger.warn("Failed to record inventory history", { feed: feed.id, vin, error }),
+    });
+    Object.assign(result, counts);
+    feedLogger.info("Inventory feed synced", { ...result, reasons: undefined });
+  } catch (error) {
+    result.status = "error";
+    if (error instanceof FeedError) {
+      result.error = error.message;
+      feedLogger.warn("Inventory feed failed", { feed: feed.id, error: error.message });
+    } else {
+      // Backend detail stays in the server log, tied to the id. [B9]
+      result.correlationId = randomUUID();
+      result.error = "Feed sync failed.";
+      feedLogger.error(`Inventory feed ${feed.id} failed ${result.correlationId}`, error);
+    }
+  } finally {
+    client.authStore.clear();
+  }
+  return result;
+};
+
+const sendJson = (response: ServerResponse, statusCode: number, payload: unknown): void => {
+  response.statusCode = statusCode;
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  response.end(JSON.stringify(payload));
+};
+
+const hasCronSecret = (request: IncomingMessage, secret: string): boolean => {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(request.headers.authorization ?? "");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export const handleInventoryFeedRequest = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  options: { env?: NodeJS.ProcessEnv; now?: Date; deps?: Omit<FeedRunDeps, "pbUrl"> } = {}
+): Promise<void> => {
+  const env = options.env ?? process.env;
+  if (request.method !== "GET" && request.method !== "POST") {
+    sendJson(response, 405, { ok: false, error: "Method not allowed." });
+    return;
+  }
+  // No secret configured means no caller can be trusted. Fail closed.
+  const secret = env.CRON_SECRET;
+  if (!secret || !hasCronSecret(request, secret)) {
+    sendJson(response, 401, { ok: false, error: "Unauthorized." });
+    return;
+  }
+  const pbUrl = env.PB_INTERNAL_URL ?? env.POCKETBASE_URL ?? env.VITE_POCKETBASE_URL;
+  if (!pbUrl) {
+    sendJson(response, 503, { ok: false, error: "PocketBase URL is not configured." });
+    return;
+  }
+
+  let feeds: InventoryFeedConfig[];
+  try {
+    feeds = await loadFeedConfigs(env);
+  } catch (error) {
+    feedLogger.error("Inventory feed configuration failed to load", error);
+    sendJson(response, 500, {
+      ok: false,
+      error: error instanceof FeedError ? error.message : "Inventory feed configuration failed.",
+    });
+    return;
+  }
+
+  const requested = new URL(request.url ?? "/", "http://localhost").searchParams.get("feed");
+  const now = options.now ?? new Date();
+  let toRun: InventoryFeedConfig[];
+  if (requested) {
+    const feed = feeds.find((f) => f.id === requested);
+    if (!feed) {
+      sendJson(response, 404, { ok: false, error: `No inventory feed "${requested}".` });
+      return;
+    }
+    toRun = [feed];
+  } else {
+    toRun = feeds.filter((feed) => isFeedDue(feed, now));
+  }
+
+  // One at a time: feeds for the same PocketBase shouldn't write over each other's batches.
+  const results: FeedRunResult[] = [];
+  for (const feed of toRun) {
+    results.push(await runInventoryFeed(feed, { ...options.deps, pbUrl }));
+  }
+  sendJson(response, 200, {
+    ok: results.every((r) => r.status === "ok"),
+    at: now.toISOString(),
+    results,
+  });
+};
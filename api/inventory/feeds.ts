@@ -0,0 +1,19 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { handleInventoryFeedRequest } from "../_lib/inventory/feedImport.js";
+
+/**
+ * Vercel serverless handler for /api/inventory/feeds, called by the cron in
+ * vercel.json. See api/_lib/inventory/feedImport.ts. Vercel env vars:
+ *   CRON_SECRET           — Vercel sends it as the cron's bearer token
+ *   PB_INTERNAL_URL       — e.g. https://ltv-desking-pro-api.fly.dev
+ *   INVENTORY_FEEDS       — JSON array of feeds (or INVENTORY_FEEDS_FILE, a path)
+ */
+
+export const config = {
+  // A large feed is a few thousand PocketBase writes.
+  maxDuration: 300,
+};
+
+export default async function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  await handleInventoryFeedRequest(req, res);
+}
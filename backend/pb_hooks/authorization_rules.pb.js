@@ -89,6 +89,20 @@ onBootstrap((e) => {
         updateRule: SAME_DEALER_ADMIN,
         deleteRule: SAME_DEALER_ADMIN,
       },
+      deal_submissions: {
+        listRule: SAME_DEALER,
+        viewRule: SAME_DEALER,
+        createRule: SAME_DEALER_CREATE,
+        updateRule: SAME_DEALER,
+        deleteRule: SAME_DEALER_ADMIN,
+      },
+      inventory_history: {
+        listRule: SAME_DEALER,
+        viewRule: SAME_DEALER,
+        createRule: SAME_DEALER_ADMIN_CREATE,
+        updateRule: null,
+        deleteRule: SAME_DEALER_ADMIN,
+      },
       deal_events: {
         listRule: DEAL_EVENTS_READ,
         viewRule: DEAL_EVENTS_READ,
@@ -245,6 +259,20 @@ cronAdd("authorization_rules_retry", "* * * * *", () => {
         updateRule: SAME_DEALER_ADMIN,
         deleteRule: SAME_DEALER_ADMIN,
       },
+      deal_submissions: {
+        listRule: SAME_DEALER,
+        viewRule: SAME_DEALER,
+        createRule: SAME_DEALER_CREATE,
+        updateRule: SAME_DEALER,
+        deleteRule: SAME_DEALER_ADMIN,
+      },
+      inventory_history: {
+        listRule: SAME_DEALER,
+        viewRule: SAME_DEALER,
+        createRule: SAME_DEALER_ADMIN_CREATE,
+        updateRule: null,
+        deleteRule: SAME_DEALER_ADMIN,
+      },
       deal_events: {
         listRule: DEAL_EVENTS_READ,
         viewRule: DEAL_EVENTS_READ,
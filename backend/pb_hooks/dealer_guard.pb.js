@@ -72,3 +72,5 @@ registerDealerGuard("lender_profiles");
 registerDealerGuard("saved_deals");
 registerDealerGuard("dealer_settings");
 registerDealerGuard("deal_events");
+registerDealerGuard("deal_submissions");
+registerDealerGuard("inventory_history");
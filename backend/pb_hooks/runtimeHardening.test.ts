@@ -25,6 +25,7 @@ afterEach(() => {
     "onRecordCreateRequest",
     "onRecordUpdateRequest",
     "ForbiddenError",
+    "BadRequestError",
   ]) {
     clearRuntimeGlobal(name);
   }
@@ -68,6 +69,8 @@ describe("PocketBase hook runtime hardening", () => {
     bootstrapHandler?.({ next: vi.fn(), app });
     expect(save).toHaveBeenCalled();
     expect(collections.has("deal_events")).toBe(true);
+    expect(collections.has("deal_submissions")).toBe(true);
+    expect(collections.has("inventory_history")).toBe(true);
 
     // Simulate PB/Goja returning the persisted rules as string-like host
     // objects instead of primitives; the hook must treat them as equal and
@@ -169,4 +172,175 @@ describe("PocketBase hook runtime hardening", () => {
     expect(updateEvent.record.set).toHaveBeenCalledWith("user", "original-owner");
     expect(updateEvent.next).toHaveBeenCalled();
   });
+
+  it("stipulation_guard.pb.js refuses funding while a required stip is outstanding", () => {
+    let updateHandler: HookHandler | undefined;
+    setRuntimeGlobal("onRecordCreateRequest", () => undefined);
+    setRuntimeGlobal("onRecordUpdateRequest", (fn: HookHandler, name: string) => {
+      if (name === "saved_deals") updateHandler = fn;
+    });
+    setRuntimeGlobal(
+      "BadRequestError",
+      class BadRequestError extends Error {
+        constructor(message: string) {
+          super(message);
+          this.name = "BadRequestError";
+        }
+      }
+    );
+
+    new Function(hookSource("stipulation_guard.pb.js"))();
+    expect(updateHandler).toBeTypeOf("function");
+
+    const updateEvent = (fields: Record<string, string>, storedStatus = "approved") => ({
+      record: {
+        getString: (key: string) => fields[key] ?? "",
+        original: () => ({ getString: (key: string) => (key === "status" ? storedStatus : "") }),
+      },
+      next: vi.fn(),
+    });
+    const stips = (items: Record<string, unknown>[]) => JSON.stringify(items);
+
+    const blocked = updateEvent({
+      status: "funded",
+      stipulations: stips([
+        { id: "a", label: "Proof of income", required: true, status: "received" },
+        { id: "b", label: "References", required: true, status: "waived" },
+        { id: "c", label: "Bank statement", required: false, status: "needed" },
+      ]),
+    });
+    expect(() => updateHandler?.(blocked)).toThrow(/Proof of income\./);
+    expect(blocked.next).not.toHaveBeenCalled();
+
+    const cleared = updateEvent({
+      status: "funded",
+      stipulations: stips([{ id: "a", label: "Proof of income", status: "cleared" }]),
+    });
+    updateHandler?.(cleared);
+    expect(cleared.next).toHaveBeenCalled();
+
+    const alreadyFunded = updateEvent(
+      { status: "funded", stipulations: stips([{ id: "a", label: "POI", status: "needed" }]) },
+      "funded"
+    );
+    updateHandler?.(alreadyFunded);
+    expect(alreadyFunded.next).toHaveBeenCalled();
+
+    const approving = updateEvent({ status: "approved", stipulations: "not json" });
+    updateHandler?.(approving);
+    expect(approving.next).toHaveBeenCalled();
+  });
+
+  it("stipulation_guard.pb.js refuses a deal created already funded with unsettled stips", () => {
+    let createHandler: HookHandler | undefined;
+    setRuntimeGlobal("onRecordCreateRequest", (fn: HookHandler, name: string) => {
+      if (name === "saved_deals") createHandler = fn;
+    });
+    setRuntimeGlobal("onRecordUpdateRequest", () => undefined);
+    setRuntimeGlobal("BadRequestError", class BadRequestError extends Error {});
+    setRuntimeGlobal("$app", {
+      findRecordsByFilter: vi.fn(() => [
+        { getString: (key: string) => ({ name: "Test Bank", stipulations: "POI; POR" })[key] ?? "" },
+      ]),
+    });
+
+    new Function(hookSource("stipulation_guard.pb.js"))();
+    expect(createHandler).toBeTypeOf("function");
+
+    // A new record has no original() to read a stored status from.
+    const createEvent = (fields: Record<string, string>) => ({
+      record: { getString: (key: string) => fields[key] ?? "" },
+      next: vi.fn(),
+    });
+
+    const unsettled = createEvent({
+      status: "funded",
+      stipulations: JSON.stringify([{ id: "a", label: "POI", status: "needed" }]),
+    });
+    expect(() => createHandler?.(unsettled)).toThrow(/POI\./);
+    expect(unsettled.next).not.toHaveBeenCalled();
+
+    const empty = createEvent({ status: "funded", dealer: "dealer-1", lenderName: "Test Bank" });
+    expect(() => createHandler?.(empty)).toThrow(/POI, POR\./);
+
+    const draft = createEvent({ status: "draft", lenderName: "Test Bank" });
+    createHandler?.(draft);
+    expect(draft.next).toHaveBeenCalled();
+  });
+
+  it("stipulation_guard.pb.js holds a deal funded with an empty checklist to the lender's stips", () => {
+    let updateHandler: HookHandler | undefined;
+    setRuntimeGlobal("onRecordCreateRequest", () => undefined);
+    setRuntimeGlobal("onRecordUpdateRequest", (fn: HookHandler, name: string) => {
+      if (name === "saved_deals") updateHandler = fn;
+    });
+    setRuntimeGlobal("BadRequestError", class BadRequestError extends Error {});
+    const lender = (name: string, stipulations: string, fields: Record<string, string> = {}) => ({
+      getString: (key: string) => ({ name, stipulations, ...fields })[key] ?? "",
+    });
+    const findRecordsByFilter = vi.fn(() => [
+      lender("Other Bank", "Insurance"),
+      lender("Test Bank", "1. Proof of income\n2. Proof of residence"),
+      lender("No Stips CU", " "),
+      lender("Sheet CU", "Proof of income (2 stubs, 30 days)\na) References, insurance", {
+        effectiveFrom: "2026-06-01",
+        programVersions: JSON.stringify([
+          { effectiveFrom: "2026-01-01", effectiveTo: "2026-05-31", stipulations: "Old POI" },
+        ]),
+      }),
+    ]);
+    setRuntimeGlobal("$app", { findRecordsByFilter });
+
+    new Function(hookSource("stipulation_guard.pb.js"))();
+
+    const fundingEvent = (lenderName: string, stipulations = "", contractDate = "2026-07-01") => ({
+      record: {
+        getString: (key: string) =>
+          ({
+            status: "funded",
+            dealer: "dealer-1",
+            lenderName,
+            stipulations,
+            dealData: JSON.stringify({ contractDate }),
+          })[key] ?? "",
+        original: () => ({ getString: () => "pending" }),
+      },
+      next: vi.fn(),
+    });
+
+    const skipped = fundingEvent(" test bank ", "[]");
+    expect(() => updateHandler?.(skipped)).toThrow(/Proof of income, Proof of residence\./);
+    expect(skipped.next).not.toHaveBeenCalled();
+    expect(findRecordsByFilter).toHaveBeenCalledWith(
+      "lender_profiles",
+      "dealer = {:dealer}",
+      "",
+      0,
+      0,
+      { dealer: "dealer-1" }
+    );
+
+    // Split like parseStipulationText: commas inside parentheses stay with
+    // their stip, and lettered markers are stripped.
+    expect(() => updateHandler?.(fundingEvent("Sheet CU"))).toThrow(
+      /: Proof of income \(2 stubs, 30 days\), References, insurance\.$/
+    );
+    // The program in force on the contract date supplies the stips.
+    expect(() => updateHandler?.(fundingEvent("Sheet CU", "", "2026-03-15"))).toThrow(
+      /: Old POI\.$/
+    );
+
+    // A lender with no stips, an unknown lender, or a settled checklist funds.
+    for (const event of [
+      fundingEvent("No Stips CU"),
+      fundingEvent("Unknown Bank"),
+      fundingEvent(
+        "Test Bank",
+        JSON.stringify([{ id: "a", label: "Proof of income", status: "cleared" }])
+      ),
+    ]) {
+      updateHandler?.(event);
+      expect(event.next).toHaveBeenCalled();
+    }
+  });
 });
@@ -0,0 +1,183 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Refuse to fund a saved deal while a required stipulation is outstanding.
+ *
+ * The Pipeline screen blocks the "funded" transition until every required
+ * stip is cleared or waived (services/dealStipulations.ts); this hook makes
+ * the server hold the same line for any other client. A deal that is already
+ * funded stays editable. A deal funded with an empty checklist (moved straight
+ * to funded, or approved before checklists existed) is held to the approved
+ * lender's own stipulations text instead, so it cannot skip them.
+ *
+ * The same check runs on create, so a deal can't be saved as funded in one
+ * step with an empty or unsettled checklist.
+ *
+ * IMPORTANT — PocketBase JSVM scoping: handler callbacks run in pooled runtimes
+ * that DO NOT capture this file's module scope. Declare helpers INSIDE each
+ * handler (or inline), and register collections with literal names. As in
+ * dealer_guard.pb.js, the guard is built inside the register function so both
+ * events share it. [JSVM]
+ */
+const registerFundingGuard = () => {
+  const guard = (e) => {
+    if (e.record.getString("status") !== "funded") return e.next();
+
+    // A new record has no stored status; an update already funded stays editable.
+    const original = typeof e.record.original === "function" ? e.record.original() : null;
+    const storedStatus =
+      original && typeof original.getString === "function" ? original.getString("status") : "";
+    if (storedStatus === "funded") return e.next();
+
+    let stipulations = [];
+    try {
+      const parsed = JSON.parse(e.record.getString("stipulations") || "[]");
+      stipulations = Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      stipulations = [];
+    }
+
+    if (stipulations.length === 0) {
+      // Mirrors services/dealStipulations.ts: the stips text of the program in
+      // force on the deal date (lenderStipulationText), split the way
+      // parseStipulationText splits it.
+      const parseJson = (text) => {
+        try {
+          return JSON.parse(text || "null");
+        } catch (err) {
+          return null;
+        }
+      };
+
+      const isIsoDate = (value) => {
+        const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+        if (!match) return false;
+        const parsed = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+        return (
+          parsed.getUTCFullYear() === +match[1] &&
+          parsed.getUTCMonth() === +match[2] - 1 &&
+          parsed.getUTCDate() === +match[3]
+        );
+      };
+
+      const stipulationText = (lender, date) => {
+        const versions = [];
+        const stored = parseJson(lender.getString("programVersions"));
+        for (const version of Array.isArray(stored) ? stored : []) {
+          if (!version || typeof version !== "object") continue;
+          versions.push({
+            from: String(version.effectiveFrom || ""),
+            to: String(version.effectiveTo || ""),
+            stipulations: typeof version.stipulations === "string" ? version.stipulations : "",
+            current: false,
+          });
+        }
+        versions.push({
+          from: lender.getString("effectiveFrom"),
+          to: lender.getString("effectiveTo"),
+          stipulations: lender.getString("stipulations"),
+          current: true,
+        });
+        // Latest effective date wins an overlap; the current program wins a tie.
+        versions.sort(
+          (a, b) => a.from.localeCompare(b.from) || Number(a.current) - Number(b.current)
+        );
+        const inForce = versions.filter(
+          (v) => (!v.from || v.from <= date) && (!v.to || date <= v.to)
+        );
+        const chosen = inForce[inForce.length - 1];
+        return chosen ? chosen.stipulations : lender.getString("stipulations");
+      };
+
+      const parseStipulations = (text) => {
+        const items = [];
+        let depth = 0;
+        let current = "";
+        for (const char of text) {
+          if (char === "(") depth++;
+          if (char === ")") depth = Math.max(0, depth - 1);
+          if (char === "\n" || char === ";" || char === "•" || (char === "," && depth === 0)) {
+            items.push(current);
+            current = "";
+          } else {
+            current += char;
+          }
+        }
+        items.push(current);
+
+        const seen = {};
+        const labels = [];
+        for (const raw of items) {
+          const label = raw
+            .trim()
+            .replace(/^(?:[-*•·]|\d+[.)]|[a-z][.)])\s+/i, "")
+            .replace(/\.$/, "")
+            .trim();
+          const key = label.toLowerCase();
+          if (!label || seen[key]) continue;
+          seen[key] = true;
+          labels.push(label);
+        }
+        return labels;
+      };
+
+      const lenderName = e.record.getString("lenderName").trim().toLowerCase();
+      let lenderStips = [];
+      if (lenderName) {
+        let lenders = [];
+        try {
+          lenders = $app.findRecordsByFilter(
+            "lender_profiles",
+            "dealer = {:dealer}",
+            "",
+            0,
+            0,
+            { dealer: e.record.getString("dealer") }
+          );
+        } catch (err) {
+          lenders = [];
+        }
+        const lender = (lenders || []).find(
+          (record) => record.getString("name").trim().toLowerCase() === lenderName
+        );
+        if (lender) {
+          // The contract date when one is entered, otherwise today (dealDate).
+          const dealData = parseJson(e.record.getString("dealData")) || {};
+          const contractDate = String(dealData.contractDate || "").trim();
+          const date = isIsoDate(contractDate)
+            ? contractDate
+            : new Date().toISOString().slice(0, 10);
+          lenderStips = parseStipulations(stipulationText(lender, date));
+        }
+      }
+      if (lenderStips.length > 0) {
+        throw new BadRequestError(
+          "Add the lender's stipulations to this deal and clear them before funding: " +
+            lenderStips.join(", ") +
+            "."
+        );
+      }
+    }
+
+    const outstanding = stipulations.filter(
+      (item) =>
+        item &&
+        item.required !== false &&
+        item.status !== "cleared" &&
+        item.status !== "waived"
+    );
+    if (outstanding.length > 0) {
+      const labels = outstanding.map((item) => String(item.label || "stip")).join(", ");
+      throw new BadRequestError(
+        "Clear the required stipulations before funding this deal: " + labels + "."
+      );
+    }
+
+    return e.next();
+  };
+
+  onRecordCreateRequest(guard, "saved_deals");
+  onRecordUpdateRequest(guard, "saved_deals");
+};
+
+registerFundingGuard();
@@ -0,0 +1,61 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Dealer reserve inputs for `lender_profiles`, consumed by the desk's
+ * per-lender reserve ranking (services/dealerReserve.ts).
+ *
+ *  - maxMarkup: max APR points the dealer may add over the buy rate.
+ *  - flatReservePct: flat reserve as a % of amount financed; when set it
+ *    replaces the reservePct split model for that lender.
+ *
+ * Same guarded, field-level idempotency as 1747810001_lender_profiles_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      console.log("[skip] lender_profiles collection not found");
+      return;
+    }
+
+    let changed = false;
+
+    if (!collection.fields.getByName("maxMarkup")) {
+      collection.fields.add(
+        new NumberField({ name: "maxMarkup", required: false, min: 0, max: 10 })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] lender_profiles.maxMarkup already present");
+    }
+
+    if (!collection.fields.getByName("flatReservePct")) {
+      collection.fields.add(
+        new NumberField({ name: "flatReservePct", required: false, min: 0, max: 10 })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] lender_profiles.flatReservePct already present");
+    }
+
+    if (changed) app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    for (const fieldName of ["maxMarkup", "flatReservePct"]) {
+      if (collection.fields.getByName(fieldName)) {
+        collection.fields.removeByName(fieldName);
+      }
+    }
+    app.save(collection);
+  }
+);
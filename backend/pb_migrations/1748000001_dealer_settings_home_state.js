@@ -0,0 +1,44 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Dealership home state for `dealer_settings`, consumed by the tax engine's
+ * out-of-state buyer rules (services/taxRules.ts).
+ *
+ *  - homeState: two-letter state of the dealership itself. `defaultState`
+ *    stays the default BUYER state; before this field every dealer was
+ *    assumed to be in Michigan, which is still the client fallback when unset.
+ *
+ * Same guarded, field-level idempotency as 1747810002_dealer_settings_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      console.log("[skip] dealer_settings collection not found");
+      return;
+    }
+
+    if (!collection.fields.getByName("homeState")) {
+      collection.fields.add(new TextField({ name: "homeState", required: false, max: 50 }));
+      app.save(collection);
+    } else {
+      console.log("[skip] dealer_settings.homeState already present");
+    }
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    if (collection.fields.getByName("homeState")) {
+      collection.fields.removeByName("homeState");
+      app.save(collection);
+    }
+  }
+);
@@ -0,0 +1,72 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Joint-application rules for `lender_profiles`, read by the rules engine
+ * through services/coBuyer.ts.
+ *
+ *  - coBuyerFico: whose score the lender underwrites ("primary" | "highest").
+ *  - coBuyerIncome: whether co-buyer income and debt count for PTI/DTI
+ *    ("primary" | "combined").
+ *
+ * Both optional; unset means primary score and combined income.
+ * Same guarded, field-level idempotency as 1747810001_lender_profiles_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      console.log("[skip] lender_profiles collection not found");
+      return;
+    }
+
+    let changed = false;
+
+    if (!collection.fields.getByName("coBuyerFico")) {
+      collection.fields.add(
+        new SelectField({
+          name: "coBuyerFico",
+          required: false,
+          values: ["primary", "highest"],
+          maxSelect: 1,
+        })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] lender_profiles.coBuyerFico already present");
+    }
+
+    if (!collection.fields.getByName("coBuyerIncome")) {
+      collection.fields.add(
+        new SelectField({
+          name: "coBuyerIncome",
+          required: false,
+          values: ["primary", "combined"],
+          maxSelect: 1,
+        })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] lender_profiles.coBuyerIncome already present");
+    }
+
+    if (changed) app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    for (const fieldName of ["coBuyerFico", "coBuyerIncome"]) {
+      if (collection.fields.getByName(fieldName)) {
+        collection.fields.removeByName(fieldName);
+      }
+    }
+    app.save(collection);
+  }
+);
@@ -0,0 +1,71 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Dated rate sheets for `lender_profiles`, resolved by the rules engine
+ * through services/lenderPrograms.ts.
+ *
+ *  - effectiveFrom / effectiveTo: window of the current program, "YYYY-MM-DD",
+ *    inclusive. Either end may be blank (open).
+ *  - programVersions: JSON array of superseded and scheduled sheets, each with
+ *    its own window, lender limits and tiers.
+ *
+ * Profiles without any of these stay undated and always in force. The legacy
+ * free-text `effectiveDate` is left as printed on the sheet.
+ * Same guarded, field-level idempotency as 1747810001_lender_profiles_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      console.log("[skip] lender_profiles collection not found");
+      return;
+    }
+
+    let changed = false;
+
+    for (const fieldName of ["effectiveFrom", "effectiveTo"]) {
+      if (!collection.fields.getByName(fieldName)) {
+        collection.fields.add(
+          new TextField({
+            name: fieldName,
+            required: false,
+            max: 10,
+            pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+          })
+        );
+        changed = true;
+      } else {
+        console.log(`[skip] lender_profiles.${fieldName} already present`);
+      }
+    }
+
+    if (!collection.fields.getByName("programVersions")) {
+      collection.fields.add(
+        new JSONField({ name: "programVersions", required: false, maxSize: 2000000 })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] lender_profiles.programVersions already present");
+    }
+
+    if (changed) app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    for (const fieldName of ["effectiveFrom", "effectiveTo", "programVersions"]) {
+      if (collection.fields.getByName(fieldName)) {
+        collection.fields.removeByName(fieldName);
+      }
+    }
+    app.save(collection);
+  }
+);
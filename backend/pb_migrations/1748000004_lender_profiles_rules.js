@@ -0,0 +1,46 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Lender-wide custom rules for `lender_profiles`, evaluated by the rules
+ * engine through services/lenderRules.ts.
+ *
+ *  - rules: JSON array of { when, outcome, rateAdder?, message? }, where
+ *    `when` is a condition in the lender rule language and outcome is
+ *    "ineligible" | "pending-stip" | "rate-adder".
+ *
+ * Tier-level rules live inside the existing `tiers` JSON and need no field.
+ * Same guarded, field-level idempotency as 1747810001_lender_profiles_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      console.log("[skip] lender_profiles collection not found");
+      return;
+    }
+
+    if (collection.fields.getByName("rules")) {
+      console.log("[skip] lender_profiles.rules already present");
+      return;
+    }
+
+    collection.fields.add(new JSONField({ name: "rules", required: false, maxSize: 200000 }));
+    app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    if (collection.fields.getByName("rules")) {
+      collection.fields.removeByName("rules");
+      app.save(collection);
+    }
+  }
+);
@@ -0,0 +1,73 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Stipulation checklist for `saved_deals` (services/dealStipulations.ts).
+ *
+ *  - stipulations: JSON array of { id, label, required, status, documents?,
+ *    note?, updatedAt? } where status is "needed" | "received" | "cleared" |
+ *    "waived". Seeded from the approved lender's stipulations text.
+ *  - stipulationDocs: protected file field holding the documents uploaded
+ *    against those stips; each stip lists the file names that belong to it.
+ *
+ * pb_hooks/stipulation_guard.pb.js refuses the "funded" status while a
+ * required stip is outstanding. Same guarded, field-level idempotency as
+ * 1747810000_saved_deals_pipeline_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("saved_deals");
+    } catch (e) {
+      console.log("[skip] saved_deals collection not found");
+      return;
+    }
+
+    let changed = false;
+
+    if (!collection.fields.getByName("stipulations")) {
+      collection.fields.add(
+        new JSONField({ name: "stipulations", required: false, maxSize: 200000 })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] saved_deals.stipulations already present");
+    }
+
+    if (!collection.fields.getByName("stipulationDocs")) {
+      collection.fields.add(
+        new FileField({
+          name: "stipulationDocs",
+          required: false,
+          maxSelect: 50,
+          maxSize: 10485760,
+          protected: true,
+          mimeTypes: ["application/pdf", "image/jpeg", "image/png", "image/heic", "image/webp"],
+        })
+      );
+      changed = true;
+    } else {
+      console.log("[skip] saved_deals.stipulationDocs already present");
+    }
+
+    if (changed) app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("saved_deals");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    let changed = false;
+    for (const name of ["stipulations", "stipulationDocs"]) {
+      if (collection.fields.getByName(name)) {
+        collection.fields.removeByName(name);
+        changed = true;
+      }
+    }
+    if (changed) app.save(collection);
+  }
+);
@@ -0,0 +1,121 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Per-lender submission history for saved deals (services/lenderDecisions.ts).
+ *
+ * saved_deals keeps one `status` and `lenderName`, so a deal sent to several
+ * lenders lost what each one said. Each row here is one submission: the
+ * lender, when it went out, and the decision that came back — approved
+ * amount/rate/term, counter conditions or decline reason.
+ *
+ * Rules match saved_deals (same-dealer read/write, admin delete); the
+ * dealer_guard hook force-stamps `dealer` and authorization_rules.pb.js
+ * reasserts the rules. Same create-then-apply-rules pattern as
+ * 1747800002_create_deal_events.
+ */
+migrate(
+  (app) => {
+    try {
+      app.findCollectionByNameOrId("deal_submissions");
+      console.log("[skip] deal_submissions already exists");
+      return;
+    } catch {
+      // proceed
+    }
+
+    let dealersId, savedDealsId;
+    try {
+      dealersId = app.findCollectionByNameOrId("dealers").id;
+      savedDealsId = app.findCollectionByNameOrId("saved_deals").id;
+    } catch {
+      console.log("[SKIP-DRIFT-RISK] deal_submissions: dealers/saved_deals collection missing");
+      return;
+    }
+
+    const collection = new Collection({
+      type: "base",
+      name: "deal_submissions",
+      listRule: null,
+      viewRule: null,
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [
+        new RelationField({
+          name: "dealer",
+          required: true,
+          collectionId: dealersId,
+          maxSelect: 1,
+          cascadeDelete: false,
+        }),
+        new RelationField({
+          name: "deal",
+          required: true,
+          collectionId: savedDealsId,
+          maxSelect: 1,
+          cascadeDelete: true,
+        }),
+        new TextField({ name: "lenderName", required: true, max: 200 }),
+        new DateField({ name: "submittedAt", required: true }),
+        new SelectField({
+          name: "decision",
+          required: true,
+          values: ["pending", "approved", "countered", "declined"],
+          maxSelect: 1,
+        }),
+        new DateField({ name: "decidedAt", required: false }),
+        new NumberField({ name: "approvedAmount", required: false, min: 0 }),
+        new NumberField({ name: "approvedRate", required: false, min: 0 }),
+        new NumberField({ name: "approvedTerm", required: false, min: 0, onlyInt: true }),
+        new TextField({ name: "conditions", required: false, max: 2000 }),
+        new TextField({ name: "declineReason", required: false, max: 500 }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE INDEX IF NOT EXISTS idx_deal_submissions_dealer ON deal_submissions (dealer)",
+        "CREATE INDEX IF NOT EXISTS idx_deal_submissions_deal ON deal_submissions (deal)",
+        "CREATE INDEX IF NOT EXISTS idx_deal_submissions_lender ON deal_submissions (lenderName)",
+      ],
+    });
+
+    app.save(collection);
+
+    // Best-effort rule application; if the fresh-boot schema cache cannot
+    // resolve the auth fields yet, authorization_rules.pb.js applies the same
+    // rules once the app is up. Fail-closed either way.
+    const USER_IDENTITY =
+      '(@request.auth.collectionName = "users" && @request.auth.id != "" && @request.auth.active = true)';
+    const APP_ACTIVE =
+      `(${USER_IDENTITY} && (` +
+      '@request.auth.role = "superadmin" || @request.auth.dealer.active = true))';
+    const SAME_DEALER = `${APP_ACTIVE} && (@request.auth.role = "superadmin" || dealer = @request.auth.dealer)`;
+    const SAME_DEALER_CREATE = `${APP_ACTIVE} && (@request.auth.role = "superadmin" || @request.body.dealer = @request.auth.dealer)`;
+    const SAME_DEALER_ADMIN =
+      `${APP_ACTIVE} && (` +
+      '@request.auth.role = "superadmin" || (@request.auth.role = "admin" && dealer = @request.auth.dealer))';
+    try {
+      const saved = app.findCollectionByNameOrId("deal_submissions");
+      saved.listRule = SAME_DEALER;
+      saved.viewRule = SAME_DEALER;
+      saved.createRule = SAME_DEALER_CREATE;
+      saved.updateRule = SAME_DEALER;
+      saved.deleteRule = SAME_DEALER_ADMIN;
+      app.save(saved);
+      console.log("[ok] deal_submissions rules applied");
+    } catch (e) {
+      console.log(
+        "[SKIP-DRIFT-RISK] deal_submissions rules not applied (fresh-boot schema cache) — collection is admin-only until the bootstrap assertion runs: " +
+          e
+      );
+    }
+  },
+  (app) => {
+    try {
+      const c = app.findCollectionByNameOrId("deal_submissions");
+      app.delete(c);
+    } catch {
+      // already gone
+    }
+  }
+);
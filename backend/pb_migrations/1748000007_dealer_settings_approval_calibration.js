@@ -0,0 +1,47 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Per-dealership approval-odds calibration for `dealer_settings`
+ * (services/approvalCalibration.ts).
+ *
+ *  - approvalCalibration: JSON { weights, curve, sampleSize, approved,
+ *    declined, brier, defaultBrier, fittedAt } fitted from the dealer's own
+ *    approved/funded vs declined saved deals. Null means the scorer uses the
+ *    default APPROVAL_CONFIG formula.
+ *
+ * Same guarded, field-level idempotency as 1748000001_dealer_settings_home_state.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      console.log("[skip] dealer_settings collection not found");
+      return;
+    }
+
+    if (!collection.fields.getByName("approvalCalibration")) {
+      collection.fields.add(
+        new JSONField({ name: "approvalCalibration", required: false, maxSize: 20000 })
+      );
+      app.save(collection);
+    } else {
+      console.log("[skip] dealer_settings.approvalCalibration already present");
+    }
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    if (collection.fields.getByName("approvalCalibration")) {
+      collection.fields.removeByName("approvalCalibration");
+      app.save(collection);
+    }
+  }
+);
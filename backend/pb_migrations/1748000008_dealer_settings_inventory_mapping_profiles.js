@@ -0,0 +1,46 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Saved inventory-import column mappings for `dealer_settings`
+ * (services/columnMapping.ts).
+ *
+ *  - inventoryMappingProfiles: JSON array of { id, name, signature, mapping,
+ *    updatedAt }, one per export layout (DMS, vAuto, auction). An upload
+ *    whose header signature matches a profile imports with its mapping.
+ *
+ * Same guarded, field-level idempotency as 1748000001_dealer_settings_home_state.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      console.log("[skip] dealer_settings collection not found");
+      return;
+    }
+
+    if (!collection.fields.getByName("inventoryMappingProfiles")) {
+      collection.fields.add(
+        new JSONField({ name: "inventoryMappingProfiles", required: false, maxSize: 100000 })
+      );
+      app.save(collection);
+    } else {
+      console.log("[skip] dealer_settings.inventoryMappingProfiles already present");
+    }
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("dealer_settings");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    if (collection.fields.getByName("inventoryMappingProfiles")) {
+      collection.fields.removeByName("inventoryMappingProfiles");
+      app.save(collection);
+    }
+  }
+);
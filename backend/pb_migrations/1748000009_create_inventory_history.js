@@ -0,0 +1,112 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Per-VIN price/book/mileage history for inventory (services/inventoryHistory.ts).
+ *
+ * syncInventory overwrites price, unitCost, jdPower, jdPowerRetail and
+ * mileage in place, so a repricing left no trace. Each row here is one sync
+ * that changed at least one of them: the unit, its VIN (kept so the history
+ * still reads after a unit is re-created) and a `changes` list of
+ * { field, before, after }.
+ *
+ * Append-only: same-dealer read, admin create (only admins sync inventory),
+ * no updates, admin delete for offboarding. Rows cascade with the inventory
+ * record. dealer_guard force-stamps `dealer` and authorization_rules.pb.js
+ * reasserts the rules. Same create-then-apply-rules pattern as
+ * 1748000006_create_deal_submissions.
+ */
+migrate(
+  (app) => {
+    try {
+      app.findCollectionByNameOrId("inventory_history");
+      console.log("[skip] inventory_history already exists");
+      return;
+    } catch {
+      // proceed
+    }
+
+    let dealersId, inventoryId;
+    try {
+      dealersId = app.findCollectionByNameOrId("dealers").id;
+      inventoryId = app.findCollectionByNameOrId("inventory").id;
+    } catch {
+      console.log("[SKIP-DRIFT-RISK] inventory_history: dealers/inventory collection missing");
+      return;
+    }
+
+    const collection = new Collection({
+      type: "base",
+      name: "inventory_history",
+      listRule: null,
+      viewRule: null,
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [
+        new RelationField({
+          name: "dealer",
+          required: true,
+          collectionId: dealersId,
+          maxSelect: 1,
+          cascadeDelete: false,
+        }),
+        new RelationField({
+          name: "inventory",
+          required: true,
+          collectionId: inventoryId,
+          maxSelect: 1,
+          cascadeDelete: true,
+        }),
+        new TextField({ name: "vin", required: true, max: 32 }),
+        new JSONField({ name: "changes", required: true, maxSize: 20000 }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE INDEX IF NOT EXISTS idx_inventory_history_dealer ON inventory_history (dealer)",
+        "CREATE INDEX IF NOT EXISTS idx_inventory_history_vin ON inventory_history (dealer, vin)",
+      ],
+    });
+
+    app.save(collection);
+
+    // Best-effort rule application; if the fresh-boot schema cache cannot
+    // resolve the auth fields yet, authorization_rules.pb.js applies the same
+    // rules once the app is up. Fail-closed either way.
+    const USER_IDENTITY =
+      '(@request.auth.collectionName = "users" && @request.auth.id != "" && @request.auth.active = true)';
+    const APP_ACTIVE =
+      `(${USER_IDENTITY} && (` +
+      '@request.auth.role = "superadmin" || @request.auth.dealer.active = true))';
+    const SAME_DEALER = `${APP_ACTIVE} && (@request.auth.role = "superadmin" || dealer = @request.auth.dealer)`;
+    const SAME_DEALER_ADMIN =
+      `${APP_ACTIVE} && (` +
+      '@request.auth.role = "superadmin" || (@request.auth.role = "admin" && dealer = @request.auth.dealer))';
+    const SAME_DEALER_ADMIN_CREATE =
+      `${APP_ACTIVE} && (` +
+      '@request.auth.role = "superadmin" || (@request.auth.role = "admin" && @request.body.dealer = @request.auth.dealer))';
+    try {
+      const saved = app.findCollectionByNameOrId("inventory_history");
+      saved.listRule = SAME_DEALER;
+      saved.viewRule = SAME_DEALER;
+      saved.createRule = SAME_DEALER_ADMIN_CREATE;
+      saved.updateRule = null;
+      saved.deleteRule = SAME_DEALER_ADMIN;
+      app.save(saved);
+      console.log("[ok] inventory_history rules applied");
+    } catch (e) {
+      console.log(
+        "[SKIP-DRIFT-RISK] inventory_history rules not applied (fresh-boot schema cache) — collection is admin-only until the bootstrap assertion runs: " +
+          e
+      );
+    }
+  },
+  (app) => {
+    try {
+      const c = app.findCollectionByNameOrId("inventory_history");
+      app.delete(c);
+    } catch {
+      // already gone
+    }
+  }
+);
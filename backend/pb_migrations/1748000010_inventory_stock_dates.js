@@ -0,0 +1,67 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * In-stock and sold dates for `inventory` (services/inventoryAging.ts).
+ *
+ *  - inStockAt: when the unit arrived. Set by syncInventory on create, and
+ *    again when a unit marked sold comes back in a later feed.
+ *  - soldAt: when a full-feed import marked the unit sold; cleared if it
+ *    comes back.
+ *
+ * Existing rows are backfilled with the best dates on hand: `created` for
+ * inStockAt, and `updated` for soldAt on units already marked sold (the
+ * sold flip is the last write a feed makes to a unit). Field adds use the
+ * same guarded idempotency as 1748000001_dealer_settings_home_state; the
+ * backfill only touches rows whose date is still empty.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("inventory");
+    } catch (e) {
+      console.log("[skip] inventory collection not found");
+      return;
+    }
+
+    let changed = false;
+    for (const name of ["inStockAt", "soldAt"]) {
+      if (!collection.fields.getByName(name)) {
+        collection.fields.add(new DateField({ name, required: false }));
+        changed = true;
+      } else {
+        console.log(`[skip] inventory.${name} already present`);
+      }
+    }
+    if (changed) app.save(collection);
+
+    let backfilled = 0;
+    for (const record of app.findRecordsByFilter("inventory", 'inStockAt = ""', "", 0, 0)) {
+      record.set("inStockAt", record.get("created"));
+      if (record.getString("status") === "sold" && !record.getString("soldAt")) {
+        record.set("soldAt", record.get("updated"));
+      }
+      app.save(record);
+      backfilled++;
+    }
+    console.log(`[ok] backfilled stock dates on ${backfilled} inventory records`);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("inventory");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    let changed = false;
+    for (const name of ["inStockAt", "soldAt"]) {
+      if (collection.fields.getByName(name)) {
+        collection.fields.removeByName(name);
+        changed = true;
+      }
+    }
+    if (changed) app.save(collection);
+  }
+);
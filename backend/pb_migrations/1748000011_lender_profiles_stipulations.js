@@ -0,0 +1,45 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * The lender's own stipulations text for `lender_profiles`, as read off the
+ * rate sheet (proof of income, references …).
+ *
+ *  - stipulations: free text, one stip per line or separated by semicolons or
+ *    commas. Seeds a deal's stip checklist (services/dealStipulations.ts), and
+ *    stipulation_guard.pb.js holds a deal funded with an empty checklist to it.
+ *
+ * Same guarded, field-level idempotency as 1747810001_lender_profiles_desk_fields.
+ */
+migrate(
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      console.log("[skip] lender_profiles collection not found");
+      return;
+    }
+
+    if (collection.fields.getByName("stipulations")) {
+      console.log("[skip] lender_profiles.stipulations already present");
+      return;
+    }
+
+    collection.fields.add(new TextField({ name: "stipulations", required: false, max: 5000 }));
+    app.save(collection);
+  },
+  (app) => {
+    let collection;
+    try {
+      collection = app.findCollectionByNameOrId("lender_profiles");
+    } catch (e) {
+      // already gone
+      return;
+    }
+
+    if (collection.fields.getByName("stipulations")) {
+      collection.fields.removeByName("stipulations");
+      app.save(collection);
+    }
+  }
+);
@@ -2,6 +2,7 @@ import React, { useState, useCallback, useRef } from "react";
 import type { LenderProfile, Settings } from "../types";
 import { processLenderSheet, type ProcessingProgress } from "../services/aiProcessor";
 import { saveLenderProfile, updateLenderProfile } from "../lib/api";
+import { parseSheetDate, supersedeProgram, todayIso } from "../services/lenderPrograms";
 import { createLogger } from "../lib/logger";
 import Button from "./common/Button";
 
@@ -405,11 +406,17 @@ const AiLenderManagerModal: React.FC<AiLenderManagerModalProps> = ({
           (p) => p.name.toLowerCase() === newProfileData.name!.toLowerCase()
         );
 
+        const sheetDate = parseSheetDate(newProfileData.effectiveDate);
+
         if (existingProfile) {
-          // Update existing profile in PocketBase
+          // A new sheet becomes the current program; the one it replaces is
+          // kept as a dated version instead of being overwritten.
           const updatedProfile = await updateLenderProfile(existingProfile.id, {
             ...newProfileData,
             tiers: newProfileData.tiers || existingProfile.tiers,
+            ...(newProfileData.tiers
+              ? supersedeProgram(existingProfile, sheetDate ?? todayIso())
+              : {}),
           });
 
           if (updatedProfile) {
@@ -429,6 +436,7 @@ const AiLenderManagerModal: React.FC<AiLenderManagerModalProps> = ({
             name: newProfileData.name!,
             active: true,
             tiers: newProfileData.tiers || [],
+            ...(sheetDate ? { effectiveFrom: sheetDate } : {}),
           } satisfies Parameters<typeof saveLenderProfile>[0]);
 
           if (savedProfile) {
@@ -1,6 +1,7 @@
 import React, { useState, useMemo, lazy, Suspense } from "react";
 import { calculateMonthlyPayment, calculateLoanAmount } from "../services/calculator";
-import { formatCurrency } from "./common/TableCell";
+import { buildAmortizationSchedule } from "../services/amortization";
+import { formatCurrency, formatCurrencyExact } from "./common/TableCell";
 import * as Icons from "./common/Icons";
 import { DealData, CalculatedVehicle, LenderProfile, FilterData } from "../types";
 import { DocumentScanner } from "./DocumentScanner";
@@ -71,6 +72,7 @@ const ResultDisplay = React.memo(
 type ToolTab =
   | "reserve"
   | "payment"
+  | "amortization"
   | "budget"
   | "compare"
   | "qualify"
@@ -91,6 +93,11 @@ const NAV_ITEMS: { id: ToolTab; label: string; icon: React.ReactNode }[] = [
     label: "Payment",
     icon: <Icons.CalculatorIcon className="w-5 h-5" />,
   },
+  {
+    id: "amortization",
+    label: "Payoff",
+    icon: <Icons.CalendarDaysIcon className="w-5 h-5" />,
+  },
   {
     id: "analytics",
     label: "Analytics",
@@ -167,6 +174,19 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
   const [payRate, setPayRate] = useState<number | "">(defaultRate);
   const [payTerm, setPayTerm] = useState<number>(defaultTermVal);
 
+  // --- Amortization / Payoff State ---
+  // Defaults to the active deal's financed amount and trade book so the
+  // equity crossover is meaningful without re-keying anything.
+  const defaultFinanced =
+    typeof activeVehicle?.amountToFinance === "number"
+      ? activeVehicle.amountToFinance
+      : defaultPrice;
+  const defaultBook = typeof activeVehicle?.jdPower === "number" ? activeVehicle.jdPower : "";
+  const [amortAmount, setAmortAmount] = useState<number | "">(defaultFinanced);
+  const [amortRate, setAmortRate] = useState<number | "">(defaultRate);
+  const [amortTerm, setAmortTerm] = useState<number>(defaultTermVal);
+  const [amortBook, setAmortBook] = useState<number | "">(defaultBook);
+
   // --- Budget Calculator State ---
   const [budgetPmt, setBudgetPmt] = useState<number | "">(450);
   const [budgetRate, setBudgetRate] = useState<number | "">(defaultRate);
@@ -219,6 +239,7 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
       setPayRate(rate);
       setBudgetRate(rate);
       setCompRate(rate);
+      setAmortRate(rate);
     }
     setResTerm(term);
 
@@ -228,6 +249,10 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
     setBudgetTerm(term);
 
     setCompAmount(price);
+
+    setAmortAmount(principal);
+    setAmortTerm(term);
+    setAmortBook(typeof activeVehicle.jdPower === "number" ? activeVehicle.jdPower : "");
   };
 
   // --- Calculations ---
@@ -267,6 +292,15 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
     return calculateMonthlyPayment(p, r, t);
   }, [payAmount, payRate, payTerm]);
 
+  const amortizationResult = useMemo(() => {
+    const p = Number(amortAmount) || 0;
+    const r = Number(amortRate) || 0;
+    const t = Number(amortTerm) || 0;
+    const book = amortBook === "" ? null : Number(amortBook);
+    const schedule = buildAmortizationSchedule(p, r, t, book);
+    return schedule === "Error" ? null : schedule;
+  }, [amortAmount, amortRate, amortTerm, amortBook]);
+
   const budgetResult = useMemo(() => {
     const pmt = Number(budgetPmt) || 0;
     const r = Number(budgetRate) || 0;
@@ -380,6 +414,7 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
               <p className="text-sm text-[var(--color-text-muted)]">
                 {activeTab === "reserve" && "Calculate dealer reserve and splits."}
                 {activeTab === "payment" && "Estimate monthly payments."}
+                {activeTab === "amortization" && "Month-by-month payoff and equity crossover."}
                 {activeTab === "budget" && "Find max loan from monthly budget."}
                 {activeTab === "compare" && "Compare terms side-by-side."}
                 {activeTab === "qualify" && "Check payment-to-income ratio."}
@@ -613,6 +648,143 @@ const FinanceTools: React.FC<FinanceToolsProps> = ({
                 </div>
               </div>
             )}
+            {activeTab === "amortization" && (
+              <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+                <div className="grid grid-cols-2 gap-6">
+                  <InputGroup label="Amount Financed ($)" htmlFor="amortization-amount">
+                    <StyledInput
+                      id="amortization-amount"
+                      aria-label="Amortization amount financed"
+                      type="number"
+                      value={amortAmount}
+                      onChange={(e) =>
+                        setAmortAmount(e.target.value === "" ? "" : Number(e.target.value))
+                      }
+                    />
+                  </InputGroup>
+                  <InputGroup label="Book Value ($)" htmlFor="amortization-book">
+                    <StyledInput
+                      id="amortization-book"
+                      aria-label="Amortization starting book value"
+                      type="number"
+                      placeholder="J.D. Power trade"
+                      value={amortBook}
+                      onChange={(e) =>
+                        setAmortBook(e.target.value === "" ? "" : Number(e.target.value))
+                      }
+                    />
+                  </InputGroup>
+                  <InputGroup label="Interest Rate (%)" htmlFor="amortization-interest-rate">
+                    <StyledInput
+                      id="amortization-interest-rate"
+                      aria-label="Amortization interest rate"
+                      type="number"
+                      step="0.1"
+                      value={amortRate}
+                      onChange={(e) =>
+                        setAmortRate(e.target.value === "" ? "" : Number(e.target.value))
+                      }
+                    />
+                  </InputGroup>
+                  <InputGroup label="Term (Mo)" htmlFor="amortization-term">
+                    <StyledSelect
+                      id="amortization-term"
+                      aria-label="Amortization term"
+                      value={amortTerm}
+                      onChange={(e) => setAmortTerm(Number(e.target.value))}
+                    >
+                      {[36, 48, 54, 60, 66, 72, 75, 84, 96].map((t) => (
+                        <option key={t} value={t}>
+                          {t} Months
+                        </option>
+                      ))}
+                    </StyledSelect>
+                  </InputGroup>
+                </div>
+                {amortizationResult && (
+                  <>
+                    <div className="space-y-3 pt-6 border-t border-[var(--color-border)]">
+                      <ResultDisplay
+                        label="Monthly payment"
+                        value={formatCurrencyExact(amortizationResult.payment)}
+                        valueColorClass="text-[var(--color-primary)]"
+                      />
+                      <ResultDisplay
+                        label="Total interest"
+                        subLabel={`Total of payments ${formatCurrency(amortizationResult.totalPaid)}`}
+                        value={formatCurrency(amortizationResult.totalInterest)}
+                        valueColorClass="text-[var(--color-warning)]"
+                      />
+                      <ResultDisplay
+                        label="Positive equity"
+                        subLabel="Projected book vs. remaining balance"
+                        value={
+                          amortizationResult.startingBookValue === null
+                            ? "Enter book"
+                            : amortizationResult.positiveEquityMonth === null
+                              ? "Not within term"
+                              : amortizationResult.positiveEquityMonth === 0
+                                ? "At delivery"
+                                : `Month ${amortizationResult.positiveEquityMonth}`
+                        }
+                        valueColorClass={
+                          amortizationResult.positiveEquityMonth === null
+                            ? "text-[var(--color-danger)]"
+                            : "text-[var(--color-success)]"
+                        }
+                      />
+                    </div>
+                    <div className="max-h-80 overflow-y-auto rounded-md border border-[var(--color-border)]">
+                      <table className="w-full text-xs tabular-nums">
+                        <thead className="sticky top-0 bg-[var(--color-bg-subtle)] text-[var(--color-text-muted)]">
+                          <tr>
+                            <th className="px-2 py-1.5 text-left font-medium">Mo</th>
+                            <th className="px-2 py-1.5 text-right font-medium">Principal</th>
+                            <th className="px-2 py-1.5 text-right font-medium">Interest</th>
+                            <th className="px-2 py-1.5 text-right font-medium">Balance</th>
+                            <th className="px-2 py-1.5 text-right font-medium">Equity</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {amortizationResult.rows.map((row) => (
+                            <tr
+                              key={row.month}
+                              className={
+                                row.month === amortizationResult.positiveEquityMonth
+                                  ? "bg-[var(--color-success-subtle)]"
+                                  : "border-t border-[var(--color-border)]"
+                              }
+                            >
+                              <td className="px-2 py-1 text-[var(--color-text-muted)]">
+                                {row.month}
+                              </td>
+                              <td className="px-2 py-1 text-right">
+                                {formatCurrencyExact(row.principal)}
+                              </td>
+                              <td className="px-2 py-1 text-right">
+                                {formatCurrencyExact(row.interest)}
+                              </td>
+                              <td className="px-2 py-1 text-right">
+                                {formatCurrencyExact(row.balance)}
+                              </td>
+                              <td
+                                className={`px-2 py-1 text-right ${
+                                  row.equity !== null && row.equity < 0
+                                    ? "text-[var(--color-danger)]"
+                                    : "text-[var(--color-text)]"
+                                }`}
+                              >
+                                {row.equity === null ? "—" : formatCurrency(row.equity)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
             {activeTab === "budget" && (
               <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
                 <InputGroup label="Max Monthly Payment ($)" htmlFor="budget-max-payment">
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from "react";
+import type { InventoryColumnMapping, InventoryImportField } from "../types";
+import Modal from "./common/Modal";
+import Button from "./common/Button";
+import Input from "./common/Input";
+import Select from "./common/Select";
+import { columnMappingProblems, parseInventoryRows } from "../services/fileParser";
+import { INVENTORY_IMPORT_FIELDS } from "../services/columnMapping";
+import type { PendingColumnMapping } from "../hooks/useInventoryImport";
+import { fmt, fmtN } from "../utils/format";
+
+interface InventoryColumnMappingModalProps {
+  pending: PendingColumnMapping;
+  /** Only admins may save a mapping profile for the dealership. */
+  canSaveProfile: boolean;
+  onConfirm: (mapping: InventoryColumnMapping, saveAs?: string) => void;
+  onCancel: () => void;
+}
+
+/** Enough rows to show the mapping reads the file right without parsing it all. */
+const PREVIEW_ROWS = 25;
+const PREVIEW_VEHICLES = 5;
+
+const money = (value: number | "N/A") => (typeof value === "number" ? fmt(value) : "—");
+
+/**
+ * The column-mapping step of an inventory import, shown when a file's
+ * headers don't match the built-in names or a saved profile. Each field
+ * picks one of the file's headers; the preview re-parses the first rows on
+ * every change so the user sees what will import before anything syncs.
+ */
+const InventoryColumnMappingModal: React.FC<InventoryColumnMappingModalProps> = ({
+  pending,
+  canSaveProfile,
+  onConfirm,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<InventoryColumnMapping>(pending.mapping);
+  const [profileName, setProfileName] = useState(pending.profileName ?? "");
+
+  const problems = columnMappingProblems(mapping);
+  const preview = useMemo(
+    () =>
+      columnMappingProblems(mapping).length > 0
+        ? null
+        : parseInventoryRows(
+            { headers: pending.table.headers, rows: pending.table.rows.slice(0, PREVIEW_ROWS) },
+            mapping
+          ),
+    [mapping, pending.table]
+  );
+
+  const setField = (field: InventoryImportField, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header) next[field] = header;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  const rowCount = pending.table.rows.length;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onCancel}
+      title="Map Inventory Columns"
+      description={`${pending.fileName} · ${fmtN(rowCount)} row${rowCount === 1 ? "" : "s"}. Match each field to a column in the file.`}
+      size="lg"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => onConfirm(mapping, canSaveProfile ? profileName : undefined)}
+            disabled={problems.length > 0}
+            className="ml-auto"
+          >
+            Import
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-5">
+        {pending.profileName && (
+          <p className="text-sm text-[var(--color-warning)]">
+            The saved profile &ldquo;{pending.profileName}&rdquo; doesn&rsquo;t cover every column
+            in this file. Check the mapping below.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-5 gap-y-3">
+          {INVENTORY_IMPORT_FIELDS.map(({ field, label, hint }) => (
+            <label key={field} className="block text-sm">
+              <span className="font-semibold">{label}</span>
+              {hint && <span className="ml-2 text-[var(--color-text-subtle)]">{hint}</span>}
+              <Select
+                selectSize="sm"
+                className="mt-1"
+                value={mapping[field] ?? ""}
+                onChange={(e) => setField(field, e.target.value)}
+                data-mapping-field={field}
+              >
+                <option value="">— not in file —</option>
+                {pending.table.headers.map((header, i) =>
+                  header ? (
+                    <option key={`${header}-${i}`} value={header}>
+                      {header}
+                    </option>
+                  ) : null
+                )}
+              </Select>
+            </label>
+          ))}
+        </div>
+
+        {problems.length > 0 && (
+          <ul role="alert" className="pl-4 list-disc text-sm text-[var(--color-danger)]">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview && (
+          <div className="text-sm">
+            <div className="font-semibold mb-2">
+              Preview (first {Math.min(PREVIEW_ROWS, rowCount)} rows)
+            </div>
+            {preview.vehicles.length === 0 ? (
+              <p className="text-[var(--color-danger)]">
+                None of these rows would import with this mapping.
+              </p>
+            ) : (
+              <div className="overflow-x-auto border border-[var(--color-border)] rounded-lg">
+                <table className="w-full text-left">
+                  <thead className="text-xs uppercase text-[var(--color-text-subtle)]">
+                    <tr>
+                      <th className="px-3 py-2">Stock</th>
+                      <th className="px-3 py-2">Vehicle</th>
+                      <th className="px-3 py-2">VIN</th>
+                      <th className="px-3 py-2 text-right">Mileage</th>
+                      <th className="px-3 py-2 text-right">Price</th>
+                      <th className="px-3 py-2 text-right">Trade book</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--color-border)]">
+                    {preview.vehicles.slice(0, PREVIEW_VEHICLES).map((v) => (
+                      <tr key={v.vin}>
+                        <td className="px-3 py-2">{v.stock}</td>
+                        <td className="px-3 py-2">{v.vehicle}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{v.vin}</td>
+                        <td className="px-3 py-2 text-right">
+                          {typeof v.mileage === "number" ? fmtN(v.mileage) : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-right">{money(v.price)}</td>
+                        <td className="px-3 py-2 text-right">{money(v.jdPower)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {preview.skipped > 0 && (
+              <p className="mt-2 text-[var(--color-warning)]">
+                Skipped {preview.skipped}: {preview.reasons.join("; ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {canSaveProfile && (
+          <label className="block text-sm">
+            <span className="font-semibold">Save as mapping profile</span>
+            <span className="ml-2 text-[var(--color-text-subtle)]">
+              Optional. Files with these headers will import without this step.
+            </span>
+            <Input
+              className="mt-1"
+              value={profileName}
+              placeholder="e.g. vAuto export"
+              maxLength={80}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </label>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default InventoryColumnMappingModal;
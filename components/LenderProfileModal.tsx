@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from "react";
-import type { LenderProfile, LenderTier } from "../types";
+import type { LenderProfile, LenderRule, LenderTier } from "../types";
 import Modal from "./common/Modal";
 import Button from "./common/Button";
 import Input from "./common/Input";
 import Select from "./common/Select";
 import InputGroup from "./common/InputGroup";
 import * as Icons from "./common/Icons";
+import {
+  ALLOWED_STRUCTURE_OPTIONS,
+  allowedStructuresValue,
+  parseAllowedStructures,
+} from "../services/paymentStructure";
+import LenderRulesEditor, { lenderRulesValid } from "./LenderRulesEditor";
+import RateAddersEditor from "./RateAddersEditor";
 
 interface LenderProfileModalProps {
   profile: LenderProfile | null;
@@ -95,6 +102,7 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
 
   const [formData, setFormData] = useState<LenderProfile>(getDefaultFormData());
   const [activeTierIndex, setActiveTierIndex] = useState<number | null>(null);
+  const [rulesError, setRulesError] = useState<string | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -103,6 +111,7 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
       setFormData(getDefaultFormData());
     }
     setActiveTierIndex(null);
+    setRulesError(null);
   }, [profile, isOpen]);
 
   const handleGeneralChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -129,6 +138,13 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
     setFormData((prev) => ({ ...prev, tiers }));
   };
 
+  const updateTier = (index: number, patch: Partial<LenderTier>) => {
+    const tiers = [...(formData.tiers || [])];
+    const tier = tiers[index];
+    if (tier) tiers[index] = { ...tier, ...patch };
+    setFormData((prev) => ({ ...prev, tiers }));
+  };
+
   const addTier = () => {
     const newTier: LenderTier = {
       name: `Tier ${(formData.tiers?.length || 0) + 1}`,
@@ -169,7 +185,27 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
+    // Rows left blank are dropped; anything else must parse before saving,
+    // since the rules engine treats a broken rule as pending.
+    const filled = (rules: LenderRule[] | undefined) => {
+      const kept = rules?.filter((rule) => rule.when.trim() !== "");
+      return kept && kept.length > 0 ? kept : undefined;
+    };
+    const cleaned: LenderProfile = {
+      ...formData,
+      // [] rather than undefined so clearing the last rule reaches the server.
+      rules: filled(formData.rules) ?? (formData.rules ? [] : undefined),
+      tiers: (formData.tiers || []).map((tier) => ({ ...tier, rules: filled(tier.rules) })),
+    };
+    if (
+      !lenderRulesValid(cleaned.rules) ||
+      !cleaned.tiers.every((t) => lenderRulesValid(t.rules))
+    ) {
+      setRulesError("Fix the highlighted custom rules before saving.");
+      return;
+    }
+    setRulesError(null);
+    onSave(cleaned);
   };
 
   return (
@@ -252,10 +288,54 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
                   placeholder="0%"
                 />
               </InputGroup>
+              <InputGroup label="Co-buyer FICO" htmlFor="coBuyerFico">
+                <Select
+                  id="coBuyerFico"
+                  name="coBuyerFico"
+                  value={formData.coBuyerFico || "primary"}
+                  onChange={handleGeneralChange}
+                >
+                  <option value="primary">Primary applicant</option>
+                  <option value="highest">Highest of both</option>
+                </Select>
+              </InputGroup>
+              <InputGroup label="Co-buyer Income" htmlFor="coBuyerIncome">
+                <Select
+                  id="coBuyerIncome"
+                  name="coBuyerIncome"
+                  value={formData.coBuyerIncome || "combined"}
+                  onChange={handleGeneralChange}
+                >
+                  <option value="combined">Combined for PTI/DTI</option>
+                  <option value="primary">Primary applicant only</option>
+                </Select>
+              </InputGroup>
             </div>
           </div>
         </div>
 
+        {/* Lender-wide custom rules */}
+        <div className="bg-[var(--color-bg)] rounded-lg border border-[var(--color-border)] p-5">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-[var(--color-text)]">
+            <Icons.DocumentTextIcon className="w-5 h-5 text-[var(--color-primary)]" />
+            Custom Rules
+          </h4>
+          <p className="text-xs text-[var(--color-text-muted)] mt-0.5 mb-3">
+            Lender quirks the tier fields can&apos;t express. Applied to every tier; a tier can add
+            its own under Advanced Options.
+          </p>
+          <LenderRulesEditor
+            idPrefix="lender"
+            rules={formData.rules}
+            onChange={(rules) => setFormData((prev) => ({ ...prev, rules }))}
+          />
+          {rulesError && (
+            <p className="text-xs text-[var(--color-danger)] mt-2" role="alert">
+              {rulesError}
+            </p>
+          )}
+        </div>
+
         {/* Lending Tiers Section */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -478,6 +558,26 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
                             className="!px-2 text-center text-xs"
                           />
                         </TierField>
+                        <TierField label="Max Advance $">
+                          <Input
+                            type="number"
+                            name="maxAdvance"
+                            value={tier.maxAdvance ?? ""}
+                            onChange={(e) => handleTierChange(index, e)}
+                            placeholder="30000"
+                            className="!px-2 text-center text-xs"
+                          />
+                        </TierField>
+                        <TierField label="Max Neg. Equity $">
+                          <Input
+                            type="number"
+                            name="maxNegativeEquity"
+                            value={tier.maxNegativeEquity ?? ""}
+                            onChange={(e) => handleTierChange(index, e)}
+                            placeholder="3000"
+                            className="!px-2 text-center text-xs"
+                          />
+                        </TierField>
                         <TierField label="Vehicle Type">
                           <select
                             name="vehicleType"
@@ -491,7 +591,41 @@ const LenderProfileModal: React.FC<LenderProfileModalProps> = ({
                             <option value="certified">CPO</option>
                           </select>
                         </TierField>
+                        <TierField label="Structures">
+                          <select
+                            name="allowedStructures"
+                            value={allowedStructuresValue(tier.allowedStructures)}
+                            onChange={(e) =>
+                              updateTier(index, {
+                                allowedStructures: parseAllowedStructures(e.target.value),
+                              })
+                            }
+                            className="w-full h-9 px-2 text-xs bg-white dark:bg-[var(--color-bg-subtle)] border border-[var(--color-border)] rounded focus:ring-2 focus:ring-[var(--color-primary-subtle)] focus:border-[var(--color-primary)]"
+                          >
+                            {ALLOWED_STRUCTURE_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </TierField>
                       </div>
+                      <p className="text-[10px] font-medium text-[var(--color-text-subtle)] mt-3 mb-2">
+                        Rate Adder Grids
+                      </p>
+                      <RateAddersEditor
+                        idPrefix={`tier-${index}`}
+                        rateAdders={tier.rateAdders}
+                        onChange={(rateAdders) => updateTier(index, { rateAdders })}
+                      />
+                      <p className="text-[10px] font-medium text-[var(--color-text-subtle)] mt-3 mb-2">
+                        Tier Rules
+                      </p>
+                      <LenderRulesEditor
+                        idPrefix={`tier-${index}`}
+                        rules={tier.rules}
+                        onChange={(rules) => updateTier(index, { rules })}
+                      />
                     </div>
                   </div>
                 )}
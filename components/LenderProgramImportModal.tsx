@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from "react";
+import type { LenderProfile } from "../types";
+import Modal from "./common/Modal";
+import Button from "./common/Button";
+import { saveLenderProfile } from "../lib/api";
+import { toast } from "../lib/toast";
+import {
+  lenderImportPayload,
+  parseLenderProgramDocument,
+  previewLenderImport,
+  type LenderImportItem,
+  type LenderImportMode,
+  type LenderProgramParse,
+} from "../services/lenderProgramExchange";
+import { formatProgramValue, programFieldLabel } from "../services/lenderPrograms";
+
+interface LenderProgramImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The dealer's current profiles, matched against the file by name. */
+  existing: LenderProfile[];
+  /** Called after a save pass with at least one write, to reload profiles. */
+  onImported: () => void;
+}
+
+/** Program exports are a few KB per lender; anything this big isn't one. */
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+const ACTION_LABEL: Record<LenderImportItem["action"], string> = {
+  add: "New",
+  update: "Update",
+  unchanged: "No change",
+};
+
+const ACTION_COLOR: Record<LenderImportItem["action"], string> = {
+  add: "var(--color-success)",
+  update: "var(--color-primary)",
+  unchanged: "var(--color-text-subtle)",
+};
+
+/** One line per change, e.g. "Max PTI % 15 → 14", "Tier A: Min FICO 680 → 660". */
+const changeLines = (item: LenderImportItem): string[] => {
+  if (!item.diff) return [];
+  return [
+    ...item.diff.lender.map(
+      (c) =>
+        `${programFieldLabel(c.field)} ${formatProgramValue(c.before)} → ${formatProgramValue(c.after)}`
+    ),
+    ...item.diff.tiers.map((t) =>
+      t.change === "changed"
+        ? `Tier ${t.tier}: ${t.fields
+            .map(
+              (c) =>
+                `${programFieldLabel(c.field)} ${formatProgramValue(c.before)} → ${formatProgramValue(c.after)}`
+            )
+            .join(" · ")}`
+        : `Tier ${t.tier} ${t.change}`
+    ),
+  ];
+};
+
+/**
+ * Import a lender program export (services/lenderProgramExchange). The file
+ * is validated and previewed against the dealer's profiles before anything
+ * is written; saves go through saveLenderProfile, which upserts by name.
+ */
+const LenderProgramImportModal: React.FC<LenderProgramImportModalProps> = ({
+  isOpen,
+  onClose,
+  existing,
+  onImported,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<LenderProgramParse | null>(null);
+  const [mode, setMode] = useState<LenderImportMode>("merge");
+  const [importing, setImporting] = useState(false);
+
+  const preview = useMemo(
+    () => (parsed?.ok ? previewLenderImport(parsed.lenders, existing, mode) : []),
+    [parsed, existing, mode]
+  );
+  const pending = preview.filter((item) => item.action !== "unchanged");
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setMode("merge");
+  };
+
+  const close = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setFileName(file.name);
+    if (file.size > MAX_FILE_BYTES) {
+      setParsed({ ok: false, error: "That file is too large to be a lender program export." });
+      return;
+    }
+    setParsed(parseLenderProgramDocument(await file.text()));
+  };
+
+  const handleImport = async () => {
+    if (pending.length === 0) return;
+    setImporting(true);
+    let failed = 0;
+    // One at a time: saveLenderProfile looks up duplicates by name before writing.
+    for (const item of pending) {
+      const saved = await saveLenderProfile(lenderImportPayload(item, mode));
+      if (!saved) failed++;
+    }
+    setImporting(false);
+    const saved = pending.length - failed;
+    if (saved > 0) onImported();
+    if (failed > 0) {
+      toast.error(`Imported ${saved} of ${pending.length} lenders; ${failed} couldn't be saved.`);
+      return;
+    }
+    toast.success(`Imported ${saved} lender program${saved === 1 ? "" : "s"}`);
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={close}
+      title="Import Lender Programs"
+      description="Load programs exported from another rooftop and review them before saving"
+      size="lg"
+      footer={
+        <>
+          <Button variant="ghost" onClick={close} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleImport}
+            isLoading={importing}
+            disabled={pending.length === 0}
+            className="ml-auto"
+          >
+            {pending.length > 0
+              ? `Import ${pending.length} lender${pending.length === 1 ? "" : "s"}`
+              : "Import"}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-5">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center px-3 py-2 text-sm font-semibold rounded-lg border border-[var(--color-border-strong)] cursor-pointer hover:bg-[var(--color-bg-muted)]">
+            Choose file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="sr-only"
+              onChange={handleFile}
+              data-lender-import-file
+            />
+          </label>
+          <span className="text-sm text-[var(--color-text-muted)]">
+            {fileName ?? "No file selected"}
+          </span>
+        </div>
+
+        {parsed && !parsed.ok && (
+          <div role="alert" className="text-sm text-[var(--color-danger)]">
+            {parsed.error}
+          </div>
+        )}
+
+        {parsed?.ok && (
+          <>
+            <fieldset className="flex flex-wrap gap-5 text-sm">
+              <legend className="sr-only">Import mode</legend>
+              <label className="inline-flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="lender-import-mode"
+                  checked={mode === "merge"}
+                  onChange={() => setMode("merge")}
+                />
+                <span>
+                  <strong>Merge</strong>
+                  <span className="block text-[var(--color-text-muted)]">
+                    Keep fields the file doesn't set, like local contacts
+                  </span>
+                </span>
+              </label>
+              <label className="inline-flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="lender-import-mode"
+                  checked={mode === "replace"}
+                  onChange={() => setMode("replace")}
+                />
+                <span>
+                  <strong>Replace</strong>
+                  <span className="block text-[var(--color-text-muted)]">
+                    Make each matching lender exactly what the file says
+                  </span>
+                </span>
+              </label>
+            </fieldset>
+
+            <ul className="divide-y divide-[var(--color-border)] border border-[var(--color-border)] rounded-lg">
+              {preview.map((item) => {
+                const lines = changeLines(item);
+                return (
+                  <li key={item.lender.name} className="px-4 py-3 text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-semibold">{item.lender.name}</span>
+                      <span
+                        className="text-xs font-bold uppercase tracking-wide"
+                        style={{ color: ACTION_COLOR[item.action] }}
+                      >
+                        {ACTION_LABEL[item.action]}
+                      </span>
+                    </div>
+                    {item.action === "add" && (
+                      <div className="text-[var(--color-text-muted)]">
+                        {item.lender.tiers.length} tier{item.lender.tiers.length === 1 ? "" : "s"}
+                      </div>
+                    )}
+                    {item.action === "update" && lines.length > 0 && (
+                      <ul className="mt-1 pl-4 list-disc text-[var(--color-text-muted)]">
+                        {lines.map((line) => (
+                          <li key={line}>{line}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {item.cleared.length > 0 && (
+                      <div className="mt-1 text-[var(--color-warning)]">
+                        Clears: {item.cleared.map(programFieldLabel).join(", ")}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {parsed.rejected.length > 0 && (
+              <div className="text-sm">
+                <div className="font-semibold text-[var(--color-danger)]">
+                  Skipped {parsed.rejected.length} invalid lender
+                  {parsed.rejected.length === 1 ? "" : "s"}
+                </div>
+                <ul className="mt-1 pl-4 list-disc text-[var(--color-text-muted)]">
+                  {parsed.rejected.map((r) => (
+                    <li key={r.index}>
+                      {r.name}: {r.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default LenderProgramImportModal;
@@ -0,0 +1,145 @@
+import React from "react";
+import type { LenderRule, LenderRuleOutcome } from "../types";
+import Button from "./common/Button";
+import Input from "./common/Input";
+import * as Icons from "./common/Icons";
+import {
+  LENDER_RULE_OUTCOME_LABELS,
+  RULE_FIELDS,
+  validateLenderRule,
+} from "../services/lenderRules";
+
+interface LenderRulesEditorProps {
+  rules: LenderRule[] | undefined;
+  /** Receives undefined once the last rule is removed. */
+  onChange: (rules: LenderRule[] | undefined) => void;
+  /** Prefix for input ids, unique per editor on the page. */
+  idPrefix: string;
+}
+
+const selectClass =
+  "w-full h-9 px-2 text-xs bg-white dark:bg-[var(--color-bg-subtle)] border border-[var(--color-border)] rounded focus:ring-2 focus:ring-[var(--color-primary-subtle)] focus:border-[var(--color-primary)]";
+
+/** True when every rule parses and is complete; the modal blocks saving otherwise. */
+export const lenderRulesValid = (rules: LenderRule[] | undefined): boolean =>
+  (rules ?? []).every((rule) => validateLenderRule(rule) === null);
+
+/**
+ * Editor for custom lender rules (services/lenderRules.ts): one row per rule
+ * with its condition, outcome, rate points and reason text. Conditions are
+ * checked as they are typed.
+ */
+const LenderRulesEditor: React.FC<LenderRulesEditorProps> = ({ rules, onChange, idPrefix }) => {
+  const list = rules ?? [];
+
+  const update = (index: number, patch: Partial<LenderRule>) =>
+    onChange(list.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+
+  const remove = (index: number) => {
+    const next = list.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      {list.map((rule, index) => {
+        const problem = rule.when.trim() ? validateLenderRule(rule) : null;
+        const id = `${idPrefix}-rule-${index}`;
+        return (
+          <div key={index} className="space-y-1">
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-5">
+                <Input
+                  id={`${id}-when`}
+                  aria-label="Rule condition"
+                  value={rule.when}
+                  onChange={(e) => update(index, { when: e.target.value })}
+                  placeholder="creditScore < 580 and downPaymentPct < 10"
+                  error={problem !== null}
+                  className="!px-2 text-xs font-mono"
+                />
+              </div>
+              <select
+                id={`${id}-outcome`}
+                aria-label="Rule outcome"
+                value={rule.outcome}
+                onChange={(e) => {
+                  const outcome = e.target.value as LenderRuleOutcome;
+                  update(index, {
+                    outcome,
+                    rateAdder: outcome === "rate-adder" ? rule.rateAdder : undefined,
+                  });
+                }}
+                className={`col-span-2 ${selectClass}`}
+              >
+                {(Object.keys(LENDER_RULE_OUTCOME_LABELS) as LenderRuleOutcome[]).map((outcome) => (
+                  <option key={outcome} value={outcome}>
+                    {LENDER_RULE_OUTCOME_LABELS[outcome]}
+                  </option>
+                ))}
+              </select>
+              <div className="col-span-1">
+                <Input
+                  id={`${id}-adder`}
+                  aria-label="Rate points added"
+                  type="number"
+                  step="0.01"
+                  value={rule.rateAdder ?? ""}
+                  disabled={rule.outcome !== "rate-adder"}
+                  onChange={(e) =>
+                    update(index, {
+                      rateAdder: e.target.value === "" ? undefined : Number(e.target.value),
+                    })
+                  }
+                  placeholder="+0.5"
+                  className="!px-2 text-center text-xs"
+                />
+              </div>
+              <div className="col-span-3">
+                <Input
+                  id={`${id}-message`}
+                  aria-label="Reason shown on the desk"
+                  value={rule.message ?? ""}
+                  onChange={(e) => update(index, { message: e.target.value || undefined })}
+                  placeholder="Reason shown on the desk"
+                  className="!px-2 text-xs"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="col-span-1 p-1.5 justify-self-center text-[var(--color-text-subtle)] hover:text-[var(--color-danger)] hover:bg-[var(--color-danger-subtle)] rounded transition-colors"
+                title="Remove rule"
+                aria-label="Remove rule"
+              >
+                <Icons.TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {problem && (
+              <p className="text-[10px] text-[var(--color-danger)]" role="alert">
+                {problem}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between gap-3">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => onChange([...list, { when: "", outcome: "ineligible" }])}
+        >
+          <Icons.PlusIcon className="w-4 h-4 mr-1" />
+          Add Rule
+        </Button>
+        <p className="text-[10px] text-[var(--color-text-subtle)] text-right">
+          Fields: {Object.keys(RULE_FIELDS).join(", ")}. Combine with and, or, not; text in quotes,
+          e.g. make in (&apos;Tesla&apos;).
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LenderRulesEditor;
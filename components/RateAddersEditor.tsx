@@ -0,0 +1,133 @@
+import React from "react";
+import type { RateAdderCell, TierRateAdders } from "../types";
+import Button from "./common/Button";
+import Input from "./common/Input";
+import * as Icons from "./common/Icons";
+import { RATE_ADDER_GRIDS, type RateAdderGrid } from "../services/rateAdders";
+
+interface RateAddersEditorProps {
+  rateAdders: TierRateAdders | undefined;
+  /** Receives undefined once the last cell is removed. */
+  onChange: (rateAdders: TierRateAdders | undefined) => void;
+  /** Prefix for input ids, unique per editor on the page. */
+  idPrefix: string;
+}
+
+type Bound = Exclude<keyof RateAdderCell, "adder">;
+
+/** The bounds each grid is keyed on, as [field, label, placeholder]. */
+const GRID_BOUNDS: Record<RateAdderGrid, [Bound, string, string][]> = {
+  creditTerm: [
+    ["minFico", "Min FICO", "620"],
+    ["maxFico", "Max FICO", "659"],
+    ["minTerm", "Min term", "73"],
+    ["maxTerm", "Max term", "84"],
+  ],
+  ltv: [
+    ["minLtv", "Min LTV %", "121"],
+    ["maxLtv", "Max LTV %", "130"],
+  ],
+  mileage: [
+    ["minMileage", "Min miles", "100001"],
+    ["maxMileage", "Max miles", ""],
+  ],
+};
+
+const parseBound = (value: string): number | undefined =>
+  value === "" ? undefined : Number(value);
+
+/**
+ * Editor for a tier's rate adder grids (services/rateAdders.ts): one row per
+ * cell with its inclusive bounds and rate points. Blank bounds are open, and
+ * the first matching row of each grid applies.
+ */
+const RateAddersEditor: React.FC<RateAddersEditorProps> = ({ rateAdders, onChange, idPrefix }) => {
+  const grids = rateAdders ?? {};
+
+  const setGrid = (grid: RateAdderGrid, cells: RateAdderCell[]) => {
+    const next: TierRateAdders = { ...grids, [grid]: cells.length > 0 ? cells : undefined };
+    const kept = Object.fromEntries(
+      Object.entries(next).filter(([, value]) => Array.isArray(value) && value.length > 0)
+    ) as TierRateAdders;
+    onChange(Object.keys(kept).length > 0 ? kept : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(RATE_ADDER_GRIDS) as RateAdderGrid[]).map((grid) => {
+        const cells = grids[grid] ?? [];
+        const update = (index: number, patch: Partial<RateAdderCell>) =>
+          setGrid(
+            grid,
+            cells.map((cell, i) => (i === index ? { ...cell, ...patch } : cell))
+          );
+        return (
+          <div key={grid} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--color-text-muted)]">
+                {RATE_ADDER_GRIDS[grid]}
+              </span>
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={() => setGrid(grid, [...cells, { adder: 0 }])}
+              >
+                <Icons.PlusIcon className="w-4 h-4 mr-1" />
+                Add Row
+              </Button>
+            </div>
+            {cells.map((cell, index) => {
+              const id = `${idPrefix}-${grid}-${index}`;
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  {GRID_BOUNDS[grid].map(([field, label, placeholder]) => (
+                    <div key={field} className="col-span-2">
+                      <Input
+                        id={`${id}-${field}`}
+                        aria-label={label}
+                        type="number"
+                        value={cell[field] ?? ""}
+                        onChange={(e) => update(index, { [field]: parseBound(e.target.value) })}
+                        placeholder={placeholder || label}
+                        className="!px-2 text-center text-xs"
+                      />
+                    </div>
+                  ))}
+                  <div className="col-span-2">
+                    <Input
+                      id={`${id}-adder`}
+                      aria-label="Rate points added"
+                      type="number"
+                      step="0.01"
+                      value={cell.adder}
+                      onChange={(e) => update(index, { adder: parseBound(e.target.value) ?? 0 })}
+                      placeholder="+0.5"
+                      className="!px-2 text-center text-xs"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setGrid(
+                        grid,
+                        cells.filter((_, i) => i !== index)
+                      )
+                    }
+                    className="col-span-1 p-1.5 justify-self-center text-[var(--color-text-subtle)] hover:text-[var(--color-danger)] hover:bg-[var(--color-danger-subtle)] rounded transition-colors"
+                    title="Remove row"
+                    aria-label="Remove row"
+                  >
+                    <Icons.TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RateAddersEditor;
@@ -15,6 +15,7 @@ import { toast } from "../lib/toast";
 import { confirmAction } from "../lib/confirm";
 import { MI_DOC_FEE_WARN_THRESHOLD, INITIAL_SETTINGS, STORAGE_KEYS } from "../constants";
 import { getCurrentUser } from "../lib/pocketbase";
+import { getHomeState, STATE_TAX_RULES, TAX_STATES } from "../services/taxRules";
 import { createLogger } from "../lib/logger";
 
 const settingsModalLogger = createLogger("settings-modal");
@@ -64,13 +65,10 @@ const hr = (
 
 const TERM_OPTIONS = [48, 54, 60, 66, 72, 78, 84, 90, 96];
 
-const STATE_OPTIONS: { value: AppState; label: string }[] = [
-  { value: "MI", label: "Michigan" },
-  { value: "OH", label: "Ohio" },
-  { value: "IN", label: "Indiana" },
-  { value: "IL", label: "Illinois" },
-  { value: "FL", label: "Florida" },
-];
+const STATE_OPTIONS: { value: AppState; label: string }[] = TAX_STATES.map((state) => ({
+  value: state,
+  label: STATE_TAX_RULES[state].name,
+}));
 
 /**
  * System settings modal — 580px card per the SETTINGS MODAL block of
@@ -369,7 +367,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
               </div>
               <div>
                 <label style={fieldLabel} htmlFor="settings-default-state">
-                  Default state
+                  Default buyer state
                 </label>
                 <select
                   id="settings-default-state"
@@ -391,6 +389,30 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                   ))}
                 </select>
               </div>
+              <div>
+                <label style={fieldLabel} htmlFor="settings-home-state">
+                  Dealership state
+                </label>
+                <select
+                  id="settings-home-state"
+                  className="dc-input"
+                  disabled={!canEdit}
+                  value={getHomeState(localSettings)}
+                  onChange={(e) =>
+                    setLocalSettings((prev) => ({
+                      ...prev,
+                      homeState: e.target.value as AppState,
+                    }))
+                  }
+                  style={selectInput}
+                >
+                  {STATE_OPTIONS.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           </section>
 
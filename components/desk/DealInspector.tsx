@@ -1,18 +1,31 @@
-import React, { useMemo, useEffect, useRef, useState } from "react";
-import { calculateFinancials } from "../../services/calculator";
+import React, { useCallback, useMemo, useEffect, useRef, useState } from "react";
+import {
+  calculateFinancials,
+  getSalesTaxBreakdown,
+  getTradeEquity,
+} from "../../services/calculator";
+import { calculateLeaseFinancials } from "../../services/leaseCalculator";
+import { calculateFirstPaymentAdjustment } from "../../services/firstPayment";
+import { rankLendersByDealerProfit } from "../../services/dealerReserve";
+import { solveDealStructure, type StructureSuggestion } from "../../services/dealStructurer";
+import { getPaymentStructure, paymentStructureNote } from "../../services/paymentStructure";
+import { dealDate } from "../../services/lenderPrograms";
 import { APPROVAL_CONFIG, BAND_META } from "../../services/approvalScorer";
 import { useAnimatedNumber } from "../../hooks/useAnimatedNumber";
 import { fmtN, splitPay } from "../../utils/format";
 import { DESK_DOWNS, DESK_TERMS, aprLabel, numVal } from "./deskConstants";
 import InspectorSummary from "./InspectorSummary";
 import LenderLadder from "./LenderLadder";
+import LenderAdvances from "./LenderAdvances";
 import FinancialBreakdown from "./FinancialBreakdown";
 import BackendAddons from "./BackendAddons";
 import StructureMatrix from "./StructureMatrix";
+import FitSuggestions from "./FitSuggestions";
 import type {
   ApprovalBand,
   CalculatedVehicle,
   DealData,
+  FilterData,
   LenderProfile,
   Settings,
 } from "../../types";
@@ -24,10 +37,12 @@ interface DealInspectorProps {
   profilesById: Map<string, LenderProfile>;
   totalLenders: number;
   dealData: DealData;
+  filters: FilterData;
   settings: Settings;
   pinned: boolean;
   onPin: () => void;
   onSetTermDown: (term: number, down: number) => void;
+  onPatchDeal: (patch: Partial<DealData>) => void;
   compactMode: boolean;
   compactOpen: boolean;
   onCloseCompact: () => void;
@@ -45,16 +60,28 @@ interface DealInspectorProps {
 
 type InspectorTab = "summary" | "lenders" | "addons" | "matrix";
 
+interface FitResult {
+  vehicle: CalculatedVehicle;
+  deal: DealData;
+  filters: FilterData;
+  settings: Settings;
+  lenders: LenderProfile[];
+  lenderId: string;
+  suggestions: StructureSuggestion[];
+}
+
 const DealInspectorComponent: React.FC<DealInspectorProps> = ({
   vehicle: v,
   entries,
   profilesById,
   totalLenders,
   dealData,
+  filters,
   settings,
   pinned,
   onPin,
   onSetTermDown,
+  onPatchDeal,
   compactMode,
   compactOpen,
   onCloseCompact,
@@ -70,6 +97,7 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
   onSaveDeal,
 }) => {
   const [tab, setTab] = useState<InspectorTab>("summary");
+  const [fitLenderId, setFitLenderId] = useState("");
   const panelRef = useRef<HTMLElement>(null);
   const previousFocusRef = useRef<HTMLElement | null>(null);
   const thresholds = settings.ltvThresholds;
@@ -81,8 +109,11 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
   // animated values (600ms easeOutCubic; reduced-motion snaps).
   const scoreTarget = v.approvalScore ?? 0;
   const payN = numVal(v.monthlyPayment);
+  // The headline shows what the customer pays each period: the biweekly
+  // amount on a biweekly deal, the monthly payment otherwise.
+  const periodicPayN = v.paymentPlan ? numVal(v.paymentPlan.payment) : payN;
   const dispScore = useAnimatedNumber(scoreTarget);
-  const dispPay = useAnimatedNumber(payN ?? 0);
+  const dispPay = useAnimatedNumber(periodicPayN ?? 0);
 
   // Color AND zone label follow the tweened score through the mockup's bands
   // so arc/number/color/label all move together; "none" (no lender fit) stays
@@ -97,17 +128,71 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
           : "weak";
   const gaugeColor = BAND_META[dispBand].colorVar;
 
-  const pay = payN === null ? null : splitPay(dispPay);
+  const pay = periodicPayN === null ? null : splitPay(dispPay);
 
   const price = numVal(v.price);
   const baseOtd = numVal(v.baseOutTheDoorPrice);
   const taxFees = price !== null && baseOtd !== null ? baseOtd - price : numVal(v.salesTax);
+  // Negative equity gets its own breakdown line, so only positive trade
+  // equity counts as a credit here.
   const down =
     (dealData.downPayment || 0) +
-    ((dealData.tradeInValue || 0) - (dealData.tradeInPayoff || 0)) +
+    Math.max(0, getTradeEquity(dealData).netTradeIn) +
     (dealData.rebate || 0);
   const financed = numVal(v.amountToFinance);
   const pti = v.ptiRatio;
+  const lease = useMemo(
+    () => calculateLeaseFinancials(v, dealData, settings),
+    [v, dealData, settings]
+  );
+  // Eligible lenders rank by the reserve each would pay on this structure.
+  const rankedEntries = useMemo(
+    () => rankLendersByDealerProfit(entries, profilesById, v, dealData.loanTerm),
+    [entries, profilesById, v, dealData.loanTerm]
+  );
+  // Rate sheets are checked against the contract date, as the rules engine does.
+  const asOfDate = dealDate(dealData);
+  const activeLenders = useMemo(
+    () => Array.from(profilesById.values()).filter((profile) => profile.active !== false),
+    [profilesById]
+  );
+  // "Make it fit" searches the real engine, so it runs only when asked. A
+  // result is kept with the inputs it was solved for and hidden once any of
+  // them change, so a stale suggestion can't be applied.
+  const [fitResult, setFitResult] = useState<FitResult | null>(null);
+  const fitSuggestions =
+    fitResult &&
+    fitResult.vehicle === v &&
+    fitResult.deal === dealData &&
+    fitResult.filters === filters &&
+    fitResult.settings === settings &&
+    fitResult.lenders === activeLenders &&
+    fitResult.lenderId === fitLenderId
+      ? fitResult.suggestions
+      : null;
+  const findFit = useCallback(
+    () =>
+      setFitResult({
+        vehicle: v,
+        deal: dealData,
+        filters,
+        settings,
+        lenders: activeLenders,
+        lenderId: fitLenderId,
+        suggestions: solveDealStructure(v, dealData, filters, settings, activeLenders, {
+          lenderId: fitLenderId || null,
+        }),
+      }),
+    [v, dealData, filters, settings, activeLenders, fitLenderId]
+  );
+  const salesTax = useMemo(
+    () => getSalesTaxBreakdown(v, dealData, settings),
+    [v, dealData, settings]
+  );
+  const firstPayment = useMemo(
+    () => calculateFirstPaymentAdjustment(v.amountToFinance, dealData),
+    [v.amountToFinance, dealData]
+  );
 
   // 16-cell desking grid (term × down), each a full real-engine reprice.
   const grid = useMemo(
@@ -120,7 +205,7 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
             { ...dealData, loanTerm: term, downPayment: dn },
             settings
           );
-          return { down: dn, pay: numVal(calc.monthlyPayment) };
+          return { down: dn, pay: numVal(calc.paymentPlan?.payment ?? calc.monthlyPayment) };
         }),
       })),
     [v, dealData, settings]
@@ -213,6 +298,7 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
         bandLabel={BAND_META[dispBand].label}
         gaugeColor={gaugeColor}
         pay={pay}
+        paymentPlan={v.paymentPlan}
         loanTerm={dealData.loanTerm}
         apr={aprLabel(dealData.interestRate)}
         fitCount={fitCount}
@@ -226,12 +312,13 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
 
       <div className="desk-inspector-lender-snapshot">
         <LenderLadder
-          entries={entries}
+          entries={rankedEntries}
           fitNames={fitNames}
           profilesById={profilesById}
           fitCount={fitCount}
           totalLenders={totalLenders}
           limit={3}
+          asOfDate={asOfDate}
         />
       </div>
 
@@ -265,17 +352,37 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
             otdLtv={v.otdLtv}
             pti={pti}
             financed={financed}
+            negativeEquity={v.negativeEquity}
             thresholds={thresholds}
+            payment={payN}
+            loanTerm={dealData.loanTerm}
+            lease={lease}
+            firstPayment={firstPayment}
+            salesTax={salesTax}
+            paymentPlan={v.paymentPlan}
           />
         )}
         {tab === "lenders" && (
-          <LenderLadder
-            entries={entries}
-            fitNames={fitNames}
-            profilesById={profilesById}
-            fitCount={fitCount}
-            totalLenders={totalLenders}
-          />
+          <>
+            <LenderLadder
+              entries={rankedEntries}
+              fitNames={fitNames}
+              profilesById={profilesById}
+              fitCount={fitCount}
+              totalLenders={totalLenders}
+              asOfDate={asOfDate}
+            />
+            <LenderAdvances entries={rankedEntries} />
+            <FitSuggestions
+              suggestions={fitSuggestions}
+              lenders={activeLenders}
+              lenderId={fitLenderId}
+              onLenderChange={setFitLenderId}
+              onFind={findFit}
+              hasTargetPayment={Boolean(filters.maxPayment && filters.maxPayment > 0)}
+              onApply={onPatchDeal}
+            />
+          </>
         )}
         {tab === "addons" && (
           <BackendAddons
@@ -296,6 +403,7 @@ const DealInspectorComponent: React.FC<DealInspectorProps> = ({
             grid={grid}
             loanTerm={dealData.loanTerm}
             downPayment={dealData.downPayment || 0}
+            structureNote={paymentStructureNote(getPaymentStructure(dealData))}
             onSetTermDown={onSetTermDown}
           />
         )}
@@ -208,6 +208,19 @@ describe("DealSheetModal PDF states", () => {
     );
   });
 
+  it("requests the payoff projection page only when the toggle is on", async () => {
+    renderModal();
+    fireEvent.click(screen.getByRole("button", { name: /download pdf/i }));
+    await waitFor(() => expect(mocks.generateDealPdf).toHaveBeenCalledTimes(1));
+    expect(mocks.generateDealPdf.mock.calls[0]?.[2]).toEqual({ includeAmortization: false });
+
+    await screen.findByText("PDF ready");
+    fireEvent.click(screen.getByRole("checkbox", { name: /include payoff projection/i }));
+    fireEvent.click(screen.getByRole("button", { name: /download pdf/i }));
+    await waitFor(() => expect(mocks.generateDealPdf).toHaveBeenCalledTimes(2));
+    expect(mocks.generateDealPdf.mock.calls[1]?.[2]).toEqual({ includeAmortization: true });
+  });
+
   it("passes pending sample provenance through to PDF lender language", async () => {
     mocks.checkBankEligibility.mockReturnValue({
       eligible: false,
@@ -234,6 +247,35 @@ describe("DealSheetModal PDF states", () => {
     });
   });
 
+  it("suggests the lender most likely to approve and prints each lender's odds", async () => {
+    render(
+      <DealSheetModal
+        vehicle={vehicle}
+        onClose={vi.fn()}
+        onSaveToPipeline={vi.fn()}
+        lenderHistory={[
+          {
+            lenderName: "Ford Credit",
+            submitted: 10,
+            approved: 10,
+            countered: 0,
+            declined: 0,
+            pending: 0,
+            approvalRate: 1,
+            averageRate: null,
+          },
+        ]}
+      />
+    );
+
+    // No tier limits → 50 from headroom, blended with 10 of 10 approved.
+    expect(screen.getByText("Ford Credit · 78% odds")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: /download pdf/i }));
+    await waitFor(() => expect(mocks.generateDealPdf).toHaveBeenCalledTimes(1));
+    expect(mocks.generateDealPdf.mock.calls[0]?.[0].lenderEligibility[0].approvalOdds).toBe(78);
+  });
+
   it("shows coded PDF errors", async () => {
     mocks.generateDealPdf.mockRejectedValue(
       new PdfGenerationError("blank_canvas", "Canvas rendered blank.")
@@ -4,7 +4,9 @@ import { fmt, splitPay } from "../../utils/format";
 import { PdfGenerationError, generateDealPdf } from "../../services/pdfGenerator";
 import { checkBankEligibility } from "../../services/lenderMatcher";
 import { calculateFinancials, getRebateBreakdown } from "../../services/calculator";
+import type { LenderApprovalStats } from "../../services/lenderDecisions";
 import { lenderFitForVehicle } from "../../services/lenderFit";
+import { likeliestLender, withLenderOdds } from "../../services/lenderOdds";
 import { scoreApprovalOdds } from "../../services/approvalScorer";
 import { normalizeBackendProductFields } from "../../services/backendProducts";
 import { getCurrentDealerDetails, logDealEvent } from "../../lib/api";
@@ -28,6 +30,8 @@ interface DealSheetModalProps {
    * success toast (z-80) never renders under the modal backdrop. [dc-redesign]
    */
   onSaveToPipeline: () => void;
+  /** Per-lender submission history the lender odds blend in (lenderDecisions). */
+  lenderHistory?: LenderApprovalStats[];
 }
 
 const rowStyle: React.CSSProperties = {
@@ -83,12 +87,14 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
   vehicle,
   onClose,
   onSaveToPipeline,
+  lenderHistory,
 }) => {
   const { settings, dealData, filters, customerName, salespersonName, safeLenderProfiles } =
     useDealContext();
 
   const [dealerName, setDealerName] = useState<string>("");
   const [pdfState, setPdfState] = useState<PdfUiState>({ status: "idle" });
+  const [includePayoffPage, setIncludePayoffPage] = useState(false);
   const revokePdfUrlRef = useRef<(() => void) | null>(null);
   const expirePdfFallbackRef = useRef<number | null>(null);
   const dialogRef = useRef<HTMLDivElement>(null);
@@ -130,19 +136,35 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
     () => ({ ...dealData, ...normalizeBackendProductFields(dealData) }),
     [dealData]
   );
-  const liveVehicle = useMemo(() => {
+  const profilesById = useMemo(
+    () => new Map(lenders.map((lender) => [lender.id, lender])),
+    [lenders]
+  );
+  const live = useMemo(() => {
     const calculated = calculateFinancials(vehicle, normalizedDealData, settings);
-    const fit = lenderFitForVehicle(calculated, { ...normalizedDealData, ...filters }, lenders);
-    const approval = scoreApprovalOdds(calculated, filters, fit.fitCount);
+    const deal = { ...normalizedDealData, ...filters };
+    const fit = lenderFitForVehicle(calculated, deal, lenders);
+    const approval = scoreApprovalOdds(
+      calculated,
+      filters,
+      fit.fitCount,
+      settings.approvalCalibration
+    );
     return {
-      ...calculated,
-      approvalScore: approval.internalScore,
-      approvalBand: approval.band,
-      ptiRatio: approval.ptiRatio,
-      fitCount: fit.fitCount,
-      fitNames: fit.fitNames,
+      vehicle: {
+        ...calculated,
+        approvalScore: approval.internalScore,
+        approvalBand: approval.band,
+        ptiRatio: approval.ptiRatio,
+        fitCount: fit.fitCount,
+        fitNames: fit.fitNames,
+      },
+      likeliest: likeliestLender(
+        withLenderOdds(fit.entries, calculated, deal, profilesById, lenderHistory)
+      ),
     };
-  }, [filters, lenders, normalizedDealData, settings, vehicle]);
+  }, [filters, lenderHistory, lenders, normalizedDealData, profilesById, settings, vehicle]);
+  const liveVehicle = live.vehicle;
   const rebate = getRebateBreakdown(normalizedDealData);
   const price = numVal(liveVehicle.price);
   const baseOtd = numVal(liveVehicle.baseOutTheDoorPrice);
@@ -170,8 +192,11 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
           ? "var(--color-warning)"
           : "var(--color-danger)";
 
-  const bestLender =
-    liveVehicle.fitNames && liveVehicle.fitNames.length > 0 ? liveVehicle.fitNames[0] : "—";
+  const bestLender = live.likeliest
+    ? live.likeliest.odds
+      ? `${live.likeliest.name} · ${live.likeliest.odds.odds}% odds`
+      : live.likeliest.name
+    : "—";
 
   const aprLabel =
     typeof normalizedDealData.interestRate === "number" &&
@@ -191,7 +216,19 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
         { ...normalizedDealData, ...filters },
         lenders
       );
-      const freshApproval = scoreApprovalOdds(freshFinancials, filters, freshFit.fitCount);
+      const freshOdds = withLenderOdds(
+        freshFit.entries,
+        freshFinancials,
+        { ...normalizedDealData, ...filters },
+        profilesById,
+        lenderHistory
+      );
+      const freshApproval = scoreApprovalOdds(
+        freshFinancials,
+        filters,
+        freshFit.fitCount,
+        settings.approvalCalibration
+      );
       const freshVehicle: CalculatedVehicle = {
         ...freshFinancials,
         approvalScore: freshApproval.internalScore,
@@ -207,15 +244,21 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
           creditScore: filters.creditScore,
           monthlyIncome: filters.monthlyIncome,
           monthlyDebt: filters.monthlyDebt,
+          coBuyerCreditScore: filters.coBuyerCreditScore,
+          coBuyerMonthlyIncome: filters.coBuyerMonthlyIncome,
+          coBuyerMonthlyDebt: filters.coBuyerMonthlyDebt,
         },
         customerName,
         salespersonName,
         lenderEligibility: lenders.map((bank) => ({
           name: bank.name,
           ...checkBankEligibility(freshVehicle, { ...normalizedDealData, ...filters }, bank),
+          approvalOdds: freshOdds.find((entry) => entry.lenderId === bank.id)?.odds?.odds ?? null,
         })),
       };
-      const blob = await generateDealPdf(pdfData, settings);
+      const blob = await generateDealPdf(pdfData, settings, {
+        includeAmortization: includePayoffPage,
+      });
       const result = downloadBlob(blob, dealSheetFilename(freshVehicle), {
         revokeAfterMs: PDF_FALLBACK_LIFETIME_MS,
       });
@@ -246,6 +289,7 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
         status: result.status,
         term: normalizedDealData.loanTerm,
         fitCount: freshVehicle.fitCount ?? 0,
+        payoffPage: includePayoffPage,
       });
       logDealEvent("deal_sheet_generated", {
         vin: freshVehicle.vin,
@@ -532,6 +576,25 @@ const DealSheetModalBase: React.FC<DealSheetModalProps> = ({
             borderRadius: "0 0 16px 16px",
           }}
         >
+          <label
+            style={{
+              display: "inline-flex",
+              alignItems: "center",
+              gap: 6,
+              marginRight: "auto",
+              fontSize: 12.5,
+              color: "var(--color-text-muted)",
+              cursor: "pointer",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={includePayoffPage}
+              onChange={(e) => setIncludePayoffPage(e.target.checked)}
+              disabled={pdfBusy}
+            />
+            Include payoff projection
+          </label>
           <button onClick={onClose} className="transition-colors" style={secondaryBtn}>
             Close
           </button>
@@ -1,13 +1,17 @@
 import React, { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { INITIAL_DEAL_DATA, INITIAL_FILTER_DATA } from "../../constants";
 import { useDealContext } from "../../context/DealContext";
+import { useDealSubmissions } from "../../hooks/useDealSubmissions";
 import { useDeskShortcuts } from "../../hooks/useDeskShortcuts";
 import { useSaveDeal } from "../../hooks/useSaveDeal";
 import { capture } from "../../lib/analytics";
 import { logDealEvent } from "../../lib/api";
 import { toast } from "../../lib/toast";
 import { applyBackendProductPatch, getBackendProductSplit } from "../../services/backendProducts";
+import { lenderApprovalStats } from "../../services/lenderDecisions";
 import { activeLenderCount, lenderFitForVehicle } from "../../services/lenderFit";
+import { withLenderOdds } from "../../services/lenderOdds";
+import { getHomeState } from "../../services/taxRules";
 import type { LenderFitEntry } from "../../services/lenderFit";
 import type { CalculatedVehicle, DealData, FilterData, LenderProfile } from "../../types";
 import { fmt } from "../../utils/format";
@@ -161,17 +165,22 @@ const DeskScreenBase: React.FC = () => {
     [setFilters]
   );
 
-  const focusedEntries = useMemo<LenderFitEntry[]>(() => {
-    if (!focused) return [];
-    return lenderFitForVehicle(focused, { ...dealData, ...filters }, safeLenderProfiles).entries;
-  }, [dealData, filters, focused, safeLenderProfiles]);
-
   const profilesById = useMemo(() => {
     const profiles = new Map<string, LenderProfile>();
     for (const profile of safeLenderProfiles) profiles.set(profile.id, profile);
     return profiles;
   }, [safeLenderProfiles]);
 
+  const { submissions } = useDealSubmissions();
+  const lenderHistory = useMemo(() => lenderApprovalStats(submissions), [submissions]);
+
+  const focusedEntries = useMemo<LenderFitEntry[]>(() => {
+    if (!focused) return [];
+    const deal = { ...dealData, ...filters };
+    const { entries } = lenderFitForVehicle(focused, deal, safeLenderProfiles);
+    return withLenderOdds(entries, focused, deal, profilesById, lenderHistory);
+  }, [dealData, filters, focused, lenderHistory, profilesById, safeLenderProfiles]);
+
   const buyRate = useMemo(() => {
     const coerceRate = (value: unknown): number | null => {
       if (typeof value === "number" && Number.isFinite(value)) return value;
@@ -181,6 +190,10 @@ const DeskScreenBase: React.FC = () => {
     };
 
     for (const entry of focusedEntries) {
+      // The engine's deal-specific buy rate includes adder grids and rules.
+      if (entry.eligible && typeof entry.effectiveRate === "number") {
+        return { rate: Number(entry.effectiveRate.toFixed(2)), lender: entry.name };
+      }
       const baseRate = coerceRate(entry.matchedTier?.baseInterestRate);
       if (entry.eligible && baseRate !== null) {
         const rate = Number(
@@ -297,6 +310,7 @@ const DeskScreenBase: React.FC = () => {
       maxOtdLtv: null,
       vin: "",
       minScore: null,
+      agingBucket: null,
     }));
     setSearchQuery("");
   }, [setFilters, setSearchQuery]);
@@ -365,6 +379,7 @@ const DeskScreenBase: React.FC = () => {
               dealData={dealData}
               setDeal={setDeal}
               buyerState={buyerState}
+              homeState={getHomeState(settings)}
               aprText={aprText}
               onAprChange={onAprChange}
               buyRate={buyRate}
@@ -418,10 +433,12 @@ const DeskScreenBase: React.FC = () => {
               profilesById={profilesById}
               totalLenders={totalLenders}
               dealData={dealData}
+              filters={filters}
               settings={settings}
               pinned={isPinned}
               onPin={toggleFocusedFavorite}
               onSetTermDown={setFocusedTermDown}
+              onPatchDeal={setDeal}
               compactMode={compactInspector}
               onCloseCompact={() => setInspectorOpen(false)}
               compactOpen={inspectorOpen}
@@ -444,6 +461,7 @@ const DeskScreenBase: React.FC = () => {
         <Suspense fallback={null}>
           <DealSheetModal
             vehicle={focused}
+            lenderHistory={lenderHistory}
             onClose={() => setDealSheetOpen(false)}
             onSaveToPipeline={saveFromDealSheet}
           />
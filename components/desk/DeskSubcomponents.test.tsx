@@ -12,6 +12,8 @@ import BackendAddons from "./BackendAddons";
 import { DealInspector } from "./DealInspector";
 import { InventoryGrid } from "./InventoryGrid";
 import StructureMatrix from "./StructureMatrix";
+import FitSuggestions from "./FitSuggestions";
+import { INITIAL_FILTER_DATA } from "../../constants";
 
 const settings: Settings = {
   defaultTerm: 72,
@@ -169,10 +171,12 @@ describe("desk subcomponents", () => {
         profilesById={new Map(lenderProfiles.map((profile) => [profile.id, profile]))}
         totalLenders={2}
         dealData={dealData}
+        filters={INITIAL_FILTER_DATA}
         settings={settings}
         pinned={false}
         onPin={vi.fn()}
         onSetTermDown={vi.fn()}
+        onPatchDeal={vi.fn()}
         compactMode={false}
         compactOpen={false}
         onCloseCompact={vi.fn()}
@@ -222,6 +226,58 @@ describe("desk subcomponents", () => {
     expect(container.querySelector('[role="row"][aria-rowindex="1"]')).toBeTruthy();
   });
 
+  it("applies a make-it-fit suggestion as a deal patch", () => {
+    const onApply = vi.fn();
+
+    render(
+      <FitSuggestions
+        suggestions={[
+          {
+            target: "down",
+            lenderId: "ford",
+            lenderName: "Ford Credit",
+            patch: { downPayment: 3500 },
+            downPayment: 3500,
+            sellingPrice: 24500,
+            loanTerm: 72,
+            payment: 412.5,
+          },
+        ]}
+        lenders={[{ id: "ford", name: "Ford Credit" }]}
+        lenderId=""
+        onLenderChange={vi.fn()}
+        onFind={vi.fn()}
+        hasTargetPayment={false}
+        onApply={onApply}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: /\$3,500 down/ }));
+    expect(onApply).toHaveBeenCalledWith({ downPayment: 3500 });
+    expect(screen.getByText("Set a max payment to solve for term.")).toBeTruthy();
+  });
+
+  it("searches for a fit only when asked", () => {
+    const onFind = vi.fn();
+    const props = {
+      lenders: [{ id: "ford", name: "Ford Credit" }],
+      lenderId: "",
+      onLenderChange: vi.fn(),
+      onFind,
+      hasTargetPayment: true,
+      onApply: vi.fn(),
+    };
+
+    const { rerender } = render(<FitSuggestions suggestions={null} {...props} />);
+    expect(screen.queryByText(/Nothing to solve/)).toBeNull();
+
+    fireEvent.click(screen.getByRole("button", { name: "Find a fit" }));
+    expect(onFind).toHaveBeenCalledTimes(1);
+
+    rerender(<FitSuggestions suggestions={[]} {...props} />);
+    expect(screen.getByText(/Nothing to solve/)).toBeTruthy();
+  });
+
   it("StructureMatrix handles empty grid without crash (edge)", () => {
     const on = vi.fn();
     const { container } = render(
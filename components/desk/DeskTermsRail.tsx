@@ -1,8 +1,11 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { parseMoneyInput } from "../../services/backendProducts";
 import { getRebateBreakdown } from "../../services/calculator";
+import { TAX_STATES, taxStateLabel } from "../../services/taxRules";
+import { AGING_BUCKETS } from "../../services/inventoryAging";
 import { DESK_TERMS } from "./deskConstants";
-import type { AppState, DealData, FilterData } from "../../types";
+import { TITLE_BRANDS } from "../../constants";
+import type { AgingBucket, AppState, DealData, FilterData } from "../../types";
 
 interface DeskTermsRailProps {
   customerName: string;
@@ -12,6 +15,7 @@ interface DeskTermsRailProps {
   dealData: DealData;
   setDeal: (patch: Partial<DealData>) => void;
   buyerState: AppState;
+  homeState: AppState;
   aprText: string;
   onAprChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
   buyRate: { rate: number; lender: string } | null;
@@ -23,6 +27,44 @@ interface DeskTermsRailProps {
   onScanIncome: () => void;
 }
 
+/**
+ * Decimal input that keeps the raw text while typing ("0.00", "58.") and only
+ * publishes a parsed number, mirroring the desk APR field. Blank clears the
+ * value to undefined rather than 0 — a 0 money factor is a real program.
+ */
+const DecimalField: React.FC<{
+  id: string;
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  placeholder?: string;
+}> = ({ id, label, value, onChange, placeholder }) => {
+  const [text, setText] = useState(() => (value === undefined ? "" : String(value)));
+  useEffect(() => {
+    const current = parseFloat(text);
+    if (value === undefined ? !Number.isFinite(current) : current === value) return;
+    setText(value === undefined ? "" : String(value));
+  }, [text, value]);
+  return (
+    <div className="desk-field compact">
+      <label htmlFor={id}>{label}</label>
+      <input
+        id={id}
+        className="dc-input mono"
+        inputMode="decimal"
+        value={text}
+        placeholder={placeholder}
+        onChange={(event) => {
+          const raw = event.target.value.replace(/[^0-9.]/g, "");
+          setText(raw);
+          const parsed = parseFloat(raw);
+          onChange(raw === "" || !Number.isFinite(parsed) ? undefined : parsed);
+        }}
+      />
+    </div>
+  );
+};
+
 const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
   customerName,
   setCustomerName,
@@ -31,6 +73,7 @@ const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
   dealData,
   setDeal,
   buyerState,
+  homeState,
   aprText,
   onAprChange,
   buyRate,
@@ -199,13 +242,34 @@ const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
               value={buyerState}
               onChange={(e) => setDeal({ buyerState: e.target.value as AppState })}
             >
-              <option value="MI">MI · 6%</option>
-              <option value="OH">OH · 5.75%</option>
-              <option value="IN">IN · 6% recip.</option>
-              <option value="IL">IL · 6% recip.</option>
-              <option value="FL">FL · 6%</option>
+              {TAX_STATES.map((state) => (
+                <option key={state} value={state}>
+                  {taxStateLabel(state, homeState)}
+                </option>
+              ))}
             </select>
           </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-buyer-zip">Buyer ZIP</label>
+            <input
+              id="desk-buyer-zip"
+              className="dc-input mono"
+              inputMode="numeric"
+              autoComplete="postal-code"
+              maxLength={10}
+              value={dealData.buyerZip ?? ""}
+              onChange={(event) => setDeal({ buyerZip: event.target.value || undefined })}
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-buyer-county">County</label>
+            <input
+              id="desk-buyer-county"
+              className="dc-input"
+              value={dealData.buyerCounty ?? ""}
+              onChange={(event) => setDeal({ buyerCounty: event.target.value || undefined })}
+            />
+          </div>
           <div className="desk-field">
             <label htmlFor="desk-trade-value">Trade value</label>
             <input
@@ -282,6 +346,133 @@ const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
               <option value="used">Used</option>
             </select>
           </div>
+          <div className="desk-field">
+            <label htmlFor="desk-title-brand">Title brand</label>
+            <select
+              id="desk-title-brand"
+              className="dc-input"
+              value={dealData.titleBrand ?? ""}
+              onChange={(event) =>
+                setDeal({
+                  titleBrand: TITLE_BRANDS.find((brand) => brand.value === event.target.value)
+                    ?.value,
+                })
+              }
+            >
+              <option value="">Select</option>
+              {TITLE_BRANDS.map((brand) => (
+                <option key={brand.value} value={brand.value}>
+                  {brand.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-lease-term">Lease term</label>
+            <input
+              id="desk-lease-term"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={dealData.leaseTerm ?? ""}
+              onChange={(event) =>
+                setDeal({
+                  leaseTerm:
+                    event.target.value.trim() === ""
+                      ? undefined
+                      : parseMoneyInput(event.target.value) || undefined,
+                })
+              }
+              placeholder="36"
+            />
+          </div>
+          <DecimalField
+            id="desk-lease-residual"
+            label="Residual %"
+            value={dealData.leaseResidualPercent}
+            onChange={(leaseResidualPercent) => setDeal({ leaseResidualPercent })}
+            placeholder="Lease"
+          />
+          <DecimalField
+            id="desk-lease-money-factor"
+            label="Money factor"
+            value={dealData.leaseMoneyFactor}
+            onChange={(leaseMoneyFactor) => setDeal({ leaseMoneyFactor })}
+            placeholder="0.00125"
+          />
+          <div className="desk-field compact">
+            <label htmlFor="desk-lease-acquisition">Acq. fee</label>
+            <input
+              id="desk-lease-acquisition"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={dealData.leaseAcquisitionFee || ""}
+              onChange={setNumber((leaseAcquisitionFee) => setDeal({ leaseAcquisitionFee }))}
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-lease-disposition">Disp. fee</label>
+            <input
+              id="desk-lease-disposition"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={dealData.leaseDispositionFee || ""}
+              onChange={setNumber((leaseDispositionFee) => setDeal({ leaseDispositionFee }))}
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-payment-frequency">Payments</label>
+            <select
+              id="desk-payment-frequency"
+              className="dc-input"
+              value={dealData.paymentFrequency ?? "monthly"}
+              onChange={(event) =>
+                setDeal({
+                  paymentFrequency: event.target.value === "biweekly" ? "biweekly" : undefined,
+                })
+              }
+            >
+              <option value="monthly">Monthly</option>
+              <option value="biweekly">Biweekly</option>
+            </select>
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-balloon">Balloon</label>
+            <input
+              id="desk-balloon"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={dealData.balloonAmount || ""}
+              onChange={(event) =>
+                setDeal({
+                  balloonAmount:
+                    event.target.value.trim() === ""
+                      ? undefined
+                      : parseMoneyInput(event.target.value),
+                })
+              }
+              placeholder="None"
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-contract-date">Contract date</label>
+            <input
+              id="desk-contract-date"
+              className="dc-input mono"
+              type="date"
+              value={dealData.contractDate ?? ""}
+              onChange={(event) => setDeal({ contractDate: event.target.value || undefined })}
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-first-payment-date">First payment</label>
+            <input
+              id="desk-first-payment-date"
+              className="dc-input mono"
+              type="date"
+              value={dealData.firstPaymentDate ?? ""}
+              onChange={(event) => setDeal({ firstPaymentDate: event.target.value || undefined })}
+            />
+          </div>
           <div className="desk-field">
             <label htmlFor="desk-monthly-debt">Monthly debt</label>
             <input
@@ -298,6 +489,60 @@ const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
               placeholder="Obligations"
             />
           </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-open-auto-loans">Open auto loans</label>
+            <input
+              id="desk-open-auto-loans"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={filters.openAutoLoans ?? ""}
+              onChange={(event) =>
+                setFilter({
+                  openAutoLoans:
+                    event.target.value.trim() === ""
+                      ? null
+                      : Math.max(0, Math.floor(Number(event.target.value)) || 0),
+                })
+              }
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-co-fico">Co-buyer FICO</label>
+            <input
+              id="desk-co-fico"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={filters.coBuyerCreditScore ?? ""}
+              onChange={setNumber((n) => setFilter({ coBuyerCreditScore: n || null }))}
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-co-income">Co-buyer income</label>
+            <input
+              id="desk-co-income"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={filters.coBuyerMonthlyIncome ?? ""}
+              onChange={setNumber((n) => setFilter({ coBuyerMonthlyIncome: n || null }))}
+              placeholder="Gross"
+            />
+          </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-co-debt">Co-buyer debt</label>
+            <input
+              id="desk-co-debt"
+              className="dc-input mono"
+              inputMode="numeric"
+              value={filters.coBuyerMonthlyDebt ?? ""}
+              onChange={(event) =>
+                setFilter({
+                  coBuyerMonthlyDebt:
+                    event.target.value.trim() === "" ? null : parseMoneyInput(event.target.value),
+                })
+              }
+              placeholder="Obligations"
+            />
+          </div>
           <div className="desk-field">
             <label htmlFor="desk-filter-vehicle">Vehicle filter</label>
             <input
@@ -352,6 +597,24 @@ const DeskTermsRailComponent: React.FC<DeskTermsRailProps> = ({
               placeholder="Any"
             />
           </div>
+          <div className="desk-field compact">
+            <label htmlFor="desk-aging">Days in stock</label>
+            <select
+              id="desk-aging"
+              className="dc-input"
+              value={filters.agingBucket ?? ""}
+              onChange={(e) =>
+                setFilter({ agingBucket: (e.target.value || null) as AgingBucket | null })
+              }
+            >
+              <option value="">Any</option>
+              {AGING_BUCKETS.map(({ bucket, label }) => (
+                <option key={bucket} value={bucket}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
           <button
             type="button"
             className="desk-clear-btn transition-colors"
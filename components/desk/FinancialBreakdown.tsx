@@ -1,6 +1,13 @@
 import React from "react";
 import { fmt } from "../../utils/format";
-import type { Settings } from "../../types";
+import type { PaymentPlan, Settings } from "../../types";
+import type { LeaseQuote } from "../../services/leaseCalculator";
+import type { SalesTaxBreakdown } from "../../services/calculator";
+import { formatTaxRate } from "../../services/taxRules";
+import { jurisdictionLabel } from "../../services/taxJurisdictions";
+import { formatIsoDate, type FirstPaymentAdjustment } from "../../services/firstPayment";
+import { paymentPeriodSuffix } from "../../services/paymentStructure";
+import { formatCurrencyExact } from "../common/TableCell";
 import { otdColorFor, pct, ptiColorFor } from "./deskConstants";
 
 export const Line: React.FC<{ label: string; value: string; color?: string; bold?: boolean }> =
@@ -26,9 +33,111 @@ interface FinancialBreakdownProps {
   otdLtv: number | "Error" | "N/A";
   pti: number | undefined;
   financed: number | null;
+  /** Trade payoff over allowance, already inside the amount financed. */
+  negativeEquity?: number;
   thresholds: Settings["ltvThresholds"];
+  /** Retail payment + term, paired against the lease quote when one exists. */
+  payment?: number | null;
+  loanTerm?: number;
+  lease?: LeaseQuote | null;
+  /** Odd first-period adjustment when contract + first payment dates are set. */
+  firstPayment?: FirstPaymentAdjustment | null;
+  /** Sales tax split by jurisdiction (state, county, city). */
+  salesTax?: SalesTaxBreakdown | null;
+  /** Balloon / biweekly schedule; `payment` is then the monthly equivalent. */
+  paymentPlan?: PaymentPlan;
 }
 
+const money = (value: number | null | undefined): string =>
+  typeof value === "number" && Number.isFinite(value) ? fmt(value) : "—";
+
+const TAX_BASIS_NOTES: Partial<Record<SalesTaxBreakdown["basis"], string>> = {
+  "home-state": "Reciprocity: collected at the dealership state's lower amount.",
+  custom: "Custom tax rate from settings.",
+};
+
+/** One line per taxing jurisdiction; capped surtaxes show their taxable amount. */
+const SalesTaxLines: React.FC<{ salesTax: SalesTaxBreakdown }> = ({ salesTax }) => {
+  const note = TAX_BASIS_NOTES[salesTax.basis];
+  return (
+    <>
+      <div className="desk-panel-heading desk-panel-subheading">
+        <span>Sales tax</span>
+        <strong>
+          {salesTax.jurisdiction && salesTax.basis === "buyer-state"
+            ? jurisdictionLabel(salesTax.jurisdiction)
+            : salesTax.taxState}
+        </strong>
+      </div>
+      <div className="desk-breakdown-list">
+        {salesTax.lines.map((line) => (
+          <Line
+            key={line.name}
+            label={`${line.name} ${formatTaxRate(line.rate)}${
+              line.taxable < salesTax.lines[0]!.taxable
+                ? ` on ${formatCurrencyExact(line.taxable)}`
+                : ""
+            }`}
+            value={formatCurrencyExact(line.amount)}
+          />
+        ))}
+        <Line label="Total sales tax" value={formatCurrencyExact(salesTax.tax)} bold />
+      </div>
+      {note && <p className="desk-compare-note">{note}</p>}
+    </>
+  );
+};
+
+/** Retail vs lease, one row per comparable figure. */
+const LeaseComparison: React.FC<{
+  lease: LeaseQuote;
+  payment: number | null;
+  loanTerm: number | undefined;
+  financed: number | null;
+  down: number;
+}> = ({ lease, payment, loanTerm, financed, down }) => {
+  const rows: [string, string, string][] = [
+    [
+      "Payment",
+      money(payment),
+      `${fmt(lease.monthlyPayment as number)}${lease.monthlyUseTax > 0 ? " incl. tax" : ""}`,
+    ],
+    ["Term", loanTerm ? `${loanTerm} mo` : "—", `${lease.leaseTerm} mo`],
+    ["Financed / adj. cap", money(financed), fmt(lease.adjustedCapCost)],
+    ["Residual", "—", `${fmt(lease.residualValue)} (${lease.residualPercent}%)`],
+    ["Rate", "—", `MF ${lease.moneyFactor} ≈ ${lease.equivalentApr}%`],
+    [
+      "Tax",
+      "in OTD",
+      lease.taxMethod === "monthly"
+        ? `${fmt(lease.monthlyUseTax)}/mo`
+        : `${fmt(lease.upfrontTax)} upfront`,
+    ],
+    ["Due at signing", down ? fmt(down) : "$0", fmt(lease.dueAtSigning)],
+  ];
+  return (
+    <div className="desk-compare-table" role="table" aria-label="Retail versus lease">
+      <div role="row" className="desk-compare-head">
+        <span role="columnheader" />
+        <span role="columnheader">Retail</span>
+        <span role="columnheader">Lease</span>
+      </div>
+      {rows.map(([label, retail, leased]) => (
+        <div role="row" key={label}>
+          <span role="rowheader">{label}</span>
+          <span role="cell">{retail}</span>
+          <span role="cell">{leased}</span>
+        </div>
+      ))}
+      {lease.dispositionFee > 0 && (
+        <p className="desk-compare-note">
+          Disposition fee of {fmt(lease.dispositionFee)} due at lease end.
+        </p>
+      )}
+    </div>
+  );
+};
+
 const FinancialBreakdown: React.FC<FinancialBreakdownProps> = ({
   price,
   taxFees,
@@ -36,7 +145,14 @@ const FinancialBreakdown: React.FC<FinancialBreakdownProps> = ({
   otdLtv,
   pti,
   financed,
+  negativeEquity = 0,
   thresholds,
+  payment = null,
+  loanTerm,
+  lease = null,
+  firstPayment = null,
+  salesTax = null,
+  paymentPlan,
 }) => (
   <section className="desk-panel-section">
     <div className="desk-panel-heading">
@@ -51,6 +167,13 @@ const FinancialBreakdown: React.FC<FinancialBreakdownProps> = ({
         value={down ? `-${fmt(down)}` : "-$0"}
         color="var(--color-danger)"
       />
+      {negativeEquity > 0 && (
+        <Line
+          label="Negative equity rolled in"
+          value={`+${fmt(negativeEquity)}`}
+          color="var(--color-warning)"
+        />
+      )}
       <Line
         label="Payment-to-income"
         value={pti !== undefined ? `${pti.toFixed(1)}%` : "—"}
@@ -63,6 +186,77 @@ const FinancialBreakdown: React.FC<FinancialBreakdownProps> = ({
         bold
       />
     </div>
+    {salesTax && salesTax.lines.length > 0 && <SalesTaxLines salesTax={salesTax} />}
+    {paymentPlan && (
+      <>
+        <div className="desk-panel-heading desk-panel-subheading">
+          <span>Payment structure</span>
+          <strong>{paymentPlan.frequency === "biweekly" ? "Biweekly" : "Monthly"}</strong>
+        </div>
+        <div className="desk-breakdown-list">
+          <Line
+            label={`${paymentPlan.payments} payments`}
+            value={
+              typeof paymentPlan.payment === "number"
+                ? `${formatCurrencyExact(paymentPlan.payment)}${paymentPeriodSuffix(paymentPlan.frequency)}`
+                : "—"
+            }
+          />
+          {paymentPlan.balloon > 0 && (
+            <Line
+              label="Balloon due at end"
+              value={formatCurrencyExact(paymentPlan.balloon)}
+              color="var(--color-warning)"
+            />
+          )}
+          {paymentPlan.frequency === "biweekly" && (
+            <Line
+              label="Monthly equivalent"
+              value={payment === null ? "—" : formatCurrencyExact(payment)}
+            />
+          )}
+        </div>
+      </>
+    )}
+    {firstPayment && (
+      <>
+        <div className="desk-panel-heading desk-panel-subheading">
+          <span>First payment</span>
+          <strong>{formatIsoDate(firstPayment.firstPaymentDate)}</strong>
+        </div>
+        <div className="desk-breakdown-list">
+          <Line label="First period" value={`${firstPayment.firstPeriodDays} days`} />
+          <Line
+            label={firstPayment.oddDays >= 0 ? "Odd-days interest" : "Short-period credit"}
+            value={formatCurrencyExact(Math.abs(firstPayment.oddDaysInterest))}
+          />
+          <Line label="30-day payment" value={formatCurrencyExact(firstPayment.standardPayment)} />
+          <Line
+            label="Contract payment"
+            value={`${formatCurrencyExact(firstPayment.adjustedPayment)} (${
+              firstPayment.paymentDifference >= 0 ? "+" : "−"
+            }${formatCurrencyExact(Math.abs(firstPayment.paymentDifference))})`}
+            color={firstPayment.paymentDifference > 0 ? "var(--color-warning)" : undefined}
+            bold
+          />
+        </div>
+      </>
+    )}
+    {lease && (
+      <>
+        <div className="desk-panel-heading desk-panel-subheading">
+          <span>Lease quote</span>
+          <strong>{fmt(lease.monthlyPayment as number)}/mo</strong>
+        </div>
+        <LeaseComparison
+          lease={lease}
+          payment={payment}
+          loanTerm={loanTerm}
+          financed={financed}
+          down={down}
+        />
+      </>
+    )}
   </section>
 );
 
@@ -0,0 +1,85 @@
+import React from "react";
+import { fmt } from "../../utils/format";
+import type { StructureSuggestion } from "../../services/dealStructurer";
+import type { DealData } from "../../types";
+
+interface FitSuggestionsProps {
+  /** Null until "Find a fit" runs for the current deal and lender. */
+  suggestions: StructureSuggestion[] | null;
+  lenders: { id: string; name: string }[];
+  lenderId: string;
+  onLenderChange: (id: string) => void;
+  onFind: () => void;
+  hasTargetPayment: boolean;
+  onApply: (patch: Partial<DealData>) => void;
+}
+
+const suggestionLabel = (s: StructureSuggestion): string => {
+  switch (s.target) {
+    case "down":
+      return `${fmt(s.downPayment)} down`;
+    case "price":
+      return `Sell at ${fmt(s.sellingPrice)}`;
+    case "term":
+      return `${s.loanTerm} months`;
+  }
+};
+
+const FitSuggestions: React.FC<FitSuggestionsProps> = ({
+  suggestions,
+  lenders,
+  lenderId,
+  onLenderChange,
+  onFind,
+  hasTargetPayment,
+  onApply,
+}) => (
+  <section className="desk-panel-section">
+    <div className="desk-panel-heading">
+      <span>Make it fit</span>
+      <strong>{suggestions?.length ? `${suggestions.length} options` : "—"}</strong>
+    </div>
+    <div className="desk-field compact">
+      <label htmlFor="desk-fit-lender">Solve for</label>
+      <select
+        id="desk-fit-lender"
+        value={lenderId}
+        onChange={(event) => onLenderChange(event.target.value)}
+      >
+        <option value="">Any active lender</option>
+        {lenders.map((lender) => (
+          <option key={lender.id} value={lender.id}>
+            {lender.name}
+          </option>
+        ))}
+      </select>
+    </div>
+    <button type="button" className="desk-ghost-btn transition-colors" onClick={onFind}>
+      Find a fit
+    </button>
+    <div className="desk-fit-list">
+      {suggestions?.map((s) => (
+        <button
+          type="button"
+          key={s.target}
+          className="desk-fit-suggestion transition-colors"
+          onClick={() => onApply(s.patch)}
+        >
+          <span>{suggestionLabel(s)}</span>
+          <span className="desk-lender-meta">
+            {s.lenderName}
+            {s.payment === null ? "" : ` · ${fmt(s.payment)}/mo`}
+          </span>
+        </button>
+      ))}
+    </div>
+    {suggestions?.length === 0 && (
+      <p className="desk-compare-note">
+        Nothing to solve: the deal already fits, or no single lever makes it fit.
+      </p>
+    )}
+    {!hasTargetPayment && <p className="desk-compare-note">Set a max payment to solve for term.</p>}
+  </section>
+);
+
+export default React.memo(FitSuggestions);
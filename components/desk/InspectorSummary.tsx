@@ -2,7 +2,7 @@ import React from "react";
 import { ApprovalGauge } from "../common/ApprovalGauge";
 import { fmt } from "../../utils/format";
 import type { splitPay } from "../../utils/format";
-import type { Settings } from "../../types";
+import type { PaymentPlan, Settings } from "../../types";
 import { fitCountColor, otdColorFor, pct, ptiColorFor } from "./deskConstants";
 
 interface InspectorSummaryProps {
@@ -10,6 +10,8 @@ interface InspectorSummaryProps {
   bandLabel: string;
   gaugeColor: string;
   pay: ReturnType<typeof splitPay> | null;
+  /** Balloon / biweekly schedule; `pay` is then the periodic payment. */
+  paymentPlan?: PaymentPlan;
   loanTerm: number;
   apr: string;
   fitCount: number;
@@ -26,6 +28,7 @@ const InspectorSummary: React.FC<InspectorSummaryProps> = ({
   bandLabel,
   gaugeColor,
   pay,
+  paymentPlan,
   loanTerm,
   apr,
   fitCount,
@@ -50,13 +53,15 @@ const InspectorSummary: React.FC<InspectorSummaryProps> = ({
       </div>
     </div>
     <div className="desk-payment-cell">
-      <div className="desk-payment-label">Est. monthly payment</div>
+      <div className="desk-payment-label">Est. {paymentPlan?.frequency ?? "monthly"} payment</div>
       <div className="desk-payment-value">
         <span>{pay ? pay.whole : "—"}</span>
         <small>{pay ? pay.frac : ""}</small>
       </div>
       <div className="desk-payment-meta">
-        {loanTerm} mo · {apr} APR · estimate
+        {loanTerm} mo · {apr} APR ·{" "}
+        {paymentPlan && paymentPlan.balloon > 0 ? `${fmt(paymentPlan.balloon)} balloon · ` : ""}
+        estimate
       </div>
     </div>
     <div className="desk-summary-metrics" aria-label="Deal structure metrics">
@@ -5,6 +5,7 @@ import { fmt, fmtN } from "../../utils/format";
 import { CarIcon, MagnifyingGlassIcon } from "../common/Icons";
 import { ScoreRing } from "../common/ScoreRing";
 import { EmptyState } from "../common/states";
+import { agingColor } from "../../services/inventoryAging";
 import {
   SORT_COLUMNS,
   bandColor,
@@ -247,6 +248,14 @@ const InventoryGridBase: React.FC<InventoryGridProps> = ({
                         ? "—"
                         : `${fmt(vehicle.monthlyPayment as number)}/mo`}
                     </span>
+                    <span
+                      role="cell"
+                      data-label="Age"
+                      className="desk-inventory-cell"
+                      style={{ color: agingColor(vehicle.daysInStock) }}
+                    >
+                      {typeof vehicle.daysInStock === "number" ? `${vehicle.daysInStock}d` : "—"}
+                    </span>
                     <span role="cell" data-label="Odds" className="desk-inventory-odds">
                       <strong style={{ color: scoreColor }}>{score}</strong>
                       <ScoreRing score={score} size={20} colorVar={scoreColor} />
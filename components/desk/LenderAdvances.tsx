@@ -0,0 +1,38 @@
+import React from "react";
+import type { LenderFitEntry } from "../../services/lenderFit";
+import { advanceBasis, advanceSummary } from "../../services/lenderAdvance";
+import { Line } from "./FinancialBreakdown";
+
+interface LenderAdvancesProps {
+  entries: LenderFitEntry[];
+}
+
+/** Per-lender max advance against the deal's advance, for lenders with an advance limit. */
+const LenderAdvances: React.FC<LenderAdvancesProps> = ({ entries }) => {
+  const rows = entries.filter((entry) => entry.advance);
+  if (rows.length === 0) return null;
+  const over = rows.filter((entry) => entry.advance!.overBy > 0).length;
+  return (
+    <section className="desk-panel-section">
+      <div className="desk-panel-heading">
+        <span>Max advance</span>
+        <strong style={{ color: over > 0 ? "var(--color-danger)" : undefined }}>
+          {over > 0 ? `${over} over` : "All within"}
+        </strong>
+      </div>
+      <div className="desk-breakdown-list">
+        {rows.map((entry) => (
+          <div key={entry.lenderId} title={advanceBasis(entry.advance!)}>
+            <Line
+              label={entry.name}
+              value={advanceSummary(entry.advance!)}
+              color={entry.advance!.overBy > 0 ? "var(--color-danger)" : undefined}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default React.memo(LenderAdvances);
@@ -1,7 +1,12 @@
 import React from "react";
 import type { LenderFitEntry } from "../../services/lenderFit";
+import type { LenderReserveQuote } from "../../services/dealerReserve";
+import { lenderOddsTitle } from "../../services/lenderOdds";
+import { expiredProgramDate } from "../../services/lenderPrograms";
+import { rateBreakdownText } from "../../services/rateAdders";
 import type { LenderProfile } from "../../types";
-import { fitCountColor } from "./deskConstants";
+import { fmt } from "../../utils/format";
+import { fitCountColor, oddsColor } from "./deskConstants";
 
 /** Max of a tier field across a lender's tiers — the honest lender-level ceiling. */
 const maxOverTiers = (
@@ -29,13 +34,23 @@ const lenderMeta = (entry: LenderFitEntry, profile: LenderProfile | undefined):
   return `${ltv != null ? `${Math.round(ltv)}%` : "—"} · ${term != null ? `${term} mo` : "—"}`;
 };
 
+/** "Buy 6.49% → sell 8.49% · $512.30/mo · split 25%" hover detail for a reserve quote. */
+const reserveTitle = (reserve: LenderReserveQuote): string =>
+  `Buy ${reserve.buyRate.toFixed(2)}% → sell ${reserve.sellRate.toFixed(2)}% · ` +
+  `$${reserve.payment.toFixed(2)}/mo · ${reserve.model === "flat" ? "flat" : "split"} reserve`;
+
+type LadderEntry = LenderFitEntry & { reserve?: LenderReserveQuote | null };
+
 interface LenderLadderProps {
-  entries: LenderFitEntry[];
+  /** Fit-ordered entries, or profit-ranked ones from rankLendersByDealerProfit. */
+  entries: LadderEntry[];
   fitNames: string[];
   profilesById: Map<string, LenderProfile>;
   fitCount: number;
   totalLenders: number;
   limit?: number;
+  /** Deal date ("YYYY-MM-DD") that expired rate sheets are flagged against. */
+  asOfDate: string;
 }
 
 const LenderLadder: React.FC<LenderLadderProps> = ({
@@ -45,8 +60,15 @@ const LenderLadder: React.FC<LenderLadderProps> = ({
   fitCount,
   totalLenders,
   limit,
+  asOfDate,
 }) => {
   const visible = (limit ? entries.slice(0, limit) : entries).filter(Boolean);
+  const expired = new Map<string, string>();
+  for (const profile of profilesById.values()) {
+    if (profile.active === false) continue;
+    const expiredOn = expiredProgramDate(profile, asOfDate);
+    if (expiredOn) expired.set(profile.id, expiredOn);
+  }
   return (
     <section className="desk-panel-section">
       <div className="desk-panel-heading">
@@ -65,19 +87,53 @@ const LenderLadder: React.FC<LenderLadderProps> = ({
       <div className="desk-lender-list">
         {visible.map((entry) => {
           const profile = profilesById.get(entry.lenderId);
+          const expiredOn = expired.get(entry.lenderId);
           return (
             <div key={entry.lenderId} className="desk-lender-row">
-              <span className="desk-lender-badge" data-fit={entry.eligible}>
-                {entry.eligible ? "FIT" : "CHK"}
+              <span
+                className="desk-lender-badge"
+                data-fit={entry.eligible}
+                data-expired={expiredOn !== undefined}
+                title={expiredOn ? `Rate sheet expired ${expiredOn}` : undefined}
+              >
+                {expiredOn ? "EXP" : entry.eligible ? "FIT" : "CHK"}
               </span>
               <span className="desk-lender-name" title={entry.name}>
                 {entry.name}
               </span>
-              <span className="desk-lender-meta">{lenderMeta(entry, profile)}</span>
+              <span
+                className="desk-lender-meta"
+                title={entry.reserve ? reserveTitle(entry.reserve) : undefined}
+              >
+                {lenderMeta(entry, profile)}
+                {entry.reserve && ` · +${fmt(entry.reserve.dealerReserve)}`}
+              </span>
+              {entry.odds && (
+                <span
+                  className="desk-lender-odds"
+                  style={{ color: oddsColor(entry.odds.odds) }}
+                  title={lenderOddsTitle(entry.odds)}
+                >
+                  {entry.odds.odds}%
+                </span>
+              )}
+              {entry.rateBreakdown && (
+                <span className="desk-lender-rate" title={rateBreakdownText(entry.rateBreakdown)}>
+                  Buy {entry.rateBreakdown.rate.toFixed(2)}% ={" "}
+                  {rateBreakdownText(entry.rateBreakdown)}
+                </span>
+              )}
             </div>
           );
         })}
       </div>
+      {expired.size > 0 && (
+        <p className="desk-compare-note" role="status">
+          {expired.size} expired rate sheet{expired.size === 1 ? "" : "s"}:{" "}
+          {[...expired.keys()].map((id) => profilesById.get(id)?.name).join(", ")} — load the
+          current program on the Lenders screen.
+        </p>
+      )}
     </section>
   );
 };
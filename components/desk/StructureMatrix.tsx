@@ -3,9 +3,12 @@ import { fmt } from "../../utils/format";
 import { DOWN_LABELS } from "./deskConstants";
 
 interface StructureMatrixProps {
+  /** Cells hold the periodic payment: biweekly deals show the biweekly amount. */
   grid: { term: number; cells: { down: number; pay: number | null }[] }[];
   loanTerm: number;
   downPayment: number;
+  /** Balloon / biweekly note for the heading; empty for level monthly. */
+  structureNote?: string;
   onSetTermDown: (term: number, down: number) => void;
 }
 
@@ -13,12 +16,13 @@ const StructureMatrix: React.FC<StructureMatrixProps> = ({
   grid,
   loanTerm,
   downPayment,
+  structureNote = "",
   onSetTermDown,
 }) => (
   <section className="desk-panel-section">
     <div className="desk-panel-heading">
       <span>Desking grid</span>
-      <strong>Term × down</strong>
+      <strong>{structureNote ? `Term × down · ${structureNote}` : "Term × down"}</strong>
     </div>
     <div className="desk-matrix">
       <div className="desk-matrix-head">
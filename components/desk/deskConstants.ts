@@ -1,5 +1,5 @@
 import React from "react";
-import { BAND_META } from "../../services/approvalScorer";
+import { APPROVAL_CONFIG, BAND_META } from "../../services/approvalScorer";
 import type { ApprovalBand, CalculatedVehicle, DealData, Settings } from "../../types";
 
 export const mono = "var(--mono)";
@@ -10,7 +10,7 @@ export const DESK_TERMS = [60, 72, 84, 96];
 export const DESK_DOWNS = [0, 1000, 2500, 5000];
 export const DOWN_LABELS = ["$0", "$1K", "$2.5K", "$5K"];
 
-export const GRID = "2fr 0.95fr 0.85fr 1.1fr 0.9fr 1fr 0.95fr";
+export const GRID = "2fr 0.95fr 0.85fr 1.1fr 0.9fr 1fr 0.7fr 0.95fr";
 
 export const numVal = (v: number | "Error" | "N/A" | undefined): number | null =>
   typeof v === "number" && Number.isFinite(v) ? v : null;
@@ -59,6 +59,14 @@ export const fitCountColor = (n: number): string =>
 export const bandColor = (v: CalculatedVehicle): string =>
   BAND_META[v.approvalBand ?? "none"].colorVar;
 
+/** Per-lender odds color on the scorer's strong/moderate thresholds. */
+export const oddsColor = (odds: number): string =>
+  odds >= APPROVAL_CONFIG.bands.strong
+    ? "var(--color-success)"
+    : odds >= APPROVAL_CONFIG.bands.moderate
+      ? "var(--color-warning)"
+      : "var(--color-danger)";
+
 /** "Make Model Trim" (year lives in the sub-meta), with a safe fallback. */
 export const nameShort = (v: CalculatedVehicle): string =>
   v.make && v.model ? `${v.make} ${v.model}${v.trim ? ` ${v.trim}` : ""}` : v.vehicle;
@@ -119,6 +127,7 @@ export type SortKey =
   | "amountToFinance"
   | "otdLtv"
   | "monthlyPayment"
+  | "daysInStock"
   | "approvalScore";
 
 export const SORT_COLUMNS: { key: SortKey; label: string; title: string }[] = [
@@ -128,6 +137,7 @@ export const SORT_COLUMNS: { key: SortKey; label: string; title: string }[] = [
   { key: "amountToFinance", label: "Financed", title: "Amount financed" },
   { key: "otdLtv", label: "OTD LTV", title: "Out-the-door LTV" },
   { key: "monthlyPayment", label: "Payment", title: "Monthly payment" },
+  { key: "daysInStock", label: "Age", title: "Days in stock" },
   { key: "approvalScore", label: "Approval", title: "Approval odds" },
 ];
 
@@ -139,6 +149,7 @@ export const DEFAULT_DIR: Record<SortKey, "asc" | "desc"> = {
   amountToFinance: "desc",
   otdLtv: "desc",
   monthlyPayment: "desc",
+  daysInStock: "desc",
   approvalScore: "desc",
 };
 
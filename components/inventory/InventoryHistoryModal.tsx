@@ -0,0 +1,111 @@
+import React from "react";
+import type { InventoryHistoryEntry, Vehicle } from "../../types";
+import Modal from "../common/Modal";
+import Button from "../common/Button";
+import PriceSparkline from "./PriceSparkline";
+import {
+  formatInventoryValue,
+  inventoryFieldLabel,
+  valueSeries,
+} from "../../services/inventoryHistory";
+
+interface InventoryHistoryModalProps {
+  vehicle: Vehicle;
+  /** The unit's inventory_history entries, oldest first. */
+  entries: InventoryHistoryEntry[];
+  onClose: () => void;
+}
+
+const SERIES = ["price", "jdPower", "jdPowerRetail"] as const;
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? "—"
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+};
+
+/**
+ * A unit's price, book and mileage changes across inventory syncs: a
+ * sparkline per value that moved, then every sync's changes, newest first.
+ */
+const InventoryHistoryModal: React.FC<InventoryHistoryModalProps> = ({
+  vehicle,
+  entries,
+  onClose,
+}) => {
+  const series = SERIES.map((field) => ({ field, values: valueSeries(entries, field) })).filter(
+    (s) => s.values.length >= 2
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Price History"
+      description={`${vehicle.vehicle} · STK ${vehicle.stock} · ${vehicle.vin}`}
+      size="md"
+      footer={
+        <Button variant="ghost" onClick={onClose} className="ml-auto">
+          Close
+        </Button>
+      }
+    >
+      <div className="space-y-5 text-sm">
+        {series.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {series.map(({ field, values }) => {
+              const first = values[0] ?? null;
+              const last = values[values.length - 1] ?? null;
+              return (
+                <div key={field}>
+                  <div className="text-xs text-[var(--color-text-subtle)]">
+                    {inventoryFieldLabel(field)}
+                  </div>
+                  <PriceSparkline
+                    values={values}
+                    width={140}
+                    height={36}
+                    label={`${inventoryFieldLabel(field)} history: ${formatInventoryValue(field, first)} to ${formatInventoryValue(field, last)}`}
+                  />
+                  <div className="font-mono">
+                    {formatInventoryValue(field, first)} → {formatInventoryValue(field, last)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-[var(--color-text-muted)]">
+            No changes recorded since this unit was first imported.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[var(--color-border)] border border-[var(--color-border)] rounded-lg">
+            {[...entries].reverse().map((entry) => (
+              <li key={entry.id} className="px-4 py-3">
+                <div className="text-xs text-[var(--color-text-subtle)]">
+                  {formatDate(entry.changedAt)}
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {entry.changes.map((change) => (
+                    <li key={change.field}>
+                      <span className="font-semibold">{inventoryFieldLabel(change.field)}</span>{" "}
+                      <span className="font-mono">
+                        {formatInventoryValue(change.field, change.before)} →{" "}
+                        {formatInventoryValue(change.field, change.after)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default InventoryHistoryModal;
@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import Modal from "../common/Modal";
+import Button from "../common/Button";
+import type { PendingInventorySync } from "../../hooks/useInventoryImport";
+import {
+  formatSyncValue,
+  looksLikeMassSold,
+  MASS_SOLD_SHARE,
+  syncFieldLabel,
+  type InventorySyncFieldChange,
+} from "../../services/inventorySync";
+import { fmt, fmtN } from "../../utils/format";
+
+interface InventorySyncReviewModalProps {
+  pending: PendingInventorySync;
+  onConfirm: (excludedVins: ReadonlySet<string>) => void;
+  onCancel: () => void;
+}
+
+interface ReviewRow {
+  vin: string;
+  title: string;
+  detail: string;
+  changes?: InventorySyncFieldChange[];
+}
+
+const changeLine = (c: InventorySyncFieldChange) =>
+  `${syncFieldLabel(c.field)} ${formatSyncValue(c.field, c.before)} → ${formatSyncValue(c.field, c.after)}`;
+
+const vehicleTitle = (unit: { year: number; make: string; model: string; trim?: string }) =>
+  `${unit.year} ${unit.make} ${unit.model} ${unit.trim ?? ""}`.trim();
+
+const ReviewSection: React.FC<{
+  title: string;
+  color: string;
+  rows: ReviewRow[];
+  excluded: Set<string>;
+  onToggle: (vin: string) => void;
+  onSetAll: (vins: string[], include: boolean) => void;
+}> = ({ title, color, rows, excluded, onToggle, onSetAll }) => {
+  if (rows.length === 0) return null;
+  const included = rows.filter((row) => !excluded.has(row.vin)).length;
+  const vins = rows.map((row) => row.vin);
+  return (
+    <section className="text-sm">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h3 className="font-semibold" style={{ color }}>
+          {title} · {included} of {rows.length}
+        </h3>
+        <span className="flex gap-3 text-xs">
+          <button
+            type="button"
+            className="underline text-[var(--color-text-muted)]"
+            onClick={() => onSetAll(vins, true)}
+          >
+            All
+          </button>
+          <button
+            type="button"
+            className="underline text-[var(--color-text-muted)]"
+            onClick={() => onSetAll(vins, false)}
+          >
+            None
+          </button>
+        </span>
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-[var(--color-border)] border border-[var(--color-border)] rounded-lg">
+        {rows.map((row) => {
+          const isIncluded = !excluded.has(row.vin);
+          return (
+            <li key={row.vin} className={`px-3 py-2 ${isIncluded ? "" : "opacity-60"}`}>
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isIncluded}
+                  onChange={() => onToggle(row.vin)}
+                  className="mt-0.5 w-4 h-4 accent-[var(--color-primary)]"
+                  aria-label={`Include ${row.title}`}
+                />
+                <span className="min-w-0">
+                  <span className="font-semibold">{row.title}</span>{" "}
+                  <span className="font-mono text-xs text-[var(--color-text-subtle)]">
+                    {row.detail}
+                  </span>
+                  {row.changes && row.changes.length > 0 && (
+                    <span className="block text-[var(--color-text-muted)]">
+                      {row.changes.map(changeLine).join(" · ")}
+                    </span>
+                  )}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+/**
+ * The review step of an inventory import: what the sync would add, change
+ * and mark sold, computed by previewInventorySync before anything is
+ * written. Unchecked rows are left out when the admin applies it.
+ */
+const InventorySyncReviewModal: React.FC<InventorySyncReviewModalProps> = ({
+  pending,
+  onConfirm,
+  onCancel,
+}) => {
+  const { plan } = pending;
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (vin: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(vin)) next.delete(vin);
+      else next.add(vin);
+      return next;
+    });
+
+  const setAll = (vins: string[], include: boolean) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      for (const vin of vins) {
+        if (include) next.delete(vin);
+        else next.add(vin);
+      }
+      return next;
+    });
+
+  const addRows: ReviewRow[] = plan.add.map((item) => ({
+    vin: item.vin.toUpperCase(),
+    title: vehicleTitle(item),
+    detail: `${item.stockNumber ? `STK ${item.stockNumber} · ` : ""}${item.vin} · ${item.price > 0 ? fmt(item.price) : "no price"}`,
+  }));
+  const updateRows: ReviewRow[] = plan.update.map(({ item, existing, changes }) => ({
+    vin: item.vin.toUpperCase(),
+    title: vehicleTitle(existing),
+    detail: `${existing.stockNumber ? `STK ${existing.stockNumber} · ` : ""}${existing.vin}`,
+    changes,
+  }));
+  const soldRows: ReviewRow[] = plan.markSold.map((unit) => ({
+    vin: unit.vin.toUpperCase(),
+    title: vehicleTitle(unit),
+    detail: `${unit.stockNumber ? `STK ${unit.stockNumber} · ` : ""}${unit.vin}${
+      typeof unit.price === "number" && unit.price > 0 ? ` · ${fmt(unit.price)}` : ""
+    }`,
+  }));
+
+  const writes = [...addRows, ...updateRows, ...soldRows].filter(
+    (row) => !excluded.has(row.vin)
+  ).length;
+  const soldKept = soldRows.filter((row) => !excluded.has(row.vin)).length;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onCancel}
+      title="Review Inventory Sync"
+      description={`${pending.fileName} · ${fmtN(pending.parsed)} vehicle${pending.parsed === 1 ? "" : "s"} parsed. Nothing has been saved yet.`}
+      size="lg"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => onConfirm(excluded)}
+            disabled={writes === 0}
+            className="ml-auto"
+          >
+            {writes > 0 ? `Apply ${fmtN(writes)} change${writes === 1 ? "" : "s"}` : "Apply"}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-5">
+        {looksLikeMassSold(plan) && soldKept > 0 && (
+          <div
+            role="alert"
+            className="p-3 rounded-lg text-sm bg-[var(--color-danger-subtle)] text-[var(--color-danger)]"
+          >
+            This file leaves out {fmtN(plan.markSold.length)} of the {fmtN(plan.onLot)} units on the
+            lot (more than {Math.round(MASS_SOLD_SHARE * 100)}%), and they would be marked sold.
+            Check that it is a full export, or clear &ldquo;Mark sold&rdquo; below.
+          </div>
+        )}
+
+        <p className="text-sm text-[var(--color-text-muted)]">
+          {fmtN(plan.add.length)} new · {fmtN(plan.update.length)} changed ·{" "}
+          {fmtN(plan.markSold.length)} to mark sold · {fmtN(plan.unchanged)} unchanged
+        </p>
+
+        <ReviewSection
+          title="Mark sold"
+          color="var(--color-danger)"
+          rows={soldRows}
+          excluded={excluded}
+          onToggle={toggle}
+          onSetAll={setAll}
+        />
+        <ReviewSection
+          title="New units"
+          color="var(--color-success)"
+          rows={addRows}
+          excluded={excluded}
+          onToggle={toggle}
+          onSetAll={setAll}
+        />
+        <ReviewSection
+          title="Updates"
+          color="var(--color-primary)"
+          rows={updateRows}
+          excluded={excluded}
+          onToggle={toggle}
+          onSetAll={setAll}
+        />
+
+        {pending.skipped > 0 && (
+          <div className="text-sm">
+            <div className="font-semibold text-[var(--color-warning)]">
+              Skipped {fmtN(pending.skipped)} row{pending.skipped === 1 ? "" : "s"} in the file
+            </div>
+            <ul className="mt-1 pl-4 list-disc text-[var(--color-text-muted)]">
+              {pending.reasons.map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default InventorySyncReviewModal;
@@ -0,0 +1,59 @@
+import React from "react";
+
+interface PriceSparklineProps {
+  /** Values oldest first; fewer than two draws nothing. */
+  values: number[];
+  width?: number;
+  height?: number;
+  /** Accessible summary, e.g. "Price history: $21,500 to $20,995". */
+  label: string;
+}
+
+/**
+ * A bare line of a value over time, colored by direction: down reads as a
+ * markdown (success for the buyer), up as a warning. Points are evenly
+ * spaced — the change list carries the dates.
+ */
+export const PriceSparkline: React.FC<PriceSparklineProps> = ({
+  values,
+  width = 56,
+  height = 16,
+  label,
+}) => {
+  if (values.length < 2) return null;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const pad = 1.5;
+  const points = values
+    .map((value, i) => {
+      const x = pad + (i / (values.length - 1)) * (width - pad * 2);
+      const y = pad + (1 - (value - min) / span) * (height - pad * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const first = values[0] ?? 0;
+  const last = values[values.length - 1] ?? 0;
+  const color =
+    last < first
+      ? "var(--color-success)"
+      : last > first
+        ? "var(--color-warning)"
+        : "var(--color-text-subtle)";
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img">
+      <title>{label}</title>
+      <polyline
+        points={points}
+        fill="none"
+        stroke={color}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+};
+
+export default PriceSparkline;
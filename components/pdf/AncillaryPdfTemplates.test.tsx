@@ -224,6 +224,34 @@ describe("ancillary PDF templates", () => {
     expect(screen.getByText(/Pending verification \(1\).*illustrative only/i)).toBeTruthy();
   });
 
+  it("adds the deal's max advance per lender when advances are given", () => {
+    render(
+      <LenderCheatSheetTemplate
+        profiles={[
+          { id: "over", name: "Over Bank", tiers: [{ name: "A", maxAdvance: 24_000 }] },
+          { id: "fits", name: "Fits Bank", tiers: [{ name: "A", maxLtv: 130 }] },
+        ]}
+        advances={{
+          over: {
+            bookValueSource: "Trade",
+            book: null,
+            mileageAdjustment: 0,
+            advanceLtv: null,
+            cap: 24_000,
+            maxAdvance: 24_000,
+            currentAdvance: 25_000,
+            overBy: 1_000,
+          },
+          fits: null,
+        }}
+      />
+    );
+
+    expect(screen.getByText("Advance (max / deal)")).toBeTruthy();
+    expect(screen.getByText("over $1,000")).toBeTruthy();
+    expect(screen.getByText(/\$24,000 \/ \$25,000/)).toBeTruthy();
+  });
+
   it("renders explicit empty states instead of failing", () => {
     const { rerender } = render(<LenderCheatSheetTemplate profiles={[]} />);
     expect(screen.getByText(/No lender profiles available/)).toBeTruthy();
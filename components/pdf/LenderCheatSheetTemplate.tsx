@@ -1,5 +1,7 @@
 import React from "react";
 import type { LenderProfile, LenderTier } from "../../types";
+import type { LenderAdvance } from "../../services/lenderAdvance";
+import { fmt } from "../../utils/format";
 
 const el = React.createElement;
 const logoSvg = encodeURIComponent(
@@ -98,6 +100,7 @@ const styles = `
         color: #059669; 
         font-weight: 600; 
     }
+    .over { color: #dc2626; font-weight: 600; }
     .badge {
         display: inline-block;
         padding: 1px 4px;
@@ -172,11 +175,31 @@ const getYearRange = (tiers: LenderTier[] | undefined): string => {
   return "-";
 };
 
+/** "$22,000 / $25,000 · over $3,000" — max advance / deal advance. */
+const advanceCell = (advance: LenderAdvance | null | undefined): React.ReactNode => {
+  if (!advance) return "-";
+  const amounts = `${fmt(advance.maxAdvance)} / ${fmt(advance.currentAdvance)}`;
+  return advance.overBy > 0
+    ? el(
+        React.Fragment,
+        null,
+        amounts,
+        " · ",
+        el("span", { className: "over" }, `over ${fmt(advance.overBy)}`)
+      )
+    : amounts;
+};
+
 interface LenderCheatSheetTemplateProps {
   profiles: LenderProfile[];
+  /** Per-lender advance for the deal being desked, by profile id; adds an Advance column. */
+  advances?: Record<string, LenderAdvance | null>;
 }
 
-export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> = ({ profiles }) => {
+export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> = ({
+  profiles,
+  advances,
+}) => {
   const safeProfiles = Array.isArray(profiles)
     ? profiles.filter((p) => p && typeof p === "object")
     : [];
@@ -269,7 +292,8 @@ export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> =
             el("th", { style: { width: "8%" } }, "Backend"),
             el("th", { style: { width: "8%" } }, "Buy Rate"),
             el("th", { style: { width: "9%" } }, "Min Inc"),
-            el("th", { style: { width: "7%" } }, "Max PTI")
+            el("th", { style: { width: "7%" } }, "Max PTI"),
+            advances && el("th", { style: { width: "14%" } }, "Advance (max / deal)")
           )
         ),
         el(
@@ -282,7 +306,7 @@ export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> =
                 el(
                   "td",
                   {
-                    colSpan: 12,
+                    colSpan: advances ? 13 : 12,
                     style: { textAlign: "center", padding: "20mm" },
                   },
                   "No lender profiles available. Upload rate sheets to populate."
@@ -313,7 +337,8 @@ export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> =
                   el("td", null, p.maxBackend),
                   el("td", null, p.baseRate),
                   el("td", null, p.incomeDisplay),
-                  el("td", null, p.ptiDisplay)
+                  el("td", null, p.ptiDisplay),
+                  advances && el("td", null, advanceCell(advances[p.id]))
                 )
               )
         )
@@ -329,7 +354,8 @@ export const LenderCheatSheetTemplate: React.FC<LenderCheatSheetTemplateProps> =
         { className: "legend" },
         el("span", null, "FE = Front-End LTV (before products)"),
         el("span", null, "OTD = Out-The-Door LTV (total)"),
-        el("span", null, "T = Trade Book | R = Retail Book")
+        el("span", null, "T = Trade Book | R = Retail Book"),
+        advances && el("span", null, "Advance = LTV × lender book, capped at max advance")
       ),
       el("div", null, "Confidential • Verify with official rate sheets • LTV Desking PRO")
     )
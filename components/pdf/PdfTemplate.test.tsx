@@ -114,6 +114,143 @@ describe("PdfTemplate", () => {
     expect(screen.getByText("$1,885.00")).toBeTruthy();
   });
 
+  it("swaps the structure callout for a lease comparison when lease terms are entered", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        dealData={{
+          ...data.dealData,
+          leaseTerm: 36,
+          leaseResidualPercent: 55,
+          leaseMoneyFactor: 0.00125,
+          leaseDispositionFee: 395,
+        }}
+        settings={settings}
+      />
+    );
+
+    expect(screen.getByText("Lease Comparison")).toBeTruthy();
+    expect(screen.getByText("Monthly use tax")).toBeTruthy();
+    expect(screen.getByText("$395.00")).toBeTruthy();
+    expect(screen.queryByText(/Structure check:/)).toBeNull();
+  });
+
+  it("shows the odd first-period payment when contract dates are entered", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        dealData={{
+          ...data.dealData,
+          contractDate: "2026-03-01",
+          firstPaymentDate: "2026-04-15",
+        }}
+        settings={settings}
+      />
+    );
+
+    expect(screen.getByText(/45-day first period/)).toBeTruthy();
+    expect(screen.getByText(/\$500\.93/)).toBeTruthy();
+    expect(screen.getByText("$101.55 (15 days)")).toBeTruthy();
+  });
+
+  it("lists the trade allowance and payoff and flags rolled-in negative equity", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        dealData={{ ...data.dealData, tradeInValue: 3_000, tradeInPayoff: 5_250 }}
+        settings={settings}
+      />
+    );
+
+    expect(screen.getByText("Trade allowance")).toBeTruthy();
+    expect(screen.getByText("+ $5,250.00")).toBeTruthy();
+    expect(screen.getByText("Negative equity rolled in")).toBeTruthy();
+    expect(screen.getByText("$2,250.00")).toBeTruthy();
+  });
+
+  it("lists the co-buyer on a joint application", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        customerFilters={{
+          ...data.customerFilters,
+          coBuyerCreditScore: 702,
+          coBuyerMonthlyIncome: 2_750,
+        }}
+        settings={settings}
+      />
+    );
+
+    expect(screen.getByText("Co-buyer FICO")).toBeTruthy();
+    expect(screen.getByText("702")).toBeTruthy();
+    expect(screen.getByText("$2,750.00 / mo")).toBeTruthy();
+  });
+
+  it("breaks the sales tax out by the buyer's jurisdiction", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        dealData={{ ...data.dealData, buyerState: "OH", buyerZip: "43604" }}
+        settings={{ ...settings, homeState: "OH", defaultState: "OH" }}
+      />
+    );
+
+    expect(screen.getByText("Lucas County")).toBeTruthy();
+    expect(screen.getByText("Ohio state 5.75%")).toBeTruthy();
+    expect(screen.getByText("Lucas County 1.5%")).toBeTruthy();
+  });
+
+  it("quotes the biweekly payment and balloon with its monthly equivalent", () => {
+    render(
+      <PdfTemplate
+        {...data}
+        vehicle={{
+          ...data.vehicle,
+          monthlyPayment: 420.5,
+          paymentPlan: { frequency: "biweekly", payment: 194.08, payments: 156, balloon: 6000 },
+        }}
+        dealData={{ ...data.dealData, paymentFrequency: "biweekly", balloonAmount: 6000 }}
+        settings={settings}
+      />
+    );
+
+    expect(screen.getByText("Estimated biweekly payment")).toBeTruthy();
+    expect(screen.getAllByText("$194.08")).toHaveLength(2);
+    expect(screen.getAllByText("156 biweekly payments + $6,000 balloon")).toHaveLength(2);
+    expect(screen.getByText("Monthly equivalent")).toBeTruthy();
+    expect(screen.getByText("$420.50")).toBeTruthy();
+  });
+
+  it("adds a third payoff-projection page when requested", () => {
+    const { container } = render(<PdfTemplate {...data} settings={settings} includeAmortization />);
+
+    expect(container.querySelectorAll("[data-pdf-page]")).toHaveLength(3);
+    expect(screen.getByText("Page 1 of 3")).toBeTruthy();
+    expect(screen.getByText("Page 2 of 3")).toBeTruthy();
+    expect(screen.getByText("Page 3 of 3")).toBeTruthy();
+    expect(screen.getByText("Payoff Projection")).toBeTruthy();
+    expect(screen.getByText("$8,170.37")).toBeTruthy();
+    expect(screen.getByText("Month 39")).toBeTruthy();
+    // 72 months roll up into six loan years; the crossover lands in year 4.
+    const yearRows = container.querySelectorAll(".amortization-table tbody tr");
+    expect(yearRows).toHaveLength(6);
+    expect(yearRows[3]?.className).toBe("crossover");
+  });
+
+  it("explains a missing payoff projection instead of dropping the page", () => {
+    const { container } = render(
+      <PdfTemplate
+        {...data}
+        dealData={{ ...data.dealData, interestRate: "" }}
+        settings={settings}
+        includeAmortization
+      />
+    );
+
+    expect(container.querySelectorAll("[data-pdf-page]")).toHaveLength(3);
+    expect(screen.getByText(/Payoff projection unavailable:/)).toBeTruthy();
+  });
+
   it("bounds variable lender and note content with visible continuation notices", () => {
     const lenderEligibility = Array.from({ length: 12 }, (_, index) => ({
       name: `Lender ${index + 1} with an intentionally long printable name`,
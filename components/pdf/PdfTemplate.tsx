@@ -1,6 +1,18 @@
 import React from "react";
 import type { DealPdfData, LenderEligibilityStatus, Settings } from "../../types";
 import { formatCurrency, formatCurrencyExact, formatNumber } from "../common/TableCell";
+import { calculateLeaseFinancials } from "../../services/leaseCalculator";
+import { calculateFirstPaymentAdjustment, formatIsoDate } from "../../services/firstPayment";
+import { getSalesTaxBreakdown, getTradeEquity } from "../../services/calculator";
+import { formatTaxRate, getHomeState } from "../../services/taxRules";
+import { hasCoBuyer } from "../../services/coBuyer";
+import { jurisdictionLabel } from "../../services/taxJurisdictions";
+import { paymentPlanLabel } from "../../services/paymentStructure";
+import {
+  DEFAULT_DEPRECIATION_CURVE,
+  buildDealAmortization,
+  summarizeByYear,
+} from "../../services/amortization";
 
 const money = (value: number | string | undefined): string => formatCurrencyExact(value);
 const wholeMoney = (value: number | string | undefined): string => formatCurrency(value);
@@ -318,13 +330,15 @@ const styles = `
   .deal-pdf-page .lender-table th:nth-child(2),
   .deal-pdf-page .lender-table td:nth-child(2) { width: 9%; }
   .deal-pdf-page .lender-table th:nth-child(3),
-  .deal-pdf-page .lender-table td:nth-child(3) { width: 18%; }
+  .deal-pdf-page .lender-table td:nth-child(3) { width: 7%; }
   .deal-pdf-page .lender-table th:nth-child(4),
-  .deal-pdf-page .lender-table td:nth-child(4) { width: 10%; }
+  .deal-pdf-page .lender-table td:nth-child(4) { width: 17%; }
   .deal-pdf-page .lender-table th:nth-child(5),
-  .deal-pdf-page .lender-table td:nth-child(5) { width: 12%; }
+  .deal-pdf-page .lender-table td:nth-child(5) { width: 10%; }
   .deal-pdf-page .lender-table th:nth-child(6),
-  .deal-pdf-page .lender-table td:nth-child(6) { width: 33%; }
+  .deal-pdf-page .lender-table td:nth-child(6) { width: 11%; }
+  .deal-pdf-page .lender-table th:nth-child(7),
+  .deal-pdf-page .lender-table td:nth-child(7) { width: 28%; }
   .deal-pdf-page .fit-badge {
     display: inline-block;
     min-width: 12mm;
@@ -357,6 +371,37 @@ const styles = `
     font-weight: 850;
     line-height: 1.2;
   }
+  .deal-pdf-page .amortization-table {
+    table-layout: fixed;
+    font-size: 7.4pt;
+  }
+  .deal-pdf-page .amortization-table th {
+    padding: 1.4mm 1.5mm;
+    color: #4b5563;
+    background: #f8fafc;
+    border-bottom: 1px solid #d1d5db;
+    font-size: 6.6pt;
+    font-weight: 850;
+    text-align: right;
+  }
+  .deal-pdf-page .amortization-table td {
+    padding: 1.2mm 1.5mm;
+    text-align: right;
+    color: #111827;
+    font-weight: 600;
+  }
+  .deal-pdf-page .amortization-table th:first-child,
+  .deal-pdf-page .amortization-table td:first-child {
+    text-align: left;
+    color: #4b5563;
+  }
+  .deal-pdf-page .amortization-table tr.crossover td {
+    background: #ecfdf5;
+    font-weight: 850;
+  }
+  .deal-pdf-page .amortization-table .negative {
+    color: #b91c1c;
+  }
   .deal-pdf-page--detail {
     gap: 3mm;
   }
@@ -429,7 +474,19 @@ const Row: React.FC<{
   </tr>
 );
 
-export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
+const equityMonthLabel = (month: number | null, hasBook: boolean): string => {
+  if (!hasBook) return "N/A (no trade book)";
+  if (month === null) return "Not within term";
+  return month === 0 ? "At delivery" : `Month ${month}`;
+};
+
+export const PdfTemplate: React.FC<
+  DealPdfData & {
+    settings: Settings;
+    /** Adds the payoff-projection page (page 3). generateDealPdf must expect 3 pages. */
+    includeAmortization?: boolean;
+  }
+> = ({
   vehicle,
   dealData,
   customerFilters,
@@ -438,18 +495,20 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
   lenderEligibility,
   dealNumber,
   settings,
+  includeAmortization = false,
 }) => {
   const safeEligibility = Array.isArray(lenderEligibility) ? lenderEligibility : [];
   const eligibleLenders = safeEligibility.filter((lender) => lender?.eligible);
 
-  const netTrade = n(dealData.tradeInValue) - n(dealData.tradeInPayoff);
+  const { netTradeIn: netTrade, negativeEquity } = getTradeEquity(dealData);
   const rebate = n(dealData.rebate);
   const totalCredits = n(dealData.downPayment) + netTrade + rebate;
   const vscAmount = n(dealData.vscAmount);
   const gapAmount = n(dealData.gapAmount);
   const otherBackend = Math.max(0, n(dealData.backendProducts) - vscAmount - gapAmount);
   const buyerState = dealData.buyerState || settings.defaultState;
-  const outOfStateTransitFee = buyerState !== "MI" ? n(settings.outOfStateTransitFee) : 0;
+  const isOutOfState = buyerState !== getHomeState(settings);
+  const outOfStateTransitFee = isOutOfState ? n(settings.outOfStateTransitFee) : 0;
   const taxAndFees =
     n(vehicle.salesTax) +
     n(settings.docFee) +
@@ -463,6 +522,17 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
   const printableNotes = notesTruncated
     ? `${normalizedNotes.slice(0, MAX_PRINTED_NOTE_CHARS).trimEnd()}...`
     : normalizedNotes || "No deal notes were entered.";
+  const lease = calculateLeaseFinancials(vehicle, dealData, settings);
+  const salesTaxLines = getSalesTaxBreakdown(vehicle, dealData, settings);
+  const firstPayment = calculateFirstPaymentAdjustment(vehicle.amountToFinance, dealData);
+  const paymentPlan = vehicle.paymentPlan;
+  const totalPages = includeAmortization ? 3 : 2;
+  const amortization = includeAmortization ? buildDealAmortization(vehicle, dealData) : null;
+  const amortizationYears = amortization ? summarizeByYear(amortization.rows) : [];
+  const crossoverYear =
+    amortization?.positiveEquityMonth != null && amortization.positiveEquityMonth > 0
+      ? Math.ceil(amortization.positiveEquityMonth / 12)
+      : null;
 
   return (
     <>
@@ -486,13 +556,25 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
 
         <section className="hero">
           <div className="summary-card">
-            <div className="payment-label">Estimated monthly payment</div>
-            <div className="payment">{money(vehicle.monthlyPayment)}</div>
+            <div className="payment-label">
+              Estimated {paymentPlan?.frequency ?? "monthly"} payment
+            </div>
+            <div className="payment">{money(paymentPlan?.payment ?? vehicle.monthlyPayment)}</div>
             <p className="subtitle">
               {typeof dealData.interestRate === "number"
                 ? `${dealData.loanTerm} months at ${dealData.interestRate.toFixed(2)}% APR estimate`
                 : `${dealData.loanTerm} months; enter APR for payment estimate`}
             </p>
+            {paymentPlan && <p className="subtitle">{paymentPlanLabel(paymentPlan)}</p>}
+            {firstPayment && (
+              <p className="subtitle">
+                First payment {formatIsoDate(firstPayment.firstPaymentDate)} (
+                {firstPayment.firstPeriodDays}-day first period): contract payment{" "}
+                {money(firstPayment.adjustedPayment)},{" "}
+                {firstPayment.paymentDifference >= 0 ? "+" : "−"}
+                {money(Math.abs(firstPayment.paymentDifference))} vs. 30-day estimate
+              </p>
+            )}
             <div className="hero-grid">
               <Metric label="Amount financed" value={money(vehicle.amountToFinance)} />
               <Metric label="OTD LTV" value={pct(vehicle.otdLtv)} />
@@ -565,7 +647,7 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
                 <Row label="Doc fee" value={`+ ${money(settings.docFee)}`} />
                 <Row label="CVR fee" value={`+ ${money(settings.cvrFee)}`} />
                 <Row label="State/title fees" value={`+ ${money(dealData.stateFees)}`} />
-                {buyerState !== "MI" && (
+                {isOutOfState && (
                   <Row
                     label="Out-of-state transit fee"
                     value={`+ ${money(outOfStateTransitFee)}`}
@@ -579,10 +661,8 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
             <table>
               <tbody>
                 <Row label="Cash down" value={`- ${money(dealData.downPayment)}`} />
-                <Row
-                  label={netTrade >= 0 ? "Net trade credit" : "Negative equity"}
-                  value={`${netTrade >= 0 ? "-" : "+"} ${money(Math.abs(netTrade))}`}
-                />
+                <Row label="Trade allowance" value={`- ${money(dealData.tradeInValue)}`} />
+                <Row label="Trade payoff" value={`+ ${money(dealData.tradeInPayoff)}`} />
                 <Row label="Rebate" value={`- ${money(rebate)}`} />
                 <Row label="Service contract" value={`+ ${money(vscAmount)}`} />
                 <Row label="GAP coverage" value={`+ ${money(gapAmount)}`} />
@@ -593,11 +673,49 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
           </div>
         </section>
 
-        <section className="callout">
-          <strong>Structure check:</strong> The payment, amount financed, LTV, PTI, cash/trade
-          credits, rebate, and each backend product above are calculated from the current desk
-          values. Page 2 prints the lender screen and flags any results that continue in the app.
-        </section>
+        {lease ? (
+          <section className="section">
+            <h2>Lease Comparison</h2>
+            <div className="section-body financial-grid">
+              <table>
+                <tbody>
+                  <Row label="Retail payment" value={money(vehicle.monthlyPayment)} />
+                  <Row
+                    label="Lease payment"
+                    value={`${money(lease.monthlyPayment)} × ${lease.leaseTerm} mo`}
+                  />
+                  <Row
+                    label="Residual"
+                    value={`${money(lease.residualValue)} (${pct(lease.residualPercent, 1)})`}
+                  />
+                  <Row
+                    label="Money factor"
+                    value={`${lease.moneyFactor} (≈ ${pct(lease.equivalentApr, 2)} APR)`}
+                  />
+                </tbody>
+              </table>
+              <table>
+                <tbody>
+                  <Row label="Adjusted cap cost" value={money(lease.adjustedCapCost)} />
+                  <Row
+                    label={lease.taxMethod === "monthly" ? "Monthly use tax" : "Upfront lease tax"}
+                    value={money(
+                      lease.taxMethod === "monthly" ? lease.monthlyUseTax : lease.upfrontTax
+                    )}
+                  />
+                  <Row label="Disposition fee (at end)" value={money(lease.dispositionFee)} />
+                  <Row label="Due at signing" value={money(lease.dueAtSigning)} total />
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ) : (
+          <section className="callout">
+            <strong>Structure check:</strong> The payment, amount financed, LTV, PTI, cash/trade
+            credits, rebate, and each backend product above are calculated from the current desk
+            values. Page 2 prints the lender screen and flags any results that continue in the app.
+          </section>
+        )}
 
         <footer className="fineprint page-footer">
           <span>
@@ -605,7 +723,7 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
             approval, or offer of credit. Verify taxes, fees, book values, APR, term, payment, and
             product pricing before contracting.
           </span>
-          <span>Page 1 of 2</span>
+          <span>Page 1 of {totalPages}</span>
         </footer>
       </div>
 
@@ -634,13 +752,30 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
               <Kv label="Stock" value={vehicle.stock} />
               <Kv label="VIN" value={vehicle.vin} />
               <Kv label="Buyer state" value={buyerState} />
+              {hasCoBuyer(customerFilters) && (
+                <>
+                  <Kv label="Co-buyer FICO" value={customerFilters.coBuyerCreditScore ?? "N/A"} />
+                  <Kv
+                    label="Co-buyer income"
+                    value={
+                      customerFilters.coBuyerMonthlyIncome
+                        ? `${money(customerFilters.coBuyerMonthlyIncome)} / mo`
+                        : "N/A"
+                    }
+                  />
+                </>
+              )}
             </div>
           </div>
 
           <div className="section">
             <h2>Current Structure</h2>
             <div className="section-body">
-              <Kv label="Payment" value={money(vehicle.monthlyPayment)} />
+              <Kv label="Payment" value={money(paymentPlan?.payment ?? vehicle.monthlyPayment)} />
+              {paymentPlan && <Kv label="Schedule" value={paymentPlanLabel(paymentPlan)} />}
+              {paymentPlan?.frequency === "biweekly" && (
+                <Kv label="Monthly equivalent" value={money(vehicle.monthlyPayment)} />
+              )}
               <Kv label="Amount financed" value={money(vehicle.amountToFinance)} />
               <Kv label="Term" value={`${dealData.loanTerm} months`} />
               <Kv
@@ -655,6 +790,12 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
                 label="OTD LTV / PTI"
                 value={`${pct(vehicle.otdLtv)} / ${pct(vehicle.ptiRatio, 1)}`}
               />
+              {firstPayment && (
+                <Kv
+                  label="Odd-days interest"
+                  value={`${money(firstPayment.oddDaysInterest)} (${firstPayment.oddDays} days)`}
+                />
+              )}
             </div>
           </div>
 
@@ -665,6 +806,10 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
               <Kv label="GAP coverage" value={money(gapAmount)} />
               <Kv label="Other backend" value={money(otherBackend)} />
               <Kv label="Backend total" value={money(dealData.backendProducts)} />
+              <Kv
+                label={negativeEquity > 0 ? "Negative equity rolled in" : "Trade equity"}
+                value={money(negativeEquity > 0 ? negativeEquity : netTrade)}
+              />
               <Kv label="Total credits" value={money(totalCredits)} />
             </div>
           </div>
@@ -680,6 +825,7 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
                 <tr>
                   <th>Lender</th>
                   <th>Status</th>
+                  <th>Odds</th>
                   <th>Matched program</th>
                   <th>OTD cap</th>
                   <th>Term range</th>
@@ -695,6 +841,7 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
                         {lender.eligible ? "Fit" : "Review"}
                       </span>
                     </td>
+                    <td>{lender.approvalOdds == null ? "N/A" : `${lender.approvalOdds}%`}</td>
                     <td>{boundedPrintableText(lender.matchedTier?.name, 38)}</td>
                     <td>{lenderLtvCap(lender)}</td>
                     <td>{lenderTerm(lender)}</td>
@@ -710,7 +857,7 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
                 ))}
                 {omittedLenderCount > 0 && (
                   <tr className="continuation-row">
-                    <td colSpan={6}>
+                    <td colSpan={7}>
                       {omittedLenderCount} additional lender screen
                       {omittedLenderCount === 1 ? "" : "s"} continue in the application.
                     </td>
@@ -733,10 +880,25 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
               <Kv label="Doc fee" value={money(settings.docFee)} />
               <Kv label="CVR fee" value={money(settings.cvrFee)} />
               <Kv label="State/title fees" value={money(dealData.stateFees)} />
-              {buyerState !== "MI" && (
+              {isOutOfState && (
                 <Kv label="Out-of-state transit fee" value={money(outOfStateTransitFee)} />
               )}
               <Kv label="Sales tax estimate" value={money(vehicle.salesTax)} />
+              {salesTaxLines?.jurisdiction && salesTaxLines.basis === "buyer-state" && (
+                <Kv
+                  label="Tax jurisdiction"
+                  value={jurisdictionLabel(salesTaxLines.jurisdiction)}
+                />
+              )}
+              {salesTaxLines && salesTaxLines.lines.length > 1
+                ? salesTaxLines.lines.map((line) => (
+                    <Kv
+                      key={line.name}
+                      label={`${line.name} ${formatTaxRate(line.rate)}`}
+                      value={money(line.amount)}
+                    />
+                  ))
+                : null}
               <Kv label="Trade book" value={wholeMoney(vehicle.jdPower)} />
               <Kv label="Retail book" value={wholeMoney(vehicle.jdPowerRetail)} />
             </div>
@@ -766,9 +928,140 @@ export const PdfTemplate: React.FC<DealPdfData & { settings: Settings }> = ({
             Recheck the lender’s current rate sheet and all required documents before submission.
             Retain this worksheet with the deal jacket according to dealership policy.
           </span>
-          <span>Page 2 of 2</span>
+          <span>Page 2 of {totalPages}</span>
         </footer>
       </div>
+
+      {includeAmortization && (
+        <div className="deal-pdf-page" data-pdf-page="3">
+          <header className="topbar">
+            <div className="brand">
+              <div className="mark">LTV</div>
+              <div>
+                <h1>Payoff Projection</h1>
+                <p className="subtitle">Loan balance against projected vehicle value</p>
+              </div>
+            </div>
+            <div className="meta">
+              <div>{new Date().toLocaleDateString()}</div>
+              <div>{dealNumber ? `Deal #${dealNumber}` : `Stock ${vehicle.stock}`}</div>
+              <div>{customerName || "Walk-in customer"}</div>
+            </div>
+          </header>
+
+          {amortization ? (
+            <>
+              <section className="columns">
+                <div className="section">
+                  <h2>Loan Summary</h2>
+                  <div className="section-body">
+                    <Kv label="Amount financed" value={money(amortization.principal)} />
+                    <Kv label="Monthly payment" value={money(amortization.payment)} />
+                    {amortization.balloon > 0 && (
+                      <Kv label="Balloon at maturity" value={money(amortization.balloon)} />
+                    )}
+                    <Kv
+                      label="Term / APR"
+                      value={`${amortization.termMonths} months / ${amortization.annualRate.toFixed(2)}%`}
+                    />
+                    <Kv label="Total interest" value={money(amortization.totalInterest)} />
+                    <Kv label="Total of payments" value={money(amortization.totalPaid)} />
+                  </div>
+                </div>
+                <div className="section">
+                  <h2>Equity Outlook</h2>
+                  <div className="section-body">
+                    <Kv label="Trade book today" value={wholeMoney(vehicle.jdPower)} />
+                    <Kv
+                      label="Equity at delivery"
+                      value={
+                        amortization.startingEquity === null
+                          ? "N/A"
+                          : money(amortization.startingEquity)
+                      }
+                    />
+                    <Kv
+                      label="Positive equity"
+                      value={equityMonthLabel(
+                        amortization.positiveEquityMonth,
+                        amortization.startingBookValue !== null
+                      )}
+                    />
+                  </div>
+                </div>
+              </section>
+
+              <section className="section">
+                <h2>Year-by-Year Payoff</h2>
+                <div className="section-body" style={{ padding: 0 }}>
+                  <table className="amortization-table">
+                    <thead>
+                      <tr>
+                        <th>Loan year</th>
+                        <th>Principal paid</th>
+                        <th>Interest paid</th>
+                        <th>Ending balance</th>
+                        <th>Projected value</th>
+                        <th>Equity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {amortizationYears.map((year) => (
+                        <tr
+                          key={year.year}
+                          className={year.year === crossoverYear ? "crossover" : undefined}
+                        >
+                          <td>Year {year.year}</td>
+                          <td>{money(year.principal)}</td>
+                          <td>{money(year.interest)}</td>
+                          <td>{money(year.endingBalance)}</td>
+                          <td>
+                            {year.endingBookValue === null
+                              ? "N/A"
+                              : wholeMoney(year.endingBookValue)}
+                          </td>
+                          <td
+                            className={
+                              year.endingEquity !== null && year.endingEquity < 0
+                                ? "negative"
+                                : undefined
+                            }
+                          >
+                            {year.endingEquity === null ? "N/A" : wholeMoney(year.endingEquity)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            </>
+          ) : (
+            <section className="callout">
+              <strong>Payoff projection unavailable:</strong>{" "}
+              {paymentPlan?.frequency === "biweekly"
+                ? "The month-by-month projection does not model biweekly payments."
+                : "Enter an APR and a positive amount financed to project the loan balance."}
+            </section>
+          )}
+
+          <section className="callout">
+            <strong>Projection basis:</strong> Balances assume every payment is made on time with no
+            extra principal. Vehicle value starts at the trade book and is reduced{" "}
+            {DEFAULT_DEPRECIATION_CURVE.firstYearPct}% in the first year and{" "}
+            {DEFAULT_DEPRECIATION_CURVE.laterYearPct}% each year after; actual value depends on
+            mileage, condition, and market.
+          </section>
+
+          <footer className="fineprint page-footer">
+            <span>
+              Estimate only. Not a payoff quote. The lender&apos;s payoff statement controls the
+              amount due on any date.
+            </span>
+            <span>Page 3 of 3</span>
+          </footer>
+        </div>
+      )}
     </>
   );
 };
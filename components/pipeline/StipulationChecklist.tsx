@@ -0,0 +1,315 @@
+import React, { useState } from "react";
+import { useDealContext } from "../../context/DealContext";
+import {
+  getStipulationDocUrl,
+  removeStipulationDoc,
+  updateDeal,
+  uploadStipulationDoc,
+} from "../../lib/api";
+import type { PipelineSavedDeal } from "../../lib/dealMappers";
+import {
+  STIPULATION_STATUSES,
+  addStipulations,
+  isStipulationSettled,
+  outstandingStipulations,
+  seedLenderStipulations,
+} from "../../services/dealStipulations";
+import { dealDate } from "../../services/lenderPrograms";
+import * as Icons from "../common/Icons";
+import type { DealStipulation, SavedDeal, StipulationStatus } from "../../types";
+
+const mono = "var(--mono)";
+
+const STATUS_COLORS: Record<StipulationStatus, string> = {
+  needed: "var(--color-warning)",
+  received: "var(--color-primary)",
+  cleared: "var(--color-success)",
+  waived: "var(--color-text-subtle)",
+};
+
+const control: React.CSSProperties = {
+  background: "var(--color-bg)",
+  border: "1px solid var(--color-border)",
+  borderRadius: 8,
+  padding: "5px 8px",
+  fontSize: 13,
+  color: "var(--color-text)",
+  fontFamily: "inherit",
+  outline: "none",
+};
+
+const linkButton: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: 0,
+  fontSize: 12,
+  fontFamily: mono,
+  color: "var(--color-primary)",
+  cursor: "pointer",
+};
+
+const iconButton: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: 2,
+  color: "var(--color-text-subtle)",
+  cursor: "pointer",
+  display: "inline-flex",
+};
+
+interface StipulationChecklistProps {
+  deal: PipelineSavedDeal;
+}
+
+/**
+ * The Pipeline drawer's stip checklist (services/dealStipulations.ts): one row
+ * per stip with its status, uploaded documents and an attach control, plus
+ * seeding from the approved lender and custom stips. Writes are optimistic
+ * and revert when updateDeal fails, like the status select.
+ */
+const StipulationChecklist: React.FC<StipulationChecklistProps> = ({ deal }) => {
+  const { lenderProfiles, setSavedDeals, setMessage } = useDealContext();
+  const [draft, setDraft] = useState("");
+  const [uploading, setUploading] = useState<string | null>(null);
+  const items = deal.stipulations;
+
+  const applyLocal = (
+    patch: Partial<Pick<PipelineSavedDeal, "stipulations" | "stipulationDocs">>
+  ) =>
+    setSavedDeals((prev) =>
+      prev.map((d) => (d.id === deal.id ? ({ ...d, ...patch } as SavedDeal) : d))
+    );
+
+  const save = (next: DealStipulation[]) => {
+    const previous = items;
+    applyLocal({ stipulations: next });
+    updateDeal(deal.id, { stipulations: next }).then((saved) => {
+      if (saved) return;
+      applyLocal({ stipulations: previous });
+      setMessage({ type: "error", text: "Couldn't save the stipulations. Try again." });
+    });
+  };
+
+  const now = () => new Date().toISOString();
+
+  const update = (id: string, patch: Partial<DealStipulation>) =>
+    save(items.map((item) => (item.id === id ? { ...item, ...patch, updatedAt: now() } : item)));
+
+  const seeded = seedLenderStipulations(
+    items,
+    lenderProfiles,
+    deal.lenderName,
+    dealDate(deal.dealData),
+    now()
+  );
+  const canSeed = seeded !== items;
+
+  const handleAdd = () => {
+    const next = addStipulations(items, [draft], { now: now() });
+    setDraft("");
+    if (next !== items) save(next);
+  };
+
+  const handleUpload = async (item: DealStipulation, file: File) => {
+    setUploading(item.id);
+    try {
+      const { fileName } = await uploadStipulationDoc(deal.id, file, deal.stipulationDocs);
+      applyLocal({ stipulationDocs: [...deal.stipulationDocs, fileName] });
+      update(item.id, {
+        documents: [...(item.documents ?? []), fileName],
+        status: item.status === "needed" ? "received" : item.status,
+      });
+    } catch {
+      setMessage({ type: "error", text: `Couldn't upload ${file.name}. Try again.` });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleRemoveDoc = async (item: DealStipulation, fileName: string) => {
+    const next = items.map((stip) =>
+      stip.id === item.id
+        ? { ...stip, documents: (stip.documents ?? []).filter((name) => name !== fileName) }
+        : stip
+    );
+    const saved = await removeStipulationDoc(deal.id, fileName, next);
+    if (!saved) {
+      setMessage({ type: "error", text: "Couldn't remove the document. Try again." });
+      return;
+    }
+    applyLocal({
+      stipulations: next,
+      stipulationDocs: deal.stipulationDocs.filter((name) => name !== fileName),
+    });
+  };
+
+  const handleOpenDoc = async (fileName: string) => {
+    try {
+      window.open(await getStipulationDocUrl(deal.id, fileName), "_blank", "noopener");
+    } catch {
+      setMessage({ type: "error", text: "Couldn't open the document. Try again." });
+    }
+  };
+
+  const outstanding = outstandingStipulations(items).length;
+
+  return (
+    <section aria-label="Stipulations" style={{ margin: "0 0 16px", maxWidth: 720 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 8 }}>
+        <span style={{ fontSize: 12, fontWeight: 600, color: "var(--color-text-muted)" }}>
+          Stipulations
+        </span>
+        {items.length > 0 && (
+          <span
+            style={{
+              fontSize: 11,
+              fontFamily: mono,
+              color: outstanding > 0 ? "var(--color-warning)" : "var(--color-success)",
+            }}
+          >
+            {outstanding > 0 ? `${outstanding} outstanding` : "All required cleared"}
+          </span>
+        )}
+        {canSeed && (
+          <button
+            type="button"
+            style={{ ...linkButton, marginLeft: "auto" }}
+            onClick={() => save(seeded)}
+          >
+            Add {deal.lenderName} stips
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 && (
+        <div style={{ fontSize: 12, color: "var(--color-text-subtle)", marginBottom: 8 }}>
+          No stips yet.
+        </div>
+      )}
+
+      {items.map((item) => {
+        const inputId = `stip-file-${deal.id}-${item.id}`;
+        return (
+          <div
+            key={item.id}
+            style={{
+              display: "grid",
+              gridTemplateColumns: "minmax(0,1.6fr) auto minmax(0,1.6fr) auto",
+              alignItems: "center",
+              gap: 10,
+              padding: "6px 0",
+              borderTop: "1px solid var(--color-border)",
+            }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <span
+                style={{
+                  fontSize: 13,
+                  color: isStipulationSettled(item.status)
+                    ? "var(--color-text-subtle)"
+                    : "var(--color-text)",
+                }}
+              >
+                {item.label}
+              </span>
+              <label
+                style={{
+                  marginLeft: 8,
+                  fontSize: 11,
+                  fontFamily: mono,
+                  color: "var(--color-text-subtle)",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={item.required}
+                  onChange={(e) => update(item.id, { required: e.target.checked })}
+                  style={{ marginRight: 4 }}
+                />
+                Required
+              </label>
+            </div>
+            <select
+              aria-label={`${item.label} status`}
+              value={item.status}
+              onChange={(e) => update(item.id, { status: e.target.value as StipulationStatus })}
+              style={{ ...control, color: STATUS_COLORS[item.status], cursor: "pointer" }}
+            >
+              {(Object.keys(STIPULATION_STATUSES) as StipulationStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {STIPULATION_STATUSES[status]}
+                </option>
+              ))}
+            </select>
+            <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+              {(item.documents ?? []).map((fileName) => (
+                <span key={fileName} style={{ display: "inline-flex", alignItems: "center" }}>
+                  <button type="button" style={linkButton} onClick={() => handleOpenDoc(fileName)}>
+                    {fileName}
+                  </button>
+                  <button
+                    type="button"
+                    style={iconButton}
+                    title="Remove document"
+                    aria-label={`Remove ${fileName}`}
+                    onClick={() => handleRemoveDoc(item, fileName)}
+                  >
+                    <Icons.XMarkIcon className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <label htmlFor={inputId} style={{ ...linkButton, opacity: uploading ? 0.5 : 1 }}>
+                {uploading === item.id ? "Uploading…" : "Attach"}
+              </label>
+              <input
+                id={inputId}
+                type="file"
+                accept="application/pdf,image/*"
+                disabled={uploading !== null}
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void handleUpload(item, file);
+                }}
+              />
+            </div>
+            <button
+              type="button"
+              style={iconButton}
+              title="Remove stip"
+              aria-label={`Remove ${item.label}`}
+              disabled={(item.documents ?? []).length > 0}
+              onClick={() => save(items.filter((stip) => stip.id !== item.id))}
+            >
+              <Icons.TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAdd();
+        }}
+        style={{ display: "flex", gap: 8, marginTop: 8 }}
+      >
+        <input
+          aria-label="New stipulation"
+          className="dc-input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a stip, e.g. Proof of insurance"
+          style={{ ...control, flex: 1 }}
+        />
+        <button type="submit" style={{ ...iconButton, color: "var(--color-primary)" }}>
+          <Icons.PlusIcon className="w-4 h-4" />
+          <span style={{ fontSize: 12, marginLeft: 4 }}>Add</span>
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default StipulationChecklist;
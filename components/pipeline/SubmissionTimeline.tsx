@@ -0,0 +1,268 @@
+import React, { useState } from "react";
+import { useDealContext } from "../../context/DealContext";
+import { logDealEvent } from "../../lib/api";
+import type { PipelineSavedDeal } from "../../lib/dealMappers";
+import {
+  DECISION_COLORS,
+  LENDER_DECISIONS,
+  decisionSummary,
+  isOffer,
+} from "../../services/lenderDecisions";
+import type { DealSubmission, LenderDecision } from "../../types";
+
+const mono = "var(--mono)";
+
+const control: React.CSSProperties = {
+  background: "var(--color-bg)",
+  border: "1px solid var(--color-border)",
+  borderRadius: 8,
+  padding: "5px 8px",
+  fontSize: 13,
+  color: "var(--color-text)",
+  fontFamily: "inherit",
+  outline: "none",
+  minWidth: 0,
+};
+
+const linkButton: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: 0,
+  fontSize: 12,
+  fontFamily: mono,
+  color: "var(--color-primary)",
+  cursor: "pointer",
+};
+
+type SubmissionFields = Omit<DealSubmission, "id" | "dealId">;
+
+interface SubmissionTimelineProps {
+  deal: PipelineSavedDeal;
+  /** This deal's submissions, oldest first. */
+  submissions: DealSubmission[];
+  onRecord: (dealId: string, lenderName: string) => Promise<DealSubmission>;
+  onUpdate: (id: string, fields: Partial<SubmissionFields>) => Promise<DealSubmission>;
+  onRemove: (id: string) => Promise<void>;
+}
+
+const whenFmt = (iso: string): string => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? "—"
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/** Text/number input that saves on blur when its value changed. */
+const BlurField: React.FC<{
+  label: string;
+  value: string;
+  type?: "text" | "number";
+  width?: number | string;
+  onCommit: (value: string) => void;
+}> = ({ label, value, type = "text", width, onCommit }) => (
+  <input
+    key={value}
+    aria-label={label}
+    placeholder={label}
+    type={type}
+    step={type === "number" ? "any" : undefined}
+    defaultValue={value}
+    onBlur={(e) => {
+      if (e.target.value !== value) onCommit(e.target.value);
+    }}
+    style={{ ...control, width }}
+  />
+);
+
+/**
+ * The Pipeline drawer's submission history: one entry per lender the deal
+ * went to, with that lender's decision and terms (services/lenderDecisions.ts),
+ * and a picker to log a new submission.
+ */
+const SubmissionTimeline: React.FC<SubmissionTimelineProps> = ({
+  deal,
+  submissions,
+  onRecord,
+  onUpdate,
+  onRemove,
+}) => {
+  const { lenderProfiles, setMessage } = useDealContext();
+  const [lender, setLender] = useState("");
+  const listId = `submission-lenders-${deal.id}`;
+
+  const fail = (text: string) => setMessage({ type: "error", text });
+
+  const handleRecord = () => {
+    const name = lender.trim();
+    if (!name) return;
+    setLender("");
+    onRecord(deal.id, name).catch(() => fail(`Couldn't log the submission to ${name}. Try again.`));
+  };
+
+  const handleDecision = (submission: DealSubmission, decision: LenderDecision) => {
+    onUpdate(submission.id, {
+      decision,
+      decidedAt: decision === "pending" ? undefined : new Date().toISOString(),
+    })
+      .then(() =>
+        logDealEvent("lender_decision_recorded", {
+          customerName: deal.customerName,
+          vin: deal.vehicle.vin,
+          snapshot: { lender: submission.lenderName, from: submission.decision, to: decision },
+        })
+      )
+      .catch(() => fail("Couldn't save the lender decision. Try again."));
+  };
+
+  const update = (submission: DealSubmission, fields: Partial<SubmissionFields>) =>
+    onUpdate(submission.id, fields).catch(() => fail("Couldn't save the submission. Try again."));
+
+  return (
+    <section aria-label="Lender submissions" style={{ margin: "0 0 16px", maxWidth: 720 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, color: "var(--color-text-muted)" }}>
+        Lender submissions
+      </div>
+
+      <ol style={{ listStyle: "none", margin: "8px 0 0", padding: 0 }}>
+        {submissions.map((submission) => (
+          <li
+            key={submission.id}
+            style={{
+              position: "relative",
+              padding: "0 0 10px 18px",
+              borderLeft: "2px solid var(--color-border)",
+              marginLeft: 4,
+            }}
+          >
+            <span
+              aria-hidden
+              style={{
+                position: "absolute",
+                left: -6,
+                top: 4,
+                width: 10,
+                height: 10,
+                borderRadius: "50%",
+                background: DECISION_COLORS[submission.decision],
+              }}
+            />
+            <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+              <span style={{ fontSize: 13, fontWeight: 600 }}>{submission.lenderName}</span>
+              <span style={{ fontSize: 11, fontFamily: mono, color: "var(--color-text-subtle)" }}>
+                sent {whenFmt(submission.submittedAt)}
+                {submission.decidedAt ? ` · decided ${whenFmt(submission.decidedAt)}` : ""}
+              </span>
+              <select
+                aria-label={`${submission.lenderName} decision`}
+                value={submission.decision}
+                onChange={(e) => handleDecision(submission, e.target.value as LenderDecision)}
+                style={{
+                  ...control,
+                  color: DECISION_COLORS[submission.decision],
+                  cursor: "pointer",
+                }}
+              >
+                {(Object.keys(LENDER_DECISIONS) as LenderDecision[]).map((decision) => (
+                  <option key={decision} value={decision}>
+                    {LENDER_DECISIONS[decision]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                style={{ ...linkButton, color: "var(--color-text-subtle)", marginLeft: "auto" }}
+                onClick={() =>
+                  onRemove(submission.id).catch(() =>
+                    fail("Couldn't delete the submission. Try again.")
+                  )
+                }
+              >
+                Remove
+              </button>
+            </div>
+            <div style={{ fontSize: 12, color: "var(--color-text-muted)", margin: "4px 0" }}>
+              {decisionSummary(submission)}
+            </div>
+            {isOffer(submission.decision) && (
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                <BlurField
+                  label="Amount $"
+                  type="number"
+                  width={110}
+                  value={submission.approvedAmount?.toString() ?? ""}
+                  onCommit={(v) => update(submission, { approvedAmount: parseNumber(v) })}
+                />
+                <BlurField
+                  label="APR %"
+                  type="number"
+                  width={80}
+                  value={submission.approvedRate?.toString() ?? ""}
+                  onCommit={(v) => update(submission, { approvedRate: parseNumber(v) })}
+                />
+                <BlurField
+                  label="Term mo"
+                  type="number"
+                  width={80}
+                  value={submission.approvedTerm?.toString() ?? ""}
+                  onCommit={(v) => update(submission, { approvedTerm: parseNumber(v) })}
+                />
+                {submission.decision === "countered" && (
+                  <BlurField
+                    label="Counter conditions"
+                    width="100%"
+                    value={submission.conditions ?? ""}
+                    onCommit={(v) => update(submission, { conditions: v.trim() || undefined })}
+                  />
+                )}
+              </div>
+            )}
+            {submission.decision === "declined" && (
+              <BlurField
+                label="Decline reason"
+                width="100%"
+                value={submission.declineReason ?? ""}
+                onCommit={(v) => update(submission, { declineReason: v.trim() || undefined })}
+              />
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleRecord();
+        }}
+        style={{ display: "flex", gap: 8, marginTop: 4 }}
+      >
+        <input
+          aria-label="Lender submitted to"
+          className="dc-input"
+          list={listId}
+          value={lender}
+          onChange={(e) => setLender(e.target.value)}
+          placeholder={submissions.length > 0 ? "Send to another lender" : "Lender submitted to"}
+          style={{ ...control, flex: 1 }}
+        />
+        <datalist id={listId}>
+          {lenderProfiles
+            .filter((profile) => profile.active !== false)
+            .map((profile) => (
+              <option key={profile.id} value={profile.name} />
+            ))}
+        </datalist>
+        <button type="submit" style={linkButton} disabled={!lender.trim()}>
+          Log submission
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default SubmissionTimeline;
@@ -1,21 +1,32 @@
-import React, { useEffect, useRef, useMemo, useState, useCallback } from "react";
+import React, { lazy, Suspense, useEffect, useRef, useMemo, useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWindowVirtualizer } from "@tanstack/react-virtual";
 import { useDealContext } from "../../context/DealContext";
 import { useInventoryImport } from "../../hooks/useInventoryImport";
+import { useInventoryHistory } from "../../hooks/useInventoryHistory";
 import { activeLenderCount } from "../../services/lenderFit";
 import { BAND_META } from "../../services/approvalScorer";
+import { valueSeries } from "../../services/inventoryHistory";
+import { AGING_BUCKETS, agingColor } from "../../services/inventoryAging";
 import { ScoreRing } from "../common/ScoreRing";
+import PriceSparkline from "../inventory/PriceSparkline";
 import { EmptyState, DataLoading } from "../common/states";
 import * as Icons from "../common/Icons";
 import { fmt, fmtN } from "../../utils/format";
-import type { CalculatedVehicle } from "../../types";
+import type { AgingBucket, CalculatedVehicle } from "../../types";
 import { getCurrentUser } from "../../lib/pocketbase";
 
+const InventoryColumnMappingModal = lazy(() => import("../InventoryColumnMappingModal"));
+const InventoryHistoryModal = lazy(() => import("../inventory/InventoryHistoryModal"));
+const InventorySyncReviewModal = lazy(() => import("../inventory/InventorySyncReviewModal"));
+
 const mono = "var(--mono)";
 
-/** 9-col grid per the mockup's INVENTORY table (lines 505/512). */
-const GRID = "2.8fr 1fr 1fr 0.95fr 1.15fr 0.95fr 1.05fr 0.8fr 1fr";
+/** The mockup's 9-col INVENTORY grid (lines 505/512) plus days in stock. */
+const GRID = "2.8fr 1fr 1fr 0.7fr 0.95fr 1.15fr 0.95fr 1.05fr 0.8fr 1fr";
+
+/** Rows per inventory_history request for the row sparklines. */
+const HISTORY_BLOCK_ROWS = 50;
 
 const numVal = (v: number | "Error" | "N/A" | undefined): number | null =>
   typeof v === "number" && Number.isFinite(v) ? v : null;
@@ -46,6 +57,13 @@ const COLUMNS: {
     right: true,
     title: "J.D. Power Trade — retail used per lender where configured",
   },
+  {
+    key: "daysInStock",
+    label: "Age",
+    defaultDir: "desc",
+    right: true,
+    title: "Days in stock, from the first sync that brought the unit in",
+  },
   { key: "frontEndLtv", label: "Front LTV", defaultDir: "desc", right: true },
   { key: "amountToFinance", label: "Financed", defaultDir: "desc", right: true },
   { key: "otdLtv", label: "OTD LTV", defaultDir: "desc", right: true },
@@ -68,7 +86,7 @@ const ghostBtnStyle: React.CSSProperties = {
 };
 
 /**
- * Inventory screen — the full 9-col sortable table of the INVENTORY block
+ * Inventory screen — the full sortable table of the INVENTORY block
  * (LTV Desking PRO.dc.html lines 484-539), priced against the live deal by
  * DealContext's single scoring pass, plus the import/VIN/favorites toolbar
  * (features preserved per reconciliation 11). Row click focuses the unit on
@@ -83,6 +101,7 @@ const InventoryScreenBase: React.FC = () => {
     setInventorySort,
     searchQuery,
     setSearchQuery,
+    filters,
     setFilters,
     focusVin,
     setFocusVin,
@@ -94,6 +113,12 @@ const InventoryScreenBase: React.FC = () => {
     fileInputRef,
     isUploadingInventory,
     handleFileUpload,
+    pendingMapping,
+    confirmColumnMapping,
+    cancelColumnMapping,
+    pendingSync,
+    confirmInventorySync,
+    cancelInventorySync,
     downloadSampleCsv,
     vinLookup,
     setVinLookup,
@@ -102,6 +127,7 @@ const InventoryScreenBase: React.FC = () => {
     handleVinLookup,
     handleDownloadFavorites,
   } = useInventoryImport();
+  const [historyVin, setHistoryVin] = useState<string | null>(null);
 
   const navigate = useNavigate();
   const role = getCurrentUser()?.role;
@@ -197,6 +223,7 @@ const InventoryScreenBase: React.FC = () => {
       maxOtdLtv: null,
       vin: "",
       minScore: null,
+      agingBucket: null,
     }));
   };
 
@@ -209,7 +236,23 @@ const InventoryScreenBase: React.FC = () => {
     scrollMargin: listRef.current?.offsetTop ?? 0,
   });
 
+  // Price history for the rows on screen, fetched a block of rows at a time so
+  // scrolling within a block reuses the same request; the modal fetches its
+  // own unit.
+  const virtualRows = virtualizer.getVirtualItems();
+  const firstBlock = Math.floor((virtualRows[0]?.index ?? 0) / HISTORY_BLOCK_ROWS);
+  const lastBlock = Math.floor(
+    (virtualRows[virtualRows.length - 1]?.index ?? 0) / HISTORY_BLOCK_ROWS
+  );
+  const { byVin: historyByVin } = useInventoryHistory(
+    sortedInventory
+      .slice(firstBlock * HISTORY_BLOCK_ROWS, (lastBlock + 1) * HISTORY_BLOCK_ROWS)
+      .map((v) => v.vin)
+  );
+  const { byVin: openedHistory } = useInventoryHistory(historyVin ? [historyVin] : []);
+
   const hasInventory = inventory.length > 0;
+  const historyVehicle = historyVin ? (inventory.find((v) => v.vin === historyVin) ?? null) : null;
   const noResults = hasInventory && sortedInventory.length === 0;
 
   return (
@@ -272,7 +315,7 @@ const InventoryScreenBase: React.FC = () => {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv,.xlsx"
+                accept=".csv,.xlsx,.xml,.json"
                 onChange={handleFileUpload}
                 style={{ display: "none" }}
                 aria-hidden="true"
@@ -403,6 +446,26 @@ const InventoryScreenBase: React.FC = () => {
             Favorites PDF
           </button>
 
+          <select
+            className="dc-input"
+            aria-label="Filter by days in stock"
+            value={filters.agingBucket ?? ""}
+            onChange={(e) =>
+              setFilters((f) => ({
+                ...f,
+                agingBucket: (e.target.value || null) as AgingBucket | null,
+              }))
+            }
+            style={{ ...ghostBtnStyle, background: "var(--color-bg-subtle)" }}
+          >
+            <option value="">Any age</option>
+            {AGING_BUCKETS.map(({ bucket, label }) => (
+              <option key={bucket} value={bucket}>
+                {label}
+              </option>
+            ))}
+          </select>
+
           {/* Search — bound to the shared context query (mockup line 496) */}
           <div className="inventory-screen-search" style={{ position: "relative" }}>
             <svg
@@ -518,7 +581,7 @@ const InventoryScreenBase: React.FC = () => {
             <EmptyState
               icon={<Icons.CarIcon className="w-full h-full" />}
               title="No inventory yet"
-              description="Import your dealership's CSV or Excel feed and every unit gets priced against the live deal — payment, LTV, lender fit and approval odds."
+              description="Import your dealership's CSV, Excel, XML or JSON feed and every unit gets priced against the live deal — payment, LTV, lender fit and approval odds."
               primaryAction={{
                 label: "Import CSV/XLSX",
                 onClick: () => fileInputRef.current?.click(),
@@ -553,6 +616,8 @@ const InventoryScreenBase: React.FC = () => {
                   const fitCount = v.fitCount ?? 0;
                   const score = v.approvalScore ?? 0;
                   const ring = BAND_META[v.approvalBand ?? "none"].colorVar;
+                  const history = historyByVin.get(v.vin.toUpperCase());
+                  const priceSeries = history ? valueSeries(history, "price") : [];
                   return (
                     <div
                       key={v.vin}
@@ -628,6 +693,35 @@ const InventoryScreenBase: React.FC = () => {
                           }}
                         >
                           {numVal(v.price) === null ? "—" : fmt(v.price as number)}
+                          {history && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setHistoryVin(v.vin);
+                              }}
+                              onKeyDown={(e) => e.stopPropagation()}
+                              aria-label={`Price history for ${v.vehicle}`}
+                              title="Price history"
+                              style={{
+                                display: "block",
+                                marginLeft: "auto",
+                                marginTop: 2,
+                                background: "transparent",
+                                border: "none",
+                                padding: 0,
+                                cursor: "pointer",
+                                fontSize: 11,
+                                color: "var(--color-text-subtle)",
+                              }}
+                            >
+                              {priceSeries.length >= 2 ? (
+                                <PriceSparkline values={priceSeries} label="Price history" />
+                              ) : (
+                                "history"
+                              )}
+                            </button>
+                          )}
                         </span>
                         <span
                           role="cell"
@@ -641,6 +735,18 @@ const InventoryScreenBase: React.FC = () => {
                         >
                           {numVal(v.jdPower) === null ? "—" : fmt(v.jdPower as number)}
                         </span>
+                        <span
+                          role="cell"
+                          style={{
+                            fontSize: 14,
+                            textAlign: "right",
+                            fontFamily: mono,
+                            fontVariantNumeric: "tabular-nums",
+                            color: agingColor(v.daysInStock),
+                          }}
+                        >
+                          {typeof v.daysInStock === "number" ? `${v.daysInStock}d` : "—"}
+                        </span>
                         <span
                           role="cell"
                           style={{
@@ -741,6 +847,37 @@ const InventoryScreenBase: React.FC = () => {
           )}
         </div>
       </div>
+
+      {historyVehicle && (
+        <Suspense fallback={null}>
+          <InventoryHistoryModal
+            vehicle={historyVehicle}
+            entries={openedHistory.get(historyVehicle.vin.toUpperCase()) ?? []}
+            onClose={() => setHistoryVin(null)}
+          />
+        </Suspense>
+      )}
+
+      {pendingMapping && (
+        <Suspense fallback={null}>
+          <InventoryColumnMappingModal
+            pending={pendingMapping}
+            canSaveProfile={canManageInventory}
+            onConfirm={(mapping, saveAs) => void confirmColumnMapping(mapping, saveAs)}
+            onCancel={cancelColumnMapping}
+          />
+        </Suspense>
+      )}
+
+      {pendingSync && (
+        <Suspense fallback={null}>
+          <InventorySyncReviewModal
+            pending={pendingSync}
+            onConfirm={(excluded) => void confirmInventorySync(excluded)}
+            onCancel={cancelInventorySync}
+          />
+        </Suspense>
+      )}
     </div>
   );
 };
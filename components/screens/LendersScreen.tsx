@@ -3,6 +3,27 @@ import { useOutletContext } from "react-router-dom";
 import type { ShellOutletContext } from "../shell/AppShell";
 import { useDealContext } from "../../context/DealContext";
 import { checkBankEligibility } from "../../services/lenderMatcher";
+import {
+  ALLOWED_STRUCTURE_OPTIONS,
+  allowedStructuresValue,
+  parseAllowedStructures,
+} from "../../services/paymentStructure";
+import {
+  dealDate,
+  diffLenderPrograms,
+  expiredProgramDate,
+  formatProgramValue,
+  listProgramVersions,
+  programFieldLabel,
+  programWindowLabel,
+  supersedeProgram,
+  todayIso,
+} from "../../services/lenderPrograms";
+import { parseIsoDate } from "../../services/firstPayment";
+import { buildLenderMatrix, lenderMatrixSheet } from "../../services/lenderMatrix";
+import { exportLenderPrograms, lenderProgramsFilename } from "../../services/lenderProgramExchange";
+import { downloadBlob } from "../../utils/downloadBlob";
+import { CSV_MIME, XLSX_MIME, toCsv, toXlsx } from "../../utils/spreadsheet";
 import { updateLenderProfile } from "../../lib/api";
 import { getCurrentUser } from "../../lib/pocketbase";
 import { toast } from "../../lib/toast";
@@ -10,6 +31,7 @@ import { currentDealerQueryKeys, queryClient, queryKeys } from "../../lib/queryC
 // Lazy: Lender profile editor modal only on demand (avoids pulling its deps into
 // lenders chunk until edit action).
 const LenderProfileModal = lazy(() => import("../LenderProfileModal"));
+const LenderProgramImportModal = lazy(() => import("../LenderProgramImportModal"));
 import { EmptyState } from "../common/states";
 import * as Icons from "../common/Icons";
 import type {
@@ -22,6 +44,18 @@ import type {
 
 const mono: React.CSSProperties = { fontFamily: "var(--mono)" };
 
+const exportButton: React.CSSProperties = {
+  background: "none",
+  border: "1px solid var(--color-border)",
+  borderRadius: 8,
+  padding: "8px 11px",
+  fontSize: 13,
+  fontWeight: 600,
+  color: "var(--color-text-muted)",
+  cursor: "pointer",
+  fontFamily: "inherit",
+};
+
 /**
  * lender_profiles now carry reservePct/fundingDays (migration 1747810001) but
  * the frozen app-level LenderProfile type doesn't declare them yet — widen
@@ -164,6 +198,9 @@ const statusFor = (
   if (lender.active === false) {
     return { label: "Disabled", ...danger, dealEligible: false };
   }
+  if (expiredProgramDate(lender, dealDate(deal))) {
+    return { label: "Program expired", ...danger, dealEligible: false };
+  }
   const fico = deal.creditScore;
   if (fico != null && agg.minFico !== null && fico < agg.minFico) {
     return { label: "FICO below min", ...danger, dealEligible: false };
@@ -198,6 +235,214 @@ const statusFor = (
 
 /* ========================================================================== */
 
+const sectionHead: React.CSSProperties = {
+  padding: "9px 14px",
+  borderBottom: "1px solid var(--color-border)",
+  fontSize: 11,
+  fontWeight: 600,
+  letterSpacing: "0.1em",
+  ...mono,
+  color: "var(--color-text-subtle)",
+  background: "var(--color-bg-subtle)",
+};
+
+/**
+ * Rate sheet versions for one lender: the current program's window, starting
+ * a new version (the current terms are archived with an end date and carried
+ * forward for editing), the version history, and a field-by-field diff
+ * between any two versions.
+ */
+const ProgramVersionsPanel: React.FC<{
+  lender: LenderRow;
+  canEdit: boolean;
+  onSave: (patch: Partial<LenderRow>) => void;
+}> = ({ lender, canEdit, onSave }) => {
+  const versions = useMemo(() => listProgramVersions(lender), [lender]);
+  const [newFrom, setNewFrom] = useState(todayIso);
+  const [fromKey, setFromKey] = useState<string | null>(null);
+  const [toKey, setToKey] = useState<string | null>(null);
+
+  // Default comparison: the version before the current one → current.
+  const currentIdx = versions.findIndex((v) => v.current);
+  const before = versions.find((v) => v.key === fromKey) ?? versions[Math.max(0, currentIdx - 1)]!;
+  const after = versions.find((v) => v.key === toKey) ?? versions[currentIdx]!;
+  const diff = useMemo(() => diffLenderPrograms(before.version, after.version), [before, after]);
+
+  const optionLabel = (entry: (typeof versions)[number]) =>
+    `${programWindowLabel(entry.version)}${entry.current ? " (current)" : ""}`;
+
+  return (
+    <div
+      style={{
+        border: "1px solid var(--color-border)",
+        borderRadius: 10,
+        overflow: "hidden",
+        maxWidth: 820,
+        background: "var(--color-bg)",
+        marginBottom: 12,
+      }}
+      role="group"
+      aria-label={`Rate sheet versions for ${lender.name}`}
+    >
+      <div style={sectionHead}>RATE SHEET VERSIONS · {versions.length}</div>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: 12,
+          padding: "12px 14px",
+          alignItems: "end",
+        }}
+      >
+        <div>
+          <label htmlFor={`lender-${lender.id}-effective-from`} style={editLabel}>
+            Current from
+          </label>
+          <input
+            id={`lender-${lender.id}-effective-from`}
+            className="dc-input"
+            type="date"
+            disabled={!canEdit}
+            value={lender.effectiveFrom ?? ""}
+            onChange={(e) => onSave({ effectiveFrom: e.target.value || undefined })}
+            style={editInput}
+          />
+        </div>
+        <div>
+          <label htmlFor={`lender-${lender.id}-effective-to`} style={editLabel}>
+            Expires
+          </label>
+          <input
+            id={`lender-${lender.id}-effective-to`}
+            className="dc-input"
+            type="date"
+            disabled={!canEdit}
+            value={lender.effectiveTo ?? ""}
+            onChange={(e) => onSave({ effectiveTo: e.target.value || undefined })}
+            style={editInput}
+          />
+        </div>
+        {canEdit && (
+          <>
+            <div>
+              <label htmlFor={`lender-${lender.id}-new-version`} style={editLabel}>
+                New version from
+              </label>
+              <input
+                id={`lender-${lender.id}-new-version`}
+                className="dc-input"
+                type="date"
+                value={newFrom}
+                onChange={(e) => setNewFrom(e.target.value)}
+                style={editInput}
+              />
+            </div>
+            <button
+              type="button"
+              className="transition-colors"
+              disabled={parseIsoDate(newFrom) === null}
+              onClick={() => {
+                onSave(supersedeProgram(lender, newFrom));
+                setFromKey(null);
+                setToKey(null);
+              }}
+              title="Archive the current terms and continue editing them as a new version"
+              style={{
+                background: "transparent",
+                border: "1px solid var(--color-primary)",
+                borderRadius: 8,
+                padding: "8px 10px",
+                color: "var(--color-primary)",
+                fontSize: 13,
+                fontWeight: 600,
+                cursor: "pointer",
+                fontFamily: "inherit",
+              }}
+            >
+              Start new version
+            </button>
+          </>
+        )}
+      </div>
+
+      {versions.length > 1 && (
+        <div style={{ padding: "0 14px 12px" }}>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}>
+            <label htmlFor={`lender-${lender.id}-diff-from`} style={{ ...editLabel, margin: 0 }}>
+              Compare
+            </label>
+            <select
+              id={`lender-${lender.id}-diff-from`}
+              className="dc-input"
+              value={before.key}
+              onChange={(e) => setFromKey(e.target.value)}
+              style={{ ...editInput, width: "auto", fontFamily: "inherit" }}
+            >
+              {versions.map((v) => (
+                <option key={v.key} value={v.key}>
+                  {optionLabel(v)}
+                </option>
+              ))}
+            </select>
+            <span style={{ color: "var(--color-text-subtle)" }}>→</span>
+            <select
+              className="dc-input"
+              value={after.key}
+              onChange={(e) => setToKey(e.target.value)}
+              style={{ ...editInput, width: "auto", fontFamily: "inherit" }}
+              aria-label="Compare to version"
+            >
+              {versions.map((v) => (
+                <option key={v.key} value={v.key}>
+                  {optionLabel(v)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {diff.lender.length === 0 && diff.tiers.length === 0 ? (
+            <div style={{ fontSize: 13, color: "var(--color-text-muted)" }}>
+              No differences between these versions.
+            </div>
+          ) : (
+            <ul
+              style={{ margin: 0, paddingLeft: 18, fontSize: 13, lineHeight: 1.6 }}
+              aria-label="Version changes"
+            >
+              {diff.lender.map((c) => (
+                <li key={`lender-${c.field}`}>
+                  {programFieldLabel(c.field)}:{" "}
+                  <span style={mono}>
+                    {formatProgramValue(c.before)} → {formatProgramValue(c.after)}
+                  </span>
+                </li>
+              ))}
+              {diff.tiers.map((t, i) => (
+                <li key={`tier-${i}`}>
+                  <strong>{t.tier}</strong>{" "}
+                  {t.change === "changed" ? (
+                    <span style={mono}>
+                      {t.fields
+                        .map(
+                          (c) =>
+                            `${programFieldLabel(c.field)} ${formatProgramValue(c.before)} → ${formatProgramValue(c.after)}`
+                        )
+                        .join(" · ")}
+                    </span>
+                  ) : (
+                    <span style={{ color: "var(--color-text-muted)" }}>{t.change}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/* ========================================================================== */
+
 /**
  * Lenders screen — the LENDER NETWORK matrix per LTV Desking PRO.dc.html
  * lines 607-675 + plan reconciliation 2. Rows show the tier MATCHED for the
@@ -227,6 +472,7 @@ export const LendersScreen: React.FC = () => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [expandedTier, setExpandedTier] = useState<number | null>(null);
   const [modalProfile, setModalProfile] = useState<LenderProfile | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
   // The rules engine consumes deal + customer inputs merged (same shape the
   // context's scoring pass uses).
@@ -336,6 +582,61 @@ export const LendersScreen: React.FC = () => {
     }
   };
 
+  /**
+   * Every unit × every active lender against the current customer profile,
+   * for the weekly inventory meeting. Built on click, not kept live: it runs
+   * the rules engine once per cell.
+   */
+  const exportMatrix = (format: "csv" | "xlsx") => {
+    if (processedInventory.length === 0 || activeCount === 0) {
+      toast.error("Load inventory and at least one active lender to export the matrix.");
+      return;
+    }
+    const sheet = lenderMatrixSheet(
+      buildLenderMatrix(processedInventory, mergedDeal, safeLenderProfiles)
+    );
+    const filename = `Lender matrix ${todayIso()}`;
+    try {
+      if (format === "csv") {
+        // BOM so Excel reads the file as UTF-8.
+        const blob = new Blob(["\uFEFF", toCsv(sheet)], { type: CSV_MIME });
+        downloadBlob(blob, filename, { expectedType: CSV_MIME, minBytes: 1, extension: ".csv" });
+      } else {
+        const blob = new Blob([toXlsx(sheet, "Lender matrix")], { type: XLSX_MIME });
+        downloadBlob(blob, filename, { expectedType: XLSX_MIME, minBytes: 1, extension: ".xlsx" });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't export the lender matrix.");
+    }
+  };
+
+  /**
+   * Lender programs as a portable JSON file for another rooftop to import.
+   * Sample programs stay behind: they would arrive looking real.
+   */
+  const exportPrograms = (profiles: LenderProfile[]) => {
+    const real = profiles.filter((p) => !p.isSample);
+    if (real.length === 0) {
+      toast.error("There are no lender programs to export yet.");
+      return;
+    }
+    const json = JSON.stringify(exportLenderPrograms(real), null, 2);
+    try {
+      downloadBlob(new Blob([json], { type: "application/json" }), lenderProgramsFilename(real), {
+        expectedType: "application/json",
+        minBytes: 1,
+        extension: ".json",
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't export lender programs.");
+    }
+  };
+
+  const handleProgramsImported = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.lenderProfiles });
+    void refetchData();
+  };
+
   /* ----------------------------------------------------------------------- */
 
   return (
@@ -378,43 +679,86 @@ export const LendersScreen: React.FC = () => {
             eligibility recalculated against the live deal
           </span>
         </div>
-        <button
-          onClick={openAiUpload}
-          className="transition-colors btn-primary"
-          data-lenders-upload
-          aria-label="AI Lender Upload"
-          title="Upload and parse lender rate sheet with AI"
-          style={{
-            border: "1px solid transparent",
-            borderRadius: 8,
-            padding: "8px 13px",
-            fontSize: 13.5,
-            fontWeight: 600,
-            cursor: "pointer",
-            fontFamily: "inherit",
-            display: "flex",
-            alignItems: "center",
-            gap: 7,
-          }}
+        <div
+          className="lenders-screen-actions"
+          style={{ display: "flex", alignItems: "center", gap: 8 }}
         >
-          <svg
-            width="14"
-            height="14"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            aria-hidden="true"
+          <button
+            type="button"
+            onClick={() => exportMatrix("csv")}
+            data-lenders-export="csv"
+            title="Every unit against every active lender for the current customer, as CSV"
+            style={exportButton}
           >
-            <path
-              d="M12 8.5 13 11l2.5 1L13 13l-1 2.5L11 13l-2.5-1L11 11z"
-              fill="currentColor"
-              stroke="none"
-            />
-            <path d="M5 4v3M19 17v3M4 18h2M18 5h2" />
-          </svg>
-          AI Lender Upload
-        </button>
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => exportMatrix("xlsx")}
+            data-lenders-export="xlsx"
+            title="Every unit against every active lender for the current customer, as an Excel workbook"
+            style={exportButton}
+          >
+            Export XLSX
+          </button>
+          <button
+            type="button"
+            onClick={() => exportPrograms(safeLenderProfiles)}
+            data-lenders-programs="export"
+            title="Download every lender program as a JSON file another rooftop can import"
+            style={exportButton}
+          >
+            Export programs
+          </button>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setImportOpen(true)}
+              data-lenders-programs="import"
+              title="Import lender programs exported from another rooftop"
+              style={exportButton}
+            >
+              Import programs
+            </button>
+          )}
+          <button
+            onClick={openAiUpload}
+            className="transition-colors btn-primary"
+            data-lenders-upload
+            aria-label="AI Lender Upload"
+            title="Upload and parse lender rate sheet with AI"
+            style={{
+              border: "1px solid transparent",
+              borderRadius: 8,
+              padding: "8px 13px",
+              fontSize: 13.5,
+              fontWeight: 600,
+              cursor: "pointer",
+              fontFamily: "inherit",
+              display: "flex",
+              alignItems: "center",
+              gap: 7,
+            }}
+          >
+            <svg
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              aria-hidden="true"
+            >
+              <path
+                d="M12 8.5 13 11l2.5 1L13 13l-1 2.5L11 13l-2.5-1L11 11z"
+                fill="currentColor"
+                stroke="none"
+              />
+              <path d="M5 4v3M19 17v3M4 18h2M18 5h2" />
+            </svg>
+            AI Lender Upload
+          </button>
+        </div>
       </header>
 
       <div className="lenders-screen-content" style={{ padding: "20px 24px" }}>
@@ -862,6 +1206,35 @@ export const LendersScreen: React.FC = () => {
                             style={editInput}
                           />
                         </div>
+                        <div>
+                          <label htmlFor={`lender-${l.id}-max-markup`} style={editLabel}>
+                            Max markup (pts)
+                          </label>
+                          <input
+                            id={`lender-${l.id}-max-markup`}
+                            className="dc-input"
+                            inputMode="decimal"
+                            disabled={!canEdit}
+                            value={l.maxMarkup ?? ""}
+                            onChange={(e) => queueSave(l.id, { maxMarkup: num(e) })}
+                            style={editInput}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`lender-${l.id}-flat-reserve`} style={editLabel}>
+                            Flat reserve (%)
+                          </label>
+                          <input
+                            id={`lender-${l.id}-flat-reserve`}
+                            className="dc-input"
+                            inputMode="decimal"
+                            disabled={!canEdit}
+                            value={l.flatReservePct ?? ""}
+                            placeholder="Split if blank"
+                            onChange={(e) => queueSave(l.id, { flatReservePct: num(e) })}
+                            style={editInput}
+                          />
+                        </div>
                         <div>
                           <label htmlFor={`lender-${l.id}-funding-days`} style={editLabel}>
                             Funding days
@@ -1112,6 +1485,55 @@ export const LendersScreen: React.FC = () => {
                                       style={editInput}
                                     />
                                   </div>
+                                  <div>
+                                    <label
+                                      htmlFor={`tier-${l.id}-${idx}-negative-equity`}
+                                      style={editLabel}
+                                    >
+                                      Max neg. equity ($)
+                                    </label>
+                                    <input
+                                      id={`tier-${l.id}-${idx}-negative-equity`}
+                                      className="dc-input"
+                                      inputMode="numeric"
+                                      disabled={!canEdit}
+                                      value={t.maxNegativeEquity ?? ""}
+                                      onChange={(e) =>
+                                        editTier(l, idx, { maxNegativeEquity: num(e) })
+                                      }
+                                      style={editInput}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label
+                                      htmlFor={`tier-${l.id}-${idx}-structures`}
+                                      style={editLabel}
+                                    >
+                                      Structures
+                                    </label>
+                                    <select
+                                      id={`tier-${l.id}-${idx}-structures`}
+                                      className="dc-input"
+                                      disabled={!canEdit}
+                                      value={allowedStructuresValue(t.allowedStructures)}
+                                      onChange={(e) =>
+                                        editTier(l, idx, {
+                                          allowedStructures: parseAllowedStructures(e.target.value),
+                                        })
+                                      }
+                                      style={{
+                                        ...editInput,
+                                        fontFamily: "inherit",
+                                        cursor: canEdit ? "pointer" : "default",
+                                      }}
+                                    >
+                                      {ALLOWED_STRUCTURE_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                          {option.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
                                   {usesYearRange ? (
                                     <>
                                       <div>
@@ -1175,6 +1597,12 @@ export const LendersScreen: React.FC = () => {
                         })}
                       </div>
 
+                      <ProgramVersionsPanel
+                        lender={l}
+                        canEdit={canEdit}
+                        onSave={(patch) => queueSave(l.id, patch)}
+                      />
+
                       <div
                         style={{
                           display: "flex",
@@ -1189,27 +1617,51 @@ export const LendersScreen: React.FC = () => {
                             {l.contactEmail || l.contactPhone || "—"}
                           </span>
                         </div>
-                        {canEdit && (
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setModalProfile(l);
-                            }}
-                            className="transition-colors"
-                            style={{
-                              background: "transparent",
-                              border: "none",
-                              color: "var(--color-primary)",
-                              fontSize: 13,
-                              fontWeight: 600,
-                              cursor: "pointer",
-                              fontFamily: "inherit",
-                              padding: 0,
-                            }}
-                          >
-                            Edit full program →
-                          </button>
-                        )}
+                        <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+                          {!l.isSample && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                exportPrograms([l]);
+                              }}
+                              className="transition-colors"
+                              style={{
+                                background: "transparent",
+                                border: "none",
+                                color: "var(--color-text-muted)",
+                                fontSize: 13,
+                                fontWeight: 600,
+                                cursor: "pointer",
+                                fontFamily: "inherit",
+                                padding: 0,
+                              }}
+                            >
+                              Export program
+                            </button>
+                          )}
+                          {canEdit && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setModalProfile(l);
+                              }}
+                              className="transition-colors"
+                              style={{
+                                background: "transparent",
+                                border: "none",
+                                color: "var(--color-primary)",
+                                fontSize: 13,
+                                fontWeight: 600,
+                                cursor: "pointer",
+                                fontFamily: "inherit",
+                                padding: 0,
+                              }}
+                            >
+                              Edit full program →
+                            </button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   )}
@@ -1228,6 +1680,14 @@ export const LendersScreen: React.FC = () => {
           onClose={() => setModalProfile(null)}
           onSave={handleModalSave}
         />
+        {importOpen && (
+          <LenderProgramImportModal
+            isOpen={importOpen}
+            onClose={() => setImportOpen(false)}
+            existing={safeLenderProfiles}
+            onImported={handleProgramsImported}
+          />
+        )}
       </Suspense>
     </div>
   );
@@ -12,6 +12,19 @@ import {
 import type { CanonicalDealStatus, PipelineSavedDeal } from "../../lib/dealMappers";
 import { calculateFinancials } from "../../services/calculator";
 import { APPROVAL_CONFIG } from "../../services/approvalScorer";
+import { fundingBlockReason, stipulationsForStatus } from "../../services/dealStipulations";
+import { dealDate } from "../../services/lenderPrograms";
+import { submissionTimeline } from "../../services/lenderDecisions";
+import { useDealSubmissions } from "../../hooks/useDealSubmissions";
+import { useInventoryHistory } from "../../hooks/useInventoryHistory";
+import {
+  formatInventoryValue,
+  inventoryFieldLabel,
+  quoteDrift,
+  type QuoteDrift,
+} from "../../services/inventoryHistory";
+import StipulationChecklist from "../pipeline/StipulationChecklist";
+import SubmissionTimeline from "../pipeline/SubmissionTimeline";
 import { EmptyState } from "../common/states";
 import * as Icons from "../common/Icons";
 import { fmt } from "../../utils/format";
@@ -114,7 +127,11 @@ const KpiCard: React.FC<{ label: string; value: number; color?: string }> = ({
  * DealContext); the drawer's metrics come from the persisted calculatedData
  * snapshot, recomputed with services/calculator when absent. Status writes
  * through updateDeal + a deal_status_changed event; "Open in desk" restores
- * the saved structure (legacy SavedDeals.onLoad semantics). [Phase 6]
+ * the saved structure (legacy SavedDeals.onLoad semantics). [Phase 6] The
+ * drawer also carries the deal's lender submission timeline and its stip
+ * checklist, seeded on approval (or on "Funded" when still empty); "Funded" is
+ * refused while a required stip is outstanding. A working deal whose unit was
+ * repriced or re-booked since it was saved is flagged "changed since quote".
  */
 const PipelineScreenBase: React.FC = () => {
   const {
@@ -131,10 +148,13 @@ const PipelineScreenBase: React.FC = () => {
     setMessage,
     processedInventory,
     clearDealAndFilters,
+    lenderProfiles,
   } = useDealContext();
 
   const navigate = useNavigate();
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { submissions, recordSubmission, updateSubmission, removeSubmission } =
+    useDealSubmissions();
   const { warn, danger } = settings.ltvThresholds;
 
   // OTD LTV colors come from settings.ltvThresholds — never hardcoded 115/125.
@@ -149,6 +169,32 @@ const PipelineScreenBase: React.FC = () => {
 
   const deals = useMemo<PipelineSavedDeal[]>(() => savedDeals.map(asPipelineDeal), [savedDeals]);
 
+  /**
+   * Working deals whose unit was repriced or re-booked after the quote: the
+   * saved vehicle snapshot against the live unit. Funded and dead deals are
+   * settled, and a sold unit has nothing live to compare. Only these deals'
+   * units are read from inventory_history.
+   */
+  const quotedUnits = useMemo(() => {
+    const liveByVin = new Map(processedInventory.map((v) => [v.vin.toUpperCase(), v]));
+    return deals.flatMap((deal) => {
+      const bucket = statusBucket(deal.status);
+      if (bucket === "funded" || bucket === "declined") return [];
+      const live = deal.vehicle.vin ? liveByVin.get(deal.vehicle.vin.toUpperCase()) : undefined;
+      return live ? [{ deal, live }] : [];
+    });
+  }, [deals, processedInventory]);
+  const { byVin: historyByVin } = useInventoryHistory(quotedUnits.map(({ live }) => live.vin));
+
+  const driftByDeal = useMemo(() => {
+    const drift = new Map<string, QuoteDrift[]>();
+    for (const { deal, live } of quotedUnits) {
+      const changes = quoteDrift(deal.vehicle, live, historyByVin.get(live.vin.toUpperCase()));
+      if (changes.length > 0) drift.set(deal.id, changes);
+    }
+    return drift;
+  }, [quotedUnits, historyByVin]);
+
   const counts = useMemo(() => {
     let pending = 0;
     let approvedFunded = 0;
@@ -194,15 +240,47 @@ const PipelineScreenBase: React.FC = () => {
     const from = deal.status;
     if (from === next) return;
 
+    // An approval starts the stip checklist from the lender's stipulations; so
+    // does funding a deal whose checklist is still empty.
+    const stipulations = stipulationsForStatus(
+      deal.stipulations,
+      next,
+      lenderProfiles,
+      deal.lenderName,
+      dealDate(deal.dealData),
+      new Date().toISOString()
+    );
+    const seeded = stipulations !== deal.stipulations;
+
     // Optimistic update; the realtime subscription confirms, and a failed
     // write reverts so the pill never lies about what the server holds.
-    const applyStatus = (status: CanonicalDealStatus) =>
+    const applyStatus = (status: CanonicalDealStatus, stips = deal.stipulations) =>
       setSavedDeals((prev) =>
-        prev.map((d) => (d.id === deal.id ? ({ ...d, status } as SavedDeal) : d))
+        prev.map((d) =>
+          d.id === deal.id ? ({ ...d, status, stipulations: stips } as SavedDeal) : d
+        )
       );
-    applyStatus(next);
 
-    updateDeal(deal.id, { status: next })
+    // Funding waits on the approval's stips; the stipulation_guard hook
+    // refuses the same write server-side. A checklist seeded just now is
+    // still saved so the stips to clear show on the deal.
+    const blocked = next === "funded" ? fundingBlockReason(stipulations) : null;
+    if (blocked) {
+      setMessage({ type: "error", text: blocked });
+      if (seeded) {
+        applyStatus(from, stipulations);
+        updateDeal(deal.id, { stipulations })
+          .then((saved) => {
+            if (!saved) applyStatus(from);
+          })
+          .catch(() => applyStatus(from));
+      }
+      return;
+    }
+
+    applyStatus(next, stipulations);
+
+    updateDeal(deal.id, seeded ? { status: next, stipulations } : { status: next })
       .then((saved) => {
         if (saved) {
           logDealEvent("deal_status_changed", {
@@ -235,6 +313,11 @@ const PipelineScreenBase: React.FC = () => {
         ...prev,
         creditScore: deal.customerFilters?.creditScore ?? null,
         monthlyIncome: deal.customerFilters?.monthlyIncome ?? null,
+        monthlyDebt: deal.customerFilters?.monthlyDebt ?? null,
+        coBuyerCreditScore: deal.customerFilters?.coBuyerCreditScore ?? null,
+        coBuyerMonthlyIncome: deal.customerFilters?.coBuyerMonthlyIncome ?? null,
+        coBuyerMonthlyDebt: deal.customerFilters?.coBuyerMonthlyDebt ?? null,
+        openAutoLoans: deal.customerFilters?.openAutoLoans ?? null,
       }));
       setScratchPadNotes(deal.notes || "");
 
@@ -416,6 +499,7 @@ const PipelineScreenBase: React.FC = () => {
               const meta = STATUS_BUCKET_META[bucket];
               const expanded = expandedId === deal.id;
               const metrics = metricsFor(deal);
+              const drift = driftByDeal.get(deal.id);
               const savedDate = new Date(deal.date || deal.createdAt || Date.now());
               const savedFmt = Number.isNaN(savedDate.getTime())
                 ? "—"
@@ -515,6 +599,14 @@ const PipelineScreenBase: React.FC = () => {
                         }}
                       >
                         STK {deal.vehicle.stock}
+                        {drift && (
+                          <span
+                            style={{ color: "var(--color-warning)", marginLeft: 8 }}
+                            title="The unit's price or book changed after this deal was saved"
+                          >
+                            ⚠ {drift.some((d) => d.field === "price") ? "Price" : "Book"} changed
+                          </span>
+                        )}
                       </div>
                     </div>
                     <span
@@ -631,6 +723,50 @@ const PipelineScreenBase: React.FC = () => {
                           <div style={metricValue}>{savedFmt}</div>
                         </div>
                       </div>
+                      {drift && (
+                        <div
+                          role="status"
+                          style={{
+                            margin: "0 0 16px",
+                            padding: "10px 12px",
+                            borderRadius: 8,
+                            fontSize: 13,
+                            color: "var(--color-text)",
+                            background: "var(--color-warning-subtle)",
+                            border: "1px solid var(--color-warning)",
+                          }}
+                        >
+                          <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                            Changed since quote — re-desk before submitting
+                          </div>
+                          {drift.map((d) => (
+                            <div key={d.field} style={{ fontFamily: mono }}>
+                              {inventoryFieldLabel(d.field)}{" "}
+                              {formatInventoryValue(d.field, d.quoted)} →{" "}
+                              {formatInventoryValue(d.field, d.current)}
+                              {d.changedAt && (
+                                <span style={{ color: "var(--color-text-muted)" }}>
+                                  {" "}
+                                  (
+                                  {new Date(d.changedAt).toLocaleDateString("en-US", {
+                                    month: "short",
+                                    day: "numeric",
+                                  })}
+                                  )
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <SubmissionTimeline
+                        deal={deal}
+                        submissions={submissionTimeline(submissions, deal.id)}
+                        onRecord={recordSubmission}
+                        onUpdate={updateSubmission}
+                        onRemove={removeSubmission}
+                      />
+                      <StipulationChecklist deal={deal} />
                       <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
                         <label
                           htmlFor={`deal-status-${deal.id}`}
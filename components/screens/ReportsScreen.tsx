@@ -1,12 +1,29 @@
 import React, { useMemo, useCallback } from "react";
 import { useDealContext } from "../../context/DealContext";
 import { APPROVAL_CONFIG } from "../../services/approvalScorer";
+import {
+  CALIBRATION_MIN,
+  approvalOutcomes,
+  brierScore,
+  fitApprovalCalibration,
+  reliabilityBuckets,
+} from "../../services/approvalCalibration";
 import { activeLenderCount } from "../../services/lenderFit";
+import { lenderApprovalStats } from "../../services/lenderDecisions";
+import {
+  AGING_BUCKETS,
+  agedHardToFinance,
+  agingColor,
+  agingVsApproval,
+  turnStats,
+} from "../../services/inventoryAging";
+import { useDealSubmissions } from "../../hooks/useDealSubmissions";
 import {
   asPipelineDeal,
   pipelineMetricsFromCalculatedData,
   statusBucket,
 } from "../../lib/dealMappers";
+import { getCurrentUser } from "../../lib/pocketbase";
 import { fmt } from "../../utils/format";
 import { EmptyState } from "../common/states";
 import * as Icons from "../common/Icons";
@@ -36,6 +53,16 @@ const panelLabel: React.CSSProperties = {
   marginBottom: 16,
 };
 
+const panelButton: React.CSSProperties = {
+  border: "1px solid transparent",
+  borderRadius: 8,
+  padding: "5px 10px",
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: "pointer",
+  fontFamily: "inherit",
+};
+
 const numVal = (v: number | "Error" | "N/A" | undefined): number | null =>
   typeof v === "number" && Number.isFinite(v) ? v : null;
 
@@ -120,12 +147,29 @@ const BarRow = React.memo(BarRowComponent);
  * Reports — pure client aggregation over the context's single scoring pass
  * (processedInventory: the same set the desk ranks), savedDeals,
  * unitsPerLender and the active lender roster. Mirrors the REPORTS block of
- * LTV Desking PRO.dc.html (lines 678-758). No new fetches; everything is
- * derived from real scorer/calculator outputs. [P7]
+ * LTV Desking PRO.dc.html (lines 678-758). Everything is derived from real
+ * scorer/calculator outputs [P7]; the one fetch is the lender submission
+ * history behind the per-lender approval rates. The calibration panel checks
+ * the approval odds against decided deals and lets an admin refit them
+ * (services/approvalCalibration.ts). The aging panel sets days in stock
+ * against those odds and lists aged units no lender takes readily
+ * (services/inventoryAging.ts).
  */
 const ReportsScreenBase: React.FC = () => {
-  const { settings, processedInventory, safeLenderProfiles, savedDeals, unitsPerLender } =
-    useDealContext();
+  const {
+    settings,
+    setSettings,
+    setMessage,
+    inventory,
+    processedInventory,
+    safeLenderProfiles,
+    savedDeals,
+    unitsPerLender,
+  } = useDealContext();
+  const role = getCurrentUser()?.role;
+  const canCalibrate = role === "admin" || role === "superadmin";
+
+  const { submissions } = useDealSubmissions();
 
   const totalLenders = activeLenderCount(safeLenderProfiles);
 
@@ -219,6 +263,47 @@ const ReportsScreenBase: React.FC = () => {
     };
   }, [savedDeals]);
 
+  const aging = useMemo(
+    () => ({
+      rows: agingVsApproval(processedInventory),
+      aged: agedHardToFinance(processedInventory).slice(0, 8),
+      turn: turnStats(inventory),
+    }),
+    [processedInventory, inventory]
+  );
+  const agingDated = aging.rows.reduce((sum, row) => sum + row.units, 0);
+
+  const lenderDecisions = useMemo(() => lenderApprovalStats(submissions), [submissions]);
+
+  // Reliability of the odds in use (fitted or default) against decided deals.
+  const calibration = settings.approvalCalibration ?? null;
+  const calibrationCheck = useMemo(() => {
+    const outcomes = approvalOutcomes(savedDeals);
+    return {
+      outcomes,
+      buckets: reliabilityBuckets(outcomes, calibration),
+      brier: brierScore(outcomes, calibration),
+      defaultBrier: brierScore(outcomes),
+    };
+  }, [savedDeals, calibration]);
+
+  const handleCalibrate = useCallback(() => {
+    const fit = fitApprovalCalibration(calibrationCheck.outcomes);
+    if (!fit.ok) {
+      setMessage({ type: "error", text: fit.error });
+      return;
+    }
+    setSettings((prev) => ({ ...prev, approvalCalibration: fit.calibration }));
+    setMessage({
+      type: "success",
+      text: `Approval odds calibrated from ${fit.calibration.sampleSize} decided deals.`,
+    });
+  }, [calibrationCheck.outcomes, setMessage, setSettings]);
+
+  const handleResetCalibration = useCallback(() => {
+    setSettings((prev) => ({ ...prev, approvalCalibration: null }));
+  }, [setSettings]);
+
   // OTD LTV colors come from dealer settings, never hardcoded thresholds.
   const { warn, danger } = settings.ltvThresholds;
   const otdColor = (l: number): string =>
@@ -642,6 +727,109 @@ const ReportsScreenBase: React.FC = () => {
               </div>
             </div>
 
+            {/* Days in stock against approval odds */}
+            <div className="dc-card" style={{ ...card, padding: 20, marginTop: 14 }}>
+              <div style={panelLabel}>AGING VS APPROVAL ODDS · {agingDated} DATED UNITS</div>
+              <div style={{ fontSize: 13, color: "var(--color-text-muted)", marginBottom: 14 }}>
+                {aging.turn.avgAge === null
+                  ? "No in-stock dates yet. They are recorded from the next inventory import."
+                  : `Avg age ${Math.round(aging.turn.avgAge)} days · ${aging.turn.sold} sold in the last 90 days${
+                      aging.turn.avgDaysToSell === null
+                        ? ""
+                        : ` · ${Math.round(aging.turn.avgDaysToSell)} days to sell`
+                    }${
+                      aging.turn.annualTurn === null
+                        ? ""
+                        : ` · ${aging.turn.annualTurn.toFixed(1)}× annual turn`
+                    }.`}
+              </div>
+              <div
+                role="list"
+                aria-label="Units, approval odds and hard-to-finance count by days in stock"
+                style={{ display: "flex", flexDirection: "column", gap: 11 }}
+              >
+                {aging.rows.map((row) => {
+                  const meta = AGING_BUCKETS.find((b) => b.bucket === row.bucket);
+                  return (
+                    <div
+                      key={row.bucket}
+                      role="listitem"
+                      title={
+                        row.avgApproval === null
+                          ? "No units in this range"
+                          : `Avg odds ${Math.round(row.avgApproval)} · ${row.hardToFinance} hard to finance`
+                      }
+                    >
+                      <BarRow
+                        label={row.label}
+                        labelWidth={130}
+                        pct={agingDated ? (row.units / agingDated) * 100 : 0}
+                        color={meta?.colorVar ?? "var(--color-text-subtle)"}
+                        right={
+                          row.units === 0
+                            ? "—"
+                            : `${row.units} · ${
+                                row.avgApproval === null ? "—" : Math.round(row.avgApproval)
+                              } odds · ${row.hardToFinance} hard`
+                        }
+                        rightWidth={150}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              {aging.aged.length > 0 && (
+                <>
+                  <div style={{ ...kpiLabel, marginTop: 18, marginBottom: 10 }}>
+                    Aged and hard to finance
+                  </div>
+                  <div
+                    role="list"
+                    aria-label="Units over 60 days in stock that are hard to finance"
+                    style={{ display: "flex", flexDirection: "column", gap: 8 }}
+                  >
+                    {aging.aged.map((v) => (
+                      <div
+                        key={v.vin}
+                        role="listitem"
+                        style={{ display: "flex", alignItems: "center", gap: 12, fontSize: 13 }}
+                      >
+                        <span
+                          style={{
+                            flex: 1,
+                            minWidth: 0,
+                            whiteSpace: "nowrap",
+                            overflow: "hidden",
+                            textOverflow: "ellipsis",
+                          }}
+                        >
+                          {v.vehicle}{" "}
+                          <span style={{ ...mono, color: "var(--color-text-subtle)" }}>
+                            STK {v.stock}
+                          </span>
+                        </span>
+                        <span
+                          style={{ ...mono, fontWeight: 600, color: agingColor(v.daysInStock) }}
+                        >
+                          {v.daysInStock}d
+                        </span>
+                        <span
+                          style={{
+                            ...mono,
+                            width: 110,
+                            textAlign: "right",
+                            color: approvalColor(v.approvalScore ?? 0),
+                          }}
+                        >
+                          {v.approvalScore ?? 0} odds · {v.fitCount ?? 0}/{totalLenders}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
             {/* Pipeline snapshot */}
             <div className="dc-card" style={{ ...card, padding: 20, marginTop: 14 }}>
               <div style={panelLabel}>Pipeline snapshot</div>
@@ -713,6 +901,132 @@ const ReportsScreenBase: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {/* Per-lender decisions from the Pipeline submission timelines */}
+            <div className="dc-card" style={{ ...card, padding: 20, marginTop: 14 }}>
+              <div style={panelLabel}>LENDER APPROVAL RATE · SUBMISSIONS</div>
+              <div
+                role="list"
+                aria-label="Approval rate by lender"
+                style={{ display: "flex", flexDirection: "column", gap: 11 }}
+              >
+                {lenderDecisions.length === 0 && (
+                  <span
+                    role="status"
+                    aria-live="polite"
+                    style={{ fontSize: 13, color: "var(--color-text-subtle)" }}
+                  >
+                    No submissions logged yet. Log them from a deal&apos;s drawer on the Pipeline
+                    screen.
+                  </span>
+                )}
+                {lenderDecisions.map((l) => {
+                  const rate = l.approvalRate === null ? null : Math.round(l.approvalRate * 100);
+                  return (
+                    <div
+                      key={l.lenderName}
+                      role="listitem"
+                      title={`${l.approved} approved · ${l.countered} countered · ${l.declined} declined · ${l.pending} pending${
+                        l.averageRate === null ? "" : ` · avg ${l.averageRate.toFixed(2)}% APR`
+                      }`}
+                    >
+                      <BarRow
+                        label={l.lenderName}
+                        labelWidth={130}
+                        pct={rate ?? 0}
+                        color={approvalColor(rate ?? 0)}
+                        right={`${rate === null ? "—" : `${rate}%`} · ${l.submitted} sent`}
+                        rightWidth={110}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Approval-odds calibration against decided deals */}
+            <div className="dc-card" style={{ ...card, padding: 20, marginTop: 14 }}>
+              <div
+                style={{
+                  ...panelLabel,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: 12,
+                }}
+              >
+                <span>APPROVAL CALIBRATION · {calibrationCheck.outcomes.length} DECIDED DEALS</span>
+                {canCalibrate && (
+                  <span style={{ display: "flex", gap: 8 }}>
+                    {calibration && (
+                      <button
+                        type="button"
+                        onClick={handleResetCalibration}
+                        style={{
+                          ...panelButton,
+                          background: "none",
+                          borderColor: "var(--color-border)",
+                          color: "var(--color-text-muted)",
+                        }}
+                      >
+                        Use default
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="transition-colors btn-primary"
+                      onClick={handleCalibrate}
+                      style={panelButton}
+                    >
+                      {calibration ? "Refit from history" : "Fit from history"}
+                    </button>
+                  </span>
+                )}
+              </div>
+              <div style={{ fontSize: 13, color: "var(--color-text-muted)", marginBottom: 14 }}>
+                {calibration
+                  ? `Fitted ${new Date(calibration.fittedAt).toLocaleDateString("en-US")} from ${calibration.sampleSize} deals (${calibration.approved} approved, ${calibration.declined} declined).`
+                  : calibrationCheck.outcomes.length < CALIBRATION_MIN.outcomes
+                    ? `Default formula. Calibration needs ${CALIBRATION_MIN.outcomes} approved, funded or declined deals.`
+                    : "Default formula. Fit it to this dealership's approvals and declines."}
+                {calibrationCheck.brier !== null &&
+                  ` Brier ${calibrationCheck.brier.toFixed(3)}${
+                    calibration && calibrationCheck.defaultBrier !== null
+                      ? ` vs ${calibrationCheck.defaultBrier.toFixed(3)} default`
+                      : ""
+                  } (lower is better).`}
+              </div>
+              <div
+                role="list"
+                aria-label="Predicted versus actual approval rate"
+                style={{ display: "flex", flexDirection: "column", gap: 11 }}
+              >
+                {calibrationCheck.buckets.map((b) => (
+                  <div
+                    key={b.from}
+                    role="listitem"
+                    title={
+                      b.predicted === null
+                        ? "No decided deals in this range"
+                        : `Predicted ${Math.round(b.predicted)}% · actual ${Math.round(b.observed ?? 0)}%`
+                    }
+                  >
+                    <BarRow
+                      label={`${b.from}–${b.to}% predicted`}
+                      labelWidth={130}
+                      pct={b.observed ?? 0}
+                      color={approvalColor(b.observed ?? 0)}
+                      right={
+                        b.observed === null
+                          ? "—"
+                          : `${Math.round(b.observed)}% · ${b.count} ${b.count === 1 ? "deal" : "deals"}`
+                      }
+                      rightWidth={110}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
           </>
         )}
       </div>
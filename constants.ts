@@ -1,4 +1,12 @@
-import type { DealData, FilterData, LenderProfile, Vehicle, Settings } from "./types";
+import type {
+  AppState,
+  DealData,
+  FilterData,
+  LenderProfile,
+  Vehicle,
+  Settings,
+  TitleBrand,
+} from "./types";
 import { DEFAULT_AI_SETTINGS } from "./lib/aiModelRegistry";
 
 // ============================================================================
@@ -57,23 +65,8 @@ export const getMiTradeInCreditCap = (year: number = new Date().getFullYear()):
  */
 export const MI_TRADE_IN_CREDIT_CAP = getMiTradeInCreditCap(2026);
 
-/**
- * State sales/use tax rates the tax engine models (Michigan dealer selling to
- * MI/OH/IN/IL/FL buyers — see services/calculator.ts [G16]).
- * Sources (statutory state-level rates, verified 2026):
- * - MI 6%    — MCL 205.52 (General Sales Tax Act)
- * - OH 5.75% — Ohio Rev. Code 5739.02 (state rate; county add-ons not modeled)
- * - IN 7%    — Ind. Code 6-2.5-2-2
- * - IL 6.25% — 35 ILCS 105/3-10 (state rate; local vehicle taxes not modeled)
- * - FL 6%    — Fla. Stat. 212.05
- */
-export const TAX_RATES: Record<string, number> = {
-  MI: 0.06,
-  OH: 0.0575,
-  IN: 0.07,
-  IL: 0.0625,
-  FL: 0.06,
-};
+/** Lease term used when a deal has lease terms but no explicit lease term. */
+export const DEFAULT_LEASE_TERM = 36;
 
 /**
  * Window event dispatched after DealContext.updateSettings persists settings
@@ -102,6 +95,7 @@ export const INITIAL_SETTINGS: Settings = {
   defaultTerm: 72,
   defaultApr: 8.9,
   defaultState: "MI",
+  homeState: "MI",
   docFee: 280,
   cvrFee: 24,
   defaultStateFees: 31,
@@ -136,6 +130,15 @@ export const INITIAL_DEAL_DATA: DealData = {
   notes: "",
 };
 
+/** Title brands the desk offers; lender rules compare `titleBrand` to these values. */
+export const TITLE_BRANDS: ReadonlyArray<{ value: TitleBrand; label: string }> = [
+  { value: "clean", label: "Clean" },
+  { value: "salvage", label: "Salvage" },
+  { value: "rebuilt", label: "Rebuilt" },
+  { value: "flood", label: "Flood" },
+  { value: "lemon", label: "Lemon / buyback" },
+];
+
 export const INITIAL_FILTER_DATA: FilterData = {
   creditScore: null,
   monthlyIncome: null,
@@ -147,6 +150,11 @@ export const INITIAL_FILTER_DATA: FilterData = {
   maxOtdLtv: null,
   vin: "",
   minScore: null,
+  agingBucket: null,
+  coBuyerCreditScore: null,
+  coBuyerMonthlyIncome: null,
+  coBuyerMonthlyDebt: null,
+  openAutoLoans: null,
 };
 
 // Default Lender Profiles
@@ -58,6 +58,9 @@ import { createLogger } from "../lib/logger";
 import { queryClient, queryKeys } from "../lib/queryClient";
 import { capture } from "../lib/analytics";
 import { normalizeAiSettings } from "../lib/aiModelRegistry";
+import { normalizeApprovalCalibration } from "../services/approvalCalibration";
+import { normalizeMappingProfiles } from "../services/columnMapping";
+import { getHomeState } from "../services/taxRules";
 
 const dealContextLogger = createLogger("deal-context");
 
@@ -255,6 +258,10 @@ const normalizeSavedDeal = (deal: Partial<SavedDeal>): SavedDeal | null => {
       creditScore: deal.customerFilters?.creditScore ?? null,
       monthlyIncome: deal.customerFilters?.monthlyIncome ?? null,
       monthlyDebt: deal.customerFilters?.monthlyDebt ?? null,
+      coBuyerCreditScore: deal.customerFilters?.coBuyerCreditScore ?? null,
+      coBuyerMonthlyIncome: deal.customerFilters?.coBuyerMonthlyIncome ?? null,
+      coBuyerMonthlyDebt: deal.customerFilters?.coBuyerMonthlyDebt ?? null,
+      openAutoLoans: deal.customerFilters?.openAutoLoans ?? null,
     },
     notes: deal.notes || "",
     vehicleSnapshot: deal.vehicleSnapshot,
@@ -283,6 +290,8 @@ const mapInventoryItem = (i: InventoryItem): Vehicle => ({
   make: i.make,
   model: i.model,
   trim: i.trim,
+  inStockAt: i.inStockAt || undefined,
+  soldAt: i.soldAt || undefined,
 });
 
 export const DealProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -461,11 +470,14 @@ export const DealProvider: React.FC<{ children: React.ReactNode }> = ({ children
       docFee: dealerSettings.docFee,
       cvrFee: dealerSettings.cvrFee,
       defaultState: toAppState(dealerSettings.defaultState, prev.defaultState),
+      homeState: toAppState(dealerSettings.homeState, getHomeState(prev)),
       outOfStateTransitFee: dealerSettings.outOfStateTransitFee,
       customTaxRate: normalizeStoredTaxRate(dealerSettings.customTaxRate),
       miTradeInCreditCap: dealerSettings.miTradeInCreditCap ?? prev.miTradeInCreditCap,
       vscPrice: dealerSettings.vscPrice ?? prev.vscPrice,
       gapPrice: dealerSettings.gapPrice ?? prev.gapPrice,
+      approvalCalibration: normalizeApprovalCalibration(dealerSettings.approvalCalibration),
+      inventoryMappingProfiles: normalizeMappingProfiles(dealerSettings.inventoryMappingProfiles),
       ai: normalizeAiSettings(prev.ai),
     }));
   }, [dealerSettingsQuery.data]);
@@ -541,11 +553,14 @@ export const DealProvider: React.FC<{ children: React.ReactNode }> = ({ children
         docFee: newSettings.docFee,
         cvrFee: newSettings.cvrFee,
         defaultState: newSettings.defaultState,
+        homeState: newSettings.homeState,
         outOfStateTransitFee: newSettings.outOfStateTransitFee,
         customTaxRate: newSettings.customTaxRate ?? undefined,
         miTradeInCreditCap: newSettings.miTradeInCreditCap,
         vscPrice: newSettings.vscPrice,
         gapPrice: newSettings.gapPrice,
+        approvalCalibration: newSettings.approvalCalibration ?? null,
+        inventoryMappingProfiles: newSettings.inventoryMappingProfiles ?? [],
       }).catch((err) => {
         dealContextLogger.error("Failed to persist settings", err);
         toast.error("Couldn't sync settings to the server — local defaults still apply.");
@@ -0,0 +1,101 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  createDealSubmission,
+  deleteDealSubmission,
+  getDealSubmissions,
+  updateDealSubmission,
+} from "../lib/api";
+import { mapPocketBaseSubmission } from "../lib/dealMappers";
+import {
+  getCurrentDealerId,
+  isAuthenticated,
+  type DealSubmission as PocketBaseDealSubmission,
+} from "../lib/pocketbase";
+import { queryClient, queryKeys } from "../lib/queryClient";
+import type { DealSubmission } from "../types";
+
+const EMPTY: DealSubmission[] = [];
+
+type SubmissionFields = Omit<DealSubmission, "id" | "dealId">;
+
+/**
+ * PocketBase write payload. An explicitly undefined field is sent as null so
+ * clearing an approved amount or a decline reason persists.
+ */
+const toPayload = (fields: Partial<SubmissionFields>): Partial<PocketBaseDealSubmission> =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value === undefined ? null : value])
+  ) as Partial<PocketBaseDealSubmission>;
+
+/**
+ * The dealership's lender submissions (deal_submissions), cached under the
+ * dealer-scoped query key. Writes go through lib/api and patch the cache, so
+ * the Pipeline timeline and the Reports stats stay in step. Failures throw
+ * for the caller to report.
+ */
+export const useDealSubmissions = () => {
+  const dealerScope = getCurrentDealerId() || "no-dealer";
+  const queryKey = useMemo(
+    () => [...queryKeys.dealSubmissions, dealerScope] as const,
+    [dealerScope]
+  );
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const raw = await getDealSubmissions();
+      return raw.map(mapPocketBaseSubmission);
+    },
+    enabled: isAuthenticated(),
+  });
+
+  const patchCache = useCallback(
+    (update: (prev: DealSubmission[]) => DealSubmission[]) =>
+      queryClient.setQueryData<DealSubmission[]>(queryKey, (old) => update(old ?? [])),
+    [queryKey]
+  );
+
+  const recordSubmission = useCallback(
+    async (dealId: string, lenderName: string): Promise<DealSubmission> => {
+      const saved = await createDealSubmission({
+        deal: dealId,
+        lenderName,
+        submittedAt: new Date().toISOString(),
+        decision: "pending",
+      });
+      if (!saved) throw new Error("No dealership is selected.");
+      const submission = mapPocketBaseSubmission(saved);
+      patchCache((prev) => [submission, ...prev]);
+      return submission;
+    },
+    [patchCache]
+  );
+
+  const updateSubmission = useCallback(
+    async (id: string, fields: Partial<SubmissionFields>): Promise<DealSubmission> => {
+      const saved = await updateDealSubmission(id, toPayload(fields));
+      if (!saved) throw new Error("Couldn't update the submission.");
+      const submission = mapPocketBaseSubmission(saved);
+      patchCache((prev) => prev.map((s) => (s.id === id ? submission : s)));
+      return submission;
+    },
+    [patchCache]
+  );
+
+  const removeSubmission = useCallback(
+    async (id: string): Promise<void> => {
+      if (!(await deleteDealSubmission(id))) throw new Error("Couldn't delete the submission.");
+      patchCache((prev) => prev.filter((s) => s.id !== id));
+    },
+    [patchCache]
+  );
+
+  return {
+    submissions: query.data ?? EMPTY,
+    isLoading: query.isLoading,
+    recordSubmission,
+    updateSubmission,
+    removeSubmission,
+  };
+};
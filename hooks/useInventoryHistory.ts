@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { getInventoryHistory } from "../lib/api";
+import { mapPocketBaseInventoryHistory } from "../lib/dealMappers";
+import { getCurrentDealerId, isAuthenticated } from "../lib/pocketbase";
+import { queryKeys } from "../lib/queryClient";
+import { historyByVin } from "../services/inventoryHistory";
+import type { InventoryHistoryEntry } from "../types";
+
+const EMPTY: InventoryHistoryEntry[] = [];
+
+/**
+ * The inventory change log (inventory_history) for the given VINs, grouped
+ * by upper-cased VIN, oldest first. Screens pass only the units they show;
+ * the previous VINs' rows stay up while a new set loads, so sparklines don't
+ * blink on scroll. Written by syncInventory; an inventory import invalidates
+ * queryKeys.inventoryHistory so the next read picks up the new rows.
+ */
+export const useInventoryHistory = (vins: readonly string[]) => {
+  const dealerScope = getCurrentDealerId() || "no-dealer";
+  // One key per VIN set, whatever order or repeats the caller passes.
+  const vinKey = [...new Set(vins.filter(Boolean))].sort().join(",");
+
+  const query = useQuery({
+    queryKey: [...queryKeys.inventoryHistory, dealerScope, vinKey] as const,
+    queryFn: async () => {
+      const raw = await getInventoryHistory(vinKey.split(","));
+      return raw.map(mapPocketBaseInventoryHistory);
+    },
+    enabled: isAuthenticated() && vinKey !== "",
+    placeholderData: keepPreviousData,
+  });
+
+  const entries = (vinKey !== "" && query.data) || EMPTY;
+  const byVin = useMemo(() => historyByVin(entries), [entries]);
+
+  return { byVin, isLoading: query.isLoading };
+};
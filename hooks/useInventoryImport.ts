@@ -1,20 +1,68 @@
 import { useRef, useState } from "react";
 import { useDealContext } from "../context/DealContext";
-import { parseFile } from "../services/fileParser";
+import {
+  assertInventoryRows,
+  columnMappingProblems,
+  detectColumnMapping,
+  parseInventoryRows,
+  readInventoryFile,
+  readInventoryTable,
+  type InventoryTable,
+  type ParseResult,
+} from "../services/fileParser";
+import { detectFeedFormat, detectFeedMapping, readInventoryFeed } from "../services/feedParser";
+import {
+  mappingForHeaders,
+  matchMappingProfile,
+  upsertMappingProfile,
+} from "../services/columnMapping";
 import { decodeVin } from "../services/vinDecoder";
 import { calculateFinancials } from "../services/calculator";
 import { generateFavoritesPdf } from "../services/pdfGenerator";
 import { checkBankEligibility } from "../services/lenderMatcher";
-import { getInventory, syncInventory, logDealEvent } from "../lib/api";
+import {
+  applyInventorySync,
+  getInventory,
+  logDealEvent,
+  previewInventorySync,
+  syncInventory,
+} from "../lib/api";
+import {
+  excludeFromPlan,
+  planIsEmpty,
+  toInventorySyncItem,
+  type InventorySyncPlan,
+} from "../services/inventorySync";
 import { capture } from "../lib/analytics";
 import { createLogger } from "../lib/logger";
 import { currentDealerQueryKeys, queryClient, queryKeys } from "../lib/queryClient";
 import { getCurrentUser, type InventoryItem } from "../lib/pocketbase";
-import type { Vehicle } from "../types";
+import type { InventoryColumnMapping, Vehicle } from "../types";
 import { downloadBlob } from "../utils/downloadBlob";
 
 const inventoryImportLogger = createLogger("inventory-import");
 
+/** An upload waiting on the column-mapping step. */
+export interface PendingColumnMapping {
+  fileName: string;
+  table: InventoryTable;
+  /** Starting point: the matched profile's or the built-in header mapping. */
+  mapping: InventoryColumnMapping;
+  /** The saved profile that matched but no longer covers the file, if any. */
+  profileName: string | null;
+}
+
+/** A parsed upload waiting on the admin's review of what it would change. */
+export interface PendingInventorySync {
+  fileName: string;
+  plan: InventorySyncPlan;
+  /** Vehicles parsed from the file, before any exclusions. */
+  parsed: number;
+  skipped: number;
+  reasons: string[];
+  profileName?: string;
+}
+
 const mapPersistedInventoryItem = (item: InventoryItem): Vehicle => ({
   id: item.id,
   vehicle: `${item.year} ${item.make} ${item.model} ${item.trim || ""}`.trim(),
@@ -31,6 +79,8 @@ const mapPersistedInventoryItem = (item: InventoryItem): Vehicle => ({
   make: item.make,
   model: item.model,
   trim: item.trim,
+  inStockAt: item.inStockAt || undefined,
+  soldAt: item.soldAt || undefined,
 });
 
 /**
@@ -42,6 +92,7 @@ const mapPersistedInventoryItem = (item: InventoryItem): Vehicle => ({
 export function useInventoryImport() {
   const {
     settings,
+    setSettings,
     dealData,
     filters,
     customerName,
@@ -60,6 +111,8 @@ export function useInventoryImport() {
   const [vinLookupResult, setVinLookupResult] = useState<string | null>(null);
   const [isVinLoading, setIsVinLoading] = useState(false);
   const [isUploadingInventory, setIsUploadingInventory] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<PendingColumnMapping | null>(null);
+  const [pendingSync, setPendingSync] = useState<PendingInventorySync | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // File Upload Handler
@@ -91,18 +144,21 @@ export function useInventoryImport() {
       return;
     }
 
-    // Validate file type (CSV and modern Excel only)
+    // Validate file type (CSV, modern Excel, or an XML/JSON vehicle feed)
     const allowedTypes = [
       "text/csv",
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/json",
+      "application/xml",
+      "text/xml",
     ];
-    const allowedExtensions = [".csv", ".xlsx"];
+    const allowedExtensions = [".csv", ".xlsx", ".json", ".xml"];
     const fileExtension = file.name.toLowerCase().slice(file.name.lastIndexOf("."));
 
     if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
       setMessage({
         type: "error",
-        text: "Invalid file type. Please upload a CSV or Excel workbook (.csv, .xlsx).",
+        text: "Invalid file type. Please upload a CSV, Excel workbook, or XML/JSON feed (.csv, .xlsx, .xml, .json).",
       });
       // Reset file input
       if (fileInputRef.current) {
@@ -112,55 +168,147 @@ export function useInventoryImport() {
     }
 
     setFileName(file.name);
-    setIsUploadingInventory(true);
-
-    try {
-      // Parse the file first
-      const { vehicles: data, skipped, reasons } = await parseFile(file);
-      if (data.length === 0) {
-        setMessage({
-          type: "error",
-          text: "No valid vehicle data found in file.",
+    await runImport(async () => {
+      // XML and JSON feeds flatten to the same header/row table as a spreadsheet.
+      const isFeed = fileExtension === ".json" || fileExtension === ".xml";
+      const table = isFeed
+        ? readInventoryFeed(await file.text(), detectFeedFormat("", file.name))
+        : await readInventoryFile(file).then(({ csvContent, isExcel }) =>
+            readInventoryTable(csvContent, isExcel)
+          );
+      // A saved profile for this export layout wins over the built-in header names.
+      const profile = matchMappingProfile(table.headers, settings.inventoryMappingProfiles);
+      const mapping = profile
+        ? mappingForHeaders(profile.mapping, table.headers)
+        : isFeed
+          ? detectFeedMapping(table.headers)
+          : detectColumnMapping(table.headers);
+      if (columnMappingProblems(mapping).length > 0) {
+        setPendingMapping({
+          fileName: file.name,
+          table,
+          mapping,
+          profileName: profile?.name ?? null,
         });
         return;
       }
+      await importVehicles(
+        assertInventoryRows(parseInventoryRows(table, mapping)),
+        file.name,
+        profile?.name
+      );
+    });
+  };
 
-      // Validate row count (10,000 rows max)
-      const MAX_ROWS = 10000;
-      if (data.length > MAX_ROWS) {
-        setMessage({
-          type: "error",
-          text: `File contains ${data.length} vehicles. Maximum allowed is ${MAX_ROWS} rows. Please split into smaller files.`,
-        });
-        return;
-      }
+  /**
+   * Finish an upload from the mapping step, optionally saving the mapping as
+   * a named profile so the next file with these headers skips the step.
+   */
+  const confirmColumnMapping = async (mapping: InventoryColumnMapping, saveAs?: string) => {
+    if (!pendingMapping) return;
+    const { table, fileName: sourceName } = pendingMapping;
+    setPendingMapping(null);
+    const profileName = saveAs?.trim() || undefined;
+    if (profileName) {
+      setSettings((prev) => ({
+        ...prev,
+        inventoryMappingProfiles: upsertMappingProfile(
+          prev.inventoryMappingProfiles,
+          profileName,
+          table.headers,
+          mapping
+        ),
+      }));
+    }
+    await runImport(() =>
+      importVehicles(
+        assertInventoryRows(parseInventoryRows(table, mapping)),
+        sourceName,
+        profileName
+      )
+    );
+  };
+
+  const cancelColumnMapping = () => {
+    setPendingMapping(null);
+    setFileName("");
+  };
 
-      // Show syncing message — surface skipped rows so import loss is never silent. [B1]
-      const skippedNote = skipped > 0 ? ` Skipped ${skipped} (${reasons.join("; ")}).` : "";
+  const runImport = async (task: () => Promise<void>) => {
+    setIsUploadingInventory(true);
+    try {
+      await task();
+    } catch (err) {
+      inventoryImportLogger.error("Inventory import failed", err);
+      // The parser writes user-safe, actionable messages (missing columns,
+      // skipped-row reasons) — show them instead of a generic toast. [C-regression]
       setMessage({
-        type: skipped > 0 ? "warning" : "success",
-        text: `Parsed ${data.length} vehicles.${skippedNote} Syncing to database...`,
+        type: "error",
+        text:
+          err instanceof Error && err.message
+            ? err.message
+            : "Error syncing inventory. Please try again.",
       });
+    } finally {
+      setIsUploadingInventory(false);
+      // Always reset the input so re-selecting the SAME file re-fires onChange
+      // (after a failure or even a success, re-upload used to be a silent no-op).
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
 
-      // Prepare items for sync
-      const itemsToSync = data.map((v) => ({
-        vin: v.vin,
-        stockNumber: v.stock !== "N/A" ? v.stock : undefined,
-        year: typeof v.modelYear === "number" ? v.modelYear : new Date().getFullYear(),
-        make: v.make || "",
-        model: v.model || "",
-        trim: v.trim,
-        mileage: typeof v.mileage === "number" ? v.mileage : undefined,
-        price: typeof v.price === "number" ? v.price : 0,
-        unitCost: typeof v.unitCost === "number" ? v.unitCost : undefined,
-        jdPower: typeof v.jdPower === "number" ? v.jdPower : undefined,
-        jdPowerRetail: typeof v.jdPowerRetail === "number" ? v.jdPowerRetail : undefined,
-      }));
+  const importVehicles = async (
+    { vehicles: data, skipped, reasons }: ParseResult,
+    sourceName: string,
+    profileName?: string
+  ) => {
+    // Validate row count (10,000 rows max)
+    const MAX_ROWS = 10000;
+    if (data.length > MAX_ROWS) {
+      setMessage({
+        type: "error",
+        text: `File contains ${data.length} vehicles. Maximum allowed is ${MAX_ROWS} rows. Please split into smaller files.`,
+      });
+      return;
+    }
+
+    // Surface skipped rows so import loss is never silent. [B1]
+    const skippedNote = skipped > 0 ? ` Skipped ${skipped} (${reasons.join("; ")}).` : "";
 
-      // A file import is an intentional full-feed replacement. VINs omitted
-      // from the uploaded feed are marked sold; the one-off VIN decoder below
-      // continues to use partial-update semantics.
-      const syncResult = await syncInventory(itemsToSync, { markMissingSold: true });
+    // Prepare items for sync
+    const itemsToSync = data.map(toInventorySyncItem);
+
+    // A file import is an intentional full-feed replacement. VINs omitted
+    // from the uploaded feed are marked sold; the one-off VIN decoder below
+    // continues to use partial-update semantics. Nothing is written until
+    // the admin has reviewed the plan.
+    const plan = await previewInventorySync(itemsToSync, { markMissingSold: true });
+    if (planIsEmpty(plan)) {
+      setFileName("");
+      setMessage({
+        type: skipped > 0 ? "warning" : "success",
+        text: `Parsed ${data.length} vehicles; inventory already matches the file.${skippedNote}`,
+      });
+      return;
+    }
+    setPendingSync({
+      fileName: sourceName,
+      plan,
+      parsed: data.length,
+      skipped,
+      reasons,
+      profileName,
+    });
+  };
+
+  /** Write the reviewed plan, leaving out the VINs the admin unchecked. */
+  const confirmInventorySync = async (excludedVins: ReadonlySet<string>) => {
+    if (!pendingSync) return;
+    const { plan, parsed, skipped, profileName } = pendingSync;
+    setPendingSync(null);
+    await runImport(async () => {
+      setMessage({ type: "info", text: "Syncing to database..." });
+      const syncResult = await applyInventorySync(excludeFromPlan(plan, excludedVins));
 
       // Re-read server state so partial write failures can never install
       // unpersisted parsed rows in the local inventory.
@@ -172,43 +320,36 @@ export function useInventoryImport() {
       setInventory(persistedVehicles);
       queryClient.setQueryData(currentDealerQueryKeys().inventory, persistedVehicles);
       queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+      queryClient.invalidateQueries({ queryKey: queryKeys.inventoryHistory });
       setPagination((prev) => ({ ...prev, currentPage: 1 }));
 
       const failedNote =
         syncResult.failed > 0
           ? ` ${syncResult.failed} operation(s) failed and were not saved.`
           : "";
+      const excludedNote = excludedVins.size > 0 ? ` ${excludedVins.size} excluded in review.` : "";
+      const profileNote = profileName ? ` Columns mapped with "${profileName}".` : "";
       setMessage({
         type: syncResult.failed > 0 ? "warning" : "success",
-        text: `Synced: ${syncResult.added} added, ${syncResult.updated} updated, ${syncResult.removed} marked sold.${failedNote}`,
+        text: `Synced: ${syncResult.added} added, ${syncResult.updated} updated, ${syncResult.removed} marked sold.${excludedNote}${failedNote}${profileNote}`,
       });
       capture("import_completed", {
-        vehicles: data.length,
+        vehicles: parsed,
         skipped,
         failed: syncResult.failed,
       });
       capture("inventory_uploaded", {
-        vehicles: data.length,
+        vehicles: parsed,
         skipped,
         failed: syncResult.failed,
       });
-    } catch (err) {
-      inventoryImportLogger.error("Inventory import failed", err);
-      // The parser writes user-safe, actionable messages (missing columns,
-      // skipped-row reasons) — show them instead of a generic toast. [C-regression]
-      setMessage({
-        type: "error",
-        text:
-          err instanceof Error && err.message
-            ? err.message
-            : "Error syncing inventory. Please try again.",
-      });
-    } finally {
-      setIsUploadingInventory(false);
-      // Always reset the input so re-selecting the SAME file re-fires onChange
-      // (after a failure or even a success, re-upload used to be a silent no-op).
-      if (fileInputRef.current) fileInputRef.current.value = "";
-    }
+    });
+  };
+
+  const cancelInventorySync = () => {
+    setPendingSync(null);
+    setFileName("");
+    setMessage({ type: "info", text: "Import cancelled. Inventory was not changed." });
   };
 
   // Sample CSV download (extracted from the legacy toolbar button)
@@ -307,6 +448,7 @@ export function useInventoryImport() {
           .then(() => {
             inventoryImportLogger.debug("VIN lookup vehicle synced to PocketBase");
             queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+            queryClient.invalidateQueries({ queryKey: queryKeys.inventoryHistory });
           })
           .catch((err: unknown) => {
             inventoryImportLogger.error("Failed to sync VIN lookup to PocketBase", err);
@@ -410,6 +552,12 @@ export function useInventoryImport() {
     fileName,
     isUploadingInventory,
     handleFileUpload,
+    pendingMapping,
+    confirmColumnMapping,
+    cancelColumnMapping,
+    pendingSync,
+    confirmInventorySync,
+    cancelInventorySync,
     downloadSampleCsv,
     vinLookup,
     setVinLookup,
@@ -67,4 +67,31 @@ describe("computeProcessedInventory", () => {
     expect(result.filteredInventory).toHaveLength(1);
     expect(result.paginatedInventory).toHaveLength(1);
   });
+
+  it("filters by days-in-stock bucket", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const fresh: Vehicle = {
+      ...sampleVehicle,
+      inStockAt: new Date(Date.now() - 10 * day).toISOString(),
+    };
+    const aged: Vehicle = {
+      ...sampleVehicle,
+      id: "v2",
+      vin: "1HGCV1F3XLA000002",
+      inStockAt: new Date(Date.now() - 75 * day).toISOString(),
+    };
+    const result = computeProcessedInventory({
+      inventory: [fresh, aged],
+      lenderProfiles: DEFAULT_LENDER_PROFILES,
+      dealData: INITIAL_DEAL_DATA,
+      filters: { ...INITIAL_FILTER_DATA, agingBucket: "61-90" },
+      settings: INITIAL_SETTINGS,
+      searchQuery: "",
+      inventorySort: { key: null, direction: "asc" },
+      pagination: { currentPage: 1, itemsPerPage: 15 },
+    });
+
+    expect(result.filteredInventory.map((v) => v.vin)).toEqual([aged.vin]);
+    expect(result.filteredInventory[0]?.daysInStock).toBe(75);
+  });
 });
@@ -12,6 +12,7 @@ import { INITIAL_FILTER_DATA } from "../constants";
 import { calculateFinancials } from "../services/calculator";
 import { lenderFitForVehicle } from "../services/lenderFit";
 import { scoreApprovalOdds } from "../services/approvalScorer";
+import { agingBucketFor, daysInStock } from "../services/inventoryAging";
 import { compareSortValues } from "../utils/sortComparator";
 
 export interface ProcessedInventoryInput {
@@ -70,7 +71,7 @@ export function computeProcessedInventory(
       if (entry.eligible)
         unitsPerLender[entry.lenderId] = (unitsPerLender[entry.lenderId] ?? 0) + 1;
     }
-    const appr = scoreApprovalOdds(calc, credit, fit.fitCount);
+    const appr = scoreApprovalOdds(calc, credit, fit.fitCount, settings.approvalCalibration);
     return {
       ...calc,
       approvalScore: appr.internalScore,
@@ -78,6 +79,7 @@ export function computeProcessedInventory(
       ptiRatio: appr.ptiRatio,
       fitCount: fit.fitCount,
       fitNames: fit.fitNames,
+      daysInStock: daysInStock(item),
     };
   });
 
@@ -89,6 +91,8 @@ export function computeProcessedInventory(
     const minScoreMatch =
       safeFilters.minScore == null ||
       (typeof item.approvalScore === "number" && item.approvalScore >= safeFilters.minScore);
+    const agingMatch =
+      !safeFilters.agingBucket || agingBucketFor(item.daysInStock) === safeFilters.agingBucket;
     const vehicleMatch =
       !safeFilters.vehicle ||
       (item.vehicle || "").toLowerCase().includes(safeFilters.vehicle.toLowerCase());
@@ -110,6 +114,7 @@ export function computeProcessedInventory(
     return (
       searchMatch &&
       minScoreMatch &&
+      agingMatch &&
       vehicleMatch &&
       maxPriceMatch &&
       maxPaymentMatch &&
@@ -90,7 +90,12 @@ export function useSaveDeal() {
         { ...normalizedDealData, ...filters },
         safeLenderProfiles
       );
-      const freshApproval = scoreApprovalOdds(freshVehicle, filters, freshFit.fitCount);
+      const freshApproval = scoreApprovalOdds(
+        freshVehicle,
+        filters,
+        freshFit.fitCount,
+        settings.approvalCalibration
+      );
       const vehicleSnapshot: CalculatedVehicle = {
         ...freshVehicle,
         approvalScore: freshApproval.internalScore,
@@ -129,6 +134,10 @@ export function useSaveDeal() {
           creditScore: filters.creditScore,
           monthlyIncome: filters.monthlyIncome,
           monthlyDebt: filters.monthlyDebt,
+          coBuyerCreditScore: filters.coBuyerCreditScore,
+          coBuyerMonthlyIncome: filters.coBuyerMonthlyIncome,
+          coBuyerMonthlyDebt: filters.coBuyerMonthlyDebt,
+          openAutoLoans: filters.openAutoLoans,
         } as unknown as NewSavedDealPayload["customerFilters"],
         notes: scratchPadNotes,
         // Desk saves land as "pending" (mockup's save-to-pipeline semantics) —
@@ -43,6 +43,9 @@ vi.mock("./pocketbase", () => ({
     dealerSettings: {
       getList: mocks.getList,
     },
+    inventoryHistory: {
+      getFullList: mocks.getFullList,
+    },
     dealers: {
       getFullList: mocks.getFullList,
       getList: mocks.getList,
@@ -75,6 +78,7 @@ vi.mock("./passwordPolicy", () => ({
 
 import {
   getInventory,
+  getInventoryHistory,
   getLenderProfiles,
   getSavedDeals,
   getDealerSettings,
@@ -128,6 +132,23 @@ describe("read APIs throw by default (C10)", () => {
     await expect(getSavedDeals({ soft: true })).resolves.toEqual([]);
   });
 
+  it("getInventoryHistory reads only the given VINs, in batches", async () => {
+    mocks.getFullList.mockImplementation(async () => [{ id: "h" }]);
+    const vins = Array.from({ length: 45 }, (_, i) => `VIN${i}`);
+
+    await expect(getInventoryHistory(vins)).resolves.toHaveLength(2);
+    expect(mocks.getFullList).toHaveBeenCalledTimes(2);
+    const [expr, params] = mocks.filter.mock.lastCall ?? [];
+    expect(expr).toBe(
+      "dealer = {:dealer} && (vin = {:vin0} || vin = {:vin1} || vin = {:vin2} || vin = {:vin3} || vin = {:vin4})"
+    );
+    expect(params).toMatchObject({ dealer: "dealer-1", vin0: "VIN40", vin4: "VIN44" });
+
+    mocks.getFullList.mockClear();
+    await expect(getInventoryHistory([])).resolves.toEqual([]);
+    expect(mocks.getFullList).not.toHaveBeenCalled();
+  });
+
   it("getDealerSettings throws on failure unless soft", async () => {
     mocks.getList.mockRejectedValue(new Error("settings boom"));
     await expect(getDealerSettings()).rejects.toThrow("settings boom");
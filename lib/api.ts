@@ -2,8 +2,10 @@ import {
   pb,
   collections,
   InventoryItem,
+  InventoryHistory,
   LenderProfile,
   SavedDeal,
+  DealSubmission,
   DealerSettings,
   Dealer,
   User,
@@ -17,6 +19,13 @@ import type { RecordModel } from "pocketbase";
 import { sanitizeId } from "./typeGuards";
 import { createLogger } from "./logger";
 import { validatePassword } from "./passwordPolicy";
+import {
+  planInventorySync,
+  writeInventorySync,
+  type InventorySyncCounts,
+  type InventorySyncItem,
+  type InventorySyncPlan,
+} from "../services/inventorySync";
 
 // Create structured logger for API operations
 const apiLogger = createLogger("api");
@@ -124,24 +133,15 @@ export const deleteInventoryItem = async (id: string): Promise<boolean> => {
   }
 };
 
-// Bulk sync inventory - updates existing items by VIN, adds new ones, removes stale ones
-// OPTIMIZED: Uses Promise.all with batching for 10-100x performance improvement
-export const syncInventory = async (
-  items: Array<{
-    vin: string;
-    stockNumber?: string;
-    year: number;
-    make: string;
-    model: string;
-    trim?: string;
-    mileage?: number;
-    price: number;
-    unitCost?: number;
-    jdPower?: number;
-    jdPowerRetail?: number;
-  }>,
+/**
+ * The changeset syncing `items` would write (services/inventorySync), read
+ * against the dealer's current units. Nothing is written; the import dialog
+ * shows the plan and applyInventorySync writes what the admin keeps.
+ */
+export const previewInventorySync = async (
+  items: InventorySyncItem[],
   options: { markMissingSold?: boolean } = {}
-): Promise<{ added: number; updated: number; removed: number; failed: number }> => {
+): Promise<InventorySyncPlan> => {
   const dealerId = getCurrentDealerId();
   // Fail loudly instead of returning zeros that the UI would render as a green
   // "Synced 0 vehicles" success while nothing was persisted. [data-import]
@@ -149,11 +149,7 @@ export const syncInventory = async (
     throw new Error("No dealership is selected, so inventory could not be synced.");
   }
 
-  // Batch size for parallel operations (avoid overwhelming the API)
-  const BATCH_SIZE = 50;
-
   try {
-    // Get existing inventory for this dealer
     const existingRecords = await withPbRetry(
       () =>
         collections.inventory.getFullList({
@@ -161,105 +157,83 @@ export const syncInventory = async (
         }),
       { label: "syncInventory existing inventory" }
     );
+    return planInventorySync(asTypeArray<InventoryItem>(existingRecords), items, options);
+  } catch (error) {
+    apiLogger.error("Failed to preview inventory sync", error);
+    throw error instanceof Error ? error : new Error("Failed to read current inventory.");
+  }
+};
 
-    const existingByVin = new Map<string, InventoryItem>();
-    for (const record of existingRecords) {
-      const item = asType<InventoryItem>(record);
-      if (item.vin) {
-        existingByVin.set(item.vin.toUpperCase(), item);
-      }
-    }
+// Writes a sync plan - updates existing items by VIN, adds new ones, retires stale ones
+export const applyInventorySync = async (plan: InventorySyncPlan): Promise<InventorySyncCounts> => {
+  const dealerId = getCurrentDealerId();
+  if (!dealerId) {
+    throw new Error("No dealership is selected, so inventory could not be synced.");
+  }
 
-    const incomingVins = new Set<string>();
-    const updateOperations: Promise<unknown>[] = [];
-    const createOperations: Promise<unknown>[] = [];
-
-    // Prepare operations (don't execute yet)
-    for (const item of items) {
-      if (!item.vin) continue;
-      const vinUpper = item.vin.toUpperCase();
-      incomingVins.add(vinUpper);
-
-      const existing = existingByVin.get(vinUpper);
-      if (existing) {
-        // Queue update operation
-        updateOperations.push(
-          collections.inventory.update(existing.id, {
-            stockNumber: item.stockNumber,
-            year: item.year,
-            make: item.make,
-            model: item.model,
-            trim: item.trim,
-            mileage: item.mileage,
-            price: item.price,
-            unitCost: item.unitCost,
-            jdPower: item.jdPower,
-            jdPowerRetail: item.jdPowerRetail,
-            status: "available",
-          })
-        );
-      } else {
-        // Queue create operation
-        createOperations.push(
-          collections.inventory.create({
-            dealer: dealerId,
-            vin: item.vin,
-            stockNumber: item.stockNumber,
-            year: item.year,
-            make: item.make,
-            model: item.model,
-            trim: item.trim,
-            mileage: item.mileage,
-            price: item.price,
-            unitCost: item.unitCost,
-            jdPower: item.jdPower,
-            jdPowerRetail: item.jdPowerRetail,
-            status: "available",
-          })
-        );
-      }
-    }
+  try {
+    return await writeInventorySync(pb, dealerId, plan, {
+      onHistoryError: (vin, error) =>
+        apiLogger.warn("Failed to record inventory history", { vin, error }),
+    });
+  } catch (error) {
+    // Re-throw so the caller surfaces an error toast instead of a false success.
+    apiLogger.error("Failed to sync inventory", error);
+    throw error instanceof Error ? error : new Error("Failed to sync inventory.");
+  }
+};
 
-    // A partial file upload and the one-item VIN decoder both use this helper.
-    // Missing rows therefore mean "not included in this import", not "sold".
-    // Archiving absent units is available only to an explicit full-feed caller.
-    const removeOperations: Promise<unknown>[] = [];
-    if (options.markMissingSold) {
-      for (const [vin, existing] of existingByVin) {
-        if (!incomingVins.has(vin)) {
-          removeOperations.push(collections.inventory.update(existing.id, { status: "sold" }));
-        }
-      }
-    }
+/**
+ * Preview and apply in one step, for callers with nothing to review (the VIN
+ * decoder). A partial file upload and the one-item decoder both use this, so
+ * missing rows mean "not included in this import", not "sold"; archiving
+ * absent units is only for an explicit full-feed caller.
+ */
+export const syncInventory = async (
+  items: InventorySyncItem[],
+  options: { markMissingSold?: boolean } = {}
+): Promise<InventorySyncCounts> => applyInventorySync(await previewInventorySync(items, options));
 
-    // Execute all operations in parallel batches, tracking both successes and
-    // failures so partial failures are reported rather than hidden. [data-import]
-    const processBatch = async (operations: Promise<unknown>[]) => {
-      const results = [];
-      for (let i = 0; i < operations.length; i += BATCH_SIZE) {
-        const batch = operations.slice(i, i + BATCH_SIZE);
-        results.push(...(await Promise.allSettled(batch)));
-      }
-      const ok = results.filter((r) => r.status === "fulfilled").length;
-      return { ok, failed: results.length - ok };
-    };
+/** VINs per inventory_history request, so the filter stays short enough for a URL. */
+const HISTORY_VIN_BATCH = 40;
 
-    const [updated, added, removed] = await Promise.all([
-      processBatch(updateOperations),
-      processBatch(createOperations),
-      processBatch(removeOperations),
-    ]);
+/**
+ * The inventory change log (1748000009) for the given VINs, oldest first.
+ * Callers ask for the units they show, never the whole log, which grows with
+ * every sync. VINs match as stored on the inventory record.
+ */
+export const getInventoryHistory = async (
+  vins: string[],
+  opts?: FetchOpts
+): Promise<InventoryHistory[]> => {
+  const dealerId = getCurrentDealerId();
+  if (!dealerId || vins.length === 0) return [];
 
-    return {
-      added: added.ok,
-      updated: updated.ok,
-      removed: removed.ok,
-      failed: added.failed + updated.failed + removed.failed,
-    };
+  try {
+    const records: RecordModel[] = [];
+    for (let start = 0; start < vins.length; start += HISTORY_VIN_BATCH) {
+      const batch = vins.slice(start, start + HISTORY_VIN_BATCH);
+      const params = Object.fromEntries(batch.map((vin, i) => [`vin${i}`, vin]));
+      const vinMatch = batch.map((_, i) => `vin = {:vin${i}}`).join(" || ");
+      records.push(
+        ...(await withPbRetry(
+          () =>
+            collections.inventoryHistory.getFullList({
+              filter: pb.filter(`dealer = {:dealer} && (${vinMatch})`, {
+                dealer: sanitizeId(dealerId),
+                ...params,
+              }),
+              sort: "created",
+            }),
+          { label: "getInventoryHistory" }
+        ))
+      );
+    }
+    return asTypeArray<InventoryHistory>(records);
   } catch (error) {
-    // Re-throw so the caller surfaces an error toast instead of a false success.
-    apiLogger.error("Failed to sync inventory", error);
-    throw error instanceof Error ? error : new Error("Failed to sync inventory.");
+    apiLogger.error("Failed to fetch inventory history", error);
+    if (shouldSwallowFetchError(opts)) return [];
+    throw error;
   }
 };
 
@@ -561,6 +535,119 @@ export const deleteDeal = async (id: string): Promise<boolean> => {
   }
 };
 
+// ============================================
+// DEAL STIPULATION DOCUMENTS (1748000005)
+// ============================================
+
+/**
+ * Upload a stip document to the deal's protected `stipulationDocs` field and
+ * return the stored file name (PocketBase suffixes it to keep names unique),
+ * which the caller records on the stip. Throws so the drawer can report it.
+ */
+export const uploadStipulationDoc = async (
+  dealId: string,
+  file: File,
+  existing: string[]
+): Promise<{ deal: SavedDeal; fileName: string }> => {
+  try {
+    const record = await collections.savedDeals.update(dealId, { "stipulationDocs+": file });
+    const deal = asType<SavedDeal>(record);
+    const fileName = (deal.stipulationDocs ?? []).find((name) => !existing.includes(name));
+    if (!fileName) throw new Error("Upload finished but the stored file was not returned.");
+    return { deal, fileName };
+  } catch (error) {
+    apiLogger.error("Failed to upload stipulation document", error);
+    throw error instanceof Error ? error : new Error("Failed to upload document.");
+  }
+};
+
+/** Delete a stip document and save the checklist that no longer references it. */
+export const removeStipulationDoc = async (
+  dealId: string,
+  fileName: string,
+  stipulations: SavedDeal["stipulations"]
+): Promise<SavedDeal | null> => {
+  try {
+    const record = await collections.savedDeals.update(dealId, {
+      "stipulationDocs-": [fileName],
+      stipulations,
+    });
+    return asType<SavedDeal>(record);
+  } catch (error) {
+    apiLogger.error("Failed to remove stipulation document", error);
+    return null;
+  }
+};
+
+/** Signed URL for a protected stip document; the token is short-lived. */
+export const getStipulationDocUrl = async (dealId: string, fileName: string): Promise<string> => {
+  const token = await pb.files.getToken();
+  return pb.files.getURL({ id: dealId, collectionName: "saved_deals" }, fileName, { token });
+};
+
+// ============================================
+// LENDER SUBMISSIONS (1748000006)
+// ============================================
+
+export const getDealSubmissions = async (opts?: FetchOpts): Promise<DealSubmission[]> => {
+  const dealerId = getCurrentDealerId();
+  if (!dealerId) return [];
+
+  try {
+    const records = await withPbRetry(
+      () =>
+        collections.dealSubmissions.getFullList({
+          filter: pb.filter("dealer = {:dealer}", { dealer: sanitizeId(dealerId) }),
+          sort: "-submittedAt",
+        }),
+      { label: "getDealSubmissions" }
+    );
+    return asTypeArray<DealSubmission>(records);
+  } catch (error) {
+    apiLogger.error("Failed to fetch deal submissions", error);
+    if (shouldSwallowFetchError(opts)) return [];
+    throw error;
+  }
+};
+
+export const createDealSubmission = async (
+  submission: Omit<DealSubmission, "id" | "dealer" | "created" | "updated">
+): Promise<DealSubmission | null> => {
+  const dealerId = getCurrentDealerId();
+  if (!dealerId) return null;
+
+  try {
+    const record = await collections.dealSubmissions.create({ ...submission, dealer: dealerId });
+    return asType<DealSubmission>(record);
+  } catch (error) {
+    apiLogger.error("Failed to record deal submission", error);
+    throw error instanceof Error ? error : new Error("Failed to record submission.");
+  }
+};
+
+export const updateDealSubmission = async (
+  id: string,
+  data: Partial<DealSubmission>
+): Promise<DealSubmission | null> => {
+  try {
+    const record = await collections.dealSubmissions.update(id, data);
+    return asType<DealSubmission>(record);
+  } catch (error) {
+    apiLogger.error("Failed to update deal submission", error);
+    return null;
+  }
+};
+
+export const deleteDealSubmission = async (id: string): Promise<boolean> => {
+  try {
+    await collections.dealSubmissions.delete(id);
+    return true;
+  } catch (error) {
+    apiLogger.error("Failed to delete deal submission", error);
+    return false;
+  }
+};
+
 // ============================================
 // DEAL EVENTS — append-only evidentiary log [G44/G45]
 // ============================================
@@ -573,7 +660,8 @@ export type DealEventAction =
   | "deal_deleted"
   | "deal_sheet_generated"
   | "deal_status_changed"
-  | "buy_rate_applied";
+  | "buy_rate_applied"
+  | "lender_decision_recorded";
 
 interface DealEventInput {
   action: string;
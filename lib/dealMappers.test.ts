@@ -14,8 +14,14 @@ import {
   mapPocketBaseSavedDeal,
   asPipelineDeal,
   pipelineMetricsFromCalculatedData,
+  mapPocketBaseSubmission,
+  mapPocketBaseInventoryHistory,
 } from "./dealMappers";
-import type { SavedDeal as PocketBaseSavedDeal } from "./pocketbase";
+import type {
+  DealSubmission as PocketBaseDealSubmission,
+  InventoryHistory as PocketBaseInventoryHistory,
+  SavedDeal as PocketBaseSavedDeal,
+} from "./pocketbase";
 import type { SavedDeal as AppSavedDeal } from "../types";
 
 describe("normalizeStoredTaxRate", () => {
@@ -188,6 +194,10 @@ describe("mapPocketBaseSavedDeal", () => {
       creditScore: 712,
       monthlyIncome: 4800,
       monthlyDebt: null,
+      coBuyerCreditScore: null,
+      coBuyerMonthlyIncome: null,
+      coBuyerMonthlyDebt: null,
+      openAutoLoans: null,
     });
 
     // Pipeline fields.
@@ -224,6 +234,25 @@ describe("mapPocketBaseSavedDeal", () => {
     expect(mapped.dealData.interestRate).toBe("");
   });
 
+  it("maps the stipulation checklist and its uploaded documents", () => {
+    const mapped = mapPocketBaseSavedDeal(
+      pbDeal({
+        stipulations: [
+          { id: "stip-poi", label: "Proof of income", required: true, status: "received" },
+          { label: "Missing id" },
+        ] as unknown as PocketBaseSavedDeal["stipulations"],
+        stipulationDocs: ["paystub_a1b2c3.pdf"],
+      })
+    );
+
+    expect(mapped.stipulations).toEqual([
+      { id: "stip-poi", label: "Proof of income", required: true, status: "received" },
+    ]);
+    expect(mapped.stipulationDocs).toEqual(["paystub_a1b2c3.pdf"]);
+    expect(mapPocketBaseSavedDeal(pbDeal()).stipulations).toEqual([]);
+    expect(asPipelineDeal(mapped as AppSavedDeal).stipulationDocs).toEqual(["paystub_a1b2c3.pdf"]);
+  });
+
   it("normalizes backend components and round-trips explicit incentive fields", () => {
     const mapped = mapPocketBaseSavedDeal(
       pbDeal({
@@ -237,11 +266,15 @@ describe("mapPocketBaseSavedDeal", () => {
           dealerDiscount: 750,
           transactionFees: 125,
           vehicleCondition: "used",
+          titleBrand: "rebuilt",
         },
         customerFilters: {
           creditScore: 712,
           monthlyIncome: 4800,
           monthlyDebt: 650,
+          coBuyerCreditScore: 701,
+          coBuyerMonthlyIncome: 2600,
+          openAutoLoans: 2,
         } as unknown as PocketBaseSavedDeal["customerFilters"],
       } as Partial<PocketBaseSavedDeal>)
     );
@@ -255,8 +288,15 @@ describe("mapPocketBaseSavedDeal", () => {
       dealerDiscount: 750,
       transactionFees: 125,
       vehicleCondition: "used",
+      titleBrand: "rebuilt",
+    });
+    expect(mapped.customerFilters).toMatchObject({
+      monthlyDebt: 650,
+      openAutoLoans: 2,
+      coBuyerCreditScore: 701,
+      coBuyerMonthlyIncome: 2600,
+      coBuyerMonthlyDebt: null,
     });
-    expect(mapped.customerFilters.monthlyDebt).toBe(650);
   });
 });
 
@@ -338,3 +378,87 @@ describe("toAppState", () => {
     expect(toAppState("CA", "MI")).toBe("MI");
   });
 });
+
+describe("mapPocketBaseSubmission", () => {
+  const record = (overrides: Partial<PocketBaseDealSubmission> = {}): PocketBaseDealSubmission => ({
+    id: "sub1",
+    dealer: "dealer1",
+    deal: "deal1",
+    lenderName: "Lake Trust CU",
+    submittedAt: "2026-10-01 15:04:05.000Z",
+    decision: "approved",
+    decidedAt: "",
+    approvedAmount: 21500,
+    approvedRate: 0,
+    approvedTerm: 72,
+    conditions: "",
+    declineReason: "",
+    created: "2026-10-01 15:04:05.000Z",
+    updated: "2026-10-01 15:04:05.000Z",
+    ...overrides,
+  });
+
+  it("reads PocketBase dates and treats zero numbers as unset", () => {
+    expect(mapPocketBaseSubmission(record())).toEqual({
+      id: "sub1",
+      dealId: "deal1",
+      lenderName: "Lake Trust CU",
+      submittedAt: "2026-10-01T15:04:05.000Z",
+      decision: "approved",
+      decidedAt: undefined,
+      approvedAmount: 21500,
+      // 0% with an approved amount is a real promo rate.
+      approvedRate: 0,
+      approvedTerm: 72,
+      conditions: undefined,
+      declineReason: undefined,
+    });
+
+    const declined = mapPocketBaseSubmission(
+      record({
+        decision: "declined",
+        approvedAmount: 0,
+        approvedTerm: 0,
+        declineReason: "Too many inquiries",
+      })
+    );
+    expect(declined.approvedAmount).toBeUndefined();
+    expect(declined.approvedRate).toBeUndefined();
+    expect(declined.declineReason).toBe("Too many inquiries");
+  });
+
+  it("defaults an unknown decision to pending", () => {
+    const mapped = mapPocketBaseSubmission(
+      record({ decision: "maybe" as PocketBaseDealSubmission["decision"] })
+    );
+    expect(mapped.decision).toBe("pending");
+  });
+});
+
+describe("mapPocketBaseInventoryHistory", () => {
+  it("reads the PocketBase timestamp and drops unknown or unset change values", () => {
+    const record = {
+      id: "hist1",
+      dealer: "dealer1",
+      inventory: "inv1",
+      vin: "1HGCM82633A004352",
+      changes: [
+        { field: "price", before: 21500, after: 20995 },
+        { field: "jdPower", before: 0, after: 18000 },
+        { field: "color", before: "red", after: "blue" },
+      ],
+      created: "2026-10-12 15:04:05.000Z",
+      updated: "2026-10-12 15:04:05.000Z",
+    } as unknown as PocketBaseInventoryHistory;
+
+    expect(mapPocketBaseInventoryHistory(record)).toEqual({
+      id: "hist1",
+      vin: "1HGCM82633A004352",
+      changedAt: "2026-10-12T15:04:05.000Z",
+      changes: [
+        { field: "price", before: 21500, after: 20995 },
+        { field: "jdPower", before: null, after: 18000 },
+      ],
+    });
+  });
+});
@@ -1,12 +1,27 @@
-import { INITIAL_DEAL_DATA } from "../constants";
-import type { AppState, CalculatedVehicle, DealData, SavedDeal as AppSavedDeal } from "../types";
+import { INITIAL_DEAL_DATA, TITLE_BRANDS } from "../constants";
+import type {
+  AppState,
+  CalculatedVehicle,
+  DealData,
+  DealStipulation,
+  DealSubmission,
+  InventoryHistoryEntry,
+  LenderDecision,
+  SavedDeal as AppSavedDeal,
+  TitleBrand,
+} from "../types";
 import { normalizeBackendProductFields } from "../services/backendProducts";
-import type { SavedDeal as PocketBaseSavedDeal } from "./pocketbase";
+import { normalizeStipulations } from "../services/dealStipulations";
+import { normalizeInventoryChanges } from "../services/inventoryHistory";
+import { isTaxState } from "../services/taxRules";
+import type {
+  DealSubmission as PocketBaseDealSubmission,
+  InventoryHistory as PocketBaseInventoryHistory,
+  SavedDeal as PocketBaseSavedDeal,
+} from "./pocketbase";
 
 type UnknownRecord = Record<string, unknown>;
 
-const APP_STATES: readonly AppState[] = ["MI", "OH", "IN", "IL", "FL"];
-
 const isRecord = (value: unknown): value is UnknownRecord =>
   typeof value === "object" && value !== null && !Array.isArray(value);
 
@@ -35,10 +50,11 @@ const toOptionalString = (value: unknown): string | undefined =>
 
 const toOptionalNumber = (value: unknown): number | null => toFiniteNumber(value) ?? null;
 
-export const toAppState = (value: unknown, fallback: AppState): AppState => {
-  const s = typeof value === "string" ? value : "";
-  return (APP_STATES as readonly string[]).includes(s) ? (s as AppState) : fallback;
-};
+const isTitleBrand = (value: unknown): value is TitleBrand =>
+  TITLE_BRANDS.some((brand) => brand.value === value);
+
+export const toAppState = (value: unknown, fallback: AppState): AppState =>
+  isTaxState(value) ? value : fallback;
 
 /**
  * Preserve explicit zero-rate settings. Missing/blank values remain null, but a
@@ -173,12 +189,11 @@ export const mapDealData = (value: unknown): DealData => {
     notes: toStringOr(record.notes, INITIAL_DEAL_DATA.notes),
     // Carry per-deal buyer state through persistence/PDF round-trips so an
     // out-of-state buyer's tax basis isn't silently lost on reload. [G18]
-    buyerState:
-      typeof record.buyerState === "string" &&
-      (APP_STATES as readonly string[]).includes(record.buyerState)
-        ? (record.buyerState as AppState)
-        : undefined,
+    buyerState: isTaxState(record.buyerState) ? record.buyerState : undefined,
+    buyerZip: toOptionalString(record.buyerZip),
+    buyerCounty: toOptionalString(record.buyerCounty),
     vehicleCondition,
+    titleBrand: isTitleBrand(record.titleBrand) ? record.titleBrand : undefined,
     // Round-trip the add-on split and rebate: dropping them made a restored
     // deal misreport VSC/GAP (re-toggling would double-count into
     // backendProducts) and silently discard the rebate. [review/P1]
@@ -189,6 +204,19 @@ export const mapDealData = (value: unknown): DealData => {
     dealerRebate: toFiniteNumber(record.dealerRebate),
     transactionFees: toFiniteNumber(record.transactionFees ?? record.transactionFee),
     transactionFee: toFiniteNumber(record.transactionFee),
+    // Lease inputs ride along so a saved deal reopens with its lease quote.
+    leaseTerm: toFiniteNumber(record.leaseTerm),
+    leaseResidualPercent: toFiniteNumber(record.leaseResidualPercent),
+    leaseMoneyFactor: toFiniteNumber(record.leaseMoneyFactor),
+    leaseAcquisitionFee: toFiniteNumber(record.leaseAcquisitionFee),
+    leaseDispositionFee: toFiniteNumber(record.leaseDispositionFee),
+    contractDate: toOptionalString(record.contractDate),
+    firstPaymentDate: toOptionalString(record.firstPaymentDate),
+    balloonAmount: toFiniteNumber(record.balloonAmount),
+    paymentFrequency:
+      record.paymentFrequency === "monthly" || record.paymentFrequency === "biweekly"
+        ? record.paymentFrequency
+        : undefined,
   };
 };
 
@@ -243,10 +271,22 @@ export interface PipelineDealFields {
   lenderName?: string;
   /** Persisted metric snapshot (payment/otdLtv/financed/approvalScore …). */
   calculatedData?: UnknownRecord;
+  /** Stipulation checklist (1748000005); empty until seeded. */
+  stipulations: DealStipulation[];
+  /** Uploaded stip documents, by stored file name (1748000005). */
+  stipulationDocs: string[];
 }
 
 export type PipelineSavedDeal = AppSavedDeal & PipelineDealFields;
 
+/** A PocketBase file field reads as a string for single-file fields, an array otherwise. */
+const toFileNames = (value: unknown): string[] => {
+  if (typeof value === "string") return value ? [value] : [];
+  return Array.isArray(value)
+    ? value.filter((name): name is string => typeof name === "string" && name !== "")
+    : [];
+};
+
 export const mapPocketBaseSavedDeal = (deal: PocketBaseSavedDeal): PipelineSavedDeal => {
   const customerFilterSource: UnknownRecord = isRecord(deal.customerFilters)
     ? deal.customerFilters
@@ -272,11 +312,17 @@ export const mapPocketBaseSavedDeal = (deal: PocketBaseSavedDeal): PipelineSaved
       creditScore: toOptionalNumber(customerFilterSource.creditScore),
       monthlyIncome: toOptionalNumber(customerFilterSource.monthlyIncome),
       monthlyDebt: toOptionalNumber(customerFilterSource.monthlyDebt),
+      coBuyerCreditScore: toOptionalNumber(customerFilterSource.coBuyerCreditScore),
+      coBuyerMonthlyIncome: toOptionalNumber(customerFilterSource.coBuyerMonthlyIncome),
+      coBuyerMonthlyDebt: toOptionalNumber(customerFilterSource.coBuyerMonthlyDebt),
+      openAutoLoans: toOptionalNumber(customerFilterSource.openAutoLoans),
     },
     notes: deal.notes || "",
     status: toCanonicalStatus(deal.status),
     lenderName: toOptionalString(deal.lenderName),
     calculatedData: isRecord(deal.calculatedData) ? deal.calculatedData : undefined,
+    stipulations: normalizeStipulations(deal.stipulations),
+    stipulationDocs: toFileNames(deal.stipulationDocs),
   };
 };
 
@@ -296,9 +342,69 @@ export const asPipelineDeal = (deal: AppSavedDeal): PipelineSavedDeal => {
     status: toCanonicalStatus(rec.status),
     lenderName: toOptionalString(rec.lenderName),
     calculatedData: isRecord(rec.calculatedData) ? rec.calculatedData : undefined,
+    stipulations: normalizeStipulations(rec.stipulations),
+    stipulationDocs: toFileNames(rec.stipulationDocs),
   };
 };
 
+// ============================================
+// Lender submissions (1748000006)
+// ============================================
+
+const LENDER_DECISIONS: readonly LenderDecision[] = [
+  "pending",
+  "approved",
+  "countered",
+  "declined",
+];
+
+/** PocketBase datetimes use a space separator; an empty date means unset. */
+const toIsoDate = (value: unknown): string | undefined => {
+  const text = toOptionalString(value);
+  if (!text) return undefined;
+  const date = new Date(text.replace(" ", "T"));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/** PocketBase number columns read 0 when unset; treat that as unknown. */
+const toOptionalPositive = (value: unknown): number | undefined => {
+  const n = toFiniteNumber(value);
+  return n !== undefined && n > 0 ? n : undefined;
+};
+
+export const mapPocketBaseSubmission = (record: PocketBaseDealSubmission): DealSubmission => {
+  const decision = (LENDER_DECISIONS as readonly string[]).includes(record.decision)
+    ? record.decision
+    : "pending";
+  const approvedAmount = toOptionalPositive(record.approvedAmount);
+  // A 0% approval is real (captive promos), so keep a zero rate whenever
+  // the lender approved an amount.
+  const rate = toFiniteNumber(record.approvedRate);
+  return {
+    id: record.id,
+    dealId: record.deal,
+    lenderName: record.lenderName,
+    submittedAt: toIsoDate(record.submittedAt) ?? toIsoDate(record.created) ?? "",
+    decision,
+    decidedAt: toIsoDate(record.decidedAt),
+    approvedAmount,
+    approvedRate:
+      rate !== undefined && (rate > 0 || approvedAmount !== undefined) ? rate : undefined,
+    approvedTerm: toOptionalPositive(record.approvedTerm),
+    conditions: toOptionalString(record.conditions),
+    declineReason: toOptionalString(record.declineReason),
+  };
+};
+
+export const mapPocketBaseInventoryHistory = (
+  record: PocketBaseInventoryHistory
+): InventoryHistoryEntry => ({
+  id: record.id,
+  vin: record.vin,
+  changedAt: toIsoDate(record.created) ?? "",
+  changes: normalizeInventoryChanges(record.changes),
+});
+
 /** Metric snapshot the Pipeline drawer renders (null = recompute from the deal). */
 export interface PipelineMetrics {
   payment: number | null;
@@ -1,5 +1,13 @@
 import PocketBase, { type RecordModel } from "pocketbase";
-import type { LenderTier } from "../types";
+import type {
+  ApprovalCalibration,
+  DealStipulation,
+  InventoryFieldChange,
+  InventoryMappingProfile,
+  LenderProgramVersion,
+  LenderRule,
+  LenderTier,
+} from "../types";
 import { createLogger } from "./logger";
 
 const pbLogger = createLogger("pocketbase");
@@ -234,6 +242,10 @@ export interface InventoryItem {
   status: "available" | "pending" | "sold" | "hold";
   images?: string[];
   notes?: string;
+  /** PocketBase datetime the unit arrived; reset when a sold unit returns (1748000010). */
+  inStockAt?: string;
+  /** PocketBase datetime a full-feed import marked the unit sold (1748000010). */
+  soldAt?: string;
   // Mapped fields
   vehicle?: string; // name
   stock?: string;
@@ -256,6 +268,7 @@ export interface LenderProfile {
   maxBackend?: number;
   minAmountFinanced?: number;
   maxAmountFinanced?: number;
+  /** Rate-sheet stips; seeds a deal's stip checklist (1748000011). */
   stipulations?: string;
   effectiveDate?: string;
   notes?: string;
@@ -270,6 +283,21 @@ export interface LenderProfile {
   reservePct?: number;
   /** Funding turnaround, free text e.g. "1-2" (1747810001). */
   fundingDays?: string;
+  /** Max APR markup over buy rate, in points (1748000000). */
+  maxMarkup?: number;
+  /** Flat reserve % of amount financed (1748000000). */
+  flatReservePct?: number;
+  /** Joint-application score rule (1748000002). */
+  coBuyerFico?: "primary" | "highest";
+  /** Joint-application income rule (1748000002). */
+  coBuyerIncome?: "primary" | "combined";
+  /** Current program window, "YYYY-MM-DD" (1748000003). */
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  /** Superseded and scheduled rate sheets (1748000003). */
+  programVersions?: LenderProgramVersion[];
+  /** Lender-wide custom rules (1748000004). */
+  rules?: LenderRule[];
   created: string;
   updated: string;
 }
@@ -287,11 +315,20 @@ export interface SavedDeal {
   customerFilters?: {
     creditScore: number | null;
     monthlyIncome: number | null;
+    monthlyDebt?: number | null;
+    coBuyerCreditScore?: number | null;
+    coBuyerMonthlyIncome?: number | null;
+    coBuyerMonthlyDebt?: number | null;
+    openAutoLoans?: number | null;
   };
   calculatedData?: Record<string, unknown>;
   status: "draft" | "pending" | "submitted" | "approved" | "funded" | "cancelled" | "declined";
   /** Lender the deal was submitted to / approved with (1747810000). */
   lenderName?: string;
+  /** Stipulation checklist (1748000005). */
+  stipulations?: DealStipulation[];
+  /** Protected uploads referenced by the stipulations' documents (1748000005). */
+  stipulationDocs?: string[];
   notes?: string;
   created: string;
   updated: string;
@@ -301,6 +338,37 @@ export interface SavedDeal {
   };
 }
 
+/** One inventory sync's changes to a unit's price, cost, books or mileage (1748000009). */
+export interface InventoryHistory {
+  id: string;
+  dealer: string;
+  inventory: string;
+  vin: string;
+  changes: InventoryFieldChange[];
+  created: string;
+  updated: string;
+}
+
+/** One lender submission of a saved deal and its decision (1748000006). */
+export interface DealSubmission {
+  id: string;
+  dealer: string;
+  deal: string;
+  lenderName: string;
+  /** PocketBase datetime ("YYYY-MM-DD HH:MM:SS.sssZ"). */
+  submittedAt: string;
+  decision: "pending" | "approved" | "countered" | "declined";
+  decidedAt?: string;
+  /** PocketBase stores unset numbers as 0. */
+  approvedAmount?: number;
+  approvedRate?: number;
+  approvedTerm?: number;
+  conditions?: string;
+  declineReason?: string;
+  created: string;
+  updated: string;
+}
+
 export interface DealerSettings {
   id: string;
   dealer: string;
@@ -308,6 +376,8 @@ export interface DealerSettings {
   cvrFee: number;
   defaultStateFees: number;
   defaultState: string;
+  /** Dealership home state for out-of-state buyer tax (1748000001). */
+  homeState?: string;
   outOfStateTransitFee: number;
   customTaxRate?: number;
   /** REAL PB column (1746999005 baseline): default loan term in months. */
@@ -320,6 +390,10 @@ export interface DealerSettings {
   gapPrice?: number;
   /** Michigan trade-in sales-tax-credit cap (1747810002). */
   miTradeInCreditCap?: number;
+  /** Approval-odds model fitted from this dealer's history (1748000007). */
+  approvalCalibration?: ApprovalCalibration | null;
+  /** Saved inventory-import column mappings (1748000008). */
+  inventoryMappingProfiles?: InventoryMappingProfile[] | null;
   created: string;
   updated: string;
 }
@@ -367,8 +441,10 @@ export const collections = {
   dealers: pb.collection("dealers"),
   users: pb.collection("users"),
   inventory: pb.collection("inventory"),
+  inventoryHistory: pb.collection("inventory_history"),
   lenderProfiles: pb.collection("lender_profiles"),
   savedDeals: pb.collection("saved_deals"),
+  dealSubmissions: pb.collection("deal_submissions"),
   dealerSettings: pb.collection("dealer_settings"),
 };
 
@@ -29,8 +29,10 @@ export const queryClient = new QueryClient({
 // Query keys for cache invalidation + useQuery / fetchQuery.
 export const queryKeys = {
   inventory: ["dealerData", "inventory"] as const,
+  inventoryHistory: ["dealerData", "inventoryHistory"] as const,
   lenderProfiles: ["dealerData", "lenderProfiles"] as const,
   savedDeals: ["dealerData", "savedDeals"] as const,
+  dealSubmissions: ["dealerData", "dealSubmissions"] as const,
   dealerSettings: ["dealerData", "dealerSettings"] as const,
   dealerUsers: ["dealerData", "dealerUsers"] as const,
   currentDealer: ["dealerData", "currentDealer"] as const,
@@ -43,8 +45,10 @@ export const dealerQueryKeys = (dealerId: string | null | undefined) => {
   const scope = dealerId || "no-dealer";
   return {
     inventory: [...queryKeys.inventory, scope] as const,
+    inventoryHistory: [...queryKeys.inventoryHistory, scope] as const,
     lenderProfiles: [...queryKeys.lenderProfiles, scope] as const,
     savedDeals: [...queryKeys.savedDeals, scope] as const,
+    dealSubmissions: [...queryKeys.dealSubmissions, scope] as const,
     dealerSettings: [...queryKeys.dealerSettings, scope] as const,
     dealerUsers: [...queryKeys.dealerUsers, scope] as const,
     currentDealer: [...queryKeys.currentDealer, scope] as const,
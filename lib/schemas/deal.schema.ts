@@ -43,7 +43,21 @@ export const DealDataSchema = z
 
     notes: z.string().max(5000, "Notes cannot exceed 5000 characters").default(""),
 
-    buyerState: z.enum(["MI", "OH", "IN", "IL", "FL"]).optional(),
+    buyerState: z.enum(["MI", "OH", "IN", "IL", "FL", "WI", "KY"]).optional(),
+
+    buyerZip: z.string().max(10, "ZIP cannot exceed 10 characters").optional(),
+
+    buyerCounty: z.string().max(100, "County cannot exceed 100 characters").optional(),
+
+    balloonAmount: z
+      .number()
+      .min(0, "Balloon amount cannot be negative")
+      .max(500000, "Balloon amount seems unrealistically high")
+      .optional(),
+
+    paymentFrequency: z.enum(["monthly", "biweekly"]).optional(),
+
+    titleBrand: z.enum(["clean", "salvage", "rebuilt", "flood", "lemon"]).optional(),
 
     rebate: z.number().min(0, "Rebate cannot be negative").max(500000).optional(),
 
@@ -108,6 +122,30 @@ export const FilterDataSchema = z
       .nullable(),
 
     vin: z.string().max(17).default(""),
+
+    coBuyerCreditScore: z
+      .number()
+      .int("Co-buyer credit score must be an integer")
+      .min(300, "Co-buyer credit score must be at least 300")
+      .max(850, "Co-buyer credit score cannot exceed 850")
+      .nullable()
+      .optional(),
+
+    coBuyerMonthlyIncome: z
+      .number()
+      .min(0, "Co-buyer income cannot be negative")
+      .max(1000000, "Co-buyer income seems unrealistically high")
+      .nullable()
+      .optional(),
+
+    coBuyerMonthlyDebt: z.number().min(0, "Co-buyer debt cannot be negative").nullable().optional(),
+
+    openAutoLoans: z
+      .number()
+      .int("Open auto loans must be a whole number")
+      .min(0, "Open auto loans cannot be negative")
+      .nullable()
+      .optional(),
   })
   .strict();
 
@@ -133,6 +171,11 @@ export const SavedDealSchema = z
     customerFilters: z.object({
       creditScore: z.number().int().min(300).max(850).nullable(),
       monthlyIncome: z.number().min(0).nullable(),
+      monthlyDebt: z.number().min(0).nullable().optional(),
+      coBuyerCreditScore: z.number().int().min(300).max(850).nullable().optional(),
+      coBuyerMonthlyIncome: z.number().min(0).nullable().optional(),
+      coBuyerMonthlyDebt: z.number().min(0).nullable().optional(),
+      openAutoLoans: z.number().int().min(0).nullable().optional(),
     }),
 
     notes: z.string().max(5000).optional(),
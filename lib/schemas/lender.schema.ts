@@ -1,4 +1,38 @@
 import { z } from "zod";
+import { validateLenderRule } from "../../services/lenderRules";
+
+/**
+ * Zod schema for a custom lender rule; the condition must parse
+ */
+export const LenderRuleSchema = z
+  .object({
+    when: z.string().min(1, "Rule condition is required"),
+    outcome: z.enum(["ineligible", "pending-stip", "rate-adder"]),
+    rateAdder: z.number().min(-10).max(10).optional(),
+    message: z.string().optional(),
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    const problem = validateLenderRule(rule);
+    if (problem) ctx.addIssue({ code: "custom", message: problem, path: ["when"] });
+  });
+
+/**
+ * Zod schema for one cell of a tier's rate adder grids
+ */
+export const RateAdderCellSchema = z
+  .object({
+    minFico: z.number().int().min(300).max(850).optional(),
+    maxFico: z.number().int().min(300).max(850).optional(),
+    minTerm: z.number().int().min(6).max(120).optional(),
+    maxTerm: z.number().int().min(6).max(120).optional(),
+    minLtv: z.number().min(0).max(200).optional(),
+    maxLtv: z.number().min(0).max(200).optional(),
+    minMileage: z.number().int().min(0).optional(),
+    maxMileage: z.number().int().min(0).max(500000).optional(),
+    adder: z.number().min(-10).max(10),
+  })
+  .strict();
 
 /**
  * Zod schema for LenderTier runtime validation
@@ -32,9 +66,10 @@ export const RateTierSchema = z
     minMileage: z.number().int().min(0).optional(),
     maxMileage: z.number().int().min(0).max(500000).optional(),
 
-    // Loan term restrictions (months)
-    minTerm: z.number().int().min(6).max(96).optional(),
-    maxTerm: z.number().int().min(6).max(96).optional(),
+    // Loan term restrictions (months). Sheets print terms past the desk's
+    // 96-month deal limit (e.g. 120 on a credit union's top tier).
+    minTerm: z.number().int().min(6).max(120).optional(),
+    maxTerm: z.number().int().min(6).max(120).optional(),
 
     // LTV/Advance fields
     maxLtv: z.number().min(0).max(200).optional(),
@@ -42,6 +77,17 @@ export const RateTierSchema = z
     frontEndLtv: z.number().min(0).max(200).optional(),
     otdLtv: z.number().min(0).max(200).optional(),
     maxAdvance: z.number().min(0).optional(),
+    mileageBookAdjustments: z
+      .array(
+        z
+          .object({
+            minMileage: z.number().int().min(0).optional(),
+            maxMileage: z.number().int().min(0).optional(),
+            amount: z.number(),
+          })
+          .strict()
+      )
+      .optional(),
 
     // Amount financed limits
     minAmountFinanced: z.number().min(0).optional(),
@@ -50,6 +96,14 @@ export const RateTierSchema = z
     // Rate information
     baseInterestRate: z.number().min(0).max(50).optional(),
     rateAdder: z.number().min(-10).max(10).optional(),
+    rateAdders: z
+      .object({
+        creditTerm: z.array(RateAdderCellSchema).optional(),
+        ltv: z.array(RateAdderCellSchema).optional(),
+        mileage: z.array(RateAdderCellSchema).optional(),
+      })
+      .strict()
+      .optional(),
     maxRate: z.number().min(0).max(50).optional(),
 
     // Vehicle type and restrictions
@@ -66,6 +120,15 @@ export const RateTierSchema = z
     maxBackend: z.number().min(0).optional(),
     maxBackendPercent: z.number().min(0).max(100).optional(),
 
+    // Trade limits
+    maxNegativeEquity: z.number().min(0).optional(),
+
+    // Payment structures beyond level monthly
+    allowedStructures: z.array(z.enum(["balloon", "biweekly"])).optional(),
+
+    // Custom rules
+    rules: z.array(LenderRuleSchema).optional(),
+
     // Extraction metadata
     confidence: z.number().min(0).max(1).optional(),
     extractionSource: z.enum(["table", "text", "inferred"]).optional(),
@@ -111,6 +174,32 @@ export const RateTierSchema = z
     { message: "minTerm must be less than or equal to maxTerm" }
   );
 
+/** "YYYY-MM-DD", or blank for an open end */
+const ProgramDateSchema = z
+  .string()
+  .regex(/^(\d{4}-\d{2}-\d{2})?$/, "Dates must be YYYY-MM-DD")
+  .optional();
+
+/**
+ * Zod schema for one dated rate sheet in LenderProfile.programVersions
+ */
+export const LenderProgramVersionSchema = z
+  .object({
+    effectiveFrom: ProgramDateSchema,
+    effectiveTo: ProgramDateSchema,
+    savedAt: z.string().optional(),
+    minIncome: z.number().min(0).optional(),
+    maxPti: z.number().min(0).max(100).optional(),
+    maxDti: z.number().min(0).max(100).optional(),
+    maxBackend: z.number().min(0).optional(),
+    minAmountFinanced: z.number().min(0).optional(),
+    maxAmountFinanced: z.number().min(0).optional(),
+    stipulations: z.string().optional(),
+    rules: z.array(LenderRuleSchema).optional(),
+    tiers: z.array(RateTierSchema),
+  })
+  .strict();
+
 /**
  * Zod schema for LenderProfile runtime validation
  * Validates complete lender profile including all tiers
@@ -123,7 +212,24 @@ export const LenderProfileSchema = z
     bookValueSource: z.enum(["Trade", "Retail"]).optional(),
     minIncome: z.number().min(0).optional(),
     maxPti: z.number().min(0).max(100).optional(),
+    maxDti: z.number().min(0).max(100).optional(),
+    maxBackend: z.number().min(0).optional(),
+    minAmountFinanced: z.number().min(0).optional(),
+    maxAmountFinanced: z.number().min(0).optional(),
+    stipulations: z.string().optional(),
+    reservePct: z.number().min(0).max(100).optional(),
+    maxMarkup: z.number().min(0).max(10).optional(),
+    // Same 0-10 bounds as the PocketBase field (1748000000), so a value the
+    // form accepts is one the server stores.
+    flatReservePct: z.number().min(0).max(10).optional(),
+    fundingDays: z.string().optional(),
+    coBuyerFico: z.enum(["primary", "highest"]).optional(),
+    coBuyerIncome: z.enum(["primary", "combined"]).optional(),
+    rules: z.array(LenderRuleSchema).optional(),
     effectiveDate: z.string().optional(),
+    effectiveFrom: ProgramDateSchema,
+    effectiveTo: ProgramDateSchema,
+    programVersions: z.array(LenderProgramVersionSchema).optional(),
     contactName: z.string().optional(),
     contactPhone: z.string().optional(),
     contactEmail: z.string().optional(),
@@ -52,6 +52,13 @@ describe("validateLenderProfile", () => {
     const result = validateLenderProfile(profile);
     expect(result.success).toBe(false);
   });
+
+  it("should bound flat reserve the way the lender_profiles field does", () => {
+    const profile = { name: "Test Bank", tiers: [{ name: "Tier 1" }] };
+
+    expect(validateLenderProfile({ ...profile, flatReservePct: 10 }).success).toBe(true);
+    expect(validateLenderProfile({ ...profile, flatReservePct: 12 }).success).toBe(false);
+  });
 });
 
 describe("validateRateTier", () => {
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAmortizationSchedule,
+  buildDealAmortization,
+  projectBookValue,
+  summarizeByYear,
+} from "./amortization";
+import { calculateMonthlyPayment } from "./calculator";
+import type { CalculatedVehicle } from "../types";
+
+const schedule = (...args: Parameters<typeof buildAmortizationSchedule>) => {
+  const result = buildAmortizationSchedule(...args);
+  if (result === "Error") throw new Error("expected a schedule");
+  return result;
+};
+
+describe("projectBookValue", () => {
+  it("loses the first-year rate over 12 months, then the later-year rate", () => {
+    expect(projectBookValue(20000, 0)).toBe(20000);
+    expect(projectBookValue(20000, 12)).toBe(17000);
+    expect(projectBookValue(20000, 24)).toBe(15300);
+  });
+});
+
+describe("buildAmortizationSchedule", () => {
+  it("uses the calculator's payment and pays the loan to exactly zero", () => {
+    const s = schedule(30000, 6, 60, 26000);
+    expect(s.payment).toBe(calculateMonthlyPayment(30000, 6, 60));
+    expect(s.rows).toHaveLength(60);
+    expect(s.rows[0]).toMatchObject({ interest: 150, principal: 429.98, balance: 29570.02 });
+    expect(s.rows[59]!.balance).toBe(0);
+    expect(s.totalInterest).toBe(4799.09);
+    expect(s.totalPaid).toBe(34799.09);
+  });
+
+  it("balances principal against the amount financed", () => {
+    const s = schedule(18750.55, 11.49, 72);
+    const principal = s.rows.reduce((sum, row) => sum + row.principal, 0);
+    expect(principal).toBeCloseTo(18750.55, 2);
+    expect(s.totalPaid).toBeCloseTo(18750.55 + s.totalInterest, 2);
+  });
+
+  it("finds the month the customer crosses into positive equity", () => {
+    const s = schedule(30000, 6, 60, 26000);
+    expect(s.startingEquity).toBe(-4000);
+    expect(s.positiveEquityMonth).toBe(22);
+    expect(s.rows[20]!.equity).toBeLessThan(0);
+    expect(s.rows[21]!.equity).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports month 0 for a deal that starts in positive equity", () => {
+    expect(schedule(12000, 0, 12, 15000).positiveEquityMonth).toBe(0);
+  });
+
+  it("leaves equity null without a book value", () => {
+    const s = schedule(10000, 5, 36);
+    expect(s.positiveEquityMonth).toBeNull();
+    expect(s.rows[0]!.bookValue).toBeNull();
+    expect(s.rows[0]!.equity).toBeNull();
+  });
+
+  it("carries a balloon to the final month", () => {
+    const s = schedule(30000, 6, 60, null, undefined, 10000);
+    expect(s.payment).toBe(436.66);
+    expect(s.balloon).toBe(10000);
+    expect(s.rows[58]!.balance).toBeGreaterThan(10000);
+    expect(s.rows[59]!.payment).toBeCloseTo(436.66 + 10000, 0);
+    expect(s.rows[59]!.balance).toBe(0);
+  });
+
+  it("rejects the inputs calculateMonthlyPayment rejects", () => {
+    expect(buildAmortizationSchedule(10000, -1, 36)).toBe("Error");
+    expect(buildAmortizationSchedule(10000, 5, 0)).toBe("Error");
+  });
+});
+
+describe("buildDealAmortization", () => {
+  const vehicle = {
+    amountToFinance: 30000,
+    jdPower: 26000,
+  } as CalculatedVehicle;
+
+  it("amortizes the amount financed against the trade book", () => {
+    const s = buildDealAmortization(vehicle, { interestRate: 6, loanTerm: 60 })!;
+    expect(s.principal).toBe(30000);
+    expect(s.startingBookValue).toBe(26000);
+  });
+
+  it("applies a balloon and skips biweekly deals", () => {
+    const deal = { interestRate: 6, loanTerm: 60, balloonAmount: 10000 };
+    expect(buildDealAmortization(vehicle, deal)!.balloon).toBe(10000);
+    expect(buildDealAmortization(vehicle, { ...deal, paymentFrequency: "biweekly" })).toBeNull();
+  });
+
+  it("returns null without a rate or a financed amount", () => {
+    expect(buildDealAmortization(vehicle, { interestRate: "", loanTerm: 60 })).toBeNull();
+    expect(
+      buildDealAmortization(
+        { ...vehicle, amountToFinance: "Error" },
+        {
+          interestRate: 6,
+          loanTerm: 60,
+        }
+      )
+    ).toBeNull();
+  });
+});
+
+describe("summarizeByYear", () => {
+  it("rolls months into loan years, including a partial final year", () => {
+    const s = schedule(30000, 6, 66, 26000);
+    const years = summarizeByYear(s.rows);
+    expect(years).toHaveLength(6);
+    expect(years[5]!.endingBalance).toBe(0);
+    const interest = years.reduce((sum, y) => sum + y.interest, 0);
+    expect(interest).toBeCloseTo(s.totalInterest, 2);
+  });
+});
@@ -0,0 +1,210 @@
+import type { CalculatedVehicle, DealData } from "../types";
+import { calculatePeriodicPayment, roundCents } from "./calculator";
+import { getPaymentStructure } from "./paymentStructure";
+
+export interface AmortizationRow {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  /** Loan balance after this month's payment. */
+  balance: number;
+  /** Projected book value at the end of the month, or null without a starting book. */
+  bookValue: number | null;
+  /** bookValue − balance; negative while the customer is upside down. */
+  equity: number | null;
+}
+
+export interface AmortizationSchedule {
+  principal: number;
+  annualRate: number;
+  termMonths: number;
+  payment: number;
+  /** Balloon paid with the final month; 0 for a fully amortizing loan. */
+  balloon: number;
+  rows: AmortizationRow[];
+  totalInterest: number;
+  totalPaid: number;
+  /** Book value at month 0, or null when the vehicle has no book. */
+  startingBookValue: number | null;
+  /** Book minus amount financed at delivery. */
+  startingEquity: number | null;
+  /**
+   * First month whose projected book covers the remaining balance. 0 when the
+   * deal starts in positive equity; null when there is no book to compare or
+   * the curve never crosses the balance within the term.
+   */
+  positiveEquityMonth: number | null;
+}
+
+/**
+ * Annual depreciation used for payoff projections. Book value loses
+ * `firstYearPct` over the first 12 months and `laterYearPct` per year after,
+ * compounded monthly so the curve is smooth. These are deliberately generic
+ * used-vehicle figures, not a valuation guide — the projection is a customer
+ * conversation aid, not a trade appraisal.
+ */
+export interface DepreciationCurve {
+  firstYearPct: number;
+  laterYearPct: number;
+}
+
+export const DEFAULT_DEPRECIATION_CURVE: DepreciationCurve = {
+  firstYearPct: 15,
+  laterYearPct: 10,
+};
+
+const monthlyRetention = (annualPct: number): number =>
+  Math.pow(1 - Math.min(Math.max(annualPct, 0), 100) / 100, 1 / 12);
+
+/** Projected book value `month` months after delivery. */
+export const projectBookValue = (
+  startingBook: number,
+  month: number,
+  curve: DepreciationCurve = DEFAULT_DEPRECIATION_CURVE
+): number => {
+  const firstYearMonths = Math.min(month, 12);
+  const laterMonths = Math.max(0, month - 12);
+  return roundCents(
+    startingBook *
+      Math.pow(monthlyRetention(curve.firstYearPct), firstYearMonths) *
+      Math.pow(monthlyRetention(curve.laterYearPct), laterMonths)
+  );
+};
+
+/**
+ * Month-by-month amortization for a simple-interest retail installment loan,
+ * using the same rounded payment as calculateMonthlyPayment. Interest is
+ * rounded to cents each month and the final payment absorbs the rounding
+ * drift so the balance lands exactly on zero. With a balloon, the final
+ * payment also pays the balloon.
+ *
+ * Returns "Error" for the same inputs calculatePeriodicPayment rejects.
+ */
+export const buildAmortizationSchedule = (
+  principal: number,
+  annualRate: number,
+  termMonths: number,
+  startingBook: number | null = null,
+  curve: DepreciationCurve = DEFAULT_DEPRECIATION_CURVE,
+  balloon = 0
+): AmortizationSchedule | "Error" => {
+  const payment = calculatePeriodicPayment(principal, annualRate, termMonths, 12, balloon);
+  if (payment === "Error") return "Error";
+
+  const term = Math.floor(termMonths);
+  const monthlyRate = annualRate / 100 / 12;
+  const book = startingBook !== null && startingBook > 0 ? startingBook : null;
+  const startingEquity = book === null ? null : roundCents(book - Math.max(0, principal));
+
+  const rows: AmortizationRow[] = [];
+  let balance = roundCents(Math.max(0, principal));
+  let totalInterest = 0;
+  let totalPaid = 0;
+  let positiveEquityMonth: number | null =
+    startingEquity !== null && startingEquity >= 0 ? 0 : null;
+
+  for (let month = 1; month <= term && balance > 0; month++) {
+    const interest = roundCents(balance * monthlyRate);
+    const isLast = month === term;
+    const principalPaid = isLast
+      ? balance
+      : roundCents(Math.min(balance, Math.max(0, payment - interest)));
+    const paid = roundCents(principalPaid + interest);
+    balance = roundCents(balance - principalPaid);
+
+    const bookValue = book === null ? null : projectBookValue(book, month, curve);
+    const equity = bookValue === null ? null : roundCents(bookValue - balance);
+    if (positiveEquityMonth === null && equity !== null && equity >= 0) {
+      positiveEquityMonth = month;
+    }
+
+    totalInterest += interest;
+    totalPaid += paid;
+    rows.push({
+      month,
+      payment: paid,
+      principal: principalPaid,
+      interest,
+      balance,
+      bookValue,
+      equity,
+    });
+  }
+
+  return {
+    principal: roundCents(Math.max(0, principal)),
+    annualRate,
+    termMonths: term,
+    payment,
+    balloon: principal > 0 ? roundCents(balloon) : 0,
+    rows,
+    totalInterest: roundCents(totalInterest),
+    totalPaid: roundCents(totalPaid),
+    startingBookValue: book,
+    startingEquity,
+    positiveEquityMonth,
+  };
+};
+
+/**
+ * Schedule for a calculated deal: amount financed at the deal's APR and term,
+ * with equity measured against the vehicle's trade book (jdPower). Returns null
+ * when the deal has no financed amount or no explicit rate, and for biweekly
+ * deals, which this month-by-month schedule cannot represent.
+ */
+export const buildDealAmortization = (
+  vehicle: CalculatedVehicle,
+  dealData: Pick<DealData, "interestRate" | "loanTerm" | "balloonAmount" | "paymentFrequency">,
+  curve: DepreciationCurve = DEFAULT_DEPRECIATION_CURVE
+): AmortizationSchedule | null => {
+  if (typeof vehicle.amountToFinance !== "number" || vehicle.amountToFinance <= 0) return null;
+  if (dealData.interestRate === "") return null;
+  const structure = getPaymentStructure(dealData);
+  if (structure.frequency !== "monthly") return null;
+  const book = typeof vehicle.jdPower === "number" ? vehicle.jdPower : null;
+  const schedule = buildAmortizationSchedule(
+    vehicle.amountToFinance,
+    Number(dealData.interestRate),
+    Number(dealData.loanTerm),
+    book,
+    curve,
+    roundCents(structure.balloon)
+  );
+  return schedule === "Error" ? null : schedule;
+};
+
+export interface AmortizationYear {
+  year: number;
+  principal: number;
+  interest: number;
+  endingBalance: number;
+  endingBookValue: number | null;
+  endingEquity: number | null;
+}
+
+/** Roll the monthly rows up into loan years for compact displays (PDF). */
+export const summarizeByYear = (rows: AmortizationRow[]): AmortizationYear[] => {
+  const years: AmortizationYear[] = [];
+  for (const row of rows) {
+    const year = Math.ceil(row.month / 12);
+    let entry = years[years.length - 1];
+    if (!entry || entry.year !== year) {
+      entry = {
+        year,
+        principal: 0,
+        interest: 0,
+        endingBalance: 0,
+        endingBookValue: null,
+        endingEquity: null,
+      };
+      years.push(entry);
+    }
+    entry.principal = roundCents(entry.principal + row.principal);
+    entry.interest = roundCents(entry.interest + row.interest);
+    entry.endingBalance = row.balance;
+    entry.endingBookValue = row.bookValue;
+    entry.endingEquity = row.equity;
+  }
+  return years;
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { SavedDeal } from "../types";
+import {
+  approvalOutcomes,
+  brierScore,
+  fitApprovalCalibration,
+  normalizeApprovalCalibration,
+  predictedApproval,
+  reliabilityBuckets,
+  type ApprovalOutcome,
+} from "./approvalCalibration";
+import { approvalComponents } from "./approvalScorer";
+
+const outcome = (fico: number, otdLtv: number, approved: boolean): ApprovalOutcome => ({
+  components: approvalComponents({ fico, otdLtv, payment: 450, income: 5000 }),
+  approved,
+});
+
+/** 60 deals where credit decides the lender's answer and LTV is noise. */
+const creditDrivenHistory = (): ApprovalOutcome[] =>
+  Array.from({ length: 60 }, (_, i) => {
+    const fico = 500 + ((i * 37) % 300);
+    const otdLtv = 90 + ((i * 13) % 50);
+    return outcome(fico, otdLtv, fico >= 640);
+  });
+
+const deal = (status: string, fico: number, otdLtv: number): SavedDeal =>
+  ({
+    id: `${status}-${fico}`,
+    date: "2026-10-01",
+    customerName: "Test",
+    salespersonName: "Desk",
+    vehicle: { otdLtv, monthlyPayment: 400 },
+    dealData: {},
+    customerFilters: { creditScore: fico, monthlyIncome: 4000 },
+    status,
+  }) as unknown as SavedDeal;
+
+describe("approvalOutcomes", () => {
+  it("keeps decided deals and scores them from the saved snapshot", () => {
+    const outcomes = approvalOutcomes([
+      deal("funded", 720, 100),
+      deal("approved", 680, 110),
+      deal("declined", 540, 140),
+      deal("cancelled", 700, 100),
+      deal("submitted", 700, 100),
+    ]);
+
+    expect(outcomes.map((o) => o.approved)).toEqual([true, true, false]);
+    expect(outcomes[0]?.components).toEqual(
+      approvalComponents({ fico: 720, otdLtv: 100, payment: 400, income: 4000 })
+    );
+  });
+});
+
+describe("fitApprovalCalibration", () => {
+  it("refuses to fit a thin or one-sided history", () => {
+    const thin = fitApprovalCalibration(creditDrivenHistory().slice(0, 20));
+    expect(thin.ok).toBe(false);
+
+    const oneSided = fitApprovalCalibration(
+      Array.from({ length: 40 }, (_, i) => outcome(600 + i, 100, i >= 2))
+    );
+    expect(oneSided).toEqual({
+      ok: false,
+      error: "Need at least 5 approved and 5 declined deals; have 38 and 2.",
+    });
+  });
+
+  it("learns which component drives approvals and beats the default Brier score", () => {
+    const history = creditDrivenHistory();
+    const fit = fitApprovalCalibration(history, new Date("2026-10-19T12:00:00.000Z"));
+    if (!fit.ok) throw new Error(fit.error);
+    const { calibration } = fit;
+
+    expect(calibration.sampleSize).toBe(60);
+    expect(calibration.approved + calibration.declined).toBe(60);
+    expect(calibration.fittedAt).toBe("2026-10-19T12:00:00.000Z");
+    expect(calibration.weights.credit).toBeGreaterThan(calibration.weights.ltv);
+    expect(
+      calibration.weights.credit + calibration.weights.ltv + calibration.weights.pti
+    ).toBeCloseTo(1, 10);
+    expect(calibration.brier).toBeLessThan(calibration.defaultBrier);
+    expect(brierScore(history, calibration)).toBeCloseTo(calibration.brier, 10);
+
+    expect(predictedApproval(outcome(780, 120, true).components, calibration)).toBeGreaterThan(
+      predictedApproval(outcome(540, 120, false).components, calibration)
+    );
+    expect(fitApprovalCalibration(history, new Date("2026-10-19T12:00:00.000Z"))).toEqual(fit);
+  });
+});
+
+describe("reliabilityBuckets", () => {
+  it("groups outcomes by predicted probability with the observed rate", () => {
+    const history = creditDrivenHistory();
+    const buckets = reliabilityBuckets(history);
+
+    expect(buckets.map((b) => [b.from, b.to])).toEqual([
+      [0, 20],
+      [20, 40],
+      [40, 60],
+      [60, 80],
+      [80, 100],
+    ]);
+    expect(buckets.reduce((sum, b) => sum + b.count, 0)).toBe(history.length);
+    for (const bucket of buckets) {
+      if (bucket.count === 0) {
+        expect(bucket.predicted).toBeNull();
+      } else {
+        expect(bucket.predicted).toBeGreaterThanOrEqual(bucket.from);
+        expect(bucket.predicted).toBeLessThanOrEqual(bucket.to);
+      }
+    }
+  });
+});
+
+describe("normalizeApprovalCalibration", () => {
+  it("rejects malformed values and fills missing metadata", () => {
+    expect(normalizeApprovalCalibration(null)).toBeNull();
+    expect(normalizeApprovalCalibration({ weights: { credit: 1 }, curve: {} })).toBeNull();
+    expect(
+      normalizeApprovalCalibration({
+        weights: { credit: 0.5, ltv: 0.3, pti: 0.2 },
+        curve: { intercept: -4, slope: 7 },
+      })
+    ).toEqual({
+      weights: { credit: 0.5, ltv: 0.3, pti: 0.2 },
+      curve: { intercept: -4, slope: 7 },
+      sampleSize: 0,
+      approved: 0,
+      declined: 0,
+      brier: 0,
+      defaultBrier: 0,
+      fittedAt: "",
+    });
+  });
+});
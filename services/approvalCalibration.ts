@@ -0,0 +1,235 @@
+import { asPipelineDeal, pipelineMetricsFromCalculatedData } from "../lib/dealMappers";
+import type { ApprovalCalibration, SavedDeal } from "../types";
+import {
+  APPROVAL_CONFIG,
+  approvalComponents,
+  weightedApprovalScore,
+  type ApprovalComponents,
+} from "./approvalScorer";
+import { resolveApplicantCredit } from "./coBuyer";
+
+/**
+ * approvalCalibration — fits the approval-odds model to one dealership's own
+ * history. Every decided saved deal (approved or funded = 1, declined = 0)
+ * contributes its credit/LTV/PTI components from the default curves; a
+ * logistic regression with non-negative coefficients turns them into
+ * component weights plus a curve mapping the weighted score to a probability.
+ * Pending, submitted and cancelled deals are left out: a customer who walked
+ * says nothing about the lender.
+ *
+ * Nothing refits on its own. An admin runs the fit from Reports, the result
+ * is stored on dealer_settings.approvalCalibration (1748000007), and the
+ * scorer falls back to APPROVAL_CONFIG while there is none.
+ */
+
+/** Below either floor the fit is refused and the default formula stays. */
+export const CALIBRATION_MIN = { outcomes: 30, perClass: 5 } as const;
+
+export interface ApprovalOutcome {
+  components: ApprovalComponents;
+  approved: boolean;
+}
+
+const finite = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * The decided deals as model inputs. LTV and payment come from the metric
+ * snapshot written at save time, falling back to the saved vehicle.
+ */
+export const approvalOutcomes = (deals: SavedDeal[]): ApprovalOutcome[] => {
+  const outcomes: ApprovalOutcome[] = [];
+  for (const deal of deals) {
+    const { status, calculatedData } = asPipelineDeal(deal);
+    if (status !== "approved" && status !== "funded" && status !== "declined") continue;
+    const metrics = pipelineMetricsFromCalculatedData(calculatedData);
+
+    const vehicle = deal.vehicleSnapshot ?? deal.vehicle;
+    const applicant = resolveApplicantCredit(deal.customerFilters ?? {});
+    const income =
+      applicant.monthlyIncome !== null && applicant.monthlyIncome > 0
+        ? applicant.monthlyIncome
+        : null;
+    outcomes.push({
+      approved: status !== "declined",
+      components: approvalComponents({
+        fico: applicant.creditScore,
+        otdLtv: metrics.otdLtv ?? finite(vehicle?.otdLtv),
+        payment: metrics.payment ?? finite(vehicle?.monthlyPayment),
+        income,
+      }),
+    });
+  }
+  return outcomes;
+};
+
+/** Approval probability (0–1) under the fitted model, or the default score read as one. */
+export const predictedApproval = (
+  components: ApprovalComponents,
+  calibration?: ApprovalCalibration | null
+): number => clamp(weightedApprovalScore(components, calibration) / 100, 0, 1);
+
+/** Mean squared error of the predicted probabilities; 0 is perfect, 0.25 is a coin flip. */
+export const brierScore = (
+  outcomes: ApprovalOutcome[],
+  calibration?: ApprovalCalibration | null
+): number | null => {
+  if (outcomes.length === 0) return null;
+  const total = outcomes.reduce((sum, outcome) => {
+    const error = predictedApproval(outcome.components, calibration) - (outcome.approved ? 1 : 0);
+    return sum + error * error;
+  }, 0);
+  return total / outcomes.length;
+};
+
+export interface ReliabilityBucket {
+  /** Predicted-probability range, in percent. */
+  from: number;
+  to: number;
+  count: number;
+  /** Mean predicted and observed approval rates, in percent; null when empty. */
+  predicted: number | null;
+  observed: number | null;
+}
+
+/**
+ * Reliability table: outcomes grouped by predicted probability, with the
+ * share actually approved in each group. A well-calibrated model has
+ * observed ≈ predicted in every bucket.
+ */
+export const reliabilityBuckets = (
+  outcomes: ApprovalOutcome[],
+  calibration?: ApprovalCalibration | null,
+  bucketCount = 5
+): ReliabilityBucket[] => {
+  const sums = Array.from({ length: bucketCount }, () => ({ count: 0, p: 0, y: 0 }));
+  for (const outcome of outcomes) {
+    const p = predictedApproval(outcome.components, calibration);
+    const bucket = sums[Math.min(bucketCount - 1, Math.floor(p * bucketCount))];
+    if (!bucket) continue;
+    bucket.count += 1;
+    bucket.p += p;
+    bucket.y += outcome.approved ? 1 : 0;
+  }
+  return sums.map(({ count, p, y }, i) => ({
+    from: (i * 100) / bucketCount,
+    to: ((i + 1) * 100) / bucketCount,
+    count,
+    predicted: count > 0 ? (p / count) * 100 : null,
+    observed: count > 0 ? (y / count) * 100 : null,
+  }));
+};
+
+export type CalibrationFit =
+  | { ok: true; calibration: ApprovalCalibration }
+  | { ok: false; error: string };
+
+const COMPONENTS = ["credit", "ltv", "pti"] as const;
+
+const FIT = { iterations: 4000, learningRate: 1, l2: 0.01, tolerance: 1e-7 } as const;
+
+/**
+ * Logistic regression of approval on the three components (scaled to 0–1),
+ * by projected gradient descent. Coefficients are held at or above zero so a
+ * better credit, LTV or PTI component can never lower the odds; the small L2
+ * penalty keeps a near-separable history from running the curve to infinity.
+ * Deterministic: the same outcomes always give the same fit.
+ */
+export const fitApprovalCalibration = (
+  outcomes: ApprovalOutcome[],
+  now: Date = new Date()
+): CalibrationFit => {
+  const approved = outcomes.filter((outcome) => outcome.approved).length;
+  const declined = outcomes.length - approved;
+  if (outcomes.length < CALIBRATION_MIN.outcomes) {
+    return {
+      ok: false,
+      error: `Need ${CALIBRATION_MIN.outcomes} decided deals to calibrate; ${outcomes.length} so far.`,
+    };
+  }
+  if (Math.min(approved, declined) < CALIBRATION_MIN.perClass) {
+    return {
+      ok: false,
+      error: `Need at least ${CALIBRATION_MIN.perClass} approved and ${CALIBRATION_MIN.perClass} declined deals; have ${approved} and ${declined}.`,
+    };
+  }
+
+  const rows = outcomes.map(({ components, approved: y }) => ({
+    x: {
+      credit: components.credit / 100,
+      ltv: components.ltv / 100,
+      pti: components.pti / 100,
+    },
+    y: y ? 1 : 0,
+  }));
+  let intercept = 0;
+  const beta = { credit: 0, ltv: 0, pti: 0 };
+  for (let iteration = 0; iteration < FIT.iterations; iteration++) {
+    let gradIntercept = 0;
+    const grad = { credit: 0, ltv: 0, pti: 0 };
+    for (const { x, y } of rows) {
+      const error =
+        sigmoid(intercept + beta.credit * x.credit + beta.ltv * x.ltv + beta.pti * x.pti) - y;
+      gradIntercept += error;
+      for (const key of COMPONENTS) grad[key] += error * x[key];
+    }
+    let step = Math.abs(gradIntercept / rows.length);
+    intercept -= (FIT.learningRate * gradIntercept) / rows.length;
+    for (const key of COMPONENTS) {
+      const next = Math.max(
+        0,
+        beta[key] - FIT.learningRate * (grad[key] / rows.length + FIT.l2 * beta[key])
+      );
+      step = Math.max(step, Math.abs(next - beta[key]));
+      beta[key] = next;
+    }
+    if (step < FIT.tolerance) break;
+  }
+
+  const slope = beta.credit + beta.ltv + beta.pti;
+  const weights =
+    slope > 0
+      ? { credit: beta.credit / slope, ltv: beta.ltv / slope, pti: beta.pti / slope }
+      : { ...APPROVAL_CONFIG.weights };
+  const fitted: ApprovalCalibration = {
+    weights,
+    curve: { intercept, slope },
+    sampleSize: outcomes.length,
+    approved,
+    declined,
+    brier: 0,
+    defaultBrier: brierScore(outcomes) ?? 0,
+    fittedAt: now.toISOString(),
+  };
+  return { ok: true, calibration: { ...fitted, brier: brierScore(outcomes, fitted) ?? 0 } };
+};
+
+/** A stored calibration, or null when the value is missing or malformed. */
+export const normalizeApprovalCalibration = (value: unknown): ApprovalCalibration | null => {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const weights = (rec.weights ?? {}) as Record<string, unknown>;
+  const curve = (rec.curve ?? {}) as Record<string, unknown>;
+  const credit = finite(weights.credit);
+  const ltv = finite(weights.ltv);
+  const pti = finite(weights.pti);
+  const intercept = finite(curve.intercept);
+  const slope = finite(curve.slope);
+  if (credit === null || ltv === null || pti === null || intercept === null || slope === null) {
+    return null;
+  }
+  return {
+    weights: { credit, ltv, pti },
+    curve: { intercept, slope },
+    sampleSize: finite(rec.sampleSize) ?? 0,
+    approved: finite(rec.approved) ?? 0,
+    declined: finite(rec.declined) ?? 0,
+    brier: finite(rec.brier) ?? 0,
+    defaultBrier: finite(rec.defaultBrier) ?? 0,
+    fittedAt: typeof rec.fittedAt === "string" ? rec.fittedAt : "",
+  };
+};
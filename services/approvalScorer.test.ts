@@ -104,6 +104,14 @@ describe("approvalScorer (mockup formula + retained hardening)", () => {
       expect(r.internalScore).toBeLessThanOrEqual(35);
       expect(r.band).toBe("weak");
     });
+
+    it("measures PTI against combined income on a joint application", () => {
+      // 250 / (1000 + 1500) = 10%, clear of both caps; the score stays the primary's.
+      const joint = { creditScore: 850, monthlyIncome: 1000, coBuyerMonthlyIncome: 1500 };
+      const r = scoreApprovalOdds(mkVehicle(80, 250), joint, 8);
+      expect(r.ptiRatio).toBeCloseTo(10, 5);
+      expect(r.internalScore).toBeGreaterThan(55);
+    });
   });
 
   describe("eligibility cap (retained hardening)", () => {
@@ -185,4 +193,47 @@ describe("approvalScorer (mockup formula + retained hardening)", () => {
       expect(BAND_META.strong.label).toMatch(/Strong/);
     });
   });
+
+  describe("dealer calibration", () => {
+    const calibration = {
+      weights: { credit: 1, ltv: 0, pti: 0 },
+      curve: { intercept: -5, slope: 10 },
+      sampleSize: 120,
+      approved: 80,
+      declined: 40,
+      brier: 0.12,
+      defaultBrier: 0.2,
+      fittedAt: "2026-10-19T12:00:00.000Z",
+    };
+
+    it("uses the fitted weights and maps the weighted score through the curve", () => {
+      // fico 650 → credit component 50 → p = 1 / (1 + e^-(−5 + 10 · 0.5)) = 0.5
+      const r = scoreApprovalOdds(
+        mkVehicle(160),
+        { creditScore: 650, monthlyIncome: null },
+        2,
+        calibration
+      );
+      expect(r.internalScore).toBe(50);
+      expect(r.band).toBe("moderate");
+    });
+
+    it("still applies the PTI and no-fit caps", () => {
+      const r = scoreApprovalOdds(
+        mkVehicle(100, 1500),
+        { creditScore: 820, monthlyIncome: 5000 },
+        0,
+        calibration
+      );
+      expect(r.internalScore).toBe(35);
+      expect(r.band).toBe("none");
+    });
+
+    it("falls back to the default formula without one", () => {
+      const deal = { creditScore: 589, monthlyIncome: null };
+      expect(scoreApprovalOdds(mkVehicle(100), deal, 3, null).internalScore).toBe(
+        scoreApprovalOdds(mkVehicle(100), deal, 3).internalScore
+      );
+    });
+  });
 });
@@ -1,4 +1,5 @@
-import type { CalculatedVehicle, FilterData, ApprovalBand } from "../types";
+import type { ApprovalCalibration, CalculatedVehicle, FilterData, ApprovalBand } from "../types";
+import { resolveApplicantCredit } from "./coBuyer";
 
 /**
  * Centralized, tunable config for the approval-odds model. Everything that moves
@@ -12,11 +13,14 @@ import type { CalculatedVehicle, FilterData, ApprovalBand } from "../types";
  * caps, the no-fit cap + reasons, and neutral-50 for missing fico/ltv.
  * [reconciliation 1]
  *
- * IMPORTANT: the score is an internal staff aid — NOT a calibrated probability
- * and NOT a credit decision. Components are normalized to 0-100 BEFORE weighting
- * (so the labeled weights are the real weights), and the displayed band is
- * additionally capped by live lender eligibility, so the gauge can never
- * contradict the rules engine. [WS-C]
+ * IMPORTANT: the score is an internal staff aid — NOT a credit decision, and
+ * NOT a calibrated probability unless the dealer has fitted one from its own
+ * history (services/approvalCalibration.ts), which swaps the weights and maps
+ * the weighted score through a logistic curve before the same caps apply.
+ * Components are normalized to 0-100 BEFORE weighting (so the labeled weights
+ * are the real weights), and the displayed band is additionally capped by
+ * live lender eligibility, so the gauge can never contradict the rules
+ * engine. [WS-C]
  */
 export const APPROVAL_CONFIG = {
   // Mockup weighting (LTV-led — the desk's core structuring lever).
@@ -40,6 +44,56 @@ const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n
 const num = (v: number | "Error" | "N/A"): number | null =>
   typeof v === "number" && Number.isFinite(v) ? v : null;
 
+export interface ApprovalInputs {
+  fico: number | null;
+  otdLtv: number | null;
+  payment: number | null;
+  /** Monthly income; null when unknown or not positive. */
+  income: number | null;
+}
+
+export interface ApprovalComponents {
+  credit: number;
+  ltv: number;
+  pti: number;
+  ptiRatio?: number;
+}
+
+/** The three 0-100 components the score weights, from the config curves. */
+export const approvalComponents = ({
+  fico,
+  otdLtv,
+  payment,
+  income,
+}: ApprovalInputs): ApprovalComponents => {
+  const C = APPROVAL_CONFIG;
+  const credit =
+    fico === null
+      ? 50
+      : clamp(((fico - C.fico.floor) / (C.fico.ceil - C.fico.floor)) * 100, 0, 100);
+  const ltv =
+    otdLtv === null ? 50 : clamp(C.ltv.base - (otdLtv - C.ltv.pivot) * C.ltv.slope, 0, C.ltv.max);
+  if (income === null || payment === null) return { credit, ltv, pti: C.pti.unknown };
+  const ptiRatio = (payment / income) * 100;
+  const pti = clamp(100 - Math.max(0, ptiRatio - C.pti.freeUpTo) * C.pti.slope, 0, 100);
+  return { credit, ltv, pti, ptiRatio };
+};
+
+/**
+ * Weighted 0-100 score before caps. With a dealer calibration the fitted
+ * weights apply and the result is its approval probability × 100.
+ */
+export const weightedApprovalScore = (
+  components: ApprovalComponents,
+  calibration?: ApprovalCalibration | null
+): number => {
+  const w = calibration?.weights ?? APPROVAL_CONFIG.weights;
+  const raw = w.credit * components.credit + w.ltv * components.ltv + w.pti * components.pti;
+  if (!calibration) return raw;
+  const { intercept, slope } = calibration.curve;
+  return 100 / (1 + Math.exp(-(intercept + (slope * raw) / 100)));
+};
+
 export interface ApprovalResult {
   internalScore: number; // 0-100 shown on the gauge (hardened, eligibility-capped)
   band: ApprovalBand;
@@ -49,44 +103,46 @@ export interface ApprovalResult {
 
 /**
  * Score a vehicle's approval odds for the current deal. `fitCount` is the number
- * of active lenders the deal fits (from lenderFit) and caps the result.
+ * of active lenders the deal fits (from lenderFit) and caps the result. PTI
+ * uses combined income on a joint application. `calibration` is the dealer's
+ * fitted model (settings.approvalCalibration); without one the default
+ * formula applies.
  */
 export const scoreApprovalOdds = (
   vehicle: CalculatedVehicle,
-  deal: Pick<FilterData, "creditScore" | "monthlyIncome">,
-  fitCount: number
+  deal: Pick<
+    FilterData,
+    "creditScore" | "monthlyIncome" | "coBuyerCreditScore" | "coBuyerMonthlyIncome"
+  >,
+  fitCount: number,
+  calibration?: ApprovalCalibration | null
 ): ApprovalResult => {
   const C = APPROVAL_CONFIG;
   const reasons: string[] = [];
 
-  const fico = typeof deal.creditScore === "number" ? deal.creditScore : null;
+  // Lender-agnostic, so a joint application reads under the default co-buyer
+  // rules (primary score, combined income).
+  const applicant = resolveApplicantCredit(deal);
+  const fico = applicant.creditScore;
   const otdLtv = num(vehicle.otdLtv);
   const payment = num(vehicle.monthlyPayment);
   const income =
-    typeof deal.monthlyIncome === "number" && deal.monthlyIncome > 0 ? deal.monthlyIncome : null;
+    applicant.monthlyIncome !== null && applicant.monthlyIncome > 0
+      ? applicant.monthlyIncome
+      : null;
 
   // Each component normalized to 0-100 before weighting.
-  const creditComp =
-    fico === null
-      ? 50
-      : clamp(((fico - C.fico.floor) / (C.fico.ceil - C.fico.floor)) * 100, 0, 100);
+  const components = approvalComponents({ fico, otdLtv, payment, income });
+  const { ptiRatio } = components;
   if (fico !== null && fico < 600) reasons.push("Credit score in subprime range");
-
-  const ltvComp =
-    otdLtv === null ? 50 : clamp(C.ltv.base - (otdLtv - C.ltv.pivot) * C.ltv.slope, 0, C.ltv.max);
   if (otdLtv !== null && otdLtv > 125) reasons.push(`OTD LTV high (${Math.round(otdLtv)}%)`);
-
-  let ptiRatio: number | undefined;
-  let ptiComp: number = C.pti.unknown;
-  if (income !== null && payment !== null) {
-    ptiRatio = (payment / income) * 100;
-    ptiComp = clamp(100 - Math.max(0, ptiRatio - C.pti.freeUpTo) * C.pti.slope, 0, 100);
-    if (ptiRatio > 18) reasons.push(`Payment-to-income high (${ptiRatio.toFixed(1)}%)`);
+  if (ptiRatio !== undefined && ptiRatio > 18) {
+    reasons.push(`Payment-to-income high (${ptiRatio.toFixed(1)}%)`);
   } else if (income === null) {
     reasons.push("Monthly income missing; PTI held neutral");
   }
 
-  let score = C.weights.credit * creditComp + C.weights.ltv * ltvComp + C.weights.pti * ptiComp;
+  let score = weightedApprovalScore(components, calibration);
 
   // Affordability veto.
   if (ptiRatio !== undefined && ptiRatio >= C.ptiHardCap.threshold)
@@ -2,8 +2,10 @@ import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
 import {
   calculateMonthlyPayment,
+  calculatePeriodicPayment,
   calculateLoanAmount,
   calculateFinancials,
+  getSalesTaxBreakdown,
   roundCents,
 } from "./calculator";
 import { Vehicle, DealData, Settings } from "../types";
@@ -35,6 +37,27 @@ describe("Calculator Service", () => {
     });
   });
 
+  describe("calculatePeriodicPayment", () => {
+    it("amortizes only the part of the loan the balloon leaves unpaid", () => {
+      // $30,000 at 6% for 60 months with $10,000 due at the end.
+      expect(calculatePeriodicPayment(30000, 6, 60, 12, 10000)).toBe(436.66);
+      expect(calculatePeriodicPayment(30000, 6, 60, 12)).toBe(
+        calculateMonthlyPayment(30000, 6, 60)
+      );
+      expect(calculatePeriodicPayment(30000, 0, 60, 12, 6000)).toBe(400);
+    });
+
+    it("pays biweekly at APR/26", () => {
+      expect(calculatePeriodicPayment(30000, 6, 130, 26)).toBe(267.38);
+    });
+
+    it("treats a balloon equal to the principal as interest-only and rejects a larger one", () => {
+      expect(calculatePeriodicPayment(30000, 6, 60, 12, 30000)).toBe(150);
+      expect(calculatePeriodicPayment(30000, 6, 60, 12, 30001)).toBe("Error");
+      expect(calculatePeriodicPayment(30000, 6, 60, 12, -1)).toBe("Error");
+    });
+  });
+
   describe("calculateLoanAmount", () => {
     it("should calculate correct principal from payment", () => {
       // Reverse of first test: $566.14 at 5% for 60 months -> ~$30,000
@@ -126,6 +149,48 @@ describe("Calculator Service", () => {
       // Amount to Finance should decrease by 5000 equity + tax savings
     });
 
+    it("reports rolled-in negative equity on its own", () => {
+      const upsideDown = { ...mockDealData, tradeInValue: 8000, tradeInPayoff: 11500 };
+      const result = calculateFinancials(mockVehicle, upsideDown, mockSettings);
+      const base = calculateFinancials(mockVehicle, mockDealData, mockSettings);
+      expect(result.negativeEquity).toBe(3500);
+      expect(base.negativeEquity).toBe(0);
+      // The trade credit lowers the tax; the 3500 still rides in the loan.
+      expect(result.amountToFinance).toBeCloseTo(
+        (base.amountToFinance as number) - 8000 * 0.06 + 3500,
+        2
+      );
+    });
+
+    it("quotes balloon and biweekly deals with a payment plan and a monthly equivalent", () => {
+      const level = calculateFinancials(mockVehicle, mockDealData, mockSettings);
+      expect(level.paymentPlan).toBeUndefined();
+
+      const biweekly = calculateFinancials(
+        mockVehicle,
+        { ...mockDealData, paymentFrequency: "biweekly", balloonAmount: 8000 },
+        mockSettings
+      );
+      const financed = biweekly.amountToFinance as number;
+      const payment = calculatePeriodicPayment(financed, 5, 130, 26, 8000) as number;
+      expect(biweekly.paymentPlan).toEqual({
+        frequency: "biweekly",
+        payment,
+        payments: 130,
+        balloon: 8000,
+      });
+      expect(biweekly.monthlyPayment).toBe(roundCents((payment * 26) / 12));
+      expect(biweekly.monthlyPayment).toBeLessThan(level.monthlyPayment as number);
+
+      const tooLarge = calculateFinancials(
+        mockVehicle,
+        { ...mockDealData, balloonAmount: financed + 1 },
+        mockSettings
+      );
+      expect(tooLarge.paymentPlan?.payment).toBe("Error");
+      expect(tooLarge.monthlyPayment).toBe("Error");
+    });
+
     it("should calculate LTV correctly", () => {
       const result = calculateFinancials(mockVehicle, mockDealData, mockSettings);
 
@@ -192,6 +257,82 @@ describe("Calculator Service", () => {
       expect(result.baseOutTheDoorPrice).toBeCloseTo(30000 + 250 + 25 + 1816.5 + 10, 2);
     });
 
+    // --- tax rule table: WI/KY buyers and a non-Michigan dealership ---
+
+    it("taxes a WI buyer at WI's 5% state + 0.5% county, under the MI cap", () => {
+      const deal = { ...mockDealData, stateFees: 0, buyerState: "WI" as const };
+      const result = calculateFinancials(mockVehicle, deal, mockSettings);
+      // taxable 30275 at min(5.5%, 6%) = 5.5% → 1665.13
+      expect(result.salesTax).toBeCloseTo(1665.13, 2);
+    });
+
+    it("taxes a KY buyer at KY's 6% usage tax", () => {
+      const deal = { ...mockDealData, stateFees: 0, buyerState: "KY" as const };
+      const result = calculateFinancials(mockVehicle, deal, mockSettings);
+      expect(result.salesTax).toBeCloseTo(1816.5, 2);
+    });
+
+    it("uses the dealership's home state rules for an in-state buyer", () => {
+      const settings: Settings = {
+        ...mockSettings,
+        homeState: "WI",
+        defaultState: "WI",
+        outOfStateTransitFee: 10,
+      };
+      const deal = { ...mockDealData, stateFees: 0, tradeInValue: 20000 };
+      const result = calculateFinancials(mockVehicle, deal, settings);
+      // WI trade credit is uncapped: (30000 - 20000 + 275) * 5.5% = 565.13;
+      // no transit fee for a buyer in the dealership's own state.
+      expect(result.salesTax).toBeCloseTo(565.13, 2);
+      expect(result.baseOutTheDoorPrice).toBeCloseTo(30000 + 250 + 25 + 565.13, 2);
+    });
+
+    it("treats a Michigan buyer as out-of-state for a WI dealership", () => {
+      const settings: Settings = { ...mockSettings, homeState: "WI", outOfStateTransitFee: 10 };
+      const deal = { ...mockDealData, stateFees: 0, buyerState: "MI" as const };
+      const result = calculateFinancials(mockVehicle, deal, settings);
+      // Lesser of MI 6% and WI 5.5% on 30275, plus the transit fee.
+      expect(result.salesTax).toBeCloseTo(1665.13, 2);
+      expect(result.baseOutTheDoorPrice).toBeCloseTo(30000 + 250 + 25 + 1665.13 + 10, 2);
+    });
+
+    // --- local tax by buyer ZIP/county ---
+
+    it("adds the buyer's county tax for an in-state buyer, line by line", () => {
+      const settings: Settings = { ...mockSettings, homeState: "OH", defaultState: "OH" };
+      const deal = { ...mockDealData, stateFees: 0, buyerZip: "43604" };
+      // 30275 at 5.75% state + 1.5% Lucas County = 2194.94.
+      expect(calculateFinancials(mockVehicle, deal, settings).salesTax).toBeCloseTo(2194.94, 2);
+      const breakdown = getSalesTaxBreakdown(mockVehicle, deal, settings)!;
+      expect(breakdown.jurisdiction?.county).toBe("Lucas");
+      expect(breakdown.lines.map((line) => [line.name, line.amount])).toEqual([
+        ["Ohio state", 1740.81],
+        ["Lucas County", 454.13],
+      ]);
+    });
+
+    it("resolves the county by name when the deal has no ZIP", () => {
+      const settings: Settings = { ...mockSettings, homeState: "OH", defaultState: "OH" };
+      const deal = { ...mockDealData, stateFees: 0, buyerCounty: "Cuyahoga County" };
+      expect(calculateFinancials(mockVehicle, deal, settings).salesTax).toBeCloseTo(2422, 2);
+    });
+
+    it("caps a Florida county surtax at the first $5,000", () => {
+      const settings: Settings = { ...mockSettings, homeState: "FL", defaultState: "FL" };
+      const deal = { ...mockDealData, stateFees: 0, buyerZip: "33130-1234" };
+      const breakdown = getSalesTaxBreakdown(mockVehicle, deal, settings)!;
+      expect(breakdown.lines[1]).toMatchObject({ taxable: 5000, amount: 50 });
+      expect(breakdown.tax).toBeCloseTo(1816.5 + 50, 2);
+    });
+
+    it("still caps a Chicago buyer at Michigan's rate under reciprocity", () => {
+      const deal = { ...mockDealData, stateFees: 0, buyerState: "IL" as const, buyerZip: "60601" };
+      const breakdown = getSalesTaxBreakdown(mockVehicle, deal, mockSettings)!;
+      expect(breakdown.basis).toBe("home-state");
+      expect(breakdown.tax).toBeCloseTo(1816.5, 2);
+      expect(calculateFinancials(mockVehicle, deal, mockSettings).salesTax).toBe(breakdown.tax);
+    });
+
     // --- rebate wiring [WS-C] ---
 
     it("subtracts the rebate from the amount financed without changing the tax", () => {
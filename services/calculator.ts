@@ -6,9 +6,22 @@ import type {
   Settings,
   VehicleCondition,
 } from "../types";
-import { getMiTradeInCreditCap, TAX_RATES } from "../constants";
 import { getBackendProductSplit } from "./backendProducts";
 import { selectBookValue } from "./bookValue";
+import {
+  combinedTaxRate,
+  getHomeState,
+  getStateTaxRule,
+  tradeCreditCapFor,
+  type StateTaxRule,
+} from "./taxRules";
+import { resolveTaxJurisdiction, type TaxJurisdiction } from "./taxJurisdictions";
+import {
+  PERIODS_PER_YEAR,
+  getPaymentStructure,
+  isLevelMonthly,
+  paymentCount,
+} from "./paymentStructure";
 
 /**
  * Round a monetary value to whole cents. All currency leaving the calculator is
@@ -68,6 +81,25 @@ export const getRebateBreakdown = (dealData: Partial<DealData>): RebateBreakdown
     : { manufacturerRebate: legacyRebate, dealerDiscount: 0 };
 };
 
+export interface TradeEquity {
+  /** Trade allowance minus payoff; negative when the customer owes more than the trade is worth. */
+  netTradeIn: number;
+  /** Payoff in excess of the allowance, rolled into the new loan; 0 with positive equity. */
+  negativeEquity: number;
+}
+
+/**
+ * Trade equity for a deal. Lenders cap rolled-in negative equity separately
+ * from LTV, so it is reported on its own rather than only inside the
+ * amount financed.
+ */
+export const getTradeEquity = (
+  dealData: Partial<Pick<DealData, "tradeInValue" | "tradeInPayoff">>
+): TradeEquity => {
+  const netTradeIn = toNumber(dealData.tradeInValue) - toNumber(dealData.tradeInPayoff);
+  return { netTradeIn, negativeEquity: roundCents(Math.max(0, -netTradeIn)) };
+};
+
 export const getTransactionFees = (dealData: Partial<DealData>): number =>
   nonNegative(dealData.transactionFees ?? dealData.transactionFee);
 
@@ -75,20 +107,36 @@ export const calculateMonthlyPayment = (
   principal: number,
   annualRate: number,
   termMonths: number
+): number | "Error" => calculatePeriodicPayment(principal, annualRate, termMonths, 12);
+
+/**
+ * Level payment over `payments` periods at `periodsPerYear` that leaves
+ * `balloon` owing after the last one. calculateMonthlyPayment is the monthly,
+ * no-balloon case. A balloon larger than the principal cannot be reached by
+ * paying down the loan and is an "Error".
+ */
+export const calculatePeriodicPayment = (
+  principal: number,
+  annualRate: number,
+  payments: number,
+  periodsPerYear: number,
+  balloon = 0
 ): number | "Error" => {
-  if (!Number.isFinite(principal) || !Number.isFinite(annualRate) || !Number.isFinite(termMonths)) {
+  if (!Number.isFinite(principal) || !Number.isFinite(annualRate) || !Number.isFinite(payments)) {
     return "Error";
   }
-  if (termMonths <= 0) return "Error"; // Term cannot be zero or negative
+  if (payments <= 0) return "Error"; // Term cannot be zero or negative
   if (principal <= 0) return 0; // No loan, no payment
   if (annualRate < 0) return "Error"; // Rate cannot be negative
+  if (!Number.isFinite(balloon) || balloon < 0 || balloon > principal) return "Error";
 
-  if (annualRate === 0) return roundCents(principal / termMonths);
+  if (annualRate === 0) return roundCents((principal - balloon) / payments);
 
-  const monthlyRate = annualRate / 100 / 12;
-  const payment =
-    (principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths))) /
-    (Math.pow(1 + monthlyRate, termMonths) - 1);
+  const periodRate = annualRate / 100 / periodsPerYear;
+  const growth = Math.pow(1 + periodRate, payments);
+  // Amortize only the present value of what the balloon leaves unpaid.
+  const amortized = principal - balloon / growth;
+  const payment = (amortized * (periodRate * growth)) / (growth - 1);
 
   if (!isFinite(payment) || isNaN(payment)) return "Error";
   return roundCents(payment);
@@ -124,36 +172,104 @@ export const calculateLoanAmount = (
 /**
  * SCOPE OF THE TAX ENGINE [G16]
  *
- * This engine models a Michigan DEALER selling to MI/OH/IN/IL/FL BUYERS. For an
- * out-of-state buyer, Michigan reciprocity applies: the dealer collects
- * the buyer's home-state rate capped at the MI statutory rate. Out-of-state
- * DEALERSHIPS are NOT modeled — the state here is the BUYER's state for a
- * Michigan dealership, not the dealership's own state.
+ * This engine models a DEALER in its home state (Settings.homeState, Michigan
+ * when unset) selling to BUYERS from any state in the tax rule table
+ * (services/taxRules.ts). For an out-of-state buyer the home state's
+ * collection method applies — for Michigan, reciprocity collects the lesser
+ * of the buyer's home-state law and Michigan law (Form 485).
  *
  * Notes on taxable base:
- * - docFee + cvrFee are included in taxableAmount (taxed).
+ * - docFee + cvrFee are included in taxableAmount (taxed) wherever the rule
+ *   marks dealer fees taxable.
  * - stateFees (registration/title etc.) are added to OTD but EXCLUDED from tax base.
  *   (Explicitly not part of taxableAmount = max(0, price - credit) + doc + cvr.)
  * - manufacturer rebates remain taxable and are deducted from amount financed.
  * - dealer discounts reduce selling price before tax.
  * - transaction fees are dealer charges and are included in the taxable base.
  */
-const OUT_OF_STATE_TRADE_CREDIT: Record<Exclude<AppState, "MI">, readonly VehicleCondition[]> = {
-  OH: ["new"],
-  IN: ["new", "used"],
-  IL: ["new", "used"],
-  FL: ["new", "used"],
-};
 
-const outOfStateTradeCredit = (
-  state: Exclude<AppState, "MI">,
+/**
+ * Trade credit a rule allows for this deal, up to the rule's cap. The home
+ * state's credit applies without a known vehicle condition when it covers
+ * both conditions. A buyer state's credit is only used when the deal
+ * explicitly names that state AND the purchased vehicle's condition (Ohio
+ * credits new vehicles only), so an allowance is never assumed.
+ */
+const tradeCreditUnder = (
+  rule: StateTaxRule,
+  settings: Settings,
   tradeInValue: number,
-  buyerStateWasExplicit: boolean,
+  asHomeState: boolean,
+  explicitBuyerState: boolean,
   vehicleCondition?: VehicleCondition
 ): number => {
-  if (!buyerStateWasExplicit || !vehicleCondition) return 0;
-  const supportedConditions = OUT_OF_STATE_TRADE_CREDIT[state];
-  return supportedConditions.includes(vehicleCondition) ? tradeInValue : 0;
+  const conditions = rule.tradeCreditConditions;
+  const applies = vehicleCondition
+    ? (asHomeState || explicitBuyerState) && conditions.includes(vehicleCondition)
+    : asHomeState && conditions.includes("new") && conditions.includes("used");
+  return applies ? Math.min(tradeInValue, tradeCreditCapFor(rule, settings)) : 0;
+};
+
+export interface SalesTaxLine {
+  /** Jurisdiction, e.g. "Ohio state" or "Lucas County". */
+  name: string;
+  /** Rate as a fraction. */
+  rate: number;
+  /** Amount this line taxes; below the full base for capped surtaxes. */
+  taxable: number;
+  amount: number;
+}
+
+export interface SalesTaxBreakdown {
+  tax: number;
+  /** Out-of-state transit fee, collected alongside the tax. */
+  extraFees: number;
+  /** The buyer's tax state. */
+  taxState: AppState;
+  /**
+   * Whose law the collected tax follows: the buyer's state, the dealership's
+   * home state (lesser-of reciprocity came out lower), or the custom rate.
+   */
+  basis: "buyer-state" | "home-state" | "custom";
+  /** Buyer's local jurisdiction when their ZIP or county resolved one. */
+  jurisdiction: TaxJurisdiction | null;
+  /** Per-jurisdiction lines; amounts sum to `tax`. */
+  lines: SalesTaxLine[];
+}
+
+type TaxRateLine = Pick<SalesTaxLine, "name" | "rate"> & { maxTaxable?: number };
+
+/**
+ * State line plus local lines for a rule. A resolved buyer jurisdiction
+ * replaces the rule's statewide local default.
+ */
+const rateLinesFor = (rule: StateTaxRule, jurisdiction: TaxJurisdiction | null): TaxRateLine[] => [
+  { name: `${rule.name} state`, rate: rule.rate },
+  ...(jurisdiction
+    ? jurisdiction.rates
+    : rule.localRate > 0
+      ? [{ name: `${rule.name} local`, rate: rule.localRate }]
+      : []),
+];
+
+/**
+ * Tax each line on the base (or its capped share). The total is rounded once
+ * so multi-line states match a single combined-rate computation; the last
+ * line absorbs the per-line rounding so the lines always add up.
+ */
+const taxLines = (base: number, rates: TaxRateLine[]): { tax: number; lines: SalesTaxLine[] } => {
+  const raw = rates.map((line) => {
+    const taxable = Math.min(base, line.maxTaxable ?? base);
+    return { name: line.name, rate: line.rate, taxable, amount: taxable * line.rate };
+  });
+  const tax = roundCents(raw.reduce((sum, line) => sum + line.amount, 0));
+  let allocated = 0;
+  const lines = raw.map((line, index) => {
+    const amount = index === raw.length - 1 ? roundCents(tax - allocated) : roundCents(line.amount);
+    allocated += amount;
+    return { ...line, taxable: roundCents(line.taxable), amount };
+  });
+  return { tax, lines };
 };
 
 const calculateSalesTax = (
@@ -161,27 +277,22 @@ const calculateSalesTax = (
   tradeInValue: number,
   transactionFees: number,
   settings: Settings,
-  buyerState?: DealData["buyerState"],
-  vehicleCondition?: VehicleCondition
-): { tax: number; extraFees: number } => {
+  dealData: Pick<DealData, "buyerState" | "vehicleCondition" | "buyerZip" | "buyerCounty">
+): SalesTaxBreakdown => {
   const { docFee, cvrFee, defaultState, outOfStateTransitFee, customTaxRate } = settings;
+  const { buyerState, vehicleCondition } = dealData;
 
-  const michiganTaxRate = TAX_RATES.MI;
-  if (michiganTaxRate === undefined) {
-    throw new Error("Michigan tax rate must be configured for reciprocal tax calculations.");
-  }
+  const homeState = getHomeState(settings);
+  const homeRule = getStateTaxRule(homeState);
 
   // Per-deal buyer state overrides the settings-level default; undefined
   // preserves the prior settings-only behavior. [G18]
   const taxState = buyerState ?? defaultState;
-
-  // Fail loudly instead of silently taxing an unknown state at 6%. AppState is
-  // limited to MI/OH/IN/IL/FL so this should be unreachable — if it fires, data
-  // outside the modeled domain reached the tax engine. [G16]
-  const stateRate = TAX_RATES[taxState];
-  if (stateRate === undefined) {
-    throw new Error(`Unsupported tax state: ${String(taxState)}`);
-  }
+  const buyerRule = getStateTaxRule(taxState);
+  const jurisdiction = resolveTaxJurisdiction(taxState, {
+    zip: dealData.buyerZip,
+    county: dealData.buyerCounty,
+  });
 
   let extraFees = 0;
 
@@ -189,52 +300,65 @@ const calculateSalesTax = (
   // regardless of whether a custom tax rate is in play. Previously it was only
   // added inside the default-rate branch, so a custom-rate out-of-state deal
   // silently dropped it and understated OTD. [B5]
-  if (taxState !== "MI") {
+  if (taxState !== homeState) {
     extraFees += toNumber(outOfStateTransitFee);
   }
 
-  // Michigan caps the sales-tax trade-in credit by statute, with a scheduled
-  // annual step-up (see getMiTradeInCreditCap in constants.ts). [G17]
-  // A dealer-configured settings value still wins; stale stored settings may
-  // predate this field, in which case the statutory cap for the current
-  // calendar year applies rather than silently zeroing the trade credit.
-  const miTradeInCreditCap = Number.isFinite(settings.miTradeInCreditCap)
-    ? settings.miTradeInCreditCap
-    : getMiTradeInCreditCap();
-  const miTradeCredit = Math.min(nonNegative(tradeInValue), Math.max(0, miTradeInCreditCap));
-  const taxableFees = nonNegative(docFee) + nonNegative(cvrFee) + transactionFees;
-  const taxFor = (rate: number, tradeCredit: number): number =>
-    roundCents((Math.max(0, discountedPrice - tradeCredit) + taxableFees) * rate);
-
-  let tax: number;
+  const trade = nonNegative(tradeInValue);
+  const homeTradeCredit = tradeCreditUnder(
+    homeRule,
+    settings,
+    trade,
+    true,
+    false,
+    vehicleCondition
+  );
+  const buyerTradeCredit =
+    taxState === homeState
+      ? homeTradeCredit
+      : tradeCreditUnder(
+          buyerRule,
+          settings,
+          trade,
+          false,
+          buyerState === taxState,
+          vehicleCondition
+        );
+  const dealerFees = nonNegative(docFee) + nonNegative(cvrFee) + transactionFees;
+  const baseFor = (rule: StateTaxRule, tradeCredit: number): number =>
+    Math.max(0, discountedPrice - tradeCredit) + (rule.docFeeTaxable ? dealerFees : 0);
+
+  const result = (
+    basis: SalesTaxBreakdown["basis"],
+    computed: { tax: number; lines: SalesTaxLine[] }
+  ): SalesTaxBreakdown => ({
+    ...computed,
+    extraFees: roundCents(extraFees),
+    taxState,
+    basis,
+    jurisdiction,
+  });
+
   if (typeof customTaxRate === "number" && Number.isFinite(customTaxRate) && customTaxRate >= 0) {
-    const customTradeCredit =
-      taxState === "MI"
-        ? miTradeCredit
-        : outOfStateTradeCredit(
-            taxState,
-            nonNegative(tradeInValue),
-            buyerState === taxState,
-            vehicleCondition
-          );
-    tax = taxFor(customTaxRate / 100, customTradeCredit);
-  } else if (taxState === "MI") {
-    tax = taxFor(michiganTaxRate, miTradeCredit);
-  } else {
-    // Michigan Form 485 requires both computations and collection of the lesser:
-    // home-state law/rate versus Michigan law/rate. The home-state allowance is
-    // only used when this deal explicitly identifies a supported buyer state and,
-    // for Ohio, the purchased vehicle condition.
-    const homeTradeCredit = outOfStateTradeCredit(
-      taxState,
-      nonNegative(tradeInValue),
-      buyerState === taxState,
-      vehicleCondition
+    return result(
+      "custom",
+      taxLines(baseFor(buyerRule, buyerTradeCredit), [
+        { name: "Custom rate", rate: customTaxRate / 100 },
+      ])
     );
-    tax = Math.min(taxFor(stateRate, homeTradeCredit), taxFor(michiganTaxRate, miTradeCredit));
   }
 
-  return { tax, extraFees: roundCents(extraFees) };
+  const buyerTax = taxLines(
+    baseFor(buyerRule, buyerTradeCredit),
+    rateLinesFor(buyerRule, jurisdiction)
+  );
+  if (taxState === homeState || homeRule.outOfStateCollection !== "lesser-of") {
+    return result("buyer-state", buyerTax);
+  }
+  const homeTax = taxLines(baseFor(homeRule, homeTradeCredit), rateLinesFor(homeRule, null));
+  return homeTax.tax < buyerTax.tax
+    ? result("home-state", homeTax)
+    : result("buyer-state", buyerTax);
 };
 
 export const calculateFinancials = (
@@ -259,7 +383,7 @@ export const calculateFinancials = (
   const flooredTerm = termIsBlank ? 0 : Math.floor(toNumber(rawTerm));
   const loanTerm: number | null = flooredTerm >= 1 ? flooredTerm : null;
   const tradeInValue = toNumber(dealData.tradeInValue);
-  const tradeInPayoff = toNumber(dealData.tradeInPayoff);
+  const { netTradeIn, negativeEquity } = getTradeEquity(dealData);
   const stateFees = toNumber(dealData.stateFees);
   const { manufacturerRebate, dealerDiscount } = getRebateBreakdown(dealData);
   const transactionFees = getTransactionFees(dealData);
@@ -291,12 +415,13 @@ export const calculateFinancials = (
   let amountToFinance: number | "Error" | "N/A" = "N/A";
   let otdLtv: number | "Error" | "N/A" = "N/A";
   let monthlyPayment: number | "Error" | "N/A" = "N/A";
+  const structure = getPaymentStructure(dealData);
+  let paymentPlan: CalculatedVehicle["paymentPlan"];
 
   // Only calculate if we have a valid (positive) price. Negative prices are now rejected
   // upstream in parser and schema; treat here as missing for safety. [negative prices]
   // price var is clamped >=0 above.
   if (price > 0) {
-    const netTradeIn = tradeInValue - tradeInPayoff;
     const discountedPrice = Math.max(0, price - dealerDiscount);
 
     const { tax, extraFees } = calculateSalesTax(
@@ -304,8 +429,7 @@ export const calculateFinancials = (
       tradeInValue,
       transactionFees,
       settings,
-      dealData.buyerState,
-      dealData.vehicleCondition
+      dealData
     );
     salesTax = tax;
 
@@ -327,10 +451,31 @@ export const calculateFinancials = (
 
     // An unset APR or an unset/invalid term yields no payment rather than a
     // spurious interest-free or 1-month figure. [B6][term-unset]
-    monthlyPayment =
-      interestRate === null || loanTerm === null
-        ? "N/A"
-        : calculateMonthlyPayment(amountToFinance, interestRate, loanTerm);
+    if (isLevelMonthly(structure)) {
+      monthlyPayment =
+        interestRate === null || loanTerm === null
+          ? "N/A"
+          : calculateMonthlyPayment(amountToFinance, interestRate, loanTerm);
+    } else {
+      // Balloon and biweekly deals quote their own periodic payment and carry
+      // its monthly equivalent in monthlyPayment for PTI/DTI and lender limits.
+      const periodsPerYear = PERIODS_PER_YEAR[structure.frequency];
+      const payments = loanTerm === null ? 0 : paymentCount(loanTerm, structure.frequency);
+      const balloon = roundCents(structure.balloon);
+      const payment =
+        interestRate === null || loanTerm === null
+          ? "N/A"
+          : calculatePeriodicPayment(
+              amountToFinance,
+              interestRate,
+              payments,
+              periodsPerYear,
+              balloon
+            );
+      paymentPlan = { frequency: structure.frequency, payment, payments, balloon };
+      monthlyPayment =
+        typeof payment === "number" ? roundCents((payment * periodsPerYear) / 12) : payment;
+    }
 
     // LTV Logic: Prefer Trade Book, fallback to Retail Book — via the shared
     // book-value selector so the lender rules engine uses identical semantics.
@@ -367,5 +512,30 @@ export const calculateFinancials = (
     amountToFinance,
     otdLtv,
     monthlyPayment,
+    negativeEquity,
+    ...(paymentPlan ? { paymentPlan } : {}),
   };
 };
+
+/**
+ * Sales tax for a deal broken out by jurisdiction, for the desk breakdown and
+ * the deal PDF. Same computation as calculateFinancials' salesTax; kept
+ * separate so inventory-wide repricing does not carry per-line detail.
+ * Returns null when the vehicle has no price.
+ */
+export const getSalesTaxBreakdown = (
+  vehicle: Pick<Vehicle, "price">,
+  dealData: DealData,
+  settings: Settings
+): SalesTaxBreakdown | null => {
+  const price = typeof vehicle.price === "number" ? Math.max(0, vehicle.price) : 0;
+  if (price <= 0) return null;
+  const { dealerDiscount } = getRebateBreakdown(dealData);
+  return calculateSalesTax(
+    Math.max(0, price - dealerDiscount),
+    toNumber(dealData.tradeInValue),
+    getTransactionFees(dealData),
+    settings,
+    dealData
+  );
+};
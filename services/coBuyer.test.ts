@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { hasCoBuyer, resolveApplicantCredit } from "./coBuyer";
+
+const joint = {
+  creditScore: 580,
+  monthlyIncome: 3000,
+  monthlyDebt: 400,
+  coBuyerCreditScore: 690,
+  coBuyerMonthlyIncome: 2500,
+  coBuyerMonthlyDebt: 300,
+};
+
+describe("resolveApplicantCredit", () => {
+  it("passes a single applicant through unchanged", () => {
+    expect(resolveApplicantCredit({ creditScore: 640, monthlyIncome: 4000 })).toEqual({
+      creditScore: 640,
+      monthlyIncome: 4000,
+      monthlyDebt: null,
+      coBuyerApplied: false,
+    });
+  });
+
+  it("defaults to the primary score with combined income and debt", () => {
+    expect(resolveApplicantCredit(joint)).toEqual({
+      creditScore: 580,
+      monthlyIncome: 5500,
+      monthlyDebt: 700,
+      coBuyerApplied: true,
+    });
+  });
+
+  it("applies a lender's highest-score and primary-income rules", () => {
+    expect(
+      resolveApplicantCredit(joint, { coBuyerFico: "highest", coBuyerIncome: "primary" })
+    ).toEqual({ creditScore: 690, monthlyIncome: 3000, monthlyDebt: 400, coBuyerApplied: true });
+  });
+
+  it("leaves combined debt unknown when the co-buyer's debt is missing", () => {
+    const applicant = resolveApplicantCredit({ ...joint, coBuyerMonthlyDebt: null });
+    expect(applicant.monthlyIncome).toBe(5500);
+    expect(applicant.monthlyDebt).toBeNull();
+  });
+});
+
+describe("hasCoBuyer", () => {
+  it("is true once any co-buyer figure is entered", () => {
+    expect(hasCoBuyer({ creditScore: 700 })).toBe(false);
+    expect(hasCoBuyer({ coBuyerMonthlyIncome: 2000 })).toBe(true);
+  });
+});
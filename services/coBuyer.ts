@@ -0,0 +1,85 @@
+import type { CoBuyerFicoRule, CoBuyerIncomeRule, FilterData, LenderProfile } from "../types";
+
+/**
+ * coBuyer — how a joint application's two applicants become the one credit
+ * profile a lender evaluates. The rules engine (checkBankEligibility) and the
+ * approval-odds model both read applicant credit through here, so a lender's
+ * co-buyer rules apply identically everywhere.
+ */
+
+/**
+ * Defaults for lenders without explicit rules: the primary applicant's score
+ * (the conservative read) and combined income, which is what a joint
+ * application is for.
+ */
+export const DEFAULT_CO_BUYER_RULES: {
+  coBuyerFico: CoBuyerFicoRule;
+  coBuyerIncome: CoBuyerIncomeRule;
+} = { coBuyerFico: "primary", coBuyerIncome: "combined" };
+
+type ApplicantFields = Pick<
+  FilterData,
+  | "creditScore"
+  | "monthlyIncome"
+  | "monthlyDebt"
+  | "coBuyerCreditScore"
+  | "coBuyerMonthlyIncome"
+  | "coBuyerMonthlyDebt"
+>;
+
+export interface ApplicantCredit {
+  creditScore: number | null;
+  monthlyIncome: number | null;
+  monthlyDebt: number | null;
+  /** True when a co-buyer figure was combined into the values above. */
+  coBuyerApplied: boolean;
+}
+
+const finite = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/** A deal has a co-buyer once any co-buyer figure is entered. */
+export const hasCoBuyer = (filters: Partial<ApplicantFields>): boolean =>
+  finite(filters.coBuyerCreditScore) !== null ||
+  finite(filters.coBuyerMonthlyIncome) !== null ||
+  finite(filters.coBuyerMonthlyDebt) !== null;
+
+/**
+ * The applicant credit a lender sees. Under "highest" the better known score
+ * wins. Combined income adds the co-buyer's income and debt; an unknown
+ * primary income stays unknown, and an unknown co-buyer debt leaves the
+ * combined debt unknown rather than assuming zero.
+ */
+export const resolveApplicantCredit = (
+  filters: Partial<ApplicantFields>,
+  lender: Partial<Pick<LenderProfile, "coBuyerFico" | "coBuyerIncome">> = {}
+): ApplicantCredit => {
+  const creditScore = finite(filters.creditScore);
+  const monthlyIncome = finite(filters.monthlyIncome);
+  const monthlyDebt = finite(filters.monthlyDebt);
+  if (!hasCoBuyer(filters)) {
+    return { creditScore, monthlyIncome, monthlyDebt, coBuyerApplied: false };
+  }
+
+  const ficoRule = lender.coBuyerFico ?? DEFAULT_CO_BUYER_RULES.coBuyerFico;
+  const incomeRule = lender.coBuyerIncome ?? DEFAULT_CO_BUYER_RULES.coBuyerIncome;
+  const coScore = finite(filters.coBuyerCreditScore);
+  const coIncome = finite(filters.coBuyerMonthlyIncome);
+  const coDebt = finite(filters.coBuyerMonthlyDebt);
+
+  const useCoScore =
+    ficoRule === "highest" && coScore !== null && (creditScore === null || coScore > creditScore);
+  const combine = incomeRule === "combined" && (coIncome !== null || coDebt !== null);
+
+  return {
+    creditScore: useCoScore ? coScore : creditScore,
+    monthlyIncome:
+      combine && monthlyIncome !== null ? monthlyIncome + (coIncome ?? 0) : monthlyIncome,
+    monthlyDebt: combine
+      ? monthlyDebt === null || coDebt === null
+        ? null
+        : monthlyDebt + coDebt
+      : monthlyDebt,
+    coBuyerApplied: useCoScore || combine,
+  };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryMappingProfile } from "../types";
+import {
+  headerSignature,
+  mappingForHeaders,
+  matchMappingProfile,
+  normalizeMappingProfiles,
+  upsertMappingProfile,
+} from "./columnMapping";
+
+const headers = ["Stock Number", "Yr", "Mk", "Mdl", "Odo", "Internet Price"];
+const mapping = {
+  stock: "Stock Number",
+  modelYear: "Yr",
+  make: "Mk",
+  model: "Mdl",
+  mileage: "Odo",
+  price: "Internet Price",
+};
+const now = new Date("2026-10-19T12:00:00Z");
+
+describe("headerSignature", () => {
+  it("ignores column order, case and spacing", () => {
+    expect(headerSignature(["Mk", " Internet  Price", "Odo"])).toBe(
+      headerSignature(["odo", "internet price", "MK", ""])
+    );
+  });
+});
+
+describe("matchMappingProfile", () => {
+  const [vAuto] = upsertMappingProfile(undefined, "vAuto", headers, mapping, now);
+  const [auction] = upsertMappingProfile(
+    undefined,
+    "Auction",
+    ["Mk", "Mdl", "Odo", "Internet Price"],
+    { make: "Mk", model: "Mdl", mileage: "Odo", price: "Internet Price" },
+    now
+  );
+  const profiles = [auction, vAuto] as InventoryMappingProfile[];
+
+  it("prefers an exact signature match", () => {
+    expect(matchMappingProfile([...headers].reverse(), profiles)?.name).toBe("vAuto");
+  });
+
+  it("falls back to the fullest profile whose headers are all present", () => {
+    expect(matchMappingProfile([...headers, "Color"], profiles)?.name).toBe("vAuto");
+    expect(
+      matchMappingProfile(["Mk", "Mdl", "Odo", "Internet Price", "Color"], profiles)?.name
+    ).toBe("Auction");
+    expect(matchMappingProfile(["Make", "Model"], profiles)).toBeNull();
+    expect(matchMappingProfile(headers, undefined)).toBeNull();
+  });
+});
+
+describe("upsertMappingProfile", () => {
+  it("adds, then overwrites by name, dropping headers the file lacks", () => {
+    const added = upsertMappingProfile(
+      undefined,
+      " vAuto ",
+      headers,
+      { ...mapping, vin: "VIN" },
+      now
+    );
+    expect(added).toEqual([
+      {
+        id: "map-vauto",
+        name: "vAuto",
+        signature: headerSignature(headers),
+        mapping,
+        updatedAt: "2026-10-19T12:00:00.000Z",
+      },
+    ]);
+
+    const updated = upsertMappingProfile(added, "VAUTO", headers, { price: "Internet Price" }, now);
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({ id: "map-vauto", mapping: { price: "Internet Price" } });
+
+    const second = upsertMappingProfile(updated, "vAuto!", headers, mapping, now);
+    expect(second.map((p) => p.id)).toEqual(["map-vauto", "map-vauto-2"]);
+  });
+});
+
+describe("mappingForHeaders / normalizeMappingProfiles", () => {
+  it("drops unknown fields, missing headers and malformed entries", () => {
+    expect(mappingForHeaders(mapping, ["Mk", "Odo"])).toEqual({ make: "Mk", mileage: "Odo" });
+    expect(
+      normalizeMappingProfiles([
+        { id: "map-a", name: "A", mapping: { make: "Mk", color: "Color", price: 5 } },
+        { id: "map-b", name: " ", mapping: {} },
+        null,
+      ])
+    ).toEqual([{ id: "map-a", name: "A", signature: "", mapping: { make: "Mk" }, updatedAt: "" }]);
+    expect(normalizeMappingProfiles("nope")).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import type {
+  InventoryColumnMapping,
+  InventoryImportField,
+  InventoryMappingProfile,
+} from "../types";
+
+/**
+ * columnMapping — named inventory-import mappings for exports whose headers
+ * the built-in names don't cover (DMS, vAuto, auction lists). A profile maps
+ * fields to header text rather than column positions, so a reordered export
+ * still imports. Profiles live on dealer_settings.inventoryMappingProfiles
+ * (1748000008) and are picked by header signature on the next upload.
+ */
+
+export const INVENTORY_IMPORT_FIELDS: ReadonlyArray<{
+  field: InventoryImportField;
+  label: string;
+  hint?: string;
+}> = [
+  { field: "stock", label: "Stock #" },
+  { field: "vin", label: "VIN", hint: "Blank VINs get a stable generated id" },
+  { field: "vehicle", label: "Vehicle", hint: "Year make model trim, if not split out" },
+  { field: "modelYear", label: "Year" },
+  { field: "make", label: "Make" },
+  { field: "model", label: "Model" },
+  { field: "trim", label: "Trim" },
+  { field: "mileage", label: "Mileage", hint: "Required" },
+  { field: "price", label: "Price", hint: "Required" },
+  { field: "jdPower", label: "Trade book" },
+  { field: "jdPowerRetail", label: "Retail book" },
+  { field: "unitCost", label: "Unit cost" },
+];
+
+const FIELD_NAMES = new Set<string>(INVENTORY_IMPORT_FIELDS.map((f) => f.field));
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, " ");
+
+/** The file's headers, normalized and sorted: the same export layout gives the same signature. */
+export const headerSignature = (headers: string[]): string =>
+  [...new Set(headers.map(normalizeHeader).filter(Boolean))].sort().join("|");
+
+const mappedHeaders = (mapping: InventoryColumnMapping): string[] =>
+  Object.values(mapping).filter((header): header is string => Boolean(header));
+
+/**
+ * The saved profile for these headers: an exact signature match first, else
+ * the profile mapping the most fields whose every mapped header is present
+ * (the source added a column since it was saved). Null when none fit.
+ */
+export const matchMappingProfile = (
+  headers: string[],
+  profiles: InventoryMappingProfile[] | undefined
+): InventoryMappingProfile | null => {
+  if (!profiles || profiles.length === 0) return null;
+  const signature = headerSignature(headers);
+  const exact = profiles.find((p) => p.signature === signature);
+  if (exact) return exact;
+
+  const present = new Set(headers);
+  let best: InventoryMappingProfile | null = null;
+  let bestCount = 0;
+  for (const profile of profiles) {
+    const needed = mappedHeaders(profile.mapping);
+    if (needed.length > bestCount && needed.every((h) => present.has(h))) {
+      best = profile;
+      bestCount = needed.length;
+    }
+  }
+  return best;
+};
+
+/** The mapping with any header the file lacks dropped. */
+export const mappingForHeaders = (
+  mapping: InventoryColumnMapping,
+  headers: string[]
+): InventoryColumnMapping => {
+  const present = new Set(headers);
+  return Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header !== undefined && present.has(header))
+  ) as InventoryColumnMapping;
+};
+
+const uniqueId = (name: string, taken: Set<string>): string => {
+  const slug =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "mapping";
+  let id = `map-${slug}`;
+  for (let n = 2; taken.has(id); n++) id = `map-${slug}-${n}`;
+  return id;
+};
+
+/**
+ * The profile list with `name` saved for these headers. A profile with the
+ * same name (ignoring case) is overwritten in place; otherwise one is added.
+ */
+export const upsertMappingProfile = (
+  profiles: InventoryMappingProfile[] | undefined,
+  name: string,
+  headers: string[],
+  mapping: InventoryColumnMapping,
+  now: Date = new Date()
+): InventoryMappingProfile[] => {
+  const list = profiles ?? [];
+  const key = name.trim().toLowerCase();
+  const existing = list.find((p) => p.name.trim().toLowerCase() === key);
+  const profile: InventoryMappingProfile = {
+    id: existing?.id ?? uniqueId(name, new Set(list.map((p) => p.id))),
+    name: name.trim(),
+    signature: headerSignature(headers),
+    mapping: mappingForHeaders(mapping, headers),
+    updatedAt: now.toISOString(),
+  };
+  return existing ? list.map((p) => (p.id === existing.id ? profile : p)) : [...list, profile];
+};
+
+/** Stored profiles, dropping malformed entries and unknown fields. */
+export const normalizeMappingProfiles = (value: unknown): InventoryMappingProfile[] => {
+  if (!Array.isArray(value)) return [];
+  const profiles: InventoryMappingProfile[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const rec = item as Record<string, unknown>;
+    if (typeof rec.id !== "string" || typeof rec.name !== "string" || !rec.name.trim()) continue;
+    if (!rec.mapping || typeof rec.mapping !== "object") continue;
+    const mapping = Object.fromEntries(
+      Object.entries(rec.mapping as Record<string, unknown>).filter(
+        ([field, header]) => FIELD_NAMES.has(field) && typeof header === "string" && header
+      )
+    ) as InventoryColumnMapping;
+    profiles.push({
+      id: rec.id,
+      name: rec.name,
+      signature: typeof rec.signature === "string" ? rec.signature : "",
+      mapping,
+      updatedAt: typeof rec.updatedAt === "string" ? rec.updatedAt : "",
+    });
+  }
+  return profiles;
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import type { DealStipulation, LenderProfile } from "../types";
+import {
+  addStipulations,
+  fundingBlockReason,
+  lenderStipulationText,
+  normalizeStipulations,
+  outstandingStipulations,
+  parseStipulationText,
+  seedLenderStipulations,
+  stipulationsForStatus,
+} from "./dealStipulations";
+
+const stip = (overrides: Partial<DealStipulation> = {}): DealStipulation => ({
+  id: "stip-poi",
+  label: "Proof of income",
+  required: true,
+  status: "needed",
+  ...overrides,
+});
+
+describe("parseStipulationText", () => {
+  it("splits lists, strips markers and drops duplicates", () => {
+    expect(
+      parseStipulationText(
+        "1. Proof of income (2 pay stubs, or bank statements)\n- Proof of residence;\n• 5 references, insurance\nproof of residence."
+      )
+    ).toEqual([
+      "Proof of income (2 pay stubs, or bank statements)",
+      "Proof of residence",
+      "5 references",
+      "insurance",
+    ]);
+    expect(parseStipulationText(undefined)).toEqual([]);
+    expect(parseStipulationText(" \n ; ")).toEqual([]);
+  });
+});
+
+describe("addStipulations", () => {
+  it("adds required needed items for new labels only", () => {
+    const existing = [stip({ status: "received", documents: ["paystub.pdf"] })];
+    const next = addStipulations(existing, ["proof of income", "Insurance", "Insurance"], {
+      now: "2026-10-01T00:00:00.000Z",
+    });
+
+    expect(next).toEqual([
+      existing[0],
+      {
+        id: "stip-insurance",
+        label: "Insurance",
+        required: true,
+        status: "needed",
+        updatedAt: "2026-10-01T00:00:00.000Z",
+      },
+    ]);
+    expect(addStipulations(existing, ["Proof of Income"])).toBe(existing);
+  });
+
+  it("keeps ids unique when labels slug the same", () => {
+    const next = addStipulations([stip({ id: "stip-poi", label: "POI" })], ["P.O.I."], {
+      required: false,
+    });
+
+    expect(next[1]).toMatchObject({ id: "stip-p-o-i", required: false });
+    expect(addStipulations([stip({ id: "stip-poi" })], ["poi"])[1]!.id).toBe("stip-poi-2");
+  });
+});
+
+describe("lenderStipulationText", () => {
+  const lender: LenderProfile = {
+    id: "l1",
+    name: "Test Bank",
+    stipulations: "POI; POR",
+    effectiveFrom: "2026-06-01",
+    programVersions: [
+      {
+        effectiveFrom: "2026-01-01",
+        effectiveTo: "2026-05-31",
+        stipulations: "POI",
+        tiers: [],
+      },
+    ],
+    tiers: [],
+  };
+
+  it("uses the program in force on the deal date", () => {
+    expect(lenderStipulationText([lender], " test bank ", "2026-07-01")).toBe("POI; POR");
+    expect(lenderStipulationText([lender], "Test Bank", "2026-03-01")).toBe("POI");
+    expect(lenderStipulationText([lender], "Other Bank", "2026-07-01")).toBeUndefined();
+    expect(lenderStipulationText([lender], undefined, "2026-07-01")).toBeUndefined();
+  });
+
+  it("seeds a checklist with the lender's stips", () => {
+    const seeded = seedLenderStipulations(
+      [stip({ label: "POI" })],
+      [lender],
+      "Test Bank",
+      "2026-07-01"
+    );
+
+    expect(seeded.map((item) => [item.label, item.status])).toEqual([
+      ["POI", "needed"],
+      ["POR", "needed"],
+    ]);
+    const none: DealStipulation[] = [];
+    expect(seedLenderStipulations(none, [lender], "Other Bank", "2026-07-01")).toBe(none);
+  });
+
+  it("seeds an empty checklist on approval and on a move straight to funded", () => {
+    const labels = (next: string, existing: DealStipulation[] = []) =>
+      stipulationsForStatus(existing, next, [lender], "Test Bank", "2026-07-01").map(
+        (item) => item.label
+      );
+
+    expect(labels("approved")).toEqual(["POI", "POR"]);
+    expect(labels("funded")).toEqual(["POI", "POR"]);
+    expect(labels("submitted")).toEqual([]);
+    // A checklist already under way is left alone.
+    expect(labels("funded", [stip({ status: "cleared" })])).toEqual(["Proof of income"]);
+    expect(
+      fundingBlockReason(stipulationsForStatus([], "funded", [lender], "Test Bank", "2026-07-01"))
+    ).toBe("Clear 2 required stips before funding: POI, POR");
+  });
+});
+
+describe("normalizeStipulations", () => {
+  it("keeps well-formed items and defaults unknown fields", () => {
+    expect(
+      normalizeStipulations([
+        { id: "a", label: "POI", status: "cleared", documents: ["a.pdf", 3], note: "" },
+        { id: "b", label: "POR", status: "bogus", required: false },
+        { id: "c", label: " " },
+        { label: "No id" },
+        null,
+      ])
+    ).toEqual([
+      { id: "a", label: "POI", required: true, status: "cleared", documents: ["a.pdf"] },
+      { id: "b", label: "POR", required: false, status: "needed" },
+    ]);
+    expect(normalizeStipulations("POI")).toEqual([]);
+  });
+});
+
+describe("funding block", () => {
+  it("blocks funding until every required stip is cleared or waived", () => {
+    const items = [
+      stip(),
+      stip({ id: "b", label: "Insurance", status: "received" }),
+      stip({ id: "c", label: "References", status: "waived" }),
+      stip({ id: "d", label: "Bank statement", required: false }),
+    ];
+
+    expect(outstandingStipulations(items).map((item) => item.id)).toEqual(["stip-poi", "b"]);
+    expect(fundingBlockReason(items)).toBe(
+      "Clear 2 required stips before funding: Proof of income, Insurance"
+    );
+    expect(fundingBlockReason([stip({ status: "cleared" })])).toBeNull();
+    expect(fundingBlockReason([])).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import type { DealStipulation, LenderProfile, StipulationStatus } from "../types";
+import { resolveLenderProgram } from "./lenderPrograms";
+
+/**
+ * dealStipulations — the checklist of conditions a lender attaches to an
+ * approval (proof of income, residence, references, insurance …). The list
+ * is seeded from the approved lender's free-text `stipulations`, one required
+ * item per stip, and each item then moves needed → received → cleared (or is
+ * waived) as documents come in. A deal cannot move to "funded" while a
+ * required item is still outstanding; pb_hooks/stipulation_guard.pb.js
+ * enforces the same rule server-side.
+ */
+
+export const STIPULATION_STATUSES: Record<StipulationStatus, string> = {
+  needed: "Needed",
+  received: "Received",
+  cleared: "Cleared",
+  waived: "Waived",
+};
+
+const isStatus = (value: unknown): value is StipulationStatus =>
+  typeof value === "string" && Object.hasOwn(STIPULATION_STATUSES, value);
+
+/** Cleared and waived items no longer hold up funding. */
+export const isStipulationSettled = (status: StipulationStatus): boolean =>
+  status === "cleared" || status === "waived";
+
+const LIST_MARKER = /^(?:[-*•·]|\d+[.)]|[a-z][.)])\s+/i;
+
+/** Split on separators, leaving commas inside parentheses alone. */
+const splitItems = (text: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    if (char === "\n" || char === ";" || char === "•" || (char === "," && depth === 0)) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items;
+};
+
+/**
+ * Split a lender's stipulations text into individual stips. Sheets write them
+ * one per line, as a bulleted or numbered list, or run together with
+ * semicolons or commas; duplicates (ignoring case) are dropped.
+ */
+export const parseStipulationText = (text: string | undefined): string[] => {
+  if (!text) return [];
+  const seen = new Set<string>();
+  const labels: string[] = [];
+  for (const raw of splitItems(text)) {
+    const label = raw.trim().replace(LIST_MARKER, "").replace(/\.$/, "").trim();
+    const key = label.toLowerCase();
+    if (!label || seen.has(key)) continue;
+    seen.add(key);
+    labels.push(label);
+  }
+  return labels;
+};
+
+const slug = (label: string): string =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "stip";
+
+const uniqueId = (label: string, taken: Set<string>): string => {
+  const base = `stip-${slug(label)}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+/**
+ * Append new items for any labels the checklist does not already have
+ * (compared ignoring case). Existing items keep their status and documents.
+ */
+export const addStipulations = (
+  existing: DealStipulation[],
+  labels: string[],
+  options: { required?: boolean; now?: string } = {}
+): DealStipulation[] => {
+  const have = new Set(existing.map((item) => item.label.trim().toLowerCase()));
+  const taken = new Set(existing.map((item) => item.id));
+  const added: DealStipulation[] = [];
+  for (const raw of labels) {
+    const label = raw.trim();
+    const key = label.toLowerCase();
+    if (!label || have.has(key)) continue;
+    have.add(key);
+    added.push({
+      id: uniqueId(label, taken),
+      label,
+      required: options.required ?? true,
+      status: "needed",
+      ...(options.now ? { updatedAt: options.now } : {}),
+    });
+  }
+  return added.length > 0 ? [...existing, ...added] : existing;
+};
+
+/**
+ * The stipulations text of the lender a deal is approved with, taken from
+ * the program in force on the deal date when the lender has dated sheets.
+ */
+export const lenderStipulationText = (
+  lenders: LenderProfile[],
+  lenderName: string | undefined,
+  date: string
+): string | undefined => {
+  const name = lenderName?.trim().toLowerCase();
+  if (!name) return undefined;
+  const lender = lenders.find((profile) => profile.name.trim().toLowerCase() === name);
+  if (!lender) return undefined;
+  const resolution = resolveLenderProgram(lender, date);
+  return resolution.status === "in-force" ? resolution.lender.stipulations : lender.stipulations;
+};
+
+/**
+ * Add the approved lender's stips to a deal's checklist. Returns the existing
+ * array unchanged when the lender is unknown or lists nothing new.
+ */
+export const seedLenderStipulations = (
+  existing: DealStipulation[],
+  lenders: LenderProfile[],
+  lenderName: string | undefined,
+  date: string,
+  now?: string
+): DealStipulation[] =>
+  addStipulations(
+    existing,
+    parseStipulationText(lenderStipulationText(lenders, lenderName, date)),
+    {
+      now,
+    }
+  );
+
+/**
+ * The checklist a status change should save. An empty checklist is seeded
+ * from the lender's stips on approval, and again on a move to "funded" so a
+ * deal that skipped approval (or was approved before checklists existed)
+ * cannot fund around them.
+ */
+export const stipulationsForStatus = (
+  existing: DealStipulation[],
+  next: string,
+  lenders: LenderProfile[],
+  lenderName: string | undefined,
+  date: string,
+  now?: string
+): DealStipulation[] =>
+  (next === "approved" || next === "funded") && existing.length === 0
+    ? seedLenderStipulations(existing, lenders, lenderName, date, now)
+    : existing;
+
+/** Read a stored checklist, dropping malformed items. */
+export const normalizeStipulations = (value: unknown): DealStipulation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): DealStipulation[] => {
+    if (typeof item !== "object" || item === null) return [];
+    const record = item as Record<string, unknown>;
+    if (typeof record.id !== "string" || typeof record.label !== "string") return [];
+    if (!record.label.trim()) return [];
+    const documents = Array.isArray(record.documents)
+      ? record.documents.filter((doc): doc is string => typeof doc === "string" && doc !== "")
+      : [];
+    return [
+      {
+        id: record.id,
+        label: record.label,
+        required: record.required !== false,
+        status: isStatus(record.status) ? record.status : "needed",
+        ...(documents.length > 0 ? { documents } : {}),
+        ...(typeof record.note === "string" && record.note ? { note: record.note } : {}),
+        ...(typeof record.updatedAt === "string" ? { updatedAt: record.updatedAt } : {}),
+      },
+    ];
+  });
+};
+
+/** Required items not yet cleared or waived. */
+export const outstandingStipulations = (items: DealStipulation[]): DealStipulation[] =>
+  items.filter((item) => item.required && !isStipulationSettled(item.status));
+
+/** Why the deal cannot fund yet, or null when every required stip is settled. */
+export const fundingBlockReason = (items: DealStipulation[]): string | null => {
+  const outstanding = outstandingStipulations(items);
+  if (outstanding.length === 0) return null;
+  const noun = outstanding.length === 1 ? "stip" : "stips";
+  return `Clear ${outstanding.length} required ${noun} before funding: ${outstanding
+    .map((item) => item.label)
+    .join(", ")}`;
+};
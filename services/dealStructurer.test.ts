@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { solveDealStructure } from "./dealStructurer";
+import { INITIAL_DEAL_DATA, INITIAL_FILTER_DATA } from "../constants";
+import { DEFAULT_AI_SETTINGS } from "../lib/aiModelRegistry";
+import type { DealData, FilterData, LenderProfile, Settings, Vehicle } from "../types";
+
+const vehicle: Vehicle = {
+  vehicle: "2022 Test Sedan",
+  stock: "S100",
+  vin: "STRUCT00000000001",
+  modelYear: 2022,
+  mileage: 30000,
+  price: 25000,
+  jdPower: 20000,
+  jdPowerRetail: 23000,
+  unitCost: 21000,
+  baseOutTheDoorPrice: "N/A",
+};
+
+const settings: Settings = {
+  docFee: 250,
+  cvrFee: 25,
+  defaultState: "MI",
+  outOfStateTransitFee: 0,
+  ltvThresholds: { warn: 115, danger: 125, critical: 135 },
+  defaultTerm: 60,
+  defaultApr: 7.99,
+  defaultStateFees: 200,
+  customTaxRate: null,
+  miTradeInCreditCap: 12000,
+  vscPrice: 2495,
+  gapPrice: 895,
+  ai: DEFAULT_AI_SETTINGS,
+};
+
+const deal: DealData = { ...INITIAL_DEAL_DATA, interestRate: 7, loanTerm: 72, stateFees: 200 };
+const filters: FilterData = { ...INITIAL_FILTER_DATA, creditScore: 680, monthlyIncome: 6000 };
+
+const lenders: LenderProfile[] = [
+  { id: "a", name: "Alpha", tiers: [{ name: "Std", minFico: 600, maxLtv: 110, maxTerm: 72 }] },
+  { id: "b", name: "Beta", tiers: [{ name: "Std", minFico: 600, maxLtv: 125, maxTerm: 60 }] },
+];
+
+describe("solveDealStructure", () => {
+  it("finds the minimum down and maximum price for the best lender", () => {
+    const suggestions = solveDealStructure(vehicle, deal, filters, settings, lenders);
+    const down = suggestions.find((s) => s.target === "down")!;
+    const price = suggestions.find((s) => s.target === "price")!;
+    expect(down).toMatchObject({ lenderId: "a", downPayment: 5000, payment: 374.93 });
+    expect(down.patch).toEqual({ downPayment: 5000 });
+    expect(price).toMatchObject({ lenderId: "a", sellingPrice: 20250, payment: 374.34 });
+    expect(price.patch).toMatchObject({ rebateType: "dealer", dealerDiscount: 4750 });
+  });
+
+  it("returns nothing when the deal already fits", () => {
+    expect(
+      solveDealStructure(vehicle, { ...deal, downPayment: 6000 }, filters, settings, lenders)
+    ).toEqual([]);
+  });
+
+  it("shortens the term only against a target payment", () => {
+    const longDeal = { ...deal, loanTerm: 84, downPayment: 6000 };
+    const withTarget = solveDealStructure(vehicle, longDeal, filters, settings, lenders, {
+      targetPayment: 400,
+    });
+    expect(withTarget.find((s) => s.target === "term")).toMatchObject({
+      lenderId: "a",
+      loanTerm: 66,
+      payment: 384.11,
+      patch: { loanTerm: 66 },
+    });
+    const withoutTarget = solveDealStructure(vehicle, longDeal, filters, settings, lenders);
+    expect(withoutTarget.some((s) => s.target === "term")).toBe(false);
+  });
+
+  it("keeps a manufacturer rebate when solving", () => {
+    const rebated = { ...deal, manufacturerRebate: 1000 };
+    const suggestions = solveDealStructure(vehicle, rebated, filters, settings, lenders, {
+      lenderId: "a",
+    });
+    expect(suggestions.find((s) => s.target === "down")!.downPayment).toBe(4000);
+    expect(suggestions.find((s) => s.target === "price")!.patch).toMatchObject({
+      manufacturerRebate: 1000,
+    });
+  });
+
+  it("solves against a minimum amount financed that caps how much down can go in", () => {
+    // $4,000 minimum financed: the end probe (about $1 financed) fails, but
+    // $5,000 down is eligible.
+    const withMinimum: LenderProfile = {
+      id: "m",
+      name: "Minimum",
+      tiers: [{ name: "Std", minFico: 600, maxLtv: 110, maxTerm: 72, minAmountFinanced: 4000 }],
+    };
+    const suggestions = solveDealStructure(vehicle, deal, filters, settings, [withMinimum]);
+    expect(suggestions.find((s) => s.target === "down")).toMatchObject({
+      lenderId: "m",
+      downPayment: 5000,
+    });
+    expect(suggestions.find((s) => s.target === "price")).toMatchObject({
+      lenderId: "m",
+      sellingPrice: 20250,
+    });
+  });
+
+  it("skips inactive and unknown lenders", () => {
+    const inactive = lenders.map((lender) => ({ ...lender, active: false }));
+    expect(solveDealStructure(vehicle, deal, filters, settings, inactive)).toEqual([]);
+    expect(
+      solveDealStructure(vehicle, deal, filters, settings, lenders, { lenderId: "missing" })
+    ).toEqual([]);
+  });
+});
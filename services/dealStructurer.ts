@@ -0,0 +1,280 @@
+import type { DealData, FilterData, LenderProfile, Settings, Vehicle } from "../types";
+import { calculateFinancials, getRebateBreakdown } from "./calculator";
+import { checkBankEligibility } from "./lenderMatcher";
+
+/**
+ * dealStructurer — "solve for" suggestions that turn a deal that does not fit
+ * into one that does. It searches over the real engine (calculateFinancials →
+ * checkBankEligibility) rather than re-deriving lender math, so a suggestion
+ * is exactly as eligible as the desk will show once it is applied.
+ */
+
+export type SolveTarget = "down" | "price" | "term";
+
+export interface StructureSuggestion {
+  target: SolveTarget;
+  lenderId: string;
+  lenderName: string;
+  /** DealData patch that applies the suggestion. */
+  patch: Partial<DealData>;
+  downPayment: number;
+  sellingPrice: number;
+  loanTerm: number;
+  /** Payment after the patch, or null when the deal has no APR. */
+  payment: number | null;
+}
+
+export interface SolveOptions {
+  /** Solve for one lender; omitted or null means any active lender. */
+  lenderId?: string | null;
+  /** Payment ceiling; defaults to the customer's max-payment filter. */
+  targetPayment?: number | null;
+}
+
+/** Terms the term solver tries, shortest first. */
+export const STRUCTURE_TERMS = [24, 36, 48, 60, 66, 72, 75, 84, 96];
+
+/** Down payment and discount suggestions are rounded up to this many dollars. */
+export const STRUCTURE_DOLLAR_STEP = 50;
+
+const isActive = (lender: LenderProfile): boolean => lender?.active !== false;
+
+const positive = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+
+interface FitCheck {
+  fits: boolean;
+  payment: number | null;
+}
+
+const checkFit = (
+  vehicle: Vehicle,
+  deal: DealData,
+  filters: FilterData,
+  settings: Settings,
+  lender: LenderProfile,
+  targetPayment: number | null
+): FitCheck => {
+  const calculated = calculateFinancials(vehicle, deal, settings);
+  const payment = typeof calculated.monthlyPayment === "number" ? calculated.monthlyPayment : null;
+  if (targetPayment !== null && (payment === null || payment > targetPayment)) {
+    return { fits: false, payment };
+  }
+  const result = checkBankEligibility(calculated, { ...deal, ...filters }, lender);
+  return { fits: result.eligible && result.status === "eligible", payment };
+};
+
+/** Most probes the upward scan makes before refining, per lever and lender. */
+const SCAN_PROBES = 200;
+
+/**
+ * Smallest k in [0, maxSteps] for which fitsAt(k) holds, or null. Fit isn't
+ * monotonic in the lever: more down can drop the amount financed under a
+ * minimum, or move the deal into a tier with a different LTV cap. So this
+ * scans upward from 0 — in strides once the range is longer than SCAN_PROBES
+ * — and walks the last stride one step at a time to find the first fit. A
+ * fitting window narrower than one stride can be missed on very large deals.
+ */
+const smallestFittingStep = (maxSteps: number, fitsAt: (k: number) => boolean): number | null => {
+  if (maxSteps < 0) return null;
+  const stride = Math.max(1, Math.ceil(maxSteps / SCAN_PROBES));
+  let previous = -1;
+  for (let k = 0; ; k = Math.min(maxSteps, k + stride)) {
+    if (fitsAt(k)) {
+      for (let step = previous + 1; step < k; step++) {
+        if (fitsAt(step)) return step;
+      }
+      return k;
+    }
+    if (k === maxSteps) return null;
+    previous = k;
+  }
+};
+
+interface SolverContext {
+  vehicle: Vehicle;
+  deal: DealData;
+  filters: FilterData;
+  settings: Settings;
+  targetPayment: number | null;
+  price: number;
+  downPayment: number;
+  dealerDiscount: number;
+  loanTerm: number;
+}
+
+const suggestion = (
+  ctx: SolverContext,
+  lender: LenderProfile,
+  target: SolveTarget,
+  patch: Partial<DealData>
+): StructureSuggestion => {
+  const deal = { ...ctx.deal, ...patch };
+  const check = checkFit(ctx.vehicle, deal, ctx.filters, ctx.settings, lender, ctx.targetPayment);
+  return {
+    target,
+    lenderId: lender.id,
+    lenderName: lender.name,
+    patch,
+    downPayment: Number(deal.downPayment) || 0,
+    sellingPrice: Math.max(0, ctx.price - getRebateBreakdown(deal).dealerDiscount),
+    loanTerm: Number(deal.loanTerm) || 0,
+    payment: check.payment,
+  };
+};
+
+/**
+ * Most steps of down or discount before nothing is left to finance. Keeps at
+ * least $1 financed: the rules engine rejects a $0 loan outright.
+ */
+const maxDollarSteps = (ctx: SolverContext): number => {
+  const financed = calculateFinancials(ctx.vehicle, ctx.deal, ctx.settings).amountToFinance;
+  return typeof financed === "number" && financed > 0
+    ? Math.floor((financed - 1) / STRUCTURE_DOLLAR_STEP)
+    : -1;
+};
+
+const solveMinDown = (ctx: SolverContext, lender: LenderProfile): StructureSuggestion | null => {
+  const maxSteps = maxDollarSteps(ctx);
+  const downAt = (k: number) => ctx.downPayment + k * STRUCTURE_DOLLAR_STEP;
+  const k = smallestFittingStep(
+    maxSteps,
+    (step) =>
+      checkFit(
+        ctx.vehicle,
+        { ...ctx.deal, downPayment: downAt(step) },
+        ctx.filters,
+        ctx.settings,
+        lender,
+        ctx.targetPayment
+      ).fits
+  );
+  return k === null || k === 0 ? null : suggestion(ctx, lender, "down", { downPayment: downAt(k) });
+};
+
+/**
+ * Max selling price is solved as the smallest dealer discount, since price is
+ * an inventory attribute. The patch keeps any manufacturer rebate explicit so
+ * the new discount never displaces it.
+ */
+const discountPatch = (ctx: SolverContext, dealerDiscount: number): Partial<DealData> => {
+  const { manufacturerRebate } = getRebateBreakdown(ctx.deal);
+  return manufacturerRebate > 0
+    ? { manufacturerRebate, dealerDiscount, dealerRebate: undefined }
+    : {
+        rebateType: "dealer",
+        rebate: dealerDiscount,
+        manufacturerRebate: 0,
+        dealerDiscount,
+        dealerRebate: undefined,
+      };
+};
+
+const solveMaxPrice = (ctx: SolverContext, lender: LenderProfile): StructureSuggestion | null => {
+  const { manufacturerRebate } = getRebateBreakdown(ctx.deal);
+  const maxSteps = Math.min(
+    maxDollarSteps(ctx),
+    Math.floor((ctx.price - manufacturerRebate - ctx.dealerDiscount) / STRUCTURE_DOLLAR_STEP)
+  );
+  const discountAt = (k: number) => ctx.dealerDiscount + k * STRUCTURE_DOLLAR_STEP;
+  const k = smallestFittingStep(
+    maxSteps,
+    (step) =>
+      checkFit(
+        ctx.vehicle,
+        { ...ctx.deal, ...discountPatch(ctx, discountAt(step)) },
+        ctx.filters,
+        ctx.settings,
+        lender,
+        ctx.targetPayment
+      ).fits
+  );
+  return k === null || k === 0
+    ? null
+    : suggestion(ctx, lender, "price", discountPatch(ctx, discountAt(k)));
+};
+
+/**
+ * Shortest term that fits under the payment ceiling. Without a ceiling the
+ * shortest term is trivially the first one a lender allows, which is not a
+ * useful suggestion, so the term lever needs a target payment.
+ */
+const solveShortestTerm = (
+  ctx: SolverContext,
+  lender: LenderProfile
+): StructureSuggestion | null => {
+  if (ctx.targetPayment === null) return null;
+  for (const term of STRUCTURE_TERMS) {
+    const deal = { ...ctx.deal, loanTerm: term };
+    if (checkFit(ctx.vehicle, deal, ctx.filters, ctx.settings, lender, ctx.targetPayment).fits) {
+      return term === ctx.loanTerm ? null : suggestion(ctx, lender, "term", { loanTerm: term });
+    }
+  }
+  return null;
+};
+
+type Solver = (ctx: SolverContext, lender: LenderProfile) => StructureSuggestion | null;
+
+/** Each lever with its "lower is better" cost for picking across lenders. */
+const SOLVERS: [Solver, (s: StructureSuggestion) => number][] = [
+  [solveMinDown, (s) => s.downPayment],
+  [solveMaxPrice, (s) => -s.sellingPrice],
+  [solveShortestTerm, (s) => s.loanTerm],
+];
+
+/**
+ * One suggestion per lever (minimum down, maximum selling price, shortest
+ * term) that makes the deal eligible with the chosen lender — or, for "any
+ * active lender", the best of each lever across lenders — while keeping the
+ * payment at or under the target. The term lever only runs with a target
+ * payment. Returns [] when the current structure already fits, the vehicle
+ * has no price, or the chosen lender is unknown.
+ */
+export const solveDealStructure = (
+  vehicle: Vehicle,
+  deal: DealData,
+  filters: FilterData,
+  settings: Settings,
+  lenders: LenderProfile[],
+  options: SolveOptions = {}
+): StructureSuggestion[] => {
+  const price = positive(vehicle.price);
+  if (price === null) return [];
+  const candidates = lenders.filter(
+    (lender) => lender && isActive(lender) && (!options.lenderId || lender.id === options.lenderId)
+  );
+  if (candidates.length === 0) return [];
+
+  const targetPayment = positive(
+    options.targetPayment === undefined ? filters.maxPayment : options.targetPayment
+  );
+  const ctx: SolverContext = {
+    vehicle,
+    deal,
+    filters,
+    settings,
+    targetPayment,
+    price,
+    downPayment: Math.max(0, Number(deal.downPayment) || 0),
+    dealerDiscount: getRebateBreakdown(deal).dealerDiscount,
+    loanTerm: Number(deal.loanTerm) || 0,
+  };
+
+  // Only lenders that turn the current structure down are searched; if any
+  // candidate already takes it, there is nothing to solve.
+  const failing = candidates.filter(
+    (lender) => !checkFit(vehicle, deal, filters, settings, lender, targetPayment).fits
+  );
+  if (failing.length < candidates.length) return [];
+
+  const suggestions: StructureSuggestion[] = [];
+  for (const [solve, cost] of SOLVERS) {
+    let best: StructureSuggestion | null = null;
+    for (const lender of failing) {
+      const found = solve(ctx, lender);
+      if (found && (best === null || cost(found) < cost(best))) best = found;
+    }
+    if (best) suggestions.push(best);
+  }
+  return suggestions;
+};
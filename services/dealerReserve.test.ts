@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { quoteDealerReserve, rankLendersByDealerProfit, reserveModelFor } from "./dealerReserve";
+import type { LenderFitEntry } from "./lenderFit";
+import type { LenderProfile } from "../types";
+
+describe("reserveModelFor", () => {
+  it("prefers a configured flat % over a split %", () => {
+    expect(reserveModelFor({ reservePct: 75, flatReservePct: 2 })).toBe("flat");
+    expect(reserveModelFor({ reservePct: 75 })).toBe("split");
+    expect(reserveModelFor({})).toBeNull();
+  });
+});
+
+describe("quoteDealerReserve", () => {
+  it("marks up to the cap and pays the split on the extra finance charge", () => {
+    const quote = quoteDealerReserve(25000, 72, 6.49, { reservePct: 75, maxMarkup: 2 })!;
+    expect(quote.sellRate).toBe(8.49);
+    expect(quote.buyPayment).toBe(420.13);
+    expect(quote.payment).toBe(444.34);
+    expect(quote.markupFinanceCharge).toBe(1743.12);
+    expect(quote.dealerReserve).toBe(1307.34);
+  });
+
+  it("holds the sell rate under the matched tier's max rate", () => {
+    const quote = quoteDealerReserve(
+      25000,
+      72,
+      6.49,
+      { reservePct: 75, maxMarkup: 2 },
+      { maxRate: 7.5 }
+    )!;
+    expect(quote.sellRate).toBe(7.5);
+    expect(quote.markup).toBe(1.01);
+    expect(quote.dealerReserve).toBe(654.48);
+  });
+
+  it("quotes flat lenders at the buy rate", () => {
+    const quote = quoteDealerReserve(25000, 72, 6.49, { flatReservePct: 2, maxMarkup: 2 })!;
+    expect(quote.model).toBe("flat");
+    expect(quote.sellRate).toBe(6.49);
+    expect(quote.payment).toBe(quote.buyPayment);
+    expect(quote.dealerReserve).toBe(500);
+  });
+
+  it("earns nothing on a split lender with no markup allowance", () => {
+    expect(quoteDealerReserve(25000, 72, 6.49, { reservePct: 75 })!.dealerReserve).toBe(0);
+  });
+
+  it("returns null without a buy rate, financed amount or reserve model", () => {
+    expect(quoteDealerReserve(25000, 72, null, { reservePct: 75 })).toBeNull();
+    expect(quoteDealerReserve("N/A", 72, 6.49, { reservePct: 75 })).toBeNull();
+    expect(quoteDealerReserve(25000, 72, 6.49, { maxMarkup: 2 })).toBeNull();
+  });
+});
+
+describe("rankLendersByDealerProfit", () => {
+  const entry = (lenderId: string, patch: Partial<LenderFitEntry> = {}): LenderFitEntry => ({
+    lenderId,
+    name: lenderId,
+    eligible: true,
+    status: "eligible",
+    reasons: [],
+    matchedTier: null,
+    effectiveRate: 6.49,
+    ...patch,
+  });
+  const profiles = new Map<string, LenderProfile>(
+    (
+      [
+        { id: "low", name: "low", reservePct: 50, maxMarkup: 1, tiers: [] },
+        { id: "high", name: "high", reservePct: 75, maxMarkup: 2, tiers: [] },
+        { id: "flat", name: "flat", flatReservePct: 1, tiers: [] },
+        { id: "none", name: "none", tiers: [] },
+        { id: "out", name: "out", reservePct: 100, maxMarkup: 3, tiers: [] },
+      ] satisfies LenderProfile[]
+    ).map((profile) => [profile.id, profile])
+  );
+
+  it("ranks eligible lenders by dealer reserve, then unquoted fits, then the rest", () => {
+    const ranked = rankLendersByDealerProfit(
+      [
+        entry("low"),
+        entry("none"),
+        entry("out", { eligible: false, status: "ineligible" }),
+        entry("flat"),
+        entry("high"),
+      ],
+      profiles,
+      { amountToFinance: 25000 },
+      72
+    );
+    expect(ranked.map((e) => e.lenderId)).toEqual(["high", "low", "flat", "none", "out"]);
+    expect(ranked[0]!.reserve?.dealerReserve).toBe(1307.34);
+    expect(ranked[4]!.reserve).toBeNull();
+  });
+});
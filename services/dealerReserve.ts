@@ -0,0 +1,151 @@
+import type { CalculatedVehicle, LenderProfile, LenderTier } from "../types";
+import type { LenderFitEntry } from "./lenderFit";
+import { calculateMonthlyPayment, roundCents } from "./calculator";
+
+/**
+ * dealerReserve — per-lender rate markup and dealer participation on top of
+ * the rules engine's buy rate (checkBankEligibility.effectiveRate). Mirrors
+ * the FinanceTools Reserve tab math so the desk and the scratch calculator
+ * always agree:
+ * - split: (sell payment − buy payment) × term, times the lender's reserve %
+ * - flat:  amount financed × the lender's flat %, paid at the buy rate
+ */
+
+export type ReserveModel = "split" | "flat";
+
+export interface LenderReserveQuote {
+  model: ReserveModel;
+  buyRate: number;
+  sellRate: number;
+  /** sellRate − buyRate, in APR points. */
+  markup: number;
+  buyPayment: number;
+  /** Customer payment at the sell rate. */
+  payment: number;
+  /** Extra finance charge the markup costs the customer over the term. */
+  markupFinanceCharge: number;
+  /** Reserve paid to the dealer under the lender's model. */
+  dealerReserve: number;
+}
+
+const finite = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const nonNegative = (value: unknown): number | null => {
+  const n = finite(value);
+  return n !== null && n >= 0 ? n : null;
+};
+
+/**
+ * The lender's reserve model. A configured flat % wins; otherwise a split %
+ * on the markup. Null when the lender has neither — no reserve is quoted
+ * rather than a fabricated one.
+ */
+export const reserveModelFor = (
+  lender: Pick<LenderProfile, "reservePct" | "flatReservePct">
+): ReserveModel | null => {
+  if (nonNegative(lender.flatReservePct) !== null) return "flat";
+  if (nonNegative(lender.reservePct) !== null) return "split";
+  return null;
+};
+
+/**
+ * Quote the dealer reserve for one lender. The sell rate is the buy rate plus
+ * the lender's max markup, held under the matched tier's maxRate; flat-model
+ * lenders are quoted at the buy rate since they do not pay on markup.
+ * Returns null without a financed amount, a term, a buy rate or a model.
+ */
+export const quoteDealerReserve = (
+  amountFinanced: number | "Error" | "N/A",
+  termMonths: number,
+  buyRate: number | null | undefined,
+  lender: Pick<LenderProfile, "reservePct" | "flatReservePct" | "maxMarkup">,
+  tier: Pick<LenderTier, "maxRate"> | null = null
+): LenderReserveQuote | null => {
+  if (typeof amountFinanced !== "number" || amountFinanced <= 0) return null;
+  const buy = nonNegative(buyRate);
+  if (buy === null) return null;
+  const model = reserveModelFor(lender);
+  if (model === null) return null;
+
+  const maxMarkup = model === "split" ? (nonNegative(lender.maxMarkup) ?? 0) : 0;
+  const rateCap = nonNegative(tier?.maxRate);
+  const sellRate = Math.max(
+    buy,
+    rateCap === null ? buy + maxMarkup : Math.min(buy + maxMarkup, rateCap)
+  );
+
+  const buyPayment = calculateMonthlyPayment(amountFinanced, buy, termMonths);
+  const payment = calculateMonthlyPayment(amountFinanced, sellRate, termMonths);
+  if (buyPayment === "Error" || payment === "Error") return null;
+
+  const term = Math.floor(termMonths);
+  const markupFinanceCharge = roundCents((payment - buyPayment) * term);
+  const dealerReserve =
+    model === "flat"
+      ? roundCents(amountFinanced * ((lender.flatReservePct as number) / 100))
+      : roundCents(markupFinanceCharge * ((lender.reservePct as number) / 100));
+
+  return {
+    model,
+    buyRate: buy,
+    sellRate: Number(sellRate.toFixed(3)),
+    markup: Number((sellRate - buy).toFixed(3)),
+    buyPayment,
+    payment,
+    markupFinanceCharge,
+    dealerReserve,
+  };
+};
+
+export interface RankedLenderEntry extends LenderFitEntry {
+  reserve: LenderReserveQuote | null;
+}
+
+const isVerifiedFit = (entry: LenderFitEntry): boolean =>
+  (entry.status ?? (entry.eligible ? "eligible" : "ineligible")) === "eligible" && entry.eligible;
+
+/**
+ * Attach a reserve quote to every eligible lender and rank eligible lenders
+ * by dealer reserve, highest first. Front-end gross and backend are the same
+ * whichever lender buys the deal, so reserve is the lender-dependent part of
+ * net dealer profit. Eligible lenders without a quote keep their fit order
+ * after the quoted ones; pending and ineligible entries follow unchanged.
+ */
+export const rankLendersByDealerProfit = (
+  entries: LenderFitEntry[],
+  profilesById: Map<string, LenderProfile>,
+  vehicle: Pick<CalculatedVehicle, "amountToFinance">,
+  termMonths: number
+): RankedLenderEntry[] => {
+  const ranked = entries.map((entry, index) => {
+    const profile = profilesById.get(entry.lenderId);
+    const reserve =
+      profile && isVerifiedFit(entry)
+        ? quoteDealerReserve(
+            vehicle.amountToFinance,
+            termMonths,
+            entry.effectiveRate,
+            profile,
+            entry.matchedTier
+          )
+        : null;
+    return { entry: { ...entry, reserve }, index };
+  });
+  ranked.sort((left, right) => {
+    const leftFit = isVerifiedFit(left.entry);
+    const rightFit = isVerifiedFit(right.entry);
+    if (leftFit !== rightFit) return leftFit ? -1 : 1;
+    if (leftFit) {
+      const leftProfit = left.entry.reserve?.dealerReserve ?? null;
+      const rightProfit = right.entry.reserve?.dealerReserve ?? null;
+      if (leftProfit !== null && rightProfit === null) return -1;
+      if (leftProfit === null && rightProfit !== null) return 1;
+      if (leftProfit !== null && rightProfit !== null && leftProfit !== rightProfit) {
+        return rightProfit - leftProfit;
+      }
+    }
+    return left.index - right.index;
+  });
+  return ranked.map(({ entry }) => entry);
+};
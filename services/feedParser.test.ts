@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectFeedFormat,
+  detectFeedMapping,
+  parseInventoryFeed,
+  readInventoryFeed,
+} from "./feedParser";
+
+const XML_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- nightly export -->
+<inventory dealer="Main St Motors">
+  <vehicle stock_no="STK100">
+    <VIN>1HGCM82633A004352</VIN>
+    <Year>2021</Year>
+    <Make>Honda</Make>
+    <Model>Accord</Model>
+    <Trim><![CDATA[EX-L & Sport]]></Trim>
+    <Mileage>32,100</Mileage>
+    <Pricing>
+      <InternetPrice currency="USD">21,995</InternetPrice>
+    </Pricing>
+    <Photos><Photo url="a.jpg"/><Photo url="b.jpg"/><Photo url="c.jpg"/></Photos>
+  </vehicle>
+  <vehicle stock_no="STK101">
+    <VIN>2T1BURHE0JC034561</VIN>
+    <Year>2018</Year>
+    <Make>Toyota</Make>
+    <Model>Corolla</Model>
+    <Mileage>61000</Mileage>
+    <Pricing><InternetPrice>13,450</InternetPrice></Pricing>
+  </vehicle>
+</inventory>`;
+
+describe("feedParser", () => {
+  describe("detectFeedFormat", () => {
+    it("prefers the file name or content type, then sniffs the text", () => {
+      expect(detectFeedFormat("", "lot.XML")).toBe("xml");
+      expect(detectFeedFormat("", "application/json; charset=utf-8")).toBe("json");
+      expect(detectFeedFormat("", "text/csv")).toBe("csv");
+      expect(detectFeedFormat("  <feed/>")).toBe("xml");
+      expect(detectFeedFormat('{"vehicles":[]}')).toBe("json");
+      expect(detectFeedFormat("VIN,Price")).toBe("csv");
+    });
+  });
+
+  describe("XML feeds", () => {
+    it("reads repeated vehicle elements, flattening attributes and nested fields", () => {
+      const table = readInventoryFeed(XML_FEED, "xml");
+      expect(table.rows).toHaveLength(2);
+      expect(table.headers).toEqual(
+        expect.arrayContaining(["stock_no", "VIN", "Trim", "Pricing.InternetPrice"])
+      );
+      const trim = table.headers.indexOf("Trim");
+      expect(table.rows[0]?.[trim]).toBe("EX-L & Sport");
+    });
+
+    it("parses to vehicles through the shared row parser", () => {
+      const result = parseInventoryFeed(XML_FEED, "xml");
+      expect(result.skipped).toBe(0);
+      expect(result.vehicles[0]).toMatchObject({
+        vin: "1HGCM82633A004352",
+        stock: "STK100",
+        modelYear: 2021,
+        make: "Honda",
+        model: "Accord",
+        mileage: 32100,
+        price: 21995,
+      });
+      expect(result.vehicles[1]?.trim).toBeUndefined();
+    });
+
+    it("ignores namespace prefixes when matching fields", () => {
+      const feed = `<rss xmlns:g="http://base.google.com/ns/1.0"><channel>
+        <item><g:vin>1HGCM82633A004352</g:vin><g:make>Honda</g:make><g:model>Civic</g:model>
+          <g:price>19,000.00 USD</g:price><g:mileage>1000</g:mileage></item>
+      </channel></rss>`;
+      const [vehicle] = parseInventoryFeed(feed, "xml").vehicles;
+      expect(vehicle).toMatchObject({ make: "Honda", model: "Civic", price: 19000 });
+    });
+
+    it("leaves numeric entities that name no character as written", () => {
+      const feed = XML_FEED.replace(
+        "<![CDATA[EX-L & Sport]]>",
+        "A&#x110000;B&#99999999;C&#xD800;&#233;"
+      );
+      const table = readInventoryFeed(feed, "xml");
+      expect(table.rows[0]?.[table.headers.indexOf("Trim")]).toBe(
+        "A&#x110000;B&#99999999;C&#xD800;é"
+      );
+    });
+
+    it("rejects malformed XML with a readable message", () => {
+      expect(() => readInventoryFeed("<inventory><vehicle></inventory>", "xml")).toThrow(
+        /isn't well-formed/
+      );
+    });
+  });
+
+  describe("JSON feeds", () => {
+    it("finds the vehicle array under a wrapper object", () => {
+      const feed = JSON.stringify({
+        meta: { count: 2, tags: [{ name: "a" }] },
+        data: {
+          listings: [
+            {
+              vin: "1HGCM82633A004352",
+              year: 2020,
+              make: "Honda",
+              model: "CR-V",
+              odometer: 40000,
+              pricing: { sellingPrice: 24500 },
+            },
+            {
+              vin: "",
+              year: 2019,
+              make: "Ford",
+              model: "Escape",
+              odometer: 55000,
+              pricing: { sellingPrice: 15000 },
+            },
+          ],
+        },
+      });
+      const result = parseInventoryFeed(feed, "json");
+      expect(result.vehicles).toHaveLength(2);
+      expect(result.vehicles[0]).toMatchObject({ model: "CR-V", mileage: 40000, price: 24500 });
+    });
+
+    it("reports the same skip reasons as a CSV upload", () => {
+      const feed = JSON.stringify([
+        { vin: "1HGCM82633A004352", make: "Honda", model: "Fit", miles: 1, price: 9000 },
+        { vin: "2T1BURHE0JC034561", make: "Toyota", model: "", miles: 1, price: 8000 },
+      ]);
+      const result = parseInventoryFeed(feed, "json");
+      expect(result.vehicles).toHaveLength(1);
+      expect(result.skipped).toBe(1);
+      expect(result.reasons.length).toBeGreaterThan(0);
+    });
+
+    it("names the feed's fields when required ones are missing", () => {
+      const feed = JSON.stringify([{ vin: "1HGCM82633A004352", make: "Honda", model: "Fit" }]);
+      expect(() => parseInventoryFeed(feed, "json")).toThrow(/\[vin, make, model\]/);
+    });
+
+    it("rejects invalid JSON and feeds without vehicle records", () => {
+      expect(() => readInventoryFeed("{", "json")).toThrow(/isn't valid JSON/);
+      expect(() => readInventoryFeed('{"items":[{"id":1}]}', "json")).toThrow(/No vehicle records/);
+    });
+  });
+
+  describe("detectFeedMapping", () => {
+    it("keeps the built-in CSV headers and prefers the shallowest alias", () => {
+      const mapping = detectFeedMapping(["Stock #", "dealer.price", "price", "Unit Cost", "Cost"]);
+      expect(mapping.stock).toBe("Stock #");
+      expect(mapping.price).toBe("price");
+      expect(mapping.unitCost).toBe("Unit Cost");
+    });
+  });
+});
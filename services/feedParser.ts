@@ -0,0 +1,327 @@
+import type { InventoryColumnMapping, InventoryImportField } from "../types";
+import {
+  columnMappingProblems,
+  detectColumnMapping,
+  parseInventoryRows,
+  readInventoryTable,
+  type InventoryTable,
+  type ParseResult,
+} from "./fileParser.js";
+
+/**
+ * feedParser — inventory published as an XML or JSON feed by a DMS or
+ * website provider, read into the same header/row table a CSV upload gives.
+ * Each vehicle record is flattened to "field" (or "parent.field") keys, so a
+ * mapping profile can still pick any column, and the usual row parser does
+ * the rest: the same ParseResult, skip reasons and synthetic VINs.
+ *
+ * Feeds don't share a schema. The record list is found by shape (the
+ * longest list of elements or objects that carry vehicle fields), and field
+ * names are matched against the aliases below, ignoring case, punctuation
+ * and XML namespace prefixes ("g:price", "StockNumber", "stock_no").
+ */
+
+export type InventoryFeedFormat = "xml" | "json" | "csv";
+
+const FIELD_ALIASES: Record<InventoryImportField, string[]> = {
+  vin: ["vin", "vinnumber", "vehiclevin"],
+  stock: ["stock", "stocknumber", "stockno", "stocknum", "stockid"],
+  vehicle: ["vehicle", "title", "vehiclename", "vehicletitle"],
+  modelYear: ["year", "modelyear", "vehicleyear"],
+  make: ["make", "manufacturer", "brand"],
+  model: ["model", "modelname"],
+  trim: ["trim", "trimlevel", "series"],
+  mileage: ["mileage", "odometer", "miles", "odometerreading", "mileagevalue"],
+  price: [
+    "price",
+    "internetprice",
+    "sellingprice",
+    "saleprice",
+    "askingprice",
+    "listprice",
+    "specialprice",
+    "retailprice",
+  ],
+  unitCost: ["unitcost", "cost", "dealercost", "invoice", "invoiceprice"],
+  jdPower: ["jdpowertradein", "jdpowertrade", "tradeinvalue", "tradevalue", "booktrade"],
+  jdPowerRetail: ["jdpowerretail", "retailbook", "bookretail", "retailvalue"],
+};
+
+const ALIAS_LOOKUP = new Set(Object.values(FIELD_ALIASES).flat());
+
+const normalizeSegment = (segment: string) =>
+  segment
+    .replace(/^[^:]*:/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/** A flattened key's candidates, whole path first, then its last segment. */
+const keyForms = (key: string): { whole: string; last: string; depth: number } => {
+  const segments = key.split(".");
+  return {
+    whole: segments.map(normalizeSegment).join(""),
+    last: normalizeSegment(segments[segments.length - 1] ?? ""),
+    depth: segments.length,
+  };
+};
+
+const knownFieldCount = (record: Record<string, string>) =>
+  Object.keys(record).filter((key) => {
+    const { whole, last } = keyForms(key);
+    return ALIAS_LOOKUP.has(whole) || ALIAS_LOOKUP.has(last);
+  }).length;
+
+/** A candidate record list scores the members that look like vehicles. */
+const VEHICLE_SIGNAL = 2;
+const recordScore = (records: Record<string, string>[]) =>
+  records.filter((record) => knownFieldCount(record) >= VEHICLE_SIGNAL).length;
+
+/* ---------- XML ---------- */
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/** A Unicode scalar value: in range and not a lone surrogate. */
+const isScalar = (code: number) => code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+
+/** Named and numeric entities; one that names no character is left as written. */
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#")) {
+      const code = lower.startsWith("#x")
+        ? parseInt(lower.slice(2), 16)
+        : parseInt(lower.slice(1), 10);
+      return isScalar(code) ? String.fromCodePoint(code) : match;
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? match;
+  });
+
+const XML_TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTR = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NOT_WELL_FORMED = "The XML feed isn't well-formed.";
+
+/**
+ * Elements, attributes and text of a feed document. Enough XML for vehicle
+ * feeds: no DTDs, and namespaces are kept as written in the names.
+ */
+const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1] ?? root;
+
+  for (const match of text.matchAll(XML_TOKEN)) {
+    const [token, cdata, closing, opening, attrText, selfClosing, chars] = match;
+    if (cdata !== undefined) {
+      current().text += cdata;
+    } else if (closing !== undefined) {
+      if (stack.length < 2 || current().name !== closing) throw new Error(NOT_WELL_FORMED);
+      stack.pop();
+    } else if (opening !== undefined) {
+      const attrs: Record<string, string> = {};
+      for (const [, name, double, single] of (attrText ?? "").matchAll(XML_ATTR)) {
+        if (name) attrs[name] = decodeEntities(double ?? single ?? "");
+      }
+      const element: XmlElement = { name: opening, attrs, children: [], text: "" };
+      current().children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (chars !== undefined) {
+      current().text += decodeEntities(chars);
+    } else if (token.startsWith("<") && !/^<(!--|\?|!DOCTYPE)/i.test(token)) {
+      throw new Error(NOT_WELL_FORMED);
+    }
+  }
+  if (stack.length !== 1 || root.children.length === 0) throw new Error(NOT_WELL_FORMED);
+  return root;
+};
+
+const flattenElement = (
+  element: XmlElement,
+  prefix = "",
+  into: Record<string, string> = {}
+): Record<string, string> => {
+  for (const [name, value] of Object.entries(element.attrs)) {
+    const key = `${prefix}${name}`;
+    if (!(key in into)) into[key] = value.trim();
+  }
+  for (const child of element.children) {
+    const key = `${prefix}${child.name}`;
+    if (child.children.length === 0) {
+      if (!(key in into)) into[key] = child.text.trim();
+      // <price currency="USD">…</price>: the text is the value, attributes nest.
+      for (const [name, value] of Object.entries(child.attrs)) {
+        if (!(`${key}.${name}` in into)) into[`${key}.${name}`] = value.trim();
+      }
+    } else {
+      flattenElement(child, `${key}.`, into);
+    }
+  }
+  return into;
+};
+
+const xmlRecords = (root: XmlElement): Record<string, string>[] => {
+  let best: Record<string, string>[] = [];
+  let bestScore = 0;
+  const visit = (element: XmlElement) => {
+    const groups = new Map<string, XmlElement[]>();
+    for (const child of element.children) {
+      const group = groups.get(child.name);
+      if (group) group.push(child);
+      else groups.set(child.name, [child]);
+    }
+    for (const group of groups.values()) {
+      const records = group.map((member) => flattenElement(member));
+      const score = recordScore(records);
+      if (score > bestScore) {
+        best = records;
+        bestScore = score;
+      }
+    }
+    element.children.forEach(visit);
+  };
+  visit(root);
+  return best;
+};
+
+/* ---------- JSON ---------- */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const flattenObject = (
+  value: Record<string, unknown>,
+  prefix = "",
+  into: Record<string, string> = {}
+): Record<string, string> => {
+  for (const [name, child] of Object.entries(value)) {
+    const key = `${prefix}${name}`;
+    if (typeof child === "string" || typeof child === "number" || typeof child === "boolean") {
+      into[key] = String(child).trim();
+    } else if (isPlainObject(child)) {
+      flattenObject(child, `${key}.`, into);
+    }
+  }
+  return into;
+};
+
+const jsonRecords = (doc: unknown): Record<string, string>[] => {
+  let best: Record<string, string>[] = [];
+  let bestScore = 0;
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      const records = value.filter(isPlainObject).map((item) => flattenObject(item));
+      const score = recordScore(records);
+      if (score > bestScore) {
+        best = records;
+        bestScore = score;
+      }
+      value.forEach(visit);
+    } else if (isPlainObject(value)) {
+      Object.values(value).forEach(visit);
+    }
+  };
+  // A feed of one vehicle may be the bare object.
+  visit(isPlainObject(doc) && knownFieldCount(flattenObject(doc)) >= VEHICLE_SIGNAL ? [doc] : doc);
+  return best;
+};
+
+/* ---------- table + mapping ---------- */
+
+const recordsToTable = (records: Record<string, string>[]): InventoryTable => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+  return { headers, rows: records.map((record) => headers.map((h) => record[h] ?? "")) };
+};
+
+/** "xml", "json" or "csv" from a file name or content type, else from the text itself. */
+export const detectFeedFormat = (text: string, hint = ""): InventoryFeedFormat => {
+  const lower = hint.toLowerCase();
+  if (/\.xml$|[/+]xml\b/.test(lower)) return "xml";
+  if (/\.json$|[/+]json\b/.test(lower)) return "json";
+  if (/\.csv$|\/csv\b/.test(lower)) return "csv";
+  const first = text.trimStart().charAt(0);
+  if (first === "<") return "xml";
+  if (first === "{" || first === "[") return "json";
+  return "csv";
+};
+
+/** The feed's vehicle records as a header/row table. */
+export const readInventoryFeed = (text: string, format: InventoryFeedFormat): InventoryTable => {
+  if (!text || text.trim() === "") throw new Error("The feed is empty.");
+  if (format === "csv") return readInventoryTable(text, false);
+
+  let records: Record<string, string>[];
+  if (format === "json") {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(text);
+    } catch {
+      throw new Error("The JSON feed isn't valid JSON.");
+    }
+    records = jsonRecords(doc);
+  } else {
+    records = xmlRecords(parseXml(text));
+  }
+  if (records.length === 0) {
+    throw new Error(
+      "No vehicle records were found in the feed. Each vehicle needs at least two fields such as VIN, year, make, model or price."
+    );
+  }
+  return recordsToTable(records);
+};
+
+/**
+ * Feed keys mapped to fields by alias, over the built-in CSV header names.
+ * Among keys for the same alias the shallowest wins ("price" before
+ * "pricing.price").
+ */
+export const detectFeedMapping = (headers: string[]): InventoryColumnMapping => {
+  const mapping: InventoryColumnMapping = detectColumnMapping(headers);
+  const forms = headers.map((header) => ({ header, ...keyForms(header) }));
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [
+    InventoryImportField,
+    string[],
+  ][]) {
+    if (mapping[field]) continue;
+    for (const alias of aliases) {
+      const matches = forms
+        .filter((f) => f.whole === alias || f.last === alias)
+        .sort((a, b) => a.depth - b.depth);
+      const header = matches[0]?.header;
+      if (header) {
+        mapping[field] = header;
+        break;
+      }
+    }
+  }
+  return mapping;
+};
+
+/** A whole feed to vehicles, for callers with no mapping step (the scheduled import). */
+export const parseInventoryFeed = (
+  text: string,
+  format: InventoryFeedFormat,
+  mapping?: InventoryColumnMapping
+): ParseResult => {
+  const table = readInventoryFeed(text, format);
+  const resolved = mapping ?? detectFeedMapping(table.headers);
+  const [problem] = columnMappingProblems(resolved);
+  if (problem) {
+    throw new Error(`${problem} The feed's fields are: [${table.headers.join(", ")}].`);
+  }
+  return parseInventoryRows(table, resolved);
+};
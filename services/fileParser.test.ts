@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { parseInventoryCsv, detectDelimiter, parseNumber } from "./fileParser";
+import {
+  parseInventoryCsv,
+  detectDelimiter,
+  parseNumber,
+  columnMappingProblems,
+  detectColumnMapping,
+} from "./fileParser";
 
 describe("fileParser", () => {
   describe("detectDelimiter [B10]", () => {
@@ -230,4 +236,45 @@ describe("fileParser", () => {
       expect(skipped).toBe(0);
     });
   });
+
+  describe("column mapping", () => {
+    const vAuto =
+      "Stock Number,Yr,Mk,Mdl,Odo,Internet Price,Book Trade\nA1,2021,Honda,Civic,30000,21500,18000";
+
+    it("reads files under a mapping the built-in names don't cover", () => {
+      expect(() => parseInventoryCsv(vAuto, false)).toThrow(/'Make' and 'Model' columns/);
+
+      const { vehicles } = parseInventoryCsv(vAuto, false, {
+        stock: "Stock Number",
+        modelYear: "Yr",
+        make: "Mk",
+        model: "Mdl",
+        mileage: "Odo",
+        price: "Internet Price",
+        jdPower: "Book Trade",
+      });
+      expect(vehicles[0]).toMatchObject({
+        stock: "A1",
+        make: "Honda",
+        model: "Civic",
+        modelYear: 2021,
+        mileage: 30000,
+        price: 21500,
+        jdPower: 18000,
+      });
+    });
+
+    it("detects the built-in headers and reports what a mapping lacks", () => {
+      const mapping = detectColumnMapping(["Stock #", "VIN", "Vehicle", "Odometer", "Price"]);
+      expect(mapping).toEqual({
+        stock: "Stock #",
+        vin: "VIN",
+        vehicle: "Vehicle",
+        mileage: "Odometer",
+        price: "Price",
+      });
+      expect(columnMappingProblems(mapping)).toEqual([]);
+      expect(columnMappingProblems({ make: "Mk", price: "Price" })).toHaveLength(2);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import type { Vehicle } from "../types";
+import type { InventoryColumnMapping, InventoryImportField, Vehicle } from "../types";
 
 /**
  * Result of parsing an inventory file. `skipped`/`reasons` make data loss
@@ -162,11 +162,14 @@ const parseVehicleDescription = (
   };
 };
 
-/**
- * Pure CSV/XLSX-as-CSV parser. Separated from file I/O so it can be unit-tested
- * without a browser FileReader.
- */
-export const parseInventoryCsv = (csvContent: string, isExcel: boolean): ParseResult => {
+/** A file's header row and data rows, split but not yet interpreted. */
+export interface InventoryTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Split CSV (or XLSX flattened to CSV) into headers and rows. */
+export const readInventoryTable = (csvContent: string, isExcel: boolean): InventoryTable => {
   if (!csvContent || typeof csvContent !== "string" || csvContent.trim() === "") {
     throw new Error("File content is empty or the first sheet is blank.");
   }
@@ -179,52 +182,111 @@ export const parseInventoryCsv = (csvContent: string, isExcel: boolean): ParseRe
   const headerLine = lines[0] ?? "";
   const delimiter = isExcel ? "," : detectDelimiter(headerLine);
   const headers = parseCsvRow(headerLine, delimiter).map((h) => h.trim());
-  const headersLower = headers.map((h) => h.toLowerCase());
+  const rows = lines
+    .slice(1)
+    .filter(Boolean)
+    .map((line) => parseCsvRow(line, delimiter));
+  return { headers, rows };
+};
 
-  const idx = {
-    vehicle: headersLower.indexOf("vehicle"),
-    make: headersLower.indexOf("make"),
-    model: headersLower.indexOf("model"),
-    trim: headersLower.indexOf("trim"),
-    stock: headersLower.indexOf("stock #"),
-    vin: headersLower.indexOf("vin"),
-    price: headersLower.indexOf("price"),
-    jdPower: headers.findIndex(
-      (h) => h.toLowerCase().includes("j.d. power") && h.toLowerCase().includes("trade in")
-    ),
-    jdPowerRetail: headers.findIndex(
-      (h) => h.toLowerCase().includes("j.d. power") && h.toLowerCase().includes("retail")
-    ),
-    unitCost: headersLower.indexOf("unit cost"),
-    modelYear: headersLower.findIndex((h) => h === "model year" || h === "year"),
-    mileage: headersLower.findIndex((h) => h === "odometer" || h === "mileage"),
+/**
+ * The built-in header names ("Stock #", "J.D. Power … Trade In", "Odometer"…)
+ * mapped to fields. Files from other systems need a mapping profile.
+ */
+export const detectColumnMapping = (headers: string[]): InventoryColumnMapping => {
+  const lower = headers.map((h) => h.toLowerCase());
+  const find = (match: (h: string) => boolean): string | undefined => {
+    const i = lower.findIndex(match);
+    return i === -1 ? undefined : headers[i];
   };
-
-  const requiredColumnsMap = {
-    price: "'Price'",
-    mileage: "'Odometer' or 'Mileage'",
+  const mapping: InventoryColumnMapping = {
+    vehicle: find((h) => h === "vehicle"),
+    make: find((h) => h === "make"),
+    model: find((h) => h === "model"),
+    trim: find((h) => h === "trim"),
+    stock: find((h) => h === "stock #"),
+    vin: find((h) => h === "vin"),
+    price: find((h) => h === "price"),
+    jdPower: find((h) => h.includes("j.d. power") && h.includes("trade in")),
+    jdPowerRetail: find((h) => h.includes("j.d. power") && h.includes("retail")),
+    unitCost: find((h) => h === "unit cost"),
+    modelYear: find((h) => h === "model year" || h === "year"),
+    mileage: find((h) => h === "odometer" || h === "mileage"),
   };
+  return Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header !== undefined)
+  ) as InventoryColumnMapping;
+};
 
-  // Check for either Vehicle OR (Make + Model)
-  const hasVehicle = idx.vehicle !== -1;
-  const hasMakeModel = idx.make !== -1 && idx.model !== -1;
+const IDENTITY_PROBLEM =
+  "File must contain either a 'Vehicle' column OR 'Make' and 'Model' columns.";
 
-  if (!hasVehicle && !hasMakeModel) {
-    throw new Error("File must contain either a 'Vehicle' column OR 'Make' and 'Model' columns.");
+/**
+ * Why a mapping can't import, as user-facing sentences; empty when it can.
+ * Price and mileage are required, plus either a vehicle description or
+ * make and model.
+ */
+export const columnMappingProblems = (mapping: InventoryColumnMapping): string[] => {
+  const problems: string[] = [];
+  if (!mapping.vehicle && !(mapping.make && mapping.model)) problems.push(IDENTITY_PROBLEM);
+  const missing = [
+    !mapping.price && "'Price'",
+    !mapping.mileage && "'Odometer' or 'Mileage'",
+  ].filter((name): name is string => Boolean(name));
+  if (missing.length > 0) {
+    problems.push(`File is missing or has misnamed required columns: ${missing.join(", ")}.`);
   }
+  return problems;
+};
 
-  const missingColumns = Object.entries(requiredColumnsMap)
-    .filter(([key]) => idx[key as keyof typeof idx] === -1)
-    .map(([, friendlyName]) => friendlyName);
-
-  if (missingColumns.length > 0) {
-    const missingMessage = `File is missing or has misnamed required columns: ${missingColumns.join(
-      ", "
-    )}.`;
-    const foundMessage = `The headers found in the file are: [${headers.join(", ")}].`;
+/**
+ * Pure CSV/XLSX-as-CSV parser. Separated from file I/O so it can be unit-tested
+ * without a browser FileReader. Columns come from `mapping` when given, else
+ * from the built-in header names.
+ */
+export const parseInventoryCsv = (
+  csvContent: string,
+  isExcel: boolean,
+  mapping?: InventoryColumnMapping
+): ParseResult => {
+  const table = readInventoryTable(csvContent, isExcel);
+  const resolved = mapping ?? detectColumnMapping(table.headers);
+  const [problem] = columnMappingProblems(resolved);
+  if (problem) {
+    // The built-in names failed: list what the file does have so the user can
+    // rename the headers or map them.
+    const foundMessage = `The headers found in the file are: [${table.headers.join(", ")}].`;
     const suggestion = `Please correct the column headers and try again.`;
-    throw new Error(`${missingMessage}\n${foundMessage}\n${suggestion}`);
+    throw new Error(
+      problem === IDENTITY_PROBLEM ? problem : `${problem}\n${foundMessage}\n${suggestion}`
+    );
   }
+  return parseInventoryRows(table, resolved);
+};
+
+/** Vehicles from a split table under a mapping that passes columnMappingProblems. */
+export const parseInventoryRows = (
+  { headers, rows }: InventoryTable,
+  mapping: InventoryColumnMapping
+): ParseResult => {
+  const column = (field: InventoryImportField) => {
+    const header = mapping[field];
+    return header === undefined ? -1 : headers.indexOf(header);
+  };
+  const idx = {
+    vehicle: column("vehicle"),
+    make: column("make"),
+    model: column("model"),
+    trim: column("trim"),
+    stock: column("stock"),
+    vin: column("vin"),
+    price: column("price"),
+    jdPower: column("jdPower"),
+    jdPowerRetail: column("jdPowerRetail"),
+    unitCost: column("unitCost"),
+    modelYear: column("modelYear"),
+    mileage: column("mileage"),
+  };
 
   let skippedMissingData = 0;
   let skippedMissingIdentity = 0;
@@ -237,9 +299,8 @@ export const parseInventoryCsv = (csvContent: string, isExcel: boolean): ParseRe
 
   const vehicles: Vehicle[] = [];
 
-  for (const rowString of lines.slice(1)) {
-    if (!rowString) continue;
-    const vals = parseCsvRow(rowString, delimiter);
+  for (const row of rows) {
+    const vals = [...row];
     // Pad short rows to header width instead of dropping them — a trailing blank
     // optional column should not make a whole vehicle vanish. [B1]
     while (vals.length < headers.length) vals.push("");
@@ -362,7 +423,10 @@ export const parseInventoryCsv = (csvContent: string, isExcel: boolean): ParseRe
   };
 };
 
-export const parseFile = (file: File): Promise<ParseResult> => {
+/** A file's text, with XLSX flattened to CSV from its first sheet. */
+export const readInventoryFile = (
+  file: File
+): Promise<{ csvContent: string; isExcel: boolean }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -370,7 +434,6 @@ export const parseFile = (file: File): Promise<ParseResult> => {
       try {
         const data = e.target?.result;
         const buf = data instanceof ArrayBuffer ? data : new ArrayBuffer(0);
-        let csvContent: string;
         const isExcel = file.name.toLowerCase().endsWith(".xlsx");
 
         if (isExcel) {
@@ -378,25 +441,13 @@ export const parseFile = (file: File): Promise<ParseResult> => {
           const { default: readXlsxFile } = await import("read-excel-file/browser");
           const sheets = await readXlsxFile(buf);
           const rows = sheets[0]?.data ?? [];
-          csvContent = rows.map((row) => row.map(toCsvCell).join(",")).join("\n");
+          resolve({
+            csvContent: rows.map((row) => row.map(toCsvCell).join(",")).join("\n"),
+            isExcel,
+          });
         } else {
-          csvContent = new TextDecoder("utf-8").decode(new Uint8Array(buf));
+          resolve({ csvContent: new TextDecoder("utf-8").decode(new Uint8Array(buf)), isExcel });
         }
-
-        const result = parseInventoryCsv(csvContent, isExcel);
-
-        if (result.vehicles.length === 0) {
-          reject(
-            new Error(
-              `No valid rows found. Ensure each row has Make and Model plus numeric Price and Mileage.${
-                result.reasons.length ? ` (${result.reasons.join("; ")})` : ""
-              }`
-            )
-          );
-          return;
-        }
-
-        resolve(result);
       } catch (error) {
         reject(error);
       }
@@ -409,3 +460,15 @@ export const parseFile = (file: File): Promise<ParseResult> => {
     reader.readAsArrayBuffer(file);
   });
 };
+
+/** Rejects a parse that kept no vehicles, with the skip reasons. */
+export const assertInventoryRows = (result: ParseResult): ParseResult => {
+  if (result.vehicles.length === 0) {
+    throw new Error(
+      `No valid rows found. Ensure each row has Make and Model plus numeric Price and Mileage.${
+        result.reasons.length ? ` (${result.reasons.join("; ")})` : ""
+      }`
+    );
+  }
+  return result;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { calculateFirstPaymentAdjustment, formatIsoDate, parseIsoDate } from "./firstPayment";
+import { calculateMonthlyPayment } from "./calculator";
+
+const deal = {
+  interestRate: 6 as number | "",
+  loanTerm: 60,
+  contractDate: "2026-01-01",
+  firstPaymentDate: "2026-02-15",
+};
+
+describe("parseIsoDate", () => {
+  it("accepts real calendar dates only", () => {
+    expect(parseIsoDate("2026-02-15")).toBe(Date.UTC(2026, 1, 15));
+    expect(parseIsoDate("2026-02-30")).toBeNull();
+    expect(parseIsoDate("02/15/2026")).toBeNull();
+    expect(parseIsoDate(undefined)).toBeNull();
+  });
+});
+
+describe("calculateFirstPaymentAdjustment", () => {
+  it("prices a 45-day deferral above the 30-day payment", () => {
+    const result = calculateFirstPaymentAdjustment(25000, deal)!;
+    expect(result.firstPeriodDays).toBe(45);
+    expect(result.oddDays).toBe(15);
+    // 25,000 × 6% / 365 × 15 days.
+    expect(result.oddDaysInterest).toBe(61.64);
+    expect(result.standardPayment).toBe(calculateMonthlyPayment(25000, 6, 60));
+    expect(result.adjustedPayment).toBe(484.51);
+    expect(result.paymentDifference).toBe(1.19);
+  });
+
+  it("credits a short first period", () => {
+    const result = calculateFirstPaymentAdjustment(25000, {
+      ...deal,
+      firstPaymentDate: "2026-01-21",
+    })!;
+    expect(result.oddDays).toBe(-10);
+    expect(result.oddDaysInterest).toBe(-41.1);
+    expect(result.paymentDifference).toBe(-0.79);
+  });
+
+  it("is a no-op for an exact 30-day first period", () => {
+    const result = calculateFirstPaymentAdjustment(25000, {
+      ...deal,
+      firstPaymentDate: "2026-01-31",
+    })!;
+    expect(result.oddDaysInterest).toBe(0);
+    expect(result.paymentDifference).toBe(0);
+  });
+
+  it("counts days across DST and month ends in UTC", () => {
+    const result = calculateFirstPaymentAdjustment(25000, {
+      ...deal,
+      contractDate: "2026-03-01",
+      firstPaymentDate: "2026-04-15",
+    })!;
+    expect(result.firstPeriodDays).toBe(45);
+  });
+
+  it("returns null without a usable quote or date pair", () => {
+    expect(calculateFirstPaymentAdjustment("N/A", deal)).toBeNull();
+    expect(calculateFirstPaymentAdjustment(25000, { ...deal, interestRate: "" })).toBeNull();
+    expect(
+      calculateFirstPaymentAdjustment(25000, { ...deal, firstPaymentDate: undefined })
+    ).toBeNull();
+    expect(
+      calculateFirstPaymentAdjustment(25000, { ...deal, firstPaymentDate: "2025-12-15" })
+    ).toBeNull();
+    expect(
+      calculateFirstPaymentAdjustment(25000, { ...deal, firstPaymentDate: "2026-06-01" })
+    ).toBeNull();
+  });
+});
+
+describe("formatIsoDate", () => {
+  it("formats without shifting the day across time zones", () => {
+    expect(formatIsoDate("2026-02-15")).toBe("Feb 15, 2026");
+  });
+});
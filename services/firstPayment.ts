@@ -0,0 +1,120 @@
+import type { DealData } from "../types";
+import { calculateMonthlyPayment, roundCents } from "./calculator";
+import { getPaymentStructure, isLevelMonthly } from "./paymentStructure";
+
+/** calculateMonthlyPayment assumes one standard 30-day period before the first payment. */
+export const STANDARD_FIRST_PERIOD_DAYS = 30;
+
+/** Longest first period we quote; lender deferrals top out well below this. */
+export const MAX_FIRST_PERIOD_DAYS = 120;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a "YYYY-MM-DD" date (the value of an <input type="date">) to a UTC
+ * timestamp. Returns null for anything else, including impossible calendar
+ * dates like 2026-02-30, so a half-typed date never produces a quote.
+ */
+export const parseIsoDate = (value: string | undefined): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value?.trim() ?? "");
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const time = Date.UTC(year, month - 1, day);
+  const parsed = new Date(time);
+  return parsed.getUTCFullYear() === year &&
+    parsed.getUTCMonth() === month - 1 &&
+    parsed.getUTCDate() === day
+    ? time
+    : null;
+};
+
+export interface FirstPaymentAdjustment {
+  contractDate: string;
+  firstPaymentDate: string;
+  /** Calendar days from contract to first payment. */
+  firstPeriodDays: number;
+  /** Days beyond (positive) or short of (negative) the standard 30-day period. */
+  oddDays: number;
+  /**
+   * Simple interest on the amount financed for the odd days, at APR/365. This
+   * is the prepaid interest when a lender collects it at signing; negative for
+   * a short first period.
+   */
+  oddDaysInterest: number;
+  /** The calculator's standard 30-day payment. */
+  standardPayment: number;
+  /** Payment when the odd-days interest is instead spread over the term. */
+  adjustedPayment: number;
+  /** adjustedPayment − standardPayment. */
+  paymentDifference: number;
+}
+
+/**
+ * Odd first-period math for a deal with a contract date and first payment
+ * date. Uses the Regulation Z Appendix J convention: the first-period interest
+ * factor is (1 + oddDays × APR/365), applied to principal before amortizing
+ * the standard payment schedule, so a 45-day deferral raises every payment
+ * slightly rather than changing only the first one.
+ *
+ * Returns null when either date is missing or invalid, the first payment is
+ * not after the contract date, the period exceeds MAX_FIRST_PERIOD_DAYS, the
+ * deal is a balloon or biweekly structure (not modeled here), or the
+ * calculator cannot produce a standard payment.
+ */
+export const calculateFirstPaymentAdjustment = (
+  principal: number | "Error" | "N/A",
+  dealData: Pick<
+    DealData,
+    | "interestRate"
+    | "loanTerm"
+    | "contractDate"
+    | "firstPaymentDate"
+    | "balloonAmount"
+    | "paymentFrequency"
+  >
+): FirstPaymentAdjustment | null => {
+  if (typeof principal !== "number" || principal <= 0) return null;
+  if (dealData.interestRate === "") return null;
+  if (!isLevelMonthly(getPaymentStructure(dealData))) return null;
+  const contract = parseIsoDate(dealData.contractDate);
+  const first = parseIsoDate(dealData.firstPaymentDate);
+  if (contract === null || first === null) return null;
+
+  const firstPeriodDays = Math.round((first - contract) / MS_PER_DAY);
+  if (firstPeriodDays <= 0 || firstPeriodDays > MAX_FIRST_PERIOD_DAYS) return null;
+
+  const annualRate = Number(dealData.interestRate);
+  const term = Number(dealData.loanTerm);
+  const standardPayment = calculateMonthlyPayment(principal, annualRate, term);
+  if (standardPayment === "Error") return null;
+
+  const oddDays = firstPeriodDays - STANDARD_FIRST_PERIOD_DAYS;
+  const dailyRate = annualRate / 100 / 365;
+  const oddDaysInterest = roundCents(principal * dailyRate * oddDays);
+  const adjusted = calculateMonthlyPayment(principal * (1 + dailyRate * oddDays), annualRate, term);
+  if (adjusted === "Error") return null;
+
+  return {
+    contractDate: dealData.contractDate!,
+    firstPaymentDate: dealData.firstPaymentDate!,
+    firstPeriodDays,
+    oddDays,
+    oddDaysInterest,
+    standardPayment,
+    adjustedPayment: adjusted,
+    paymentDifference: roundCents(adjusted - standardPayment),
+  };
+};
+
+/** "Jun 14, 2026" for a stored ISO date, or the raw value if it will not parse. */
+export const formatIsoDate = (value: string): string => {
+  const time = parseIsoDate(value);
+  return time === null
+    ? value
+    : new Date(time).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+};
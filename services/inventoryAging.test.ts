@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  agedHardToFinance,
+  agingBucketFor,
+  agingVsApproval,
+  daysInStock,
+  turnStats,
+} from "./inventoryAging";
+import type { CalculatedVehicle, Vehicle } from "../types";
+
+const NOW = new Date("2026-06-30T12:00:00Z");
+const daysAgo = (n: number) => new Date(NOW.getTime() - n * 24 * 60 * 60 * 1000).toISOString();
+
+const unit = (vin: string, overrides: Partial<CalculatedVehicle> = {}): CalculatedVehicle =>
+  ({
+    id: vin,
+    vin,
+    vehicle: "2021 Honda Civic",
+    stock: vin,
+    modelYear: 2021,
+    mileage: 30000,
+    price: 20000,
+    jdPower: 18000,
+    jdPowerRetail: 21000,
+    unitCost: 17000,
+    baseOutTheDoorPrice: "N/A",
+    ...overrides,
+  }) as CalculatedVehicle;
+
+describe("daysInStock", () => {
+  it("counts whole days to now, or to the sold date", () => {
+    expect(daysInStock({ inStockAt: daysAgo(12.5) }, NOW)).toBe(12);
+    expect(daysInStock({ inStockAt: daysAgo(40), soldAt: daysAgo(10) }, NOW)).toBe(30);
+  });
+
+  it("reads PocketBase datetimes and returns null without an in-stock date", () => {
+    expect(daysInStock({ inStockAt: "2026-06-20 12:00:00.000Z" }, NOW)).toBe(10);
+    expect(daysInStock({}, NOW)).toBeNull();
+    expect(daysInStock({ inStockAt: "not a date" }, NOW)).toBeNull();
+  });
+});
+
+describe("agingBucketFor", () => {
+  it("puts bucket edges in the lower bucket", () => {
+    expect(agingBucketFor(0)).toBe("0-30");
+    expect(agingBucketFor(30)).toBe("0-30");
+    expect(agingBucketFor(31)).toBe("31-60");
+    expect(agingBucketFor(90)).toBe("61-90");
+    expect(agingBucketFor(91)).toBe("90+");
+    expect(agingBucketFor(null)).toBeNull();
+  });
+});
+
+describe("agingVsApproval", () => {
+  it("averages odds per bucket and counts hard-to-finance units", () => {
+    const rows = agingVsApproval([
+      unit("A", { daysInStock: 10, approvalScore: 80, approvalBand: "strong", fitCount: 4 }),
+      unit("B", { daysInStock: 70, approvalScore: 30, approvalBand: "weak", fitCount: 1 }),
+      unit("C", { daysInStock: 80, approvalScore: 60, approvalBand: "moderate", fitCount: 0 }),
+      unit("D", { daysInStock: 95, soldAt: daysAgo(1), approvalScore: 10, fitCount: 0 }),
+      unit("E", { daysInStock: null, approvalScore: 50 }),
+    ]);
+    const aged = rows.find((r) => r.bucket === "61-90");
+    expect(aged).toMatchObject({ units: 2, avgDays: 75, avgApproval: 45, hardToFinance: 2 });
+    expect(rows.find((r) => r.bucket === "90+")).toMatchObject({ units: 0, avgApproval: null });
+    expect(rows.reduce((sum, r) => sum + r.units, 0)).toBe(3);
+  });
+
+  it("lists aged hard-to-finance units oldest first", () => {
+    const list = agedHardToFinance([
+      unit("A", { daysInStock: 65, approvalBand: "weak", fitCount: 2 }),
+      unit("B", { daysInStock: 120, approvalBand: "none", fitCount: 0 }),
+      unit("C", { daysInStock: 100, approvalBand: "strong", fitCount: 5 }),
+      unit("D", { daysInStock: 20, approvalBand: "none", fitCount: 0 }),
+    ]);
+    expect(list.map((v) => v.vin)).toEqual(["B", "A"]);
+  });
+});
+
+describe("turnStats", () => {
+  it("annualizes sales in the window over units in stock", () => {
+    const vehicles: Vehicle[] = [
+      unit("A", { inStockAt: daysAgo(20) }),
+      unit("B", { inStockAt: daysAgo(40) }),
+      unit("C", { inStockAt: daysAgo(50), soldAt: daysAgo(10) }),
+      unit("D", { inStockAt: daysAgo(300), soldAt: daysAgo(200) }),
+    ];
+    const stats = turnStats(vehicles, NOW, 90);
+    expect(stats).toMatchObject({ inStock: 2, avgAge: 30, sold: 1, avgDaysToSell: 40 });
+    expect(stats.annualTurn).toBeCloseTo((1 * (365 / 90)) / 2);
+  });
+});
@@ -0,0 +1,135 @@
+import type { AgingBucket, CalculatedVehicle, Vehicle } from "../types";
+
+/**
+ * inventoryAging — days in stock and turn from the inventory's in-stock and
+ * sold dates (1748000010). syncInventory stamps inStockAt when a unit is
+ * created (or comes back after being marked sold) and soldAt when a full-feed
+ * import drops it.
+ *
+ * Aging is paired with the approval odds the desk already computes, so the
+ * Reports panel can call out units that are both old and hard to finance —
+ * the ones to reprice or wholesale first.
+ */
+
+export const AGING_BUCKETS: ReadonlyArray<{
+  bucket: AgingBucket;
+  label: string;
+  /** Inclusive upper bound in days. */
+  maxDays: number;
+  colorVar: string;
+}> = [
+  { bucket: "0-30", label: "0–30 days", maxDays: 30, colorVar: "var(--color-text-subtle)" },
+  { bucket: "31-60", label: "31–60 days", maxDays: 60, colorVar: "var(--color-text-muted)" },
+  { bucket: "61-90", label: "61–90 days", maxDays: 90, colorVar: "var(--color-warning)" },
+  { bucket: "90+", label: "90+ days", maxDays: Infinity, colorVar: "var(--color-danger)" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** PocketBase datetimes use a space separator; ISO strings pass through. */
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value.replace(" ", "T"));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Whole days from the in-stock date to the sold date, or to `now` for a unit
+ * still in stock. Null when the in-stock date is unknown.
+ */
+export const daysInStock = (
+  vehicle: Pick<Vehicle, "inStockAt" | "soldAt">,
+  now: Date = new Date()
+): number | null => {
+  const start = parseDate(vehicle.inStockAt);
+  if (!start) return null;
+  const end = parseDate(vehicle.soldAt) ?? now;
+  return Math.max(0, Math.floor((end.getTime() - start.getTime()) / DAY_MS));
+};
+
+export const agingBucketFor = (days: number | null | undefined): AgingBucket | null => {
+  if (days === null || days === undefined) return null;
+  return AGING_BUCKETS.find((b) => days <= b.maxDays)?.bucket ?? null;
+};
+
+export const agingColor = (days: number | null | undefined): string => {
+  const bucket = agingBucketFor(days);
+  return AGING_BUCKETS.find((b) => b.bucket === bucket)?.colorVar ?? "var(--color-text-subtle)";
+};
+
+/** Fits no active lender, or the odds band reads weak or none on the current deal. */
+export const isHardToFinance = (vehicle: CalculatedVehicle): boolean =>
+  (vehicle.fitCount ?? 0) === 0 ||
+  vehicle.approvalBand === "weak" ||
+  vehicle.approvalBand === "none";
+
+export interface AgingRow {
+  bucket: AgingBucket;
+  label: string;
+  units: number;
+  avgDays: number | null;
+  /** Mean 0-100 approval score on the current deal; null for an empty bucket. */
+  avgApproval: number | null;
+  hardToFinance: number;
+}
+
+const mean = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Units still in stock, per aging bucket, with their approval odds. */
+export const agingVsApproval = (vehicles: CalculatedVehicle[]): AgingRow[] =>
+  AGING_BUCKETS.map(({ bucket, label }) => {
+    const units = vehicles.filter(
+      (v) => !v.soldAt && agingBucketFor(v.daysInStock ?? null) === bucket
+    );
+    return {
+      bucket,
+      label,
+      units: units.length,
+      avgDays: mean(units.map((v) => v.daysInStock ?? 0)),
+      avgApproval: mean(
+        units.map((v) => v.approvalScore).filter((s): s is number => typeof s === "number")
+      ),
+      hardToFinance: units.filter(isHardToFinance).length,
+    };
+  });
+
+/** In-stock units at least `minDays` old that are also hard to finance, oldest first. */
+export const agedHardToFinance = (
+  vehicles: CalculatedVehicle[],
+  minDays = 61
+): CalculatedVehicle[] =>
+  vehicles
+    .filter((v) => !v.soldAt && (v.daysInStock ?? -1) >= minDays && isHardToFinance(v))
+    .sort((a, b) => (b.daysInStock ?? 0) - (a.daysInStock ?? 0));
+
+export interface TurnStats {
+  inStock: number;
+  /** Mean days in stock of units still on the lot with a known in-stock date. */
+  avgAge: number | null;
+  /** Units sold within the window. */
+  sold: number;
+  /** Mean days from in-stock to sold for those units. */
+  avgDaysToSell: number | null;
+  /** Sales annualized from the window over the current in-stock count. */
+  annualTurn: number | null;
+}
+
+export const turnStats = (
+  vehicles: Vehicle[],
+  now: Date = new Date(),
+  windowDays = 90
+): TurnStats => {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const inStock = vehicles.filter((v) => !v.soldAt);
+  const sold = vehicles.filter((v) => (parseDate(v.soldAt)?.getTime() ?? -Infinity) >= since);
+  const ages = inStock.map((v) => daysInStock(v, now)).filter((d): d is number => d !== null);
+  const sellDays = sold.map((v) => daysInStock(v, now)).filter((d): d is number => d !== null);
+  return {
+    inStock: inStock.length,
+    avgAge: mean(ages),
+    sold: sold.length,
+    avgDaysToSell: mean(sellDays),
+    annualTurn: inStock.length === 0 ? null : (sold.length * (365 / windowDays)) / inStock.length,
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryHistoryEntry } from "../types";
+import {
+  formatInventoryValue,
+  historyByVin,
+  inventoryChanges,
+  quoteDrift,
+  valueSeries,
+} from "./inventoryHistory";
+
+const entry = (
+  id: string,
+  changedAt: string,
+  changes: InventoryHistoryEntry["changes"],
+  vin = "1HGCM82633A004352"
+): InventoryHistoryEntry => ({ id, vin, changedAt, changes });
+
+describe("inventoryChanges", () => {
+  it("reports moved values and ignores fields the row doesn't write", () => {
+    const stored = {
+      price: 21500,
+      unitCost: 18000,
+      jdPower: 0,
+      jdPowerRetail: 23000,
+      mileage: 30000,
+    };
+    expect(
+      inventoryChanges(stored, {
+        price: 20995,
+        unitCost: 18000.001,
+        jdPower: 17500,
+        jdPowerRetail: undefined,
+        mileage: 30000,
+      })
+    ).toEqual([
+      { field: "price", before: 21500, after: 20995 },
+      { field: "jdPower", before: null, after: 17500 },
+    ]);
+  });
+
+  it("treats 0 and N/A as the same unset value", () => {
+    expect(inventoryChanges({ jdPower: 0 }, { jdPower: "N/A" })).toEqual([]);
+    expect(inventoryChanges({ jdPower: 17500 }, { jdPower: "N/A" })).toEqual([
+      { field: "jdPower", before: 17500, after: null },
+    ]);
+  });
+});
+
+describe("historyByVin / valueSeries", () => {
+  it("groups by VIN oldest first and strings one field's values together", () => {
+    const byVin = historyByVin([
+      entry("b", "2026-10-12T00:00:00.000Z", [{ field: "price", before: 20995, after: 19995 }]),
+      entry("a", "2026-10-01T00:00:00.000Z", [
+        { field: "price", before: 21500, after: 20995 },
+        { field: "mileage", before: 30000, after: 30050 },
+      ]),
+      entry("c", "2026-10-05T00:00:00.000Z", [{ field: "jdPower", before: 18000, after: 17500 }]),
+      entry("d", "2026-10-02T00:00:00.000Z", [], "OTHERVIN"),
+    ]);
+    const history = byVin.get("1HGCM82633A004352") ?? [];
+
+    expect(history.map((e) => e.id)).toEqual(["a", "c", "b"]);
+    expect(byVin.get("OTHERVIN")).toHaveLength(1);
+    expect(valueSeries(history, "price")).toEqual([21500, 20995, 19995]);
+    expect(valueSeries(history, "unitCost")).toEqual([]);
+  });
+});
+
+describe("quoteDrift", () => {
+  it("flags values that moved since the quote, with the last change date", () => {
+    const history = [
+      entry("a", "2026-10-01T00:00:00.000Z", [{ field: "price", before: 21500, after: 20995 }]),
+      entry("b", "2026-10-12T00:00:00.000Z", [{ field: "price", before: 20995, after: 19995 }]),
+    ];
+    expect(
+      quoteDrift(
+        { price: 21500, jdPower: 18000, jdPowerRetail: "N/A", mileage: 30000, unitCost: 15000 },
+        { price: 19995, jdPower: 18000, jdPowerRetail: 23000, mileage: 30000, unitCost: 14000 },
+        history
+      )
+    ).toEqual([
+      { field: "price", quoted: 21500, current: 19995, changedAt: "2026-10-12T00:00:00.000Z" },
+    ]);
+    expect(quoteDrift({ price: 21500 }, { price: 21500 })).toEqual([]);
+  });
+});
+
+describe("formatInventoryValue", () => {
+  it("formats money, miles and unset values", () => {
+    expect(formatInventoryValue("price", 20995)).toBe("$20,995");
+    expect(formatInventoryValue("mileage", 30050)).toBe("30,050 mi");
+    expect(formatInventoryValue("jdPower", null)).toBe("—");
+  });
+});
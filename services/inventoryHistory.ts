@@ -0,0 +1,150 @@
+import type { InventoryFieldChange, InventoryHistoryEntry, TrackedInventoryField } from "../types";
+import { fmt, fmtN } from "../utils/format.js";
+
+/**
+ * inventoryHistory — what each inventory sync changed on a unit. syncInventory
+ * overwrites price, unit cost, book values and mileage in place; before it
+ * does, inventoryChanges() diffs the stored record against the incoming row
+ * and the non-empty result is written to inventory_history (1748000009).
+ *
+ * The Inventory screen draws a unit's price series from these rows, and the
+ * Pipeline compares a saved deal's vehicle snapshot with the live unit to
+ * warn when the price or books moved after the deal was quoted.
+ */
+
+export const TRACKED_INVENTORY_FIELDS: ReadonlyArray<{
+  field: TrackedInventoryField;
+  label: string;
+}> = [
+  { field: "price", label: "Price" },
+  { field: "unitCost", label: "Unit cost" },
+  { field: "jdPower", label: "Trade book" },
+  { field: "jdPowerRetail", label: "Retail book" },
+  { field: "mileage", label: "Mileage" },
+];
+
+const FIELD_LABELS = Object.fromEntries(
+  TRACKED_INVENTORY_FIELDS.map(({ field, label }) => [field, label])
+) as Record<TrackedInventoryField, string>;
+
+export const inventoryFieldLabel = (field: TrackedInventoryField): string => FIELD_LABELS[field];
+
+export const formatInventoryValue = (field: TrackedInventoryField, value: number | null): string =>
+  value === null ? "—" : field === "mileage" ? `${fmtN(value)} mi` : fmt(value);
+
+/** A tracked value as the app holds it: a number, "N/A", or absent. */
+type TrackedValue = number | "N/A" | null | undefined;
+export type TrackedInventoryValues = Partial<Record<TrackedInventoryField, TrackedValue>>;
+
+/** PocketBase reads an unset number column as 0, and the parser uses "N/A". */
+const known = (value: TrackedValue): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+
+/** Cents for money, whole miles for the odometer, so float noise isn't a change. */
+const same = (field: TrackedInventoryField, a: number | null, b: number | null): boolean => {
+  if (a === null || b === null) return a === b;
+  const scale = field === "mileage" ? 1 : 100;
+  return Math.round(a * scale) === Math.round(b * scale);
+};
+
+/**
+ * The tracked values that differ between the stored unit and an incoming
+ * row. A field the incoming row leaves undefined isn't written by the sync,
+ * so it can't change.
+ */
+export const inventoryChanges = (
+  stored: TrackedInventoryValues,
+  incoming: TrackedInventoryValues
+): InventoryFieldChange[] => {
+  const changes: InventoryFieldChange[] = [];
+  for (const { field } of TRACKED_INVENTORY_FIELDS) {
+    if (incoming[field] === undefined) continue;
+    const before = known(stored[field]);
+    const after = known(incoming[field]);
+    if (!same(field, before, after)) changes.push({ field, before, after });
+  }
+  return changes;
+};
+
+/** Stored `changes` JSON, dropping entries that aren't a tracked field. */
+export const normalizeInventoryChanges = (value: unknown): InventoryFieldChange[] => {
+  if (!Array.isArray(value)) return [];
+  const changes: InventoryFieldChange[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const rec = item as Record<string, unknown>;
+    if (typeof rec.field !== "string" || !(rec.field in FIELD_LABELS)) continue;
+    changes.push({
+      field: rec.field as TrackedInventoryField,
+      before: known(rec.before as TrackedValue),
+      after: known(rec.after as TrackedValue),
+    });
+  }
+  return changes;
+};
+
+/** Entries grouped by upper-cased VIN, oldest first. */
+export const historyByVin = (
+  entries: InventoryHistoryEntry[]
+): Map<string, InventoryHistoryEntry[]> => {
+  const byVin = new Map<string, InventoryHistoryEntry[]>();
+  const sorted = [...entries].sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  for (const entry of sorted) {
+    const key = entry.vin.toUpperCase();
+    const list = byVin.get(key);
+    if (list) list.push(entry);
+    else byVin.set(key, [entry]);
+  }
+  return byVin;
+};
+
+/**
+ * One field's values over time from a unit's entries (oldest first): the
+ * value before the first change, then each value after. Unset values are
+ * left out. Fewer than two points means the field never moved.
+ */
+export const valueSeries = (
+  entries: InventoryHistoryEntry[],
+  field: TrackedInventoryField
+): number[] => {
+  const points: number[] = [];
+  for (const entry of entries) {
+    const change = entry.changes.find((c) => c.field === field);
+    if (!change) continue;
+    if (points.length === 0 && change.before !== null) points.push(change.before);
+    if (change.after !== null) points.push(change.after);
+  }
+  return points;
+};
+
+/** The values a deal is structured on; unit cost doesn't move the quote. */
+const QUOTE_FIELDS: TrackedInventoryField[] = ["price", "jdPower", "jdPowerRetail", "mileage"];
+
+export interface QuoteDrift {
+  field: TrackedInventoryField;
+  quoted: number;
+  current: number;
+  /** When the unit's history last recorded a change to this field, if known. */
+  changedAt?: string;
+}
+
+/**
+ * How the live unit differs from the vehicle snapshot a deal was saved with.
+ * Only values present on both sides count; a unit whose books were never
+ * loaded isn't "changed".
+ */
+export const quoteDrift = (
+  quoted: TrackedInventoryValues,
+  live: TrackedInventoryValues,
+  entries: InventoryHistoryEntry[] = []
+): QuoteDrift[] => {
+  const drift: QuoteDrift[] = [];
+  for (const field of QUOTE_FIELDS) {
+    const then = known(quoted[field]);
+    const now = known(live[field]);
+    if (then === null || now === null || same(field, then, now)) continue;
+    const last = [...entries].reverse().find((e) => e.changes.some((c) => c.field === field));
+    drift.push({ field, quoted: then, current: now, changedAt: last?.changedAt });
+  }
+  return drift;
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type PocketBase from "pocketbase";
+import {
+  excludeFromPlan,
+  formatSyncValue,
+  looksLikeMassSold,
+  planInventorySync,
+  planIsEmpty,
+  writeInventorySync,
+  type InventorySyncItem,
+} from "./inventorySync";
+import type { InventoryItem } from "../lib/pocketbase";
+
+const unit = (vin: string, overrides: Partial<InventoryItem> = {}): InventoryItem =>
+  ({
+    id: `rec-${vin}`,
+    dealer: "d1",
+    vin,
+    stockNumber: `S-${vin}`,
+    year: 2021,
+    make: "Honda",
+    model: "Civic",
+    trim: "EX",
+    mileage: 30000,
+    price: 20000,
+    unitCost: 17000,
+    jdPower: 18000,
+    jdPowerRetail: 21000,
+    status: "available",
+    ...overrides,
+  }) as InventoryItem;
+
+const row = (vin: string, overrides: Partial<InventorySyncItem> = {}): InventorySyncItem => ({
+  vin,
+  stockNumber: `S-${vin}`,
+  year: 2021,
+  make: "Honda",
+  model: "Civic",
+  trim: "EX",
+  mileage: 30000,
+  price: 20000,
+  unitCost: 17000,
+  jdPower: 18000,
+  jdPowerRetail: 21000,
+  ...overrides,
+});
+
+describe("planInventorySync", () => {
+  it("splits rows into new, changed and unchanged, matching VINs by case", () => {
+    const plan = planInventorySync(
+      [unit("VIN1"), unit("VIN2")],
+      [
+        row("vin1", { stockNumber: "S-VIN1" }),
+        row("VIN2", { price: 19500, trim: "Sport" }),
+        row("VIN3"),
+      ]
+    );
+    expect(plan.add.map((i) => i.vin)).toEqual(["VIN3"]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.update).toHaveLength(1);
+    expect(plan.update[0]?.changes).toEqual([
+      { field: "trim", before: "EX", after: "Sport" },
+      { field: "price", before: 20000, after: 19500 },
+    ]);
+    expect(plan.update[0]?.history).toEqual([{ field: "price", before: 20000, after: 19500 }]);
+    expect(plan.markSold).toEqual([]);
+  });
+
+  it("ignores fields a row leaves undefined and lists status restores", () => {
+    const plan = planInventorySync(
+      [unit("VIN1", { status: "sold" }), unit("VIN2", { status: "hold" })],
+      [
+        row("VIN1", { mileage: undefined, trim: undefined }),
+        row("VIN2", { stockNumber: undefined }),
+      ]
+    );
+    expect(plan.update.map((u) => u.changes)).toEqual([
+      [{ field: "status", before: "sold", after: "available" }],
+      [{ field: "status", before: "hold", after: "available" }],
+    ]);
+  });
+
+  it("marks missing units sold only for a full feed, skipping ones already sold", () => {
+    const existing = [unit("VIN1"), unit("VIN2"), unit("VIN3", { status: "sold" })];
+    expect(planInventorySync(existing, [row("VIN1")]).markSold).toEqual([]);
+    const plan = planInventorySync(existing, [row("VIN1")], { markMissingSold: true });
+    expect(plan.markSold.map((u) => u.vin)).toEqual(["VIN2"]);
+    expect(plan.onLot).toBe(2);
+  });
+
+  it("keeps the later row when a VIN is listed twice", () => {
+    const plan = planInventorySync([], [row("VIN1", { price: 1 }), row("VIN1", { price: 2 })]);
+    expect(plan.add).toHaveLength(1);
+    expect(plan.add[0]?.price).toBe(2);
+  });
+});
+
+describe("excludeFromPlan", () => {
+  it("drops the excluded VINs from every section", () => {
+    const plan = planInventorySync(
+      [unit("VIN1"), unit("VIN2")],
+      [row("VIN1", { price: 1000 }), row("VIN3")],
+      { markMissingSold: true }
+    );
+    const kept = excludeFromPlan(plan, new Set(["VIN2", "VIN3"]));
+    expect(kept.add).toEqual([]);
+    expect(kept.markSold).toEqual([]);
+    expect(kept.update).toHaveLength(1);
+    expect(planIsEmpty(excludeFromPlan(kept, new Set(["VIN1"])))).toBe(true);
+  });
+});
+
+describe("looksLikeMassSold", () => {
+  it("flags a feed that would retire a large share of the lot", () => {
+    const lot = Array.from({ length: 10 }, (_, i) => unit(`VIN${i}`));
+    const half = lot.slice(0, 5).map((u) => row(u.vin));
+    expect(looksLikeMassSold(planInventorySync(lot, half, { markMissingSold: true }))).toBe(true);
+    const most = lot.slice(0, 9).map((u) => row(u.vin));
+    expect(looksLikeMassSold(planInventorySync(lot, most, { markMissingSold: true }))).toBe(false);
+  });
+});
+
+describe("writeInventorySync", () => {
+  it("starts no more than one batch of writes at a time", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const write = async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      inFlight--;
+      return {};
+    };
+    const client = {
+      collection: () => ({ create: write, update: write }),
+    } as unknown as PocketBase;
+    const lot = Array.from({ length: 120 }, (_, i) => unit(`OLD${i}`));
+    const feed = Array.from({ length: 130 }, (_, i) => row(`NEW${i}`));
+    const plan = planInventorySync(lot, feed, { markMissingSold: true });
+
+    const counts = await writeInventorySync(client, "d1", plan);
+
+    expect(counts).toEqual({ added: 130, updated: 0, removed: 120, failed: 0 });
+    expect(peak).toBe(50);
+  });
+});
+
+describe("formatSyncValue", () => {
+  it("formats money, mileage and text", () => {
+    expect(formatSyncValue("price", 19500)).toBe("$19,500");
+    expect(formatSyncValue("mileage", 30000)).toBe("30,000 mi");
+    expect(formatSyncValue("trim", "EX")).toBe("EX");
+    expect(formatSyncValue("trim", null)).toBe("—");
+  });
+});
@@ -0,0 +1,306 @@
+import type PocketBase from "pocketbase";
+import type { InventoryItem } from "../lib/pocketbase";
+import type { InventoryFieldChange, Vehicle } from "../types";
+import { formatInventoryValue, inventoryChanges, inventoryFieldLabel } from "./inventoryHistory.js";
+
+/**
+ * inventorySync — the changeset an inventory sync would write, worked out
+ * before anything is written. previewInventorySync (lib/api) loads the
+ * dealer's units and calls planInventorySync; the import dialog shows the
+ * plan and lets an admin drop rows; applyInventorySync writes what's left.
+ * One export missing half the lot would otherwise mark half the lot sold
+ * with nothing but a count to show for it.
+ *
+ * writeInventorySync takes the PocketBase client as an argument so the
+ * scheduled feed import (api/_lib/inventory) writes a plan exactly as the
+ * app does, under its own sign-in.
+ */
+
+/** One row of an inventory sync, as syncInventory writes it. */
+export interface InventorySyncItem {
+  vin: string;
+  stockNumber?: string;
+  year: number;
+  make: string;
+  model: string;
+  trim?: string;
+  mileage?: number;
+  price: number;
+  unitCost?: number;
+  jdPower?: number;
+  jdPowerRetail?: number;
+}
+
+/** A parsed vehicle as a sync row; "N/A" values are left unwritten. */
+export const toInventorySyncItem = (v: Vehicle): InventorySyncItem => ({
+  vin: v.vin,
+  stockNumber: v.stock !== "N/A" ? v.stock : undefined,
+  year: typeof v.modelYear === "number" ? v.modelYear : new Date().getFullYear(),
+  make: v.make || "",
+  model: v.model || "",
+  trim: v.trim,
+  mileage: typeof v.mileage === "number" ? v.mileage : undefined,
+  price: typeof v.price === "number" ? v.price : 0,
+  unitCost: typeof v.unitCost === "number" ? v.unitCost : undefined,
+  jdPower: typeof v.jdPower === "number" ? v.jdPower : undefined,
+  jdPowerRetail: typeof v.jdPowerRetail === "number" ? v.jdPowerRetail : undefined,
+});
+
+type TextField = "stockNumber" | "year" | "make" | "model" | "trim";
+export type InventorySyncField = TextField | InventoryFieldChange["field"] | "status";
+
+export interface InventorySyncFieldChange {
+  field: InventorySyncField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface InventorySyncUpdate {
+  item: InventorySyncItem;
+  existing: InventoryItem;
+  /** Every field the update moves, for the review dialog. */
+  changes: InventorySyncFieldChange[];
+  /** The price/book/mileage subset written to inventory_history. */
+  history: InventoryFieldChange[];
+}
+
+export interface InventorySyncPlan {
+  add: InventorySyncItem[];
+  update: InventorySyncUpdate[];
+  /** Units on the lot the feed no longer lists; empty unless markMissingSold. */
+  markSold: InventoryItem[];
+  /** Rows matching a unit that already reads exactly as the row does. */
+  unchanged: number;
+  /** Units not marked sold before the sync. */
+  onLot: number;
+}
+
+const TEXT_FIELDS: ReadonlyArray<{ field: TextField; label: string }> = [
+  { field: "stockNumber", label: "Stock #" },
+  { field: "year", label: "Year" },
+  { field: "make", label: "Make" },
+  { field: "model", label: "Model" },
+  { field: "trim", label: "Trim" },
+];
+
+const TEXT_LABELS = Object.fromEntries(TEXT_FIELDS.map(({ field, label }) => [field, label]));
+
+const isTextField = (field: InventorySyncField): field is TextField => field in TEXT_LABELS;
+
+export const syncFieldLabel = (field: InventorySyncField): string =>
+  field === "status"
+    ? "Status"
+    : isTextField(field)
+      ? (TEXT_LABELS[field] ?? field)
+      : inventoryFieldLabel(field);
+
+export const formatSyncValue = (
+  field: InventorySyncField,
+  value: string | number | null
+): string => {
+  if (value === null || value === "") return "—";
+  if (field === "status" || isTextField(field)) return String(value);
+  return formatInventoryValue(field, typeof value === "number" ? value : null);
+};
+
+const text = (value: string | number | undefined | null): string =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+/**
+ * What syncing `items` over `existing` would do. Rows match units by VIN,
+ * ignoring case; when a file lists a VIN twice the later row wins. Fields a
+ * row leaves undefined aren't written, so they never count as a change.
+ */
+export const planInventorySync = (
+  existing: InventoryItem[],
+  items: InventorySyncItem[],
+  options: { markMissingSold?: boolean } = {}
+): InventorySyncPlan => {
+  const existingByVin = new Map<string, InventoryItem>();
+  for (const unit of existing) {
+    if (unit.vin) existingByVin.set(unit.vin.toUpperCase(), unit);
+  }
+
+  const incoming = new Map<string, InventorySyncItem>();
+  for (const item of items) {
+    if (item.vin) incoming.set(item.vin.toUpperCase(), item);
+  }
+
+  const plan: InventorySyncPlan = {
+    add: [],
+    update: [],
+    markSold: [],
+    unchanged: 0,
+    onLot: existing.filter((unit) => unit.status !== "sold").length,
+  };
+
+  for (const [vin, item] of incoming) {
+    const unit = existingByVin.get(vin);
+    if (!unit) {
+      plan.add.push(item);
+      continue;
+    }
+    const changes: InventorySyncFieldChange[] = [];
+    for (const { field } of TEXT_FIELDS) {
+      if (item[field] === undefined) continue;
+      const before = text(unit[field]);
+      const after = text(item[field]);
+      if (before !== after) changes.push({ field, before: before || null, after: after || null });
+    }
+    const history = inventoryChanges(unit, item);
+    changes.push(...history);
+    // Every synced unit is written back as available, including held ones.
+    if (unit.status !== "available") {
+      changes.push({ field: "status", before: unit.status, after: "available" });
+    }
+    if (changes.length > 0) plan.update.push({ item, existing: unit, changes, history });
+    else plan.unchanged += 1;
+  }
+
+  // Partial uploads and the one-off VIN decoder sync too; for them a missing
+  // row means "not in this import", not "sold".
+  if (options.markMissingSold) {
+    for (const [vin, unit] of existingByVin) {
+      if (!incoming.has(vin) && unit.status !== "sold") plan.markSold.push(unit);
+    }
+  }
+  return plan;
+};
+
+/** The plan with every row for the given upper-cased VINs left out. */
+export const excludeFromPlan = (
+  plan: InventorySyncPlan,
+  vins: ReadonlySet<string>
+): InventorySyncPlan => {
+  const kept = (vin: string) => !vins.has(vin.toUpperCase());
+  return {
+    ...plan,
+    add: plan.add.filter((item) => kept(item.vin)),
+    update: plan.update.filter((u) => kept(u.item.vin)),
+    markSold: plan.markSold.filter((unit) => kept(unit.vin)),
+  };
+};
+
+export const planIsEmpty = (plan: InventorySyncPlan): boolean =>
+  plan.add.length === 0 && plan.update.length === 0 && plan.markSold.length === 0;
+
+/** Above this share of the lot, a full-feed import retiring units reads as a bad export. */
+export const MASS_SOLD_SHARE = 0.2;
+
+export const looksLikeMassSold = (plan: InventorySyncPlan): boolean =>
+  plan.markSold.length > 1 && plan.markSold.length > plan.onLot * MASS_SOLD_SHARE;
+
+export interface InventorySyncCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  failed: number;
+}
+
+/** Parallel writes per batch, so a large feed doesn't swamp PocketBase. */
+const WRITE_BATCH_SIZE = 50;
+
+/**
+ * Writes a plan for `dealerId`: updates matched units, creates new ones and
+ * marks the missing ones sold. Each write settles on its own, so a partial
+ * failure is counted rather than hidden. [data-import]
+ */
+export const writeInventorySync = async (
+  client: PocketBase,
+  dealerId: string,
+  plan: InventorySyncPlan,
+  options: { onHistoryError?: (vin: string, error: unknown) => void } = {}
+): Promise<InventorySyncCounts> => {
+  const inventory = client.collection("inventory");
+  // One timestamp for the whole sync, so units that arrive or sell together age together.
+  const now = new Date().toISOString();
+
+  // Best-effort: the unit is already updated, so a failed history write is
+  // reported rather than counted as a failed sync.
+  const recordHistory = async (unit: InventoryItem, changes: InventoryFieldChange[]) => {
+    try {
+      await client.collection("inventory_history").create({
+        dealer: dealerId,
+        inventory: unit.id,
+        vin: unit.vin,
+        changes,
+      });
+    } catch (error) {
+      options.onHistoryError?.(unit.vin, error);
+    }
+  };
+
+  // Thunks, so each write starts only when its batch runs.
+  const updateOperations = plan.update.map(
+    ({ item, existing, history }) =>
+      () =>
+        inventory
+          .update(existing.id, {
+            stockNumber: item.stockNumber,
+            year: item.year,
+            make: item.make,
+            model: item.model,
+            trim: item.trim,
+            mileage: item.mileage,
+            price: item.price,
+            unitCost: item.unitCost,
+            jdPower: item.jdPower,
+            jdPowerRetail: item.jdPowerRetail,
+            status: "available",
+            // A unit marked sold that shows up again is back in stock: its age restarts.
+            ...(existing.status === "sold" ? { inStockAt: now, soldAt: null } : {}),
+          })
+          .then(async (record) => {
+            // Logged once the update lands so a failed write never leaves
+            // history for a change that didn't happen.
+            if (history.length > 0) await recordHistory(existing, history);
+            return record;
+          })
+  );
+
+  const createOperations = plan.add.map(
+    (item) => () =>
+      inventory.create({
+        dealer: dealerId,
+        vin: item.vin,
+        stockNumber: item.stockNumber,
+        year: item.year,
+        make: item.make,
+        model: item.model,
+        trim: item.trim,
+        mileage: item.mileage,
+        price: item.price,
+        unitCost: item.unitCost,
+        jdPower: item.jdPower,
+        jdPowerRetail: item.jdPowerRetail,
+        status: "available",
+        inStockAt: now,
+      })
+  );
+
+  const removeOperations = plan.markSold.map(
+    (existing) => () => inventory.update(existing.id, { status: "sold", soldAt: now })
+  );
+
+  const processBatch = async (operations: Array<() => Promise<unknown>>) => {
+    const results = [];
+    for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+      const batch = operations.slice(i, i + WRITE_BATCH_SIZE);
+      results.push(...(await Promise.allSettled(batch.map((write) => write()))));
+    }
+    const ok = results.filter((r) => r.status === "fulfilled").length;
+    return { ok, failed: results.length - ok };
+  };
+
+  // One kind after another, so no more than one batch is ever in flight.
+  const updated = await processBatch(updateOperations);
+  const added = await processBatch(createOperations);
+  const removed = await processBatch(removeOperations);
+
+  return {
+    added: added.ok,
+    updated: updated.ok,
+    removed: removed.ok,
+    failed: added.failed + updated.failed + removed.failed,
+  };
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { calculateLeaseFinancials, hasLeaseTerms, moneyFactorToApr } from "./leaseCalculator";
+import type { DealData, Settings, Vehicle } from "../types";
+import { DEFAULT_AI_SETTINGS } from "../lib/aiModelRegistry";
+
+const vehicle: Vehicle = {
+  vehicle: "2026 Test Crossover",
+  stock: "L100",
+  vin: "LEASE000000000001",
+  modelYear: 2026,
+  mileage: 12,
+  price: 30000,
+  jdPower: 28000,
+  jdPowerRetail: 32000,
+  unitCost: 27000,
+  baseOutTheDoorPrice: "N/A",
+};
+
+const settings: Settings = {
+  docFee: 250,
+  cvrFee: 25,
+  defaultState: "MI",
+  outOfStateTransitFee: 0,
+  ltvThresholds: { warn: 115, danger: 125, critical: 135 },
+  defaultTerm: 60,
+  defaultApr: 7.99,
+  defaultStateFees: 200,
+  customTaxRate: null,
+  miTradeInCreditCap: 12000,
+  vscPrice: 2495,
+  gapPrice: 895,
+  ai: DEFAULT_AI_SETTINGS,
+};
+
+const deal: DealData = {
+  downPayment: 2000,
+  tradeInValue: 0,
+  tradeInPayoff: 0,
+  interestRate: 5,
+  loanTerm: 60,
+  backendProducts: 0,
+  stateFees: 200,
+  notes: "",
+  leaseTerm: 36,
+  leaseResidualPercent: 55,
+  leaseMoneyFactor: 0.00125,
+  leaseAcquisitionFee: 695,
+  leaseDispositionFee: 395,
+};
+
+describe("hasLeaseTerms", () => {
+  it("requires both a residual and a money factor", () => {
+    expect(hasLeaseTerms(deal)).toBe(true);
+    expect(hasLeaseTerms({ ...deal, leaseMoneyFactor: undefined })).toBe(false);
+    expect(hasLeaseTerms({ ...deal, leaseResidualPercent: 0 })).toBe(false);
+  });
+
+  it("treats a 0 money factor as a real subvented program", () => {
+    expect(hasLeaseTerms({ ...deal, leaseMoneyFactor: 0 })).toBe(true);
+  });
+});
+
+describe("moneyFactorToApr", () => {
+  it("uses the ×2400 convention", () => {
+    expect(moneyFactorToApr(0.00125)).toBe(3);
+  });
+});
+
+describe("calculateLeaseFinancials", () => {
+  it("returns null without lease terms or a price", () => {
+    expect(
+      calculateLeaseFinancials(vehicle, { ...deal, leaseResidualPercent: undefined }, settings)
+    ).toBeNull();
+    expect(calculateLeaseFinancials({ ...vehicle, price: "N/A" }, deal, settings)).toBeNull();
+  });
+
+  it("quotes a Michigan lease with monthly use tax", () => {
+    const lease = calculateLeaseFinancials(vehicle, deal, settings)!;
+
+    // Gross cap: 30000 + 250 doc + 25 CVR + 695 acquisition.
+    expect(lease.grossCapCost).toBe(30970);
+    expect(lease.capCostReduction).toBe(2000);
+    expect(lease.adjustedCapCost).toBe(28970);
+    expect(lease.residualValue).toBe(16500);
+    expect(lease.depreciationFee).toBe(346.39);
+    expect(lease.rentCharge).toBe(56.84);
+    expect(lease.basePayment).toBe(403.23);
+    expect(lease.taxMethod).toBe("monthly");
+    expect(lease.monthlyUseTax).toBe(24.19);
+    expect(lease.monthlyPayment).toBe(427.42);
+    // Cash down is taxed at signing: 2000 × 6%.
+    expect(lease.upfrontTax).toBe(120);
+    expect(lease.dueAtSigning).toBe(2747.42);
+    expect(lease.equivalentApr).toBe(3);
+    expect(lease.dispositionFee).toBe(395);
+  });
+
+  it("stays CalculatedVehicle-compatible", () => {
+    const lease = calculateLeaseFinancials(vehicle, deal, settings)!;
+    expect(lease.amountToFinance).toBe(lease.adjustedCapCost);
+    expect(lease.baseOutTheDoorPrice).toBe(lease.grossCapCost);
+    expect(lease.otdLtv).toBeCloseTo((28970 / 28000) * 100, 6);
+    expect(lease.salesTax).toBeCloseTo(120 + 24.19 * 36, 2);
+    expect(lease.vin).toBe(vehicle.vin);
+  });
+
+  it("collects all payment tax upfront for an Ohio buyer", () => {
+    const lease = calculateLeaseFinancials(vehicle, { ...deal, buyerState: "OH" }, settings)!;
+    expect(lease.taxMethod).toBe("upfront");
+    expect(lease.monthlyUseTax).toBe(0);
+    expect(lease.monthlyPayment).toBe(403.23);
+    // 2000 × 5.75% + 403.23 × 36 × 5.75%.
+    expect(lease.upfrontTax).toBe(949.69);
+    expect(lease.dueAtSigning).toBe(3552.92);
+  });
+
+  it("takes the lease tax method from the tax rule table", () => {
+    const lease = calculateLeaseFinancials(vehicle, { ...deal, buyerState: "KY" }, settings)!;
+    expect(lease.taxMethod).toBe("upfront");
+    // 2000 × 6% + 403.23 × 36 × 6%.
+    expect(lease.upfrontTax).toBe(990.98);
+  });
+
+  it("adds the buyer's local rate to lease tax", () => {
+    const lease = calculateLeaseFinancials(
+      vehicle,
+      { ...deal, buyerState: "OH", buyerZip: "43604" },
+      settings
+    )!;
+    expect(lease.taxRate).toBeCloseTo(0.0725, 10);
+    // 2000 × 7.25% + 403.23 × 36 × 7.25%.
+    expect(lease.upfrontTax).toBe(1197.43);
+  });
+
+  it("capitalizes negative trade equity and backend products", () => {
+    const lease = calculateLeaseFinancials(
+      vehicle,
+      { ...deal, tradeInValue: 5000, tradeInPayoff: 8000, backendProducts: 1000 },
+      settings
+    )!;
+    expect(lease.grossCapCost).toBe(30970 + 3000 + 1000);
+    expect(lease.capCostReduction).toBe(2000);
+  });
+
+  it("defaults the term when only residual and money factor are entered", () => {
+    const lease = calculateLeaseFinancials(vehicle, { ...deal, leaseTerm: undefined }, settings)!;
+    expect(lease.leaseTerm).toBe(36);
+  });
+
+  it("honors a custom tax rate", () => {
+    const lease = calculateLeaseFinancials(vehicle, deal, { ...settings, customTaxRate: 0 })!;
+    expect(lease.monthlyUseTax).toBe(0);
+    expect(lease.upfrontTax).toBe(0);
+  });
+});
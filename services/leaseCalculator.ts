@@ -0,0 +1,198 @@
+import type { CalculatedVehicle, DealData, Settings, Vehicle } from "../types";
+import { DEFAULT_LEASE_TERM } from "../constants";
+import { getBackendProductSplit } from "./backendProducts";
+import { getRebateBreakdown, getTradeEquity, getTransactionFees, roundCents } from "./calculator";
+import { selectBookValue } from "./bookValue";
+import { combinedTaxRate, getHomeState, getStateTaxRule, type StateTaxRule } from "./taxRules";
+import { resolveTaxJurisdiction, type TaxJurisdiction } from "./taxJurisdictions";
+
+export type LeaseTaxMethod = "monthly" | "upfront";
+
+/**
+ * A lease quote shaped like a retail CalculatedVehicle so the desk, the deal
+ * sheet and the PDF can render it through the same code paths. The shared
+ * fields carry lease meaning:
+ * - amountToFinance: adjusted (net) capitalized cost
+ * - baseOutTheDoorPrice: gross capitalized cost
+ * - salesTax: total tax over the lease (signing + every monthly use-tax line)
+ * - monthlyPayment: base payment plus monthly use tax
+ * - otdLtv: adjusted cap cost / book, same book selection as retail
+ */
+export interface LeaseQuote extends CalculatedVehicle {
+  leaseTerm: number;
+  residualPercent: number;
+  residualValue: number;
+  moneyFactor: number;
+  /** Money factor × 2400, the APR customers ask about. */
+  equivalentApr: number;
+  grossCapCost: number;
+  capCostReduction: number;
+  adjustedCapCost: number;
+  depreciationFee: number;
+  rentCharge: number;
+  basePayment: number;
+  taxMethod: LeaseTaxMethod;
+  taxRate: number;
+  monthlyUseTax: number;
+  /** Tax collected at signing (cap-reduction tax, plus all payment tax for upfront states). */
+  upfrontTax: number;
+  acquisitionFee: number;
+  dispositionFee: number;
+  dueAtSigning: number;
+}
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const nonNegative = (value: unknown): number => Math.max(0, toNumber(value));
+
+const optionalNumber = (value: unknown): number | null => {
+  if (value === "" || value === null || value === undefined) return null;
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * True when the deal carries enough lease inputs to quote a lease: a positive
+ * residual % and a non-negative money factor. A 0 money factor is a real
+ * (subvented) program, so only a blank one counts as "no lease".
+ */
+export const hasLeaseTerms = (dealData: Partial<DealData>): boolean => {
+  const residual = optionalNumber(dealData.leaseResidualPercent);
+  const moneyFactor = optionalNumber(dealData.leaseMoneyFactor);
+  return residual !== null && residual > 0 && moneyFactor !== null && moneyFactor >= 0;
+};
+
+/** Money factor → APR-equivalent percent (the industry ×2400 convention). */
+export const moneyFactorToApr = (moneyFactor: number): number =>
+  Math.round(moneyFactor * 2400 * 100) / 100;
+
+/**
+ * Lease tax rate: the state rate plus the buyer's local add-ons. Capped
+ * surtaxes (Florida's first-$5,000 rule) apply at full rate here because each
+ * lease payment is its own taxable sale, well under the cap.
+ */
+const leaseTaxRate = (
+  settings: Settings,
+  rule: StateTaxRule,
+  jurisdiction: TaxJurisdiction | null
+): number => {
+  const { customTaxRate } = settings;
+  if (typeof customTaxRate === "number" && Number.isFinite(customTaxRate) && customTaxRate >= 0) {
+    return customTaxRate / 100;
+  }
+  if (!jurisdiction) return combinedTaxRate(rule);
+  return jurisdiction.rates.reduce((sum, line) => sum + line.rate, rule.rate);
+};
+
+/**
+ * Quote a closed-end lease for the vehicle using the lease inputs on the deal.
+ * Returns null when the deal has no lease terms or the vehicle has no price.
+ *
+ * Lease math (constant-yield "street" convention):
+ * - gross cap = discounted price + doc + CVR + transaction fees + acquisition
+ *   fee + backend products + negative trade equity
+ * - cap reduction = cash down + positive trade equity + manufacturer rebate
+ * - depreciation = (adjusted cap − residual) / term
+ * - rent charge = (adjusted cap + residual) × money factor
+ * Title/registration fees and the out-of-state transit fee are collected at
+ * signing, never capitalized. Only the cash portion of the cap reduction
+ * (down + rebate) is taxed at signing; trade equity is not.
+ */
+export const calculateLeaseFinancials = (
+  vehicle: Vehicle,
+  dealData: DealData,
+  settings: Settings
+): LeaseQuote | null => {
+  if (!hasLeaseTerms(dealData)) return null;
+  const price = typeof vehicle.price === "number" ? Math.max(0, vehicle.price) : 0;
+  if (price <= 0) return null;
+
+  const rawTerm = optionalNumber(dealData.leaseTerm);
+  const leaseTerm = rawTerm !== null && rawTerm >= 1 ? Math.floor(rawTerm) : DEFAULT_LEASE_TERM;
+  const residualPercent = optionalNumber(dealData.leaseResidualPercent)!;
+  const moneyFactor = optionalNumber(dealData.leaseMoneyFactor)!;
+  const acquisitionFee = nonNegative(dealData.leaseAcquisitionFee);
+  const dispositionFee = nonNegative(dealData.leaseDispositionFee);
+
+  const taxState = dealData.buyerState ?? settings.defaultState;
+  const taxRule = getStateTaxRule(taxState);
+  const taxMethod = taxRule.leaseTaxMethod;
+  const jurisdiction = resolveTaxJurisdiction(taxState, {
+    zip: dealData.buyerZip,
+    county: dealData.buyerCounty,
+  });
+  const taxRate = leaseTaxRate(settings, taxRule, jurisdiction);
+
+  const { manufacturerRebate, dealerDiscount } = getRebateBreakdown(dealData);
+  const discountedPrice = Math.max(0, price - dealerDiscount);
+  const { netTradeIn: netTrade, negativeEquity } = getTradeEquity(dealData);
+  const downPayment = nonNegative(dealData.downPayment);
+  const backendProducts = getBackendProductSplit(dealData).total;
+  const stateFees = nonNegative(dealData.stateFees);
+  const extraFees =
+    taxState !== getHomeState(settings) ? nonNegative(settings.outOfStateTransitFee) : 0;
+
+  const grossCapCost = roundCents(
+    discountedPrice +
+      nonNegative(settings.docFee) +
+      nonNegative(settings.cvrFee) +
+      getTransactionFees(dealData) +
+      acquisitionFee +
+      backendProducts +
+      Math.max(0, -netTrade)
+  );
+  const capCostReduction = roundCents(downPayment + Math.max(0, netTrade) + manufacturerRebate);
+  const adjustedCapCost = roundCents(Math.max(0, grossCapCost - capCostReduction));
+  const residualValue = roundCents(price * (residualPercent / 100));
+
+  const depreciationFee = roundCents((adjustedCapCost - residualValue) / leaseTerm);
+  const rentCharge = roundCents((adjustedCapCost + residualValue) * moneyFactor);
+  const basePayment = roundCents(Math.max(0, depreciationFee + rentCharge));
+
+  const capReductionTax = roundCents((downPayment + manufacturerRebate) * taxRate);
+  const monthlyUseTax = taxMethod === "monthly" ? roundCents(basePayment * taxRate) : 0;
+  const upfrontTax =
+    taxMethod === "upfront"
+      ? roundCents(capReductionTax + basePayment * leaseTerm * taxRate)
+      : capReductionTax;
+  const monthlyPayment = roundCents(basePayment + monthlyUseTax);
+  const dueAtSigning = roundCents(
+    downPayment + monthlyPayment + stateFees + extraFees + upfrontTax
+  );
+
+  const bookValue = selectBookValue(vehicle) ?? 0;
+  const unitCost = typeof vehicle.unitCost === "number" ? vehicle.unitCost : null;
+
+  return {
+    ...vehicle,
+    baseOutTheDoorPrice: grossCapCost,
+    salesTax: roundCents(upfrontTax + monthlyUseTax * leaseTerm),
+    frontEndLtv: bookValue > 0 ? (discountedPrice / bookValue) * 100 : "Error",
+    frontEndGross: unitCost === null ? "N/A" : roundCents(discountedPrice - unitCost),
+    amountToFinance: adjustedCapCost,
+    otdLtv: bookValue > 0 ? (adjustedCapCost / bookValue) * 100 : "Error",
+    monthlyPayment,
+    negativeEquity,
+    leaseTerm,
+    residualPercent,
+    residualValue,
+    moneyFactor,
+    equivalentApr: moneyFactorToApr(moneyFactor),
+    grossCapCost,
+    capCostReduction,
+    adjustedCapCost,
+    depreciationFee,
+    rentCharge,
+    basePayment,
+    taxMethod,
+    taxRate,
+    monthlyUseTax,
+    upfrontTax,
+    acquisitionFee,
+    dispositionFee,
+    dueAtSigning,
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { advanceBasis, advanceSummary, calculateLenderAdvance } from "./lenderAdvance";
+
+const inputs = {
+  book: 20000,
+  bookValueSource: "Trade" as const,
+  mileage: 110000,
+  amountFinanced: 25000,
+};
+
+describe("calculateLenderAdvance", () => {
+  it("applies the tighter LTV to the book and caps it at maxAdvance", () => {
+    const { advance } = calculateLenderAdvance(
+      { name: "Used", maxLtv: 130, otdLtv: 125, maxAdvance: 24000 },
+      { ...inputs, mileage: null }
+    );
+
+    expect(advance).toMatchObject({
+      advanceLtv: 125,
+      cap: 24000,
+      maxAdvance: 24000,
+      currentAdvance: 25000,
+      overBy: 1000,
+    });
+  });
+
+  it("adjusts the book by the first matching mileage band", () => {
+    const { advance, missing } = calculateLenderAdvance(
+      {
+        name: "High miles",
+        maxLtv: 120,
+        mileageBookAdjustments: [
+          { maxMileage: 100000, amount: 0 },
+          { minMileage: 100001, amount: -2500 },
+          { minMileage: 50000, amount: -9999 },
+        ],
+      },
+      inputs
+    );
+
+    expect(missing).toEqual([]);
+    expect(advance?.mileageAdjustment).toBe(-2500);
+    expect(advance?.maxAdvance).toBe(21000);
+    expect(advance?.overBy).toBe(4000);
+    expect(advanceBasis(advance!)).toBe("120% of $20,000 Trade book − $2,500 mileage");
+    expect(advanceSummary(advance!)).toBe("Max $21,000 · deal $25,000 · over by $4,000");
+  });
+
+  it("bounds the advance by the cap alone when the tier has no LTV", () => {
+    const { advance } = calculateLenderAdvance(
+      { name: "Capped", maxAdvance: 30000 },
+      { ...inputs, book: null }
+    );
+
+    expect(advance?.maxAdvance).toBe(30000);
+    expect(advanceSummary(advance!)).toBe("Max $30,000 · deal $25,000 · $5,000 room");
+    expect(advanceBasis(advance!)).toBe("$30,000 cap");
+  });
+
+  it("names the figures it needs instead of guessing", () => {
+    expect(
+      calculateLenderAdvance(
+        {
+          name: "Used",
+          maxLtv: 120,
+          maxAdvance: 30000,
+          mileageBookAdjustments: [{ amount: -500 }],
+        },
+        { ...inputs, book: null, mileage: null }
+      )
+    ).toEqual({
+      advance: null,
+      missing: ["book value for max advance", "vehicle mileage for book adjustment"],
+    });
+  });
+
+  it("has nothing to report for a tier without advance limits", () => {
+    expect(calculateLenderAdvance({ name: "Open" }, inputs)).toEqual({
+      advance: null,
+      missing: [],
+    });
+  });
+});
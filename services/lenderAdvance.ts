@@ -0,0 +1,130 @@
+import type { LenderTier } from "../types";
+import type { BookValueSource } from "./bookValue";
+import { fmt } from "../utils/format";
+
+/**
+ * lenderAdvance — the most a lender will advance on a vehicle. A tier's
+ * advance LTV (the tighter of maxLtv and otdLtv) is applied to the lender's
+ * book (bookValueSource, no cross-book fallback) after any mileage
+ * adjustment to that book, and the result is capped by the tier's maxAdvance
+ * dollars. The deal's current advance is its amount financed.
+ */
+
+export interface LenderAdvance {
+  bookValueSource: BookValueSource;
+  /** The lender's book before mileage adjustment; null when unknown. */
+  book: number | null;
+  /** Dollars the tier's mileage bands add to the book (negative deducts). */
+  mileageAdjustment: number;
+  /** LTV percent the advance is figured at; null when the tier has none. */
+  advanceLtv: number | null;
+  /** The tier's dollar cap; null when uncapped. */
+  cap: number | null;
+  maxAdvance: number;
+  currentAdvance: number;
+  /** Dollars over maxAdvance; 0 when the deal fits. */
+  overBy: number;
+}
+
+export interface AdvanceInputs {
+  book: number | null;
+  bookValueSource: BookValueSource;
+  mileage: number | null;
+  amountFinanced: number;
+}
+
+export interface AdvanceCalculation {
+  /** Null when the tier sets no advance limit or a needed figure is missing. */
+  advance: LenderAdvance | null;
+  /** Figures the calculation needs but the deal does not have yet. */
+  missing: string[];
+}
+
+const limit = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null;
+
+/** True when the tier limits advance beyond its LTV ratio checks. */
+export const hasAdvanceLimit = (tier: LenderTier): boolean =>
+  limit(tier.maxAdvance) !== null ||
+  (Array.isArray(tier.mileageBookAdjustments) && tier.mileageBookAdjustments.length > 0);
+
+export const calculateLenderAdvance = (
+  tier: LenderTier,
+  inputs: AdvanceInputs
+): AdvanceCalculation => {
+  const ltvLimits = [limit(tier.maxLtv), limit(tier.otdLtv)].filter(
+    (value): value is number => value !== null
+  );
+  const advanceLtv = ltvLimits.length > 0 ? Math.min(...ltvLimits) : null;
+  const cap = limit(tier.maxAdvance);
+  if (advanceLtv === null && cap === null) return { advance: null, missing: [] };
+
+  const missing: string[] = [];
+  let mileageAdjustment = 0;
+  let ltvAdvance: number | null = null;
+  if (advanceLtv !== null) {
+    if (inputs.book === null) missing.push("book value for max advance");
+    const bands = Array.isArray(tier.mileageBookAdjustments) ? tier.mileageBookAdjustments : [];
+    if (bands.length > 0) {
+      if (inputs.mileage === null) missing.push("vehicle mileage for book adjustment");
+      else {
+        const mileage = inputs.mileage;
+        const band = bands.find(
+          (item) =>
+            item &&
+            Number.isFinite(item.amount) &&
+            (limit(item.minMileage) === null || mileage >= item.minMileage!) &&
+            (limit(item.maxMileage) === null || mileage <= item.maxMileage!)
+        );
+        mileageAdjustment = band?.amount ?? 0;
+      }
+    }
+    if (missing.length === 0) {
+      ltvAdvance = (Math.max(0, inputs.book! + mileageAdjustment) * advanceLtv) / 100;
+    }
+  }
+  // Without the LTV side a cap alone still bounds the advance; with the LTV
+  // side unknown the maximum is not known either.
+  if (missing.length > 0) return { advance: null, missing };
+
+  const maxAdvance = Math.min(
+    ltvAdvance ?? Number.POSITIVE_INFINITY,
+    cap ?? Number.POSITIVE_INFINITY
+  );
+  return {
+    advance: {
+      bookValueSource: inputs.bookValueSource,
+      book: inputs.book,
+      mileageAdjustment,
+      advanceLtv,
+      cap,
+      maxAdvance,
+      currentAdvance: inputs.amountFinanced,
+      overBy: Math.max(0, inputs.amountFinanced - maxAdvance),
+    },
+    missing: [],
+  };
+};
+
+/** "Max $22,000 · deal $25,000 · over by $3,000" (or "· $1,500 room"). */
+export const advanceSummary = (advance: LenderAdvance): string =>
+  `Max ${fmt(advance.maxAdvance)} · deal ${fmt(advance.currentAdvance)} · ` +
+  (advance.overBy > 0
+    ? `over by ${fmt(advance.overBy)}`
+    : `${fmt(advance.maxAdvance - advance.currentAdvance)} room`);
+
+/** How the maximum was reached, e.g. "120% of $21,000 Trade book − $1,000 mileage · $25,000 cap". */
+export const advanceBasis = (advance: LenderAdvance): string => {
+  const parts: string[] = [];
+  if (advance.advanceLtv !== null && advance.book !== null) {
+    const adjustment =
+      advance.mileageAdjustment === 0
+        ? ""
+        : ` ${advance.mileageAdjustment < 0 ? "−" : "+"} ${fmt(Math.abs(advance.mileageAdjustment))} mileage`;
+    parts.push(
+      `${advance.advanceLtv}% of ${fmt(advance.book)} ${advance.bookValueSource} book${adjustment}`
+    );
+  }
+  if (advance.cap !== null) parts.push(`${fmt(advance.cap)} cap`);
+  return parts.join(" · ");
+};
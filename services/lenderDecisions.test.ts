@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { DealSubmission } from "../types";
+import { decisionSummary, lenderApprovalStats, submissionTimeline } from "./lenderDecisions";
+
+const submission = (overrides: Partial<DealSubmission> = {}): DealSubmission => ({
+  id: "s1",
+  dealId: "d1",
+  lenderName: "Lake Trust CU",
+  submittedAt: "2026-10-01T15:00:00.000Z",
+  decision: "pending",
+  ...overrides,
+});
+
+describe("submissionTimeline", () => {
+  it("keeps one deal's submissions, oldest first", () => {
+    const timeline = submissionTimeline(
+      [
+        submission({ id: "late", submittedAt: "2026-10-02T10:00:00.000Z" }),
+        submission({ id: "other", dealId: "d2" }),
+        submission({ id: "early", submittedAt: "2026-10-01T09:00:00.000Z" }),
+      ],
+      "d1"
+    );
+
+    expect(timeline.map((s) => s.id)).toEqual(["early", "late"]);
+  });
+});
+
+describe("decisionSummary", () => {
+  it("words approvals, counters and declines", () => {
+    expect(
+      decisionSummary(
+        submission({
+          decision: "approved",
+          approvedAmount: 22000,
+          approvedRate: 7.99,
+          approvedTerm: 72,
+        })
+      )
+    ).toBe("Approved $22,000 · 7.99% · 72 mo");
+    expect(
+      decisionSummary(
+        submission({ decision: "countered", approvedRate: 9.49, conditions: "+$1,500 down" })
+      )
+    ).toBe("Countered 9.49% — +$1,500 down");
+    expect(decisionSummary(submission({ decision: "declined", declineReason: "DTI" }))).toBe(
+      "Declined — DTI"
+    );
+    expect(decisionSummary(submission())).toBe("Pending");
+  });
+});
+
+describe("lenderApprovalStats", () => {
+  it("rolls submissions up per lender, counting counters as offers", () => {
+    const stats = lenderApprovalStats([
+      submission({ decision: "approved", approvedRate: 7 }),
+      submission({ lenderName: "lake trust cu ", decision: "countered", approvedRate: 9 }),
+      submission({ decision: "declined" }),
+      submission({ decision: "pending" }),
+      submission({ lenderName: "Capital Auto", decision: "declined" }),
+      submission({ lenderName: "Ally", decision: "pending" }),
+    ]);
+
+    expect(stats).toEqual([
+      {
+        lenderName: "Lake Trust CU",
+        submitted: 4,
+        approved: 1,
+        countered: 1,
+        declined: 1,
+        pending: 1,
+        approvalRate: 2 / 3,
+        averageRate: 8,
+      },
+      {
+        lenderName: "Ally",
+        submitted: 1,
+        approved: 0,
+        countered: 0,
+        declined: 0,
+        pending: 1,
+        approvalRate: null,
+        averageRate: null,
+      },
+      {
+        lenderName: "Capital Auto",
+        submitted: 1,
+        approved: 0,
+        countered: 0,
+        declined: 1,
+        pending: 0,
+        approvalRate: 0,
+        averageRate: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import type { DealSubmission, LenderDecision } from "../types";
+import { fmt } from "../utils/format";
+
+/**
+ * lenderDecisions — what each lender said when a deal was shotgunned. A
+ * saved deal has one row per lender it went to (deal_submissions); this
+ * module orders them into the Pipeline timeline, words each decision, and
+ * rolls every submission up into per-lender approval rates for Reports.
+ */
+
+export const LENDER_DECISIONS: Record<LenderDecision, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  countered: "Countered",
+  declined: "Declined",
+};
+
+export const DECISION_COLORS: Record<LenderDecision, string> = {
+  pending: "var(--color-warning)",
+  approved: "var(--color-success)",
+  countered: "var(--color-primary)",
+  declined: "var(--color-danger)",
+};
+
+/** Approvals and counters are both offers the desk can work with. */
+export const isOffer = (decision: LenderDecision): boolean =>
+  decision === "approved" || decision === "countered";
+
+/** A deal's submissions, oldest first. */
+export const submissionTimeline = (
+  submissions: DealSubmission[],
+  dealId: string
+): DealSubmission[] =>
+  submissions
+    .filter((submission) => submission.dealId === dealId)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+
+/** "$22,000 · 7.99% · 72 mo", or "" when the lender gave no terms. */
+export const offerTerms = (submission: DealSubmission): string =>
+  [
+    submission.approvedAmount !== undefined ? fmt(submission.approvedAmount) : null,
+    submission.approvedRate !== undefined ? `${submission.approvedRate.toFixed(2)}%` : null,
+    submission.approvedTerm !== undefined ? `${submission.approvedTerm} mo` : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join(" · ");
+
+/** One line for the timeline, e.g. "Countered $20,000 · 9.49% — +$1,500 down". */
+export const decisionSummary = (submission: DealSubmission): string => {
+  const label = LENDER_DECISIONS[submission.decision];
+  if (submission.decision === "declined") {
+    return submission.declineReason ? `${label} — ${submission.declineReason}` : label;
+  }
+  if (!isOffer(submission.decision)) return label;
+  const terms = offerTerms(submission);
+  const head = terms ? `${label} ${terms}` : label;
+  return submission.conditions ? `${head} — ${submission.conditions}` : head;
+};
+
+export interface LenderApprovalStats {
+  lenderName: string;
+  submitted: number;
+  approved: number;
+  countered: number;
+  declined: number;
+  pending: number;
+  /** Offers over decided submissions, 0–1; null until a decision is in. */
+  approvalRate: number | null;
+  /** Mean APR across offers that carried one; null when none did. */
+  averageRate: number | null;
+}
+
+/**
+ * Per-lender totals across every submission, keyed on the lender name
+ * (trimmed, ignoring case). Pending submissions count as submitted but not
+ * toward the approval rate. Sorted by volume, then name.
+ */
+export const lenderApprovalStats = (submissions: DealSubmission[]): LenderApprovalStats[] => {
+  const byLender = new Map<string, LenderApprovalStats & { rates: number[] }>();
+  for (const submission of submissions) {
+    const name = submission.lenderName.trim();
+    if (!name) continue;
+    const key = name.toLowerCase();
+    let stats = byLender.get(key);
+    if (!stats) {
+      stats = {
+        lenderName: name,
+        submitted: 0,
+        approved: 0,
+        countered: 0,
+        declined: 0,
+        pending: 0,
+        approvalRate: null,
+        averageRate: null,
+        rates: [],
+      };
+      byLender.set(key, stats);
+    }
+    stats.submitted += 1;
+    stats[submission.decision] += 1;
+    if (isOffer(submission.decision) && submission.approvedRate !== undefined) {
+      stats.rates.push(submission.approvedRate);
+    }
+  }
+
+  return [...byLender.values()]
+    .map(({ rates, ...stats }) => {
+      const decided = stats.approved + stats.countered + stats.declined;
+      return {
+        ...stats,
+        approvalRate: decided > 0 ? (stats.approved + stats.countered) / decided : null,
+        averageRate: rates.length > 0 ? rates.reduce((a, b) => a + b, 0) / rates.length : null,
+      };
+    })
+    .sort((a, b) => b.submitted - a.submitted || a.lenderName.localeCompare(b.lenderName));
+};
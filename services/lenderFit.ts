@@ -7,6 +7,9 @@ import type {
   LenderTier,
 } from "../types";
 import { checkBankEligibility } from "./lenderMatcher";
+import type { LenderAdvance } from "./lenderAdvance";
+import type { LenderOdds } from "./lenderOdds";
+import type { RateBreakdown } from "./rateAdders";
 
 /**
  * lenderFit — aggregates the existing per-lender rules engine
@@ -25,7 +28,11 @@ export interface LenderFitEntry {
   matchedTier: LenderTier | null;
   uncheckedConstraints?: string[];
   effectiveRate?: number | null;
+  rateBreakdown?: RateBreakdown | null;
+  advance?: LenderAdvance | null;
   evaluatedConstraints?: number;
+  /** Per-lender approval odds; set by withLenderOdds (services/lenderOdds.ts). */
+  odds?: LenderOdds | null;
 }
 
 export interface VehicleFit {
@@ -102,6 +109,8 @@ export const lenderFitForVehicle = (
       matchedTier: r.matchedTier,
       uncheckedConstraints: r.uncheckedConstraints ?? [],
       effectiveRate: r.effectiveRate ?? null,
+      rateBreakdown: r.rateBreakdown ?? null,
+      advance: r.advance ?? null,
       evaluatedConstraints: r.evaluatedConstraints ?? 0,
     });
   }
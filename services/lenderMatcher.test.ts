@@ -443,6 +443,106 @@ describe("conservative lender-wide constraints and pending inputs", () => {
     expect(result.eligible).toBe(false);
   });
 
+  it("fails a deal whose negative equity exceeds every tier's cap, naming the cause", () => {
+    const lender = mockLender({
+      tiers: [
+        { name: "Tight", minFico: 700, maxNegativeEquity: 2000 },
+        { name: "Loose", minFico: 700, maxNegativeEquity: 3000 },
+      ],
+    });
+    const result = checkBankEligibility(
+      mockVehicle({ negativeEquity: 3500 }),
+      mockDeal({ tradeInValue: 8000, tradeInPayoff: 11500 }),
+      lender
+    );
+
+    expect(result.status).toBe("ineligible");
+    expect(result.reasons).toEqual(["Negative equity too high ($3,500 > $3,000 max)"]);
+    expect(
+      checkBankEligibility(mockVehicle({ negativeEquity: 2500 }), mockDeal(), lender).matchedTier
+        ?.name
+    ).toBe("Loose");
+  });
+
+  it("derives negative equity from the deal when the vehicle predates it", () => {
+    const lender = mockLender({ tiers: [{ name: "Capped", maxNegativeEquity: 1000 }] });
+    const upsideDown = mockDeal({ tradeInValue: 5000, tradeInPayoff: 7000 });
+    expect(checkBankEligibility(mockVehicle(), upsideDown, lender).eligible).toBe(false);
+
+    const unknownPayoff = mockDeal({ tradeInPayoff: Number.NaN });
+    const pending = checkBankEligibility(mockVehicle(), unknownPayoff, lender);
+    expect(pending.status).toBe("pending");
+    expect(pending.uncheckedConstraints).toEqual(["trade payoff for max negative equity"]);
+  });
+
+  it("keeps the generic reason when another limit also rejects the tier", () => {
+    const lender = mockLender({
+      tiers: [{ name: "Capped", minFico: 760, maxNegativeEquity: 1000 }],
+    });
+    const result = checkBankEligibility(mockVehicle({ negativeEquity: 3500 }), mockDeal(), lender);
+    expect(result.reasons).toEqual([
+      "No fitting lending tier found for this deal structure and vehicle.",
+    ]);
+  });
+
+  it("only matches balloon and biweekly deals to tiers that allow them", () => {
+    const lender = mockLender({
+      tiers: [
+        { name: "Standard", minFico: 600 },
+        { name: "Balloon", minFico: 700, allowedStructures: ["balloon"] },
+      ],
+    });
+    const balloon = mockDeal({ balloonAmount: 8000 });
+    expect(checkBankEligibility(mockVehicle(), balloon, lender).matchedTier?.name).toBe("Balloon");
+    expect(
+      checkBankEligibility(mockVehicle(), { ...balloon, creditScore: 650 }, lender).reasons
+    ).toEqual(["Payment structure not offered on qualifying tiers (balloon)"]);
+
+    const biweekly = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ balloonAmount: 8000, paymentFrequency: "biweekly" }),
+      lender
+    );
+    expect(biweekly.status).toBe("ineligible");
+    expect(biweekly.reasons).toEqual([
+      "Payment structure not offered on qualifying tiers (balloon, biweekly)",
+    ]);
+  });
+
+  it("applies the lender's co-buyer score rule to tier FICO limits", () => {
+    const tiers = [{ name: "Near prime", minFico: 660 }];
+    const deal = mockDeal({ creditScore: 590, coBuyerCreditScore: 700 });
+
+    expect(checkBankEligibility(mockVehicle(), deal, mockLender({ tiers })).eligible).toBe(false);
+    expect(
+      checkBankEligibility(mockVehicle(), deal, mockLender({ tiers, coBuyerFico: "highest" }))
+        .eligible
+    ).toBe(true);
+  });
+
+  it("combines co-buyer income for PTI and DTI unless the lender opts out", () => {
+    const tiers = [{ name: "Any", minFico: 600 }];
+    // 450 payment: 15% PTI alone, 9% combined; DTI 45% alone, 27% combined.
+    const deal = mockDeal({
+      monthlyIncome: 3000,
+      monthlyDebt: 900,
+      coBuyerMonthlyIncome: 2000,
+      coBuyerMonthlyDebt: 0,
+    });
+    const limits = { maxPti: 12, maxDti: 40, tiers };
+
+    expect(checkBankEligibility(mockVehicle(), deal, mockLender(limits)).eligible).toBe(true);
+    const primaryOnly = checkBankEligibility(
+      mockVehicle(),
+      deal,
+      mockLender({ ...limits, coBuyerIncome: "primary" })
+    );
+    expect(primaryOnly.reasons).toEqual([
+      "PTI too high (15.0% > 12%)",
+      "DTI too high (45.0% > 40%)",
+    ]);
+  });
+
   it("chooses the lowest-rate passing tier instead of the first tier", () => {
     const lender = mockLender({
       tiers: [
@@ -505,3 +605,367 @@ describe("conservative lender-wide constraints and pending inputs", () => {
     );
   });
 });
+
+describe("dated lender programs", () => {
+  const versioned = mockLender({
+    effectiveFrom: "2026-03-01",
+    tiers: [{ name: "March", minFico: 700, maxLtv: 125 }],
+    programVersions: [
+      {
+        effectiveFrom: "2026-02-01",
+        effectiveTo: "2026-02-28",
+        minIncome: 6000,
+        tiers: [{ name: "February", minFico: 700, maxLtv: 125 }],
+      },
+    ],
+  });
+
+  it("evaluates against the version in force on the contract date", () => {
+    const feb = checkBankEligibility(
+      mockVehicle({ amountToFinance: 20000 }),
+      mockDeal({ contractDate: "2026-02-15", monthlyIncome: 7000 }),
+      versioned
+    );
+    const mar = checkBankEligibility(
+      mockVehicle({ amountToFinance: 20000 }),
+      mockDeal({ contractDate: "2026-03-15", monthlyIncome: 5000 }),
+      versioned
+    );
+
+    expect(feb.matchedTier?.name).toBe("February");
+    expect(mar.matchedTier?.name).toBe("March");
+  });
+
+  it("applies the archived version's lender limits, not the current ones", () => {
+    const result = checkBankEligibility(
+      mockVehicle({ amountToFinance: 20000 }),
+      mockDeal({ contractDate: "2026-02-15", monthlyIncome: 5000 }),
+      versioned
+    );
+
+    expect(result.eligible).toBe(false);
+    expect(result.reasons.join(" ")).toMatch(/income/i);
+  });
+
+  it("fails an expired program with the date it ended", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ contractDate: "2026-04-01" }),
+      mockLender({ effectiveFrom: "2026-03-01", effectiveTo: "2026-03-31" })
+    );
+
+    expect(result.eligible).toBe(false);
+    expect(result.status).toBe("ineligible");
+    expect(result.reasons).toEqual(["Program expired 2026-03-31; load the current rate sheet"]);
+  });
+
+  it("fails a deal dated before the first version takes effect", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ contractDate: "2026-01-15" }),
+      versioned
+    );
+
+    expect(result.reasons).toEqual(["Program not in force until 2026-02-01"]);
+  });
+
+  it("keeps undated lenders in force on any date", () => {
+    const result = checkBankEligibility(
+      mockVehicle({ otdLtv: 110, amountToFinance: 22000 }),
+      mockDeal({ contractDate: "1999-01-01" }),
+      mockLender()
+    );
+
+    expect(result.eligible).toBe(true);
+  });
+});
+
+describe("custom lender rules", () => {
+  const vehicle = mockVehicle({ otdLtv: 110, amountToFinance: 22000, mileage: 110000 });
+  const tiers = [{ name: "Prime", minFico: 700, maxLtv: 125, maxTerm: 72, baseInterestRate: 6 }];
+
+  it("rejects with the rule's message when a lender-wide rule holds", () => {
+    const result = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720, downPayment: 1000 }),
+      mockLender({
+        tiers,
+        rules: [{ when: "downPaymentPct < 10", outcome: "ineligible", message: "Min 10% down" }],
+      })
+    );
+
+    expect(result.status).toBe("ineligible");
+    expect(result.reasons).toEqual(["Lender rule: Min 10% down"]);
+  });
+
+  it("adds rule rate adders to the tier rate and explains them", () => {
+    const result = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720 }),
+      mockLender({
+        tiers: [
+          {
+            ...tiers[0]!,
+            rules: [
+              {
+                when: "mileage > 100000",
+                outcome: "rate-adder",
+                rateAdder: 0.5,
+                message: "100k+ miles",
+              },
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(result.eligible).toBe(true);
+    expect(result.effectiveRate).toBe(6.5);
+    expect(result.reasons).toEqual(["Rate +0.50% (100k+ miles)"]);
+  });
+
+  it("reads title brand and open auto loans from the deal", () => {
+    const lender = mockLender({
+      tiers,
+      rules: [
+        {
+          when: "titleBrand in ('salvage', 'rebuilt')",
+          outcome: "ineligible",
+          message: "No salvage",
+        },
+        { when: "openAutoLoans > 2", outcome: "ineligible", message: "Max 2 open auto loans" },
+      ],
+    });
+
+    const salvage = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720, titleBrand: "salvage", openAutoLoans: 1 }),
+      lender
+    );
+    const tooMany = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720, titleBrand: "clean", openAutoLoans: 3 }),
+      lender
+    );
+    const clean = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720, titleBrand: "clean", openAutoLoans: 2 }),
+      lender
+    );
+    const unknown = checkBankEligibility(vehicle, mockDeal({ creditScore: 720 }), lender);
+
+    expect(salvage.reasons).toEqual(["Lender rule: No salvage"]);
+    expect(tooMany.reasons).toEqual(["Lender rule: Max 2 open auto loans"]);
+    expect(clean.eligible).toBe(true);
+    expect(unknown.status).toBe("pending");
+    expect(unknown.uncheckedConstraints).toEqual(
+      expect.arrayContaining([
+        "title brand for rule: No salvage",
+        "open auto loans for rule: Max 2 open auto loans",
+      ])
+    );
+  });
+
+  it("holds the deal pending on a stipulation", () => {
+    const result = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720 }),
+      mockLender({
+        tiers,
+        rules: [{ when: "monthlyIncome < 6000", outcome: "pending-stip", message: "Two paystubs" }],
+      })
+    );
+
+    expect(result.status).toBe("pending");
+    expect(result.uncheckedConstraints).toContain("stipulation: Two paystubs");
+  });
+
+  it("names a tier rule as the reason no tier fits, and waits on unknown inputs", () => {
+    const result = checkBankEligibility(
+      vehicle,
+      mockDeal({ creditScore: 720 }),
+      mockLender({
+        tiers: [{ ...tiers[0]!, rules: [{ when: "make in ('Toyota')", outcome: "ineligible" }] }],
+      })
+    );
+    const ok = checkBankEligibility(
+      mockVehicle({ otdLtv: 110, amountToFinance: 22000, make: "Toyota" }),
+      mockDeal({ creditScore: 720 }),
+      mockLender({
+        tiers: [{ ...tiers[0]!, rules: [{ when: "make in ('Toyota')", outcome: "ineligible" }] }],
+      })
+    );
+
+    expect(result.status).toBe("pending");
+    expect(result.uncheckedConstraints).toContain("vehicle make for rule: make in ('Toyota')");
+    expect(ok.reasons).toEqual(["Lender rule: make in ('Toyota')"]);
+  });
+});
+
+describe("checkBankEligibility rate adder grids", () => {
+  const gridTier = {
+    name: "Grid",
+    minFico: 600,
+    baseInterestRate: 5.99,
+    rateAdder: 0.25,
+    rateAdders: {
+      creditTerm: [
+        { minFico: 700, maxTerm: 60, adder: 0 },
+        { minFico: 700, minTerm: 61, adder: 0.5 },
+        { minTerm: 61, adder: 1.25 },
+      ],
+      ltv: [
+        { maxLtv: 100, adder: 0 },
+        { minLtv: 100.01, maxLtv: 120, adder: 0.35 },
+      ],
+      mileage: [{ minMileage: 100001, adder: 0.5 }],
+    },
+  };
+
+  it("builds the buy rate from the base, flat adder and matching grid cells", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ loanTerm: 72 }),
+      mockLender({ tiers: [gridTier] })
+    );
+
+    expect(result.eligible).toBe(true);
+    expect(result.effectiveRate).toBeCloseTo(7.09, 10);
+    expect(result.rateBreakdown?.base).toBe(5.99);
+    expect(result.rateBreakdown?.adjustments).toEqual([
+      { label: "Tier adder", adder: 0.25 },
+      { label: "FICO 700+ · 61+ mo", adder: 0.5 },
+      { label: "LTV 100.01–120%", adder: 0.35 },
+    ]);
+  });
+
+  it("uses the first matching cell of each grid", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ loanTerm: 72, creditScore: 650 }),
+      mockLender({ tiers: [gridTier] })
+    );
+
+    expect(result.rateBreakdown?.adjustments).toContainEqual({ label: "61+ mo", adder: 1.25 });
+    expect(result.effectiveRate).toBeCloseTo(7.84, 10);
+  });
+
+  it("holds the deal pending when a grid needs a figure the deal lacks", () => {
+    const result = checkBankEligibility(
+      mockVehicle({ mileage: undefined }),
+      mockDeal(),
+      mockLender({ tiers: [gridTier] })
+    );
+
+    expect(result.status).toBe("pending");
+    expect(result.uncheckedConstraints).toEqual(["vehicle mileage for Mileage rate adders"]);
+  });
+
+  it("ranks tiers by their deal-specific buy rate", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal({ loanTerm: 72 }),
+      mockLender({
+        tiers: [
+          {
+            name: "Low base, long-term adder",
+            baseInterestRate: 6,
+            rateAdders: {
+              creditTerm: [
+                { minTerm: 73, adder: 0 },
+                { minTerm: 61, adder: 1 },
+              ],
+            },
+          },
+          { name: "Flat", baseInterestRate: 6.5 },
+        ],
+      })
+    );
+
+    expect(result.matchedTier?.name).toBe("Flat");
+    expect(result.effectiveRate).toBe(6.5);
+  });
+
+  it("adds rule rate adders as breakdown lines", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal(),
+      mockLender({
+        tiers: [{ name: "Flat", baseInterestRate: 6.5 }],
+        rules: [{ when: "loanTerm >= 60", outcome: "rate-adder", rateAdder: 0.2 }],
+      })
+    );
+
+    expect(result.rateBreakdown).toEqual({
+      base: 6.5,
+      adjustments: [{ label: "Rule: loanTerm >= 60", adder: 0.2 }],
+      rate: 6.7,
+    });
+  });
+});
+
+describe("checkBankEligibility max advance", () => {
+  it("checks a maxAdvance cap instead of leaving it pending", () => {
+    const fits = checkBankEligibility(
+      mockVehicle(),
+      mockDeal(),
+      mockLender({ tiers: [{ name: "Capped", maxLtv: 130, maxAdvance: 26000 }] })
+    );
+
+    expect(fits.status).toBe("eligible");
+    expect(fits.advance).toMatchObject({ maxAdvance: 26000, currentAdvance: 25000, overBy: 0 });
+  });
+
+  it("names the overage when every tier is over its max advance", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal(),
+      mockLender({
+        tiers: [
+          { name: "Tight", maxAdvance: 20000 },
+          { name: "Looser", maxAdvance: 24000 },
+        ],
+      })
+    );
+
+    expect(result.status).toBe("ineligible");
+    expect(result.reasons).toEqual(["Over max advance by $1,000 ($24,000 max)"]);
+    expect(result.advance?.overBy).toBe(1000);
+  });
+
+  it("figures the advance on the lender's own book after mileage adjustments", () => {
+    const tier = {
+      name: "Retail book",
+      maxLtv: 110,
+      mileageBookAdjustments: [{ minMileage: 20000, amount: -1000 }],
+    };
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal(),
+      mockLender({ bookValueSource: "Retail", tiers: [tier] })
+    );
+
+    // 110% of ($24,000 retail − $1,000) = $25,300
+    expect(result.status).toBe("eligible");
+    expect(result.advance?.bookValueSource).toBe("Retail");
+    expect(result.advance?.maxAdvance).toBeCloseTo(25300, 6);
+
+    const pending = checkBankEligibility(
+      mockVehicle({ mileage: undefined }),
+      mockDeal(),
+      mockLender({ bookValueSource: "Retail", tiers: [tier] })
+    );
+    expect(pending.uncheckedConstraints).toEqual(["vehicle mileage for book adjustment"]);
+  });
+
+  it("reports the advance for a tier with only an LTV limit", () => {
+    const result = checkBankEligibility(
+      mockVehicle(),
+      mockDeal(),
+      mockLender({ tiers: [{ name: "Plain", maxLtv: 125 }] })
+    );
+
+    expect(result.advance?.maxAdvance).toBe(27500);
+    expect(result.evaluatedConstraints).toBe(1);
+  });
+});
@@ -5,8 +5,15 @@ import type {
   FilterData,
   LenderProfile,
   LenderTier,
+  PaymentStructure,
 } from "../types";
 import { selectBookValue } from "./bookValue";
+import { resolveApplicantCredit } from "./coBuyer";
+import { calculateLenderAdvance, hasAdvanceLimit, type LenderAdvance } from "./lenderAdvance";
+import { dealDate, programUnavailableReason, resolveLenderProgram } from "./lenderPrograms";
+import { evaluateLenderRules, type RuleContext } from "./lenderRules";
+import { requiredStructures } from "./paymentStructure";
+import { buildRateBreakdown, tierRateAdjustments, type RateBreakdown } from "./rateAdders";
 
 const formatCurrencySimple = (value: number | string | undefined): string => {
   if (typeof value !== "number") return String(value || "0");
@@ -38,12 +45,6 @@ const compareText = (left: string, right: string): number => {
   return a < b ? -1 : a > b ? 1 : 0;
 };
 
-const effectiveTierRate = (tier: LenderTier): number | null => {
-  const base = finiteNumber(tier.baseInterestRate);
-  if (base === null) return null;
-  return base + (finiteNumber(tier.rateAdder) ?? 0);
-};
-
 const SAMPLE_CONSTRAINT = "sample program - verify or convert before use";
 const SAMPLE_REASON =
   "Sample program - illustrative only; verify or convert it before using it as an approval path.";
@@ -55,8 +56,12 @@ export interface EligibilityResult {
   matchedTier: LenderTier | null;
   /** Required constraints that cannot be evaluated with the current deal data. */
   uncheckedConstraints: string[];
-  /** Effective tier buy rate (base + adder), when published. */
+  /** Deal-specific buy rate (base + adders), when the tier publishes a base rate. */
   effectiveRate: number | null;
+  /** How effectiveRate was built, line by line. */
+  rateBreakdown: RateBreakdown | null;
+  /** Max advance against the deal's advance for the selected tier. */
+  advance: LenderAdvance | null;
   /** Number of configured constraints evaluated for the selected result. */
   evaluatedConstraints: number;
 }
@@ -68,6 +73,8 @@ const fail = (reasons: string[], unchecked: string[] = []): EligibilityResult =>
   matchedTier: null,
   uncheckedConstraints: unchecked,
   effectiveRate: null,
+  rateBreakdown: null,
+  advance: null,
   evaluatedConstraints: 0,
 });
 
@@ -75,7 +82,11 @@ interface TierCandidate {
   tier: LenderTier;
   unchecked: string[];
   effectiveRate: number | null;
+  rateBreakdown: RateBreakdown | null;
+  advance: LenderAdvance | null;
   evaluatedConstraints: number;
+  /** Custom-rule rate adjustments applied to effectiveRate, for reasons. */
+  notes: string[];
 }
 
 const compareCandidates = (left: TierCandidate, right: TierCandidate): number => {
@@ -100,20 +111,25 @@ const compareCandidates = (left: TierCandidate, right: TierCandidate): number =>
 const pendingResult = (candidate: TierCandidate): EligibilityResult => ({
   eligible: false,
   status: "pending",
-  reasons: candidate.unchecked.includes(SAMPLE_CONSTRAINT)
-    ? [
-        SAMPLE_REASON,
-        ...(() => {
-          const otherUnchecked = candidate.unchecked.filter((item) => item !== SAMPLE_CONSTRAINT);
-          return otherUnchecked.length > 0
-            ? [`Pending required information: ${otherUnchecked.join(", ")}.`]
-            : [];
-        })(),
-      ]
-    : [`Pending required information: ${candidate.unchecked.join(", ")}.`],
+  reasons: [
+    ...(candidate.unchecked.includes(SAMPLE_CONSTRAINT)
+      ? [
+          SAMPLE_REASON,
+          ...(() => {
+            const otherUnchecked = candidate.unchecked.filter((item) => item !== SAMPLE_CONSTRAINT);
+            return otherUnchecked.length > 0
+              ? [`Pending required information: ${otherUnchecked.join(", ")}.`]
+              : [];
+          })(),
+        ]
+      : [`Pending required information: ${candidate.unchecked.join(", ")}.`]),
+    ...candidate.notes,
+  ],
   matchedTier: candidate.tier,
   uncheckedConstraints: candidate.unchecked,
   effectiveRate: candidate.effectiveRate,
+  rateBreakdown: candidate.rateBreakdown,
+  advance: candidate.advance,
   evaluatedConstraints: candidate.evaluatedConstraints,
 });
 
@@ -130,6 +146,8 @@ const samplePendingResult = (
   matchedTier,
   uncheckedConstraints: [...new Set([SAMPLE_CONSTRAINT, ...unchecked])].sort(compareText),
   effectiveRate,
+  rateBreakdown: null,
+  advance: null,
   evaluatedConstraints,
 });
 
@@ -139,20 +157,30 @@ const samplePendingResult = (
  * `asOfYear` anchors vehicle-age (tier.maxAge) checks; it defaults to the
  * current calendar year and exists so tests can pin a year instead of rotting
  * every January 1.
+ *
+ * Dated lenders are evaluated against the program version in force on the
+ * deal date (services/lenderPrograms.ts); with none in force the lender fails.
  */
 export const checkBankEligibility = (
   vehicle: CalculatedVehicle,
   deal: DealData & FilterData,
-  bank: LenderProfile,
+  profile: LenderProfile,
   asOfYear: number = new Date().getFullYear()
 ): EligibilityResult => {
-  if (!bank || typeof bank !== "object") return fail(["Invalid bank profile data."]);
+  if (!profile || typeof profile !== "object") return fail(["Invalid bank profile data."]);
   if (!deal || typeof deal !== "object") {
-    return bank.isSample
+    return profile.isSample
       ? samplePendingResult([], 0, ["Deal data is invalid and cannot be evaluated."])
       : fail(["Invalid deal data."]);
   }
 
+  const program = resolveLenderProgram(profile, dealDate(deal));
+  if (program.status !== "in-force") {
+    const reasons = [programUnavailableReason(program)];
+    return profile.isSample ? samplePendingResult([], 0, reasons) : fail(reasons);
+  }
+  const bank = program.lender;
+
   const amountFinanced = finiteNumber(vehicle?.amountToFinance);
   if (amountFinanced === null) {
     const reasons = [
@@ -170,20 +198,38 @@ export const checkBankEligibility = (
     const reasons = ["Backend products cannot be negative."];
     return bank.isSample ? samplePendingResult([], 0, reasons) : fail(reasons);
   }
-  const monthlyDebt = finiteNumber(deal.monthlyDebt);
-  if (monthlyDebt !== null && monthlyDebt < 0) {
-    const reasons = ["Monthly debt cannot be negative."];
-    return bank.isSample ? samplePendingResult([], 0, reasons) : fail(reasons);
+  for (const debt of [deal.monthlyDebt, deal.coBuyerMonthlyDebt]) {
+    const value = finiteNumber(debt);
+    if (value !== null && value < 0) {
+      const reasons = ["Monthly debt cannot be negative."];
+      return bank.isSample ? samplePendingResult([], 0, reasons) : fail(reasons);
+    }
   }
 
-  const creditScore = finiteNumber(deal.creditScore);
-  const income = finiteNumber(deal.monthlyIncome);
+  // Joint applications collapse to one applicant under this lender's
+  // co-buyer rules before any credit or affordability check.
+  const applicant = resolveApplicantCredit(deal, bank);
+  const creditScore = applicant.creditScore;
+  const income = applicant.monthlyIncome;
+  const monthlyDebt = applicant.monthlyDebt;
   const payment = finiteNumber(vehicle?.monthlyPayment);
   const quotedRate = finiteNumber(deal.interestRate);
   const modelYear = finiteNumber(vehicle?.modelYear);
   const mileage = finiteNumber(vehicle?.mileage);
   const term = finiteNumber(deal.loanTerm);
   const make = (vehicle?.make || "").trim().toLowerCase();
+  // Prefer the calculator's figure; older precomputed vehicles lack it, so
+  // fall back to the deal's own trade numbers.
+  const negativeEquity =
+    finiteNumber(vehicle?.negativeEquity) ??
+    (() => {
+      const tradeValue = finiteNumber(deal.tradeInValue);
+      const tradePayoff = finiteNumber(deal.tradeInPayoff);
+      return tradeValue === null || tradePayoff === null
+        ? null
+        : Math.max(0, tradePayoff - tradeValue);
+    })();
+  const structures = requiredStructures(deal);
 
   const bankReasons: string[] = [];
   const bankPending = new Set<string>();
@@ -290,8 +336,63 @@ export const checkBankEligibility = (
     return (precomputed * calculatorBookValue) / lenderBookValue;
   })();
 
+  // Custom rules (services/lenderRules.ts) and rate adder grids read the
+  // same figures the built-in limits use, with LTV on this lender's book.
+  const price = finiteNumber(vehicle?.price);
+  const downPayment = finiteNumber(deal.downPayment);
+  const lenderLtv = lenderBookValue !== null ? (amountFinanced / lenderBookValue) * 100 : null;
+  const ruleContext: RuleContext = {
+    creditScore,
+    monthlyIncome: income,
+    monthlyDebt,
+    pti: income !== null && income > 0 && payment !== null ? (payment / income) * 100 : null,
+    dti:
+      income !== null && income > 0 && payment !== null && monthlyDebt !== null
+        ? ((monthlyDebt + payment) / income) * 100
+        : null,
+    payment,
+    loanTerm: term,
+    apr: quotedRate,
+    amountFinanced,
+    ltv: lenderLtv,
+    downPayment,
+    downPaymentPct:
+      downPayment !== null && price !== null && price > 0 ? (downPayment / price) * 100 : null,
+    tradeInValue: finiteNumber(deal.tradeInValue),
+    negativeEquity,
+    backendProducts: backendAmount,
+    price,
+    modelYear,
+    vehicleAge: modelYear !== null ? asOfYear - modelYear : null,
+    mileage,
+    make: make || null,
+    model: vehicle?.model?.trim() || null,
+    condition: deal.vehicleCondition ?? null,
+    titleBrand: deal.titleBrand ?? null,
+    openAutoLoans: finiteNumber(deal.openAutoLoans),
+  };
+
+  const bankRules = evaluateLenderRules(bank.rules, ruleContext);
+  if (bankRules.rejections.length > 0) {
+    return bank.isSample
+      ? samplePendingResult(bankPending, bankEvaluated, bankRules.rejections)
+      : fail(bankRules.rejections, [...bankPending]);
+  }
+  bankRules.pending.forEach((item) => bankPending.add(item));
+  bankEvaluated += bankRules.evaluated;
+
   const passing: TierCandidate[] = [];
   const pending: TierCandidate[] = [];
+  // Limits of tiers that fit in every respect except rolled-in negative
+  // equity, so a rejection can name the cause instead of "no tier".
+  const negativeEquityLimits: number[] = [];
+  // Likewise for tiers over their max advance, best first.
+  const advanceShortfalls: LenderAdvance[] = [];
+  // And for tiers whose program does not allow the deal's balloon or
+  // biweekly structure.
+  const unsupportedStructures = new Set<PaymentStructure>();
+  // And for tiers turned down only by their own custom rules.
+  const ruleRejections = new Set<string>();
 
   for (const tier of bank.tiers) {
     if (!tier || typeof tier !== "object") continue;
@@ -496,16 +597,86 @@ export const checkBankEligibility = (
       }
     }
 
-    if (configuredLimit(tier.maxAdvance) !== null) {
-      unchecked.add("max advance (verify lender-specific calculation)");
+    const maxNegativeEquity = configuredLimit(tier.maxNegativeEquity);
+    let overNegativeEquity = false;
+    if (maxNegativeEquity !== null) {
+      if (negativeEquity === null) unchecked.add("trade payoff for max negative equity");
+      else {
+        evaluated++;
+        overNegativeEquity = negativeEquity > maxNegativeEquity;
+      }
+    }
+
+    // Advance: the ratio checks above cover a plain LTV limit; a dollar cap
+    // or mileage-adjusted book is checked on the dollars advanced.
+    const advanceCalculation = calculateLenderAdvance(tier, {
+      book: lenderBookValue,
+      bookValueSource: bank.bookValueSource ?? "Trade",
+      mileage,
+      amountFinanced,
+    });
+    const advance = advanceCalculation.advance;
+    let overAdvance = false;
+    if (hasAdvanceLimit(tier)) {
+      if (advance === null) advanceCalculation.missing.forEach((item) => unchecked.add(item));
+      else {
+        evaluated++;
+        overAdvance = advance.overBy > 0;
+      }
     }
 
+    const allowedStructures = Array.isArray(tier.allowedStructures) ? tier.allowedStructures : [];
+    const unsupported = structures.filter((structure) => !allowedStructures.includes(structure));
+    if (structures.length > 0) evaluated++;
+
     if (rejected) continue;
+    if (unsupported.length > 0) {
+      unsupported.forEach((structure) => unsupportedStructures.add(structure));
+      continue;
+    }
+    if (overNegativeEquity) {
+      negativeEquityLimits.push(maxNegativeEquity!);
+      continue;
+    }
+    if (overAdvance) {
+      advanceShortfalls.push(advance!);
+      continue;
+    }
+
+    const tierRules = evaluateLenderRules(tier.rules, ruleContext);
+    evaluated += tierRules.evaluated;
+    if (tierRules.rejections.length > 0) {
+      tierRules.rejections.forEach((reason) => ruleRejections.add(reason));
+      continue;
+    }
+    tierRules.pending.forEach((item) => unchecked.add(item));
+
+    // Buy rate: the tier's base plus its flat adder, the matching cell of
+    // each adder grid, then custom-rule adders.
+    const baseRate = finiteNumber(tier.baseInterestRate);
+    const tierAdders = tierRateAdjustments(tier, {
+      creditScore,
+      term: term !== null && term > 0 ? term : null,
+      ltv: lenderLtv,
+      mileage,
+    });
+    tierAdders.pending.forEach((item) => unchecked.add(item));
+    const rateBreakdown =
+      baseRate === null
+        ? null
+        : buildRateBreakdown(baseRate, [
+            ...tierAdders.adjustments,
+            ...bankRules.adjustments,
+            ...tierRules.adjustments,
+          ]);
     const candidate: TierCandidate = {
       tier,
       unchecked: [...unchecked].sort(compareText),
-      effectiveRate: effectiveTierRate(tier),
+      effectiveRate: rateBreakdown?.rate ?? null,
+      rateBreakdown,
+      advance,
       evaluatedConstraints: evaluated,
+      notes: [...bankRules.notes, ...tierRules.notes],
     };
     if (candidate.unchecked.length > 0) pending.push(candidate);
     else passing.push(candidate);
@@ -516,16 +687,54 @@ export const checkBankEligibility = (
     return {
       eligible: true,
       status: "eligible",
-      reasons: [],
+      reasons: best.notes,
       matchedTier: best.tier,
       uncheckedConstraints: [],
       effectiveRate: best.effectiveRate,
+      rateBreakdown: best.rateBreakdown,
+      advance: best.advance,
       evaluatedConstraints: best.evaluatedConstraints,
     };
   }
 
   if (pending.length > 0) return pendingResult(pending.sort(compareCandidates)[0]!);
 
+  if (negativeEquityLimits.length > 0) {
+    const reasons = [
+      `Negative equity too high (${formatCurrencySimple(negativeEquity ?? 0)} > ${formatCurrencySimple(Math.max(...negativeEquityLimits))} max)`,
+    ];
+    return bank.isSample
+      ? samplePendingResult(bankPending, bankEvaluated, reasons)
+      : fail(reasons, [...bankPending]);
+  }
+
+  if (advanceShortfalls.length > 0) {
+    const closest = advanceShortfalls.sort((a, b) => a.overBy - b.overBy)[0]!;
+    const reasons = [
+      `Over max advance by ${formatCurrencySimple(Math.round(closest.overBy))} (${formatCurrencySimple(Math.round(closest.maxAdvance))} max)`,
+    ];
+    const result = bank.isSample
+      ? samplePendingResult(bankPending, bankEvaluated, reasons)
+      : fail(reasons, [...bankPending]);
+    return { ...result, advance: closest };
+  }
+
+  if (unsupportedStructures.size > 0) {
+    const reasons = [
+      `Payment structure not offered on qualifying tiers (${structures.filter((s) => unsupportedStructures.has(s)).join(", ")})`,
+    ];
+    return bank.isSample
+      ? samplePendingResult(bankPending, bankEvaluated, reasons)
+      : fail(reasons, [...bankPending]);
+  }
+
+  if (ruleRejections.size > 0) {
+    const reasons = [...ruleRejections];
+    return bank.isSample
+      ? samplePendingResult(bankPending, bankEvaluated, reasons)
+      : fail(reasons, [...bankPending]);
+  }
+
   return bank.isSample
     ? samplePendingResult(bankPending, bankEvaluated, [
         "Illustrative criteria do not currently match this deal structure and vehicle.",
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { INITIAL_DEAL_DATA, INITIAL_FILTER_DATA } from "../constants";
+import type { CalculatedVehicle, DealData, FilterData, LenderProfile } from "../types";
+import { buildLenderMatrix, lenderMatrixSheet } from "./lenderMatrix";
+
+const alpha: LenderProfile = {
+  id: "alpha",
+  name: "Alpha Bank",
+  bookValueSource: "Trade",
+  tiers: [
+    { name: "Prime", minFico: 700, maxLtv: 110, maxTerm: 84 },
+    { name: "Standard", minFico: 600, maxLtv: 120, maxTerm: 84 },
+  ],
+};
+
+const beta: LenderProfile = {
+  id: "beta",
+  name: "Beta CU",
+  bookValueSource: "Trade",
+  tiers: [{ name: "Prime Only", minFico: 700, maxLtv: 110, maxTerm: 72 }],
+};
+
+const ghost: LenderProfile = {
+  id: "ghost",
+  name: "Ghost Finance",
+  active: false,
+  bookValueSource: "Trade",
+  tiers: [{ name: "Anything Goes" }],
+};
+
+const mkVehicle = (over: Partial<CalculatedVehicle> = {}): CalculatedVehicle => ({
+  vehicle: "2020 Test Car",
+  stock: "STK1",
+  vin: "VIN1TEST",
+  modelYear: 2020,
+  mileage: 50000,
+  price: 21000,
+  jdPower: 20000,
+  jdPowerRetail: 22000,
+  unitCost: 18000,
+  baseOutTheDoorPrice: 22000,
+  salesTax: 1260,
+  frontEndLtv: 105,
+  frontEndGross: 3000,
+  amountToFinance: 20000,
+  otdLtv: 100,
+  monthlyPayment: 400,
+  ...over,
+});
+
+const deal: DealData & FilterData = {
+  ...INITIAL_DEAL_DATA,
+  ...INITIAL_FILTER_DATA,
+  loanTerm: 72,
+  creditScore: 650,
+  monthlyIncome: 4000,
+};
+
+describe("buildLenderMatrix", () => {
+  it("has a cell for every unit against every active lender", () => {
+    const matrix = buildLenderMatrix(
+      [mkVehicle(), mkVehicle({ stock: "STK2", vin: "VIN2TEST", amountToFinance: 30000 })],
+      deal,
+      [alpha, beta, ghost]
+    );
+
+    expect(matrix.lenders.map((l) => l.id)).toEqual(["alpha", "beta"]);
+    expect(matrix.rows.map((r) => r.fitCount)).toEqual([1, 0]);
+
+    const [fits, over] = matrix.rows;
+    expect(fits?.cells.alpha).toMatchObject({ status: "eligible", tier: "Standard", reason: null });
+    expect(fits?.cells.beta?.status).toBe("ineligible");
+    expect(fits?.cells.beta?.reason).toBeTruthy();
+    expect(over?.cells.alpha?.status).toBe("ineligible");
+    expect(fits?.cells.ghost).toBeUndefined();
+  });
+});
+
+describe("lenderMatrixSheet", () => {
+  it("lays out unit columns, then status/tier/advance/reason per lender", () => {
+    const sheet = lenderMatrixSheet(buildLenderMatrix([mkVehicle()], deal, [alpha]));
+
+    expect(sheet[0]).toEqual([
+      "Stock",
+      "VIN",
+      "Vehicle",
+      "Mileage",
+      "Price",
+      "OTD LTV %",
+      "Lenders fitting",
+      "Alpha Bank status",
+      "Alpha Bank tier",
+      "Alpha Bank max advance",
+      "Alpha Bank reason",
+    ]);
+    expect(sheet[1]?.slice(0, 9)).toEqual([
+      "STK1",
+      "VIN1TEST",
+      "2020 Test Car",
+      50000,
+      21000,
+      100,
+      1,
+      "Fits",
+      "Standard",
+    ]);
+    expect(sheet[1]?.[10]).toBeNull();
+  });
+});
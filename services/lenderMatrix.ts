@@ -0,0 +1,130 @@
+import type {
+  CalculatedVehicle,
+  DealData,
+  EligibilityStatus,
+  FilterData,
+  LenderProfile,
+} from "../types";
+import type { SpreadsheetCell } from "../utils/spreadsheet";
+import { lenderFitForVehicle, type LenderFitEntry } from "./lenderFit";
+
+/**
+ * lenderMatrix — the full inventory × lender grid behind the Lenders matrix
+ * "units fitting" bars. unitsForEachLender only counts; this keeps every
+ * cell (status, matched tier, max advance, what blocks it) so the grid can
+ * be exported for the weekly inventory meeting. Each row is one
+ * lenderFitForVehicle run against the current customer profile, so the
+ * export always agrees with the desk.
+ */
+
+export interface LenderMatrixCell {
+  status: EligibilityStatus;
+  tier: string | null;
+  /** The lender's max advance on this unit; null when the tier sets none. */
+  maxAdvance: number | null;
+  /** Why the unit doesn't fit: the first failed rule, or the rules left unverified. */
+  reason: string | null;
+}
+
+export interface LenderMatrixRow {
+  vehicle: CalculatedVehicle;
+  fitCount: number;
+  /** Keyed by lender id; every active lender has a cell. */
+  cells: Record<string, LenderMatrixCell>;
+}
+
+export interface LenderMatrix {
+  /** Active lenders, in the order their columns appear. */
+  lenders: Array<{ id: string; name: string }>;
+  rows: LenderMatrixRow[];
+}
+
+const cellFor = (entry: LenderFitEntry): LenderMatrixCell => {
+  const status = entry.status ?? (entry.eligible ? "eligible" : "ineligible");
+  const unchecked = entry.uncheckedConstraints ?? [];
+  const reason =
+    status === "eligible"
+      ? null
+      : status === "pending" && unchecked.length > 0
+        ? `Unverified: ${unchecked.join(", ")}`
+        : (entry.reasons[0] ?? null);
+  return {
+    status,
+    tier: entry.matchedTier?.name ?? null,
+    maxAdvance: entry.advance?.maxAdvance ?? null,
+    reason,
+  };
+};
+
+/** Every unit against every active lender, in inventory order. */
+export const buildLenderMatrix = (
+  inventory: CalculatedVehicle[],
+  deal: DealData & FilterData,
+  lenders: LenderProfile[]
+): LenderMatrix => {
+  const active = lenders.filter((l) => l && l.active !== false);
+  const rows = inventory.map((vehicle) => {
+    const fit = lenderFitForVehicle(vehicle, deal, active);
+    const cells: Record<string, LenderMatrixCell> = {};
+    for (const entry of fit.entries) cells[entry.lenderId] = cellFor(entry);
+    return { vehicle, fitCount: fit.fitCount, cells };
+  });
+  return { lenders: active.map((l) => ({ id: l.id, name: l.name })), rows };
+};
+
+const numberOrBlank = (value: unknown): SpreadsheetCell =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const STATUS_LABEL: Record<EligibilityStatus, string> = {
+  eligible: "Fits",
+  pending: "Pending",
+  ineligible: "No",
+};
+
+/**
+ * The matrix as a sheet: one row per unit, unit columns first, then four
+ * columns per lender (status, tier, max advance, reason).
+ */
+export const lenderMatrixSheet = (matrix: LenderMatrix): SpreadsheetCell[][] => {
+  const header: SpreadsheetCell[] = [
+    "Stock",
+    "VIN",
+    "Vehicle",
+    "Mileage",
+    "Price",
+    "OTD LTV %",
+    "Lenders fitting",
+  ];
+  for (const lender of matrix.lenders) {
+    header.push(
+      `${lender.name} status`,
+      `${lender.name} tier`,
+      `${lender.name} max advance`,
+      `${lender.name} reason`
+    );
+  }
+
+  const body = matrix.rows.map(({ vehicle, fitCount, cells }) => {
+    const row: SpreadsheetCell[] = [
+      vehicle.stock,
+      vehicle.vin,
+      vehicle.vehicle,
+      numberOrBlank(vehicle.mileage),
+      numberOrBlank(vehicle.price),
+      numberOrBlank(vehicle.otdLtv),
+      fitCount,
+    ];
+    for (const lender of matrix.lenders) {
+      const cell = cells[lender.id];
+      row.push(
+        cell ? STATUS_LABEL[cell.status] : null,
+        cell?.tier ?? null,
+        cell?.maxAdvance ?? null,
+        cell?.reason ?? null
+      );
+    }
+    return row;
+  });
+
+  return [header, ...body];
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { INITIAL_DEAL_DATA, INITIAL_FILTER_DATA } from "../constants";
+import type { CalculatedVehicle, DealData, FilterData, LenderProfile } from "../types";
+import type { LenderApprovalStats } from "./lenderDecisions";
+import type { LenderFitEntry } from "./lenderFit";
+import { lenderApprovalOdds, likeliestLender, withLenderOdds } from "./lenderOdds";
+
+// $23,000 financed on a $20,000 trade book → 115% LTV; $440 on $5,500 → 8% PTI.
+const vehicle = {
+  vehicle: "2021 Test Car",
+  stock: "T1",
+  vin: "VIN1",
+  modelYear: 2021,
+  mileage: 30000,
+  price: 21000,
+  jdPower: 20000,
+  jdPowerRetail: 24000,
+  unitCost: 18000,
+  baseOutTheDoorPrice: 22000,
+  salesTax: 1000,
+  frontEndLtv: 105,
+  frontEndGross: 3000,
+  amountToFinance: 23000,
+  otdLtv: 110,
+  monthlyPayment: 440,
+} as CalculatedVehicle;
+
+const deal = (creditScore: number): DealData & FilterData => ({
+  ...INITIAL_DEAL_DATA,
+  ...INITIAL_FILTER_DATA,
+  creditScore,
+  monthlyIncome: 5500,
+});
+
+const entry = (patch: Partial<LenderFitEntry> = {}): LenderFitEntry => ({
+  lenderId: "lake",
+  name: "Lake Trust CU",
+  eligible: true,
+  status: "eligible",
+  reasons: [],
+  matchedTier: { name: "Standard", minFico: 620, maxLtv: 120, maxPti: 14 },
+  ...patch,
+});
+
+const history = (approved: number, declined: number): LenderApprovalStats => ({
+  lenderName: "Lake Trust CU",
+  submitted: approved + declined,
+  approved,
+  countered: 0,
+  declined,
+  pending: 0,
+  approvalRate: approved / (approved + declined),
+  averageRate: null,
+});
+
+describe("lenderApprovalOdds", () => {
+  it("reads headroom inside each of the tier's limits", () => {
+    const odds = lenderApprovalOdds(entry(), vehicle, deal(680));
+
+    // FICO 60 over the 620 floor, LTV 5 under 120, PTI 6 under 14.
+    expect(odds.headroom.fico).toBe(100);
+    expect(odds.headroom.ltv).toBeCloseTo(62.5, 10);
+    expect(odds.headroom.pti).toBe(100);
+    expect(odds.odds).toBe(81);
+    expect(odds.historicalRate).toBeNull();
+  });
+
+  it("reads lower the closer the deal sits to a limit", () => {
+    const roomy = lenderApprovalOdds(entry(), vehicle, deal(700));
+    const tight = lenderApprovalOdds(entry(), vehicle, deal(625));
+
+    expect(tight.headroom.fico).toBeCloseTo(54.17, 2);
+    expect(tight.odds).toBeLessThan(roomy.odds);
+  });
+
+  it("blends in the lender's decisions by volume", () => {
+    const few = lenderApprovalOdds(entry(), vehicle, deal(680), undefined, history(0, 2));
+    const many = lenderApprovalOdds(entry(), vehicle, deal(680), undefined, history(6, 34));
+
+    expect(few.decided).toBe(2);
+    // (81.25 · 8 + 0 · 2) / 10
+    expect(few.odds).toBe(65);
+    // (81.25 · 8 + 15 · 40) / 48
+    expect(many.odds).toBe(26);
+  });
+
+  it("caps pending and ineligible screens", () => {
+    expect(
+      lenderApprovalOdds(entry({ status: "pending", eligible: false }), vehicle, deal(800)).odds
+    ).toBe(60);
+    expect(
+      lenderApprovalOdds(entry({ status: "ineligible", eligible: false }), vehicle, deal(800)).odds
+    ).toBe(10);
+  });
+
+  it("figures LTV on the lender's own book and its lender-wide PTI cap", () => {
+    const retail: LenderProfile = {
+      id: "lake",
+      name: "Lake Trust CU",
+      bookValueSource: "Retail",
+      maxPti: 10,
+      tiers: [],
+    };
+    const odds = lenderApprovalOdds(entry(), vehicle, deal(680), retail);
+
+    // $23,000 / $24,000 retail ≈ 95.8%; PTI 8 against the tighter 10.
+    expect(odds.headroom.ltv).toBe(100);
+    expect(odds.headroom.pti).toBeCloseTo(66.67, 2);
+  });
+});
+
+describe("withLenderOdds / likeliestLender", () => {
+  it("matches history by lender name and picks the most likely verified fit", () => {
+    const entries = withLenderOdds(
+      [
+        entry({ lenderId: "first", name: "First Bank" }),
+        entry(),
+        entry({ lenderId: "out", name: "Out Auto", status: "ineligible", eligible: false }),
+      ],
+      vehicle,
+      deal(680),
+      new Map(),
+      [{ ...history(30, 0), lenderName: " lake trust cu" }]
+    );
+
+    expect(entries.map((e) => e.odds?.decided)).toEqual([0, 30, 0]);
+    expect(likeliestLender(entries)?.lenderId).toBe("lake");
+    expect(likeliestLender([entries[2] as LenderFitEntry])).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import type { CalculatedVehicle, DealData, FilterData, LenderProfile } from "../types";
+import { APPROVAL_CONFIG } from "./approvalScorer";
+import { selectBookValue } from "./bookValue";
+import { resolveApplicantCredit } from "./coBuyer";
+import type { LenderApprovalStats } from "./lenderDecisions";
+import type { LenderFitEntry } from "./lenderFit";
+
+/**
+ * lenderOdds — "which bank is most likely to buy this". The blended score
+ * (approvalScorer) rates the deal against no one in particular; this rates
+ * it against each lender the rules engine checked:
+ *
+ *  1. Headroom: how far the deal sits inside the matched tier's FICO, LTV
+ *     and PTI limits. Exactly at a limit reads 50; a full cushion reads 100.
+ *     Components weight as in APPROVAL_CONFIG, over the limits the tier sets.
+ *  2. History: the lender's own approval rate from logged submissions
+ *     (lenderDecisions), blended in by volume. The headroom estimate counts
+ *     as eight decisions, so a lender's record outweighs it past eight.
+ *  3. Status: a pending screen (unverified rules) and an ineligible one cap
+ *     the result, so the odds never contradict the rules engine.
+ *
+ * Like the gauge, an internal staff estimate, not a credit decision.
+ */
+export const LENDER_ODDS_CONFIG = {
+  // Points inside the limit that earn the full 100.
+  cushion: { fico: 60, ltv: 20, pti: 6 },
+  atLimit: 50,
+  // Headroom when the tier sets none of the three limits.
+  noLimits: 50,
+  // Decided submissions the headroom estimate counts as when blending history.
+  priorWeight: 8,
+  caps: { pending: 60, ineligible: 10 },
+} as const;
+
+export interface LenderOdds {
+  /** 0-100 estimated odds this lender approves the structure. */
+  odds: number;
+  /** 0-100 headroom per limit; null when the tier sets no such limit or a figure is missing. */
+  headroom: { fico: number | null; ltv: number | null; pti: number | null };
+  /** The lender's offers over decided submissions, 0–1; null without history. */
+  historicalRate: number | null;
+  /** Decided submissions behind historicalRate. */
+  decided: number;
+}
+
+const finite = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
+
+/** Headroom for `inside` points on the right side of a limit. */
+const headroomScore = (inside: number, cushion: number): number => {
+  const { atLimit } = LENDER_ODDS_CONFIG;
+  return clamp(atLimit + (inside / cushion) * (100 - atLimit), 0, 100);
+};
+
+/** The tighter of two optional maximums. */
+const tighter = (a: number | null, b: number | null): number | null =>
+  a === null ? b : b === null ? a : Math.min(a, b);
+
+const historyKey = (name: string) => name.trim().toLowerCase();
+
+/** Odds for one lender's fit entry. `history` is that lender's submission stats, if any. */
+export const lenderApprovalOdds = (
+  entry: LenderFitEntry,
+  vehicle: CalculatedVehicle,
+  deal: DealData & FilterData,
+  profile?: LenderProfile,
+  history?: LenderApprovalStats
+): LenderOdds => {
+  const C = LENDER_ODDS_CONFIG;
+  const tier = entry.matchedTier;
+  const applicant = resolveApplicantCredit(deal, profile);
+
+  const minFico = finite(tier?.minFico);
+  const fico = applicant.creditScore;
+  const ficoHeadroom =
+    minFico !== null && fico !== null ? headroomScore(fico - minFico, C.cushion.fico) : null;
+
+  // LTV on this lender's book, as the rules engine figures it.
+  const maxLtv = tighter(finite(tier?.maxLtv), finite(tier?.otdLtv));
+  const book = selectBookValue(vehicle, profile?.bookValueSource ?? "Trade");
+  const financed = finite(vehicle.amountToFinance);
+  const ltv = book !== null && financed !== null ? (financed / book) * 100 : null;
+  const ltvHeadroom =
+    maxLtv !== null && ltv !== null ? headroomScore(maxLtv - ltv, C.cushion.ltv) : null;
+
+  const maxPti = tighter(finite(tier?.maxPti), finite(profile?.maxPti));
+  const payment = finite(vehicle.monthlyPayment);
+  const income = applicant.monthlyIncome;
+  const pti = payment !== null && income !== null && income > 0 ? (payment / income) * 100 : null;
+  const ptiHeadroom =
+    maxPti !== null && pti !== null ? headroomScore(maxPti - pti, C.cushion.pti) : null;
+
+  const weighted = [
+    [APPROVAL_CONFIG.weights.credit, ficoHeadroom],
+    [APPROVAL_CONFIG.weights.ltv, ltvHeadroom],
+    [APPROVAL_CONFIG.weights.pti, ptiHeadroom],
+  ].filter((pair): pair is [number, number] => pair[1] !== null);
+  const totalWeight = weighted.reduce((sum, [weight]) => sum + weight, 0);
+  const structural =
+    totalWeight > 0
+      ? weighted.reduce((sum, [weight, score]) => sum + weight * score, 0) / totalWeight
+      : C.noLimits;
+
+  const historicalRate = history?.approvalRate ?? null;
+  const decided = history ? history.approved + history.countered + history.declined : 0;
+  let odds =
+    historicalRate === null
+      ? structural
+      : (structural * C.priorWeight + historicalRate * 100 * decided) / (C.priorWeight + decided);
+
+  const status = entry.status ?? (entry.eligible ? "eligible" : "ineligible");
+  if (status === "ineligible") odds = Math.min(odds, C.caps.ineligible);
+  else if (status === "pending") odds = Math.min(odds, C.caps.pending);
+
+  return {
+    odds: Math.round(clamp(odds, APPROVAL_CONFIG.clamp.floor, APPROVAL_CONFIG.clamp.ceil)),
+    headroom: { fico: ficoHeadroom, ltv: ltvHeadroom, pti: ptiHeadroom },
+    historicalRate,
+    decided,
+  };
+};
+
+/**
+ * Attach odds to every fit entry, matching history to lenders by name
+ * (trimmed, ignoring case — how submissions are logged). Order is kept.
+ */
+export const withLenderOdds = <T extends LenderFitEntry>(
+  entries: T[],
+  vehicle: CalculatedVehicle,
+  deal: DealData & FilterData,
+  profilesById: Map<string, LenderProfile>,
+  history: LenderApprovalStats[] = []
+): T[] => {
+  const byName = new Map(history.map((stats) => [historyKey(stats.lenderName), stats]));
+  return entries.map((entry) => ({
+    ...entry,
+    odds: lenderApprovalOdds(
+      entry,
+      vehicle,
+      deal,
+      profilesById.get(entry.lenderId),
+      byName.get(historyKey(entry.name))
+    ),
+  }));
+};
+
+/** Hover detail, e.g. "72% odds · 64% approved across 31 decided submissions". */
+export const lenderOddsTitle = (odds: LenderOdds): string =>
+  odds.historicalRate === null
+    ? `${odds.odds}% odds from limit headroom; no decided submissions yet`
+    : `${odds.odds}% odds · ${Math.round(odds.historicalRate * 100)}% approved across ${odds.decided} decided submission${odds.decided === 1 ? "" : "s"}`;
+
+/**
+ * The verified fit most likely to approve: highest odds, ties kept in fit
+ * order. Null when no lender fits.
+ */
+export const likeliestLender = <T extends LenderFitEntry>(entries: T[]): T | null => {
+  let best: T | null = null;
+  for (const entry of entries) {
+    if (!entry.eligible || (entry.status ?? "eligible") !== "eligible") continue;
+    if (best === null || (entry.odds?.odds ?? 0) > (best.odds?.odds ?? 0)) best = entry;
+  }
+  return best;
+};
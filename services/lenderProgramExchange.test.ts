@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LENDER_PROFILES } from "../constants";
+import type { LenderProfile } from "../types";
+import {
+  LENDER_PROGRAM_FORMAT,
+  exportLenderPrograms,
+  lenderImportPayload,
+  lenderProgramsFilename,
+  parseLenderProgramDocument,
+  previewLenderImport,
+} from "./lenderProgramExchange";
+
+const lakeTrust: LenderProfile = {
+  id: "rec_lake",
+  name: "Lake Trust CU",
+  active: true,
+  bookValueSource: "Trade",
+  maxPti: 15,
+  contactName: "Dana Buyer",
+  rules: [{ when: "mileage > 150000", outcome: "ineligible", message: "Too many miles" }],
+  enrichmentSources: [{ url: "https://example.com/rates", title: "Rate sheet" }],
+  tiers: [{ name: "A", minFico: 680, maxLtv: 125, maxTerm: 84, baseInterestRate: 6.49 }],
+};
+
+// A PocketBase record carries system fields and blank values for unset columns.
+const fromPocketBase = (profile: LenderProfile): LenderProfile =>
+  ({
+    ...profile,
+    dealer: "dealer_1",
+    collectionId: "pbc_lenders",
+    created: "2026-01-01",
+    notes: "",
+    coBuyerFico: "",
+    effectiveTo: null,
+  }) as unknown as LenderProfile;
+
+const roundTrip = (profiles: LenderProfile[]) =>
+  parseLenderProgramDocument(
+    JSON.stringify(exportLenderPrograms(profiles, new Date("2026-10-19T12:00:00Z")))
+  );
+
+describe("exportLenderPrograms", () => {
+  it("keeps the program and drops ids, dealer links, sample flags and blanks", () => {
+    const doc = exportLenderPrograms(
+      [fromPocketBase({ ...lakeTrust, isSample: true })],
+      new Date("2026-10-19T12:00:00Z")
+    );
+
+    expect(doc).toMatchObject({
+      format: LENDER_PROGRAM_FORMAT,
+      version: 1,
+      exportedAt: "2026-10-19T12:00:00.000Z",
+    });
+    const { id: _id, isSample: _sample, ...program } = { ...lakeTrust, isSample: true };
+    expect(doc.lenders).toEqual([program]);
+  });
+});
+
+describe("parseLenderProgramDocument", () => {
+  it("round-trips an export", () => {
+    const parsed = roundTrip([fromPocketBase(lakeTrust)]);
+    if (!parsed.ok) throw new Error(parsed.error);
+
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.lenders[0]?.tiers).toEqual(lakeTrust.tiers);
+    expect(parsed.lenders[0]?.rules).toEqual(lakeTrust.rules);
+  });
+
+  it("round-trips every built-in lender program", () => {
+    const parsed = roundTrip(DEFAULT_LENDER_PROFILES.map(fromPocketBase));
+    if (!parsed.ok) throw new Error(parsed.error);
+
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.lenders.map((lender) => lender.tiers)).toEqual(
+      DEFAULT_LENDER_PROFILES.map((lender) => lender.tiers)
+    );
+  });
+
+  it("refuses files that aren't a supported export", () => {
+    expect(parseLenderProgramDocument("{")).toEqual({
+      ok: false,
+      error: "The file isn't valid JSON.",
+    });
+    expect(parseLenderProgramDocument(JSON.stringify({ lenders: [lakeTrust] })).ok).toBe(false);
+    expect(
+      parseLenderProgramDocument(
+        JSON.stringify({ format: LENDER_PROGRAM_FORMAT, version: 2, lenders: [lakeTrust] })
+      )
+    ).toMatchObject({ ok: false, error: expect.stringContaining("version 2") });
+  });
+
+  it("skips invalid and repeated lenders but keeps the rest", () => {
+    const parsed = parseLenderProgramDocument(
+      JSON.stringify({
+        format: LENDER_PROGRAM_FORMAT,
+        version: 1,
+        lenders: [
+          { name: "Lake Trust CU", tiers: [{ name: "A" }] },
+          { name: "No Tiers Bank", tiers: [] },
+          { name: " lake trust cu ", tiers: [{ name: "B" }] },
+        ],
+      })
+    );
+    if (!parsed.ok) throw new Error(parsed.error);
+
+    expect(parsed.lenders.map((l) => l.name)).toEqual(["Lake Trust CU"]);
+    expect(parsed.rejected.map((r) => [r.index, r.name])).toEqual([
+      [1, "No Tiers Bank"],
+      [2, "lake trust cu"],
+    ]);
+    expect(parsed.rejected[0]?.error).toContain("At least one tier is required");
+  });
+});
+
+describe("previewLenderImport / lenderImportPayload", () => {
+  const shared = {
+    name: "LAKE TRUST CU",
+    bookValueSource: "Trade" as const,
+    maxPti: 15,
+    active: true,
+    tiers: [{ name: "A", minFico: 660, maxLtv: 125, maxTerm: 84, baseInterestRate: 6.49 }],
+  };
+
+  it("matches by name, diffs the program and reads an identical file as unchanged", () => {
+    const inactive = { ...lakeTrust, active: false };
+    const [update, added] = previewLenderImport(
+      [shared, { name: "New CU", active: true, tiers: [{ name: "Only" }] }],
+      [fromPocketBase(inactive)],
+      "merge"
+    );
+
+    expect(added).toMatchObject({ action: "add", existing: null });
+    expect(update?.action).toBe("update");
+    expect(update?.existing?.id).toBe("rec_lake");
+    expect(update?.diff?.tiers).toEqual([
+      {
+        tier: "A",
+        change: "changed",
+        fields: [{ field: "minFico", before: 680, after: 660 }],
+      },
+    ]);
+
+    const exported = exportLenderPrograms([lakeTrust]).lenders;
+    expect(previewLenderImport(exported, [fromPocketBase(inactive)], "merge")[0]?.action).toBe(
+      "unchanged"
+    );
+  });
+
+  it("merge keeps fields the file doesn't set; replace clears them", () => {
+    const inactive = { ...lakeTrust, active: false };
+    const [merge] = previewLenderImport([shared], [inactive], "merge");
+    const [replace] = previewLenderImport([shared], [inactive], "replace");
+    if (!merge || !replace) throw new Error("no preview");
+
+    expect(merge.cleared).toEqual([]);
+    expect(replace.cleared).toEqual(["rules", "contactName", "enrichmentSources"]);
+
+    const merged = lenderImportPayload(merge, "merge") as unknown as Record<string, unknown>;
+    expect(merged.name).toBe("Lake Trust CU");
+    expect(merged.active).toBe(false);
+    expect(merged).not.toHaveProperty("contactName");
+
+    const replaced = lenderImportPayload(replace, "replace") as unknown as Record<string, unknown>;
+    expect(replaced.contactName).toBeNull();
+    expect(replaced.rules).toBeNull();
+  });
+});
+
+describe("lenderProgramsFilename", () => {
+  it("names a single-lender export after the lender", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    expect(lenderProgramsFilename([lakeTrust], now)).toBe("lake-trust-cu-program-2026-10-19.json");
+    expect(lenderProgramsFilename([lakeTrust, lakeTrust], now)).toBe(
+      "lender-programs-2026-10-19.json"
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import { validateLenderProfile } from "../lib/validation";
+import { LenderProfileSchema } from "../lib/schemas/lender.schema";
+import type { LenderProfile } from "../types";
+import { diffLenderPrograms, type ProgramDiff } from "./lenderPrograms";
+
+/**
+ * lenderProgramExchange — lender programs as a portable JSON document, so a
+ * dealer group keys a regional credit union's program once and shares it
+ * across rooftops instead of every store re-typing it (the reason
+ * cleanupDuplicateLenders exists).
+ *
+ * Export keeps only the fields LenderProfileSchema knows: tiers, rules, terms,
+ * contacts and enrichment sources. Record ids, dealer links and the sample
+ * flag stay behind. Import validates every lender with the same schema and
+ * matches to existing profiles by name (trimmed, ignoring case — the same key
+ * saveLenderProfile upserts on). Tiers always come over whole; "merge" keeps
+ * lender fields the file doesn't set, "replace" clears them. Whether an
+ * existing lender is active stays each rooftop's own call.
+ */
+
+export const LENDER_PROGRAM_FORMAT = "ltv-desking-pro/lender-programs";
+export const LENDER_PROGRAM_VERSION = 1;
+
+/** A lender profile as it travels between dealers. */
+export type PortableLenderProfile = Omit<LenderProfile, "id" | "isSample">;
+
+export interface LenderProgramDocument {
+  format: typeof LENDER_PROGRAM_FORMAT;
+  version: number;
+  exportedAt: string;
+  lenders: PortableLenderProfile[];
+}
+
+const PORTABLE_FIELDS = Object.keys(LenderProfileSchema.shape).filter((key) => key !== "id");
+
+/** Unset in PocketBase terms: null, or an empty string from a blank text/select field. */
+const unset = (value: unknown) => value === null || value === undefined || value === "";
+
+/** Drop unset values from objects (and objects nested in arrays), recursively. */
+const compact = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(compact);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => !unset(v))
+        .map(([k, v]) => [k, compact(v)])
+    );
+  }
+  return value;
+};
+
+const portable = (profile: LenderProfile): PortableLenderProfile => {
+  const record = profile as unknown as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const key of PORTABLE_FIELDS) {
+    if (!unset(record[key])) picked[key] = compact(record[key]);
+  }
+  return picked as unknown as PortableLenderProfile;
+};
+
+export const exportLenderPrograms = (
+  profiles: LenderProfile[],
+  now: Date = new Date()
+): LenderProgramDocument => ({
+  format: LENDER_PROGRAM_FORMAT,
+  version: LENDER_PROGRAM_VERSION,
+  exportedAt: now.toISOString(),
+  lenders: profiles.map(portable),
+});
+
+/** A lender in the file that failed validation; it is skipped, the rest import. */
+export interface RejectedLender {
+  index: number;
+  name: string;
+  error: string;
+}
+
+export type LenderProgramParse =
+  | { ok: true; lenders: PortableLenderProfile[]; rejected: RejectedLender[] }
+  | { ok: false; error: string };
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export const parseLenderProgramDocument = (text: string): LenderProgramParse => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file isn't valid JSON." };
+  }
+  const rec = (doc && typeof doc === "object" ? doc : {}) as Record<string, unknown>;
+  if (rec.format !== LENDER_PROGRAM_FORMAT) {
+    return { ok: false, error: "This isn't a lender program export." };
+  }
+  if (typeof rec.version !== "number" || rec.version > LENDER_PROGRAM_VERSION) {
+    return {
+      ok: false,
+      error: `Lender program format version ${String(rec.version)} isn't supported; this app reads up to version ${LENDER_PROGRAM_VERSION}.`,
+    };
+  }
+  if (!Array.isArray(rec.lenders) || rec.lenders.length === 0) {
+    return { ok: false, error: "The file has no lenders in it." };
+  }
+
+  const lenders: PortableLenderProfile[] = [];
+  const rejected: RejectedLender[] = [];
+  const seen = new Set<string>();
+  rec.lenders.forEach((raw: unknown, index) => {
+    const rawName = (raw as { name?: unknown } | null)?.name;
+    const name = typeof rawName === "string" && rawName.trim() ? rawName.trim() : "(unnamed)";
+    const result = validateLenderProfile(raw);
+    if (!result.success) {
+      rejected.push({ index, name, error: (result.details ?? [result.error]).join("; ") });
+      return;
+    }
+    const { id: _id, ...lender } = result.data;
+    if (seen.has(nameKey(lender.name))) {
+      rejected.push({ index, name, error: "Listed more than once in this file." });
+      return;
+    }
+    seen.add(nameKey(lender.name));
+    lenders.push({ ...lender, name: lender.name.trim() } as PortableLenderProfile);
+  });
+  if (lenders.length === 0) {
+    return {
+      ok: false,
+      error: `None of the lenders in the file are valid. ${rejected[0]?.name}: ${rejected[0]?.error}`,
+    };
+  }
+  return { ok: true, lenders, rejected };
+};
+
+export type LenderImportMode = "merge" | "replace";
+
+export interface LenderImportItem {
+  lender: PortableLenderProfile;
+  /** The dealer's profile with the same name, if any. */
+  existing: LenderProfile | null;
+  action: "add" | "update" | "unchanged";
+  /** Program terms and tiers that change; null for a new lender. */
+  diff: ProgramDiff | null;
+  /** Fields the dealer's profile sets that the file doesn't; "replace" clears these. */
+  cleared: string[];
+}
+
+/** JSON with object keys sorted, so field order doesn't read as a change. */
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+
+const sameValue = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Fields an import never changes on a lender the dealer already has. */
+const LOCAL_FIELDS = new Set(["name", "active"]);
+
+/**
+ * What importing `lenders` would do to `existing`, in file order. In
+ * "merge" mode a lender whose file fields all match reads "unchanged".
+ */
+export const previewLenderImport = (
+  lenders: PortableLenderProfile[],
+  existing: LenderProfile[],
+  mode: LenderImportMode
+): LenderImportItem[] => {
+  const byName = new Map<string, LenderProfile>();
+  for (const profile of existing) {
+    const key = nameKey(profile.name ?? "");
+    if (!byName.has(key)) byName.set(key, profile);
+  }
+  return lenders.map((lender) => {
+    const match = byName.get(nameKey(lender.name)) ?? null;
+    if (!match) return { lender, existing: null, action: "add", diff: null, cleared: [] };
+
+    const current = portable(match) as unknown as Record<string, unknown>;
+    const incoming = lender as unknown as Record<string, unknown>;
+    const cleared = Object.keys(current).filter(
+      (key) => !LOCAL_FIELDS.has(key) && !(key in incoming)
+    );
+    const changed =
+      Object.keys(incoming).some(
+        (key) => !LOCAL_FIELDS.has(key) && !sameValue(current[key], incoming[key])
+      ) ||
+      (mode === "replace" && cleared.length > 0);
+    return {
+      lender,
+      existing: match,
+      action: changed ? "update" : "unchanged",
+      diff: diffLenderPrograms(match, lender),
+      cleared: mode === "replace" ? cleared : [],
+    };
+  });
+};
+
+/**
+ * The saveLenderProfile payload for one previewed lender. "replace" sends
+ * null for each cleared field, since PocketBase keeps fields an update omits.
+ */
+export const lenderImportPayload = (
+  item: LenderImportItem,
+  mode: LenderImportMode
+): PortableLenderProfile & { active: boolean } => {
+  const payload: Record<string, unknown> = { ...item.lender, active: item.lender.active !== false };
+  if (item.existing) {
+    // The dealer's own spelling and on/off switch, so the record isn't renamed or toggled.
+    payload.name = item.existing.name;
+    payload.active = item.existing.active !== false;
+  }
+  if (mode === "replace") for (const field of item.cleared) payload[field] = null;
+  return payload as unknown as PortableLenderProfile & { active: boolean };
+};
+
+/** "lender-programs-2026-10-19" or "ally-financial-program-2026-10-19". */
+export const lenderProgramsFilename = (profiles: LenderProfile[], now: Date = new Date()) => {
+  const date = now.toISOString().slice(0, 10);
+  const only = profiles.length === 1 ? profiles[0] : undefined;
+  const stem = only
+    ? `${only.name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")}-program`
+    : "lender-programs";
+  return `${stem}-${date}.json`;
+};
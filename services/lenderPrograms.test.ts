@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import type { LenderProfile } from "../types";
+import {
+  dayBefore,
+  dealDate,
+  diffLenderPrograms,
+  expiredProgramDate,
+  formatProgramValue,
+  listProgramVersions,
+  parseSheetDate,
+  resolveLenderProgram,
+  supersedeProgram,
+  todayIso,
+} from "./lenderPrograms";
+
+const lender = (overrides: Partial<LenderProfile> = {}): LenderProfile => ({
+  id: "l1",
+  name: "Test Bank",
+  tiers: [{ name: "Prime", minFico: 700, maxLtv: 120 }],
+  ...overrides,
+});
+
+describe("dates", () => {
+  it("formats today as a local calendar date", () => {
+    expect(todayIso(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+  });
+
+  it("uses a valid contract date as the deal date, else today", () => {
+    expect(dealDate({ contractDate: "2026-03-15" }, "2026-10-01")).toBe("2026-03-15");
+    expect(dealDate({ contractDate: "2026-02-30" }, "2026-10-01")).toBe("2026-10-01");
+    expect(dealDate({}, "2026-10-01")).toBe("2026-10-01");
+  });
+
+  it("parses printed sheet dates", () => {
+    expect(parseSheetDate("2026-03-01")).toBe("2026-03-01");
+    expect(parseSheetDate("3/1/2026")).toBe("2026-03-01");
+    expect(parseSheetDate(" 03/01/26 ")).toBe("2026-03-01");
+    expect(parseSheetDate("2/30/2026")).toBeNull();
+    expect(parseSheetDate("March 2026")).toBeNull();
+    expect(parseSheetDate(undefined)).toBeNull();
+  });
+
+  it("steps back across month and leap-year boundaries", () => {
+    expect(dayBefore("2026-03-01")).toBe("2026-02-28");
+    expect(dayBefore("2028-03-01")).toBe("2028-02-29");
+    expect(dayBefore("2026-01-01")).toBe("2025-12-31");
+  });
+});
+
+describe("resolveLenderProgram", () => {
+  it("keeps undated lenders in force and returns the profile unchanged", () => {
+    const profile = lender();
+    const resolved = resolveLenderProgram(profile, "2026-06-01");
+    expect(resolved.status).toBe("in-force");
+    if (resolved.status === "in-force") expect(resolved.lender).toBe(profile);
+  });
+
+  it("applies an archived version's terms, clearing limits it did not set", () => {
+    const profile = lender({
+      effectiveFrom: "2026-03-01",
+      maxPti: 15,
+      programVersions: [
+        {
+          effectiveTo: "2026-02-28",
+          minIncome: 2500,
+          tiers: [{ name: "Old", minFico: 680 }],
+        },
+      ],
+    });
+
+    const resolved = resolveLenderProgram(profile, "2026-02-10");
+    expect(resolved.status).toBe("in-force");
+    if (resolved.status !== "in-force") return;
+    expect(resolved.current).toBe(false);
+    expect(resolved.lender.tiers[0]?.name).toBe("Old");
+    expect(resolved.lender.minIncome).toBe(2500);
+    expect(resolved.lender.maxPti).toBeUndefined();
+    expect(resolved.lender.name).toBe("Test Bank");
+  });
+
+  it("prefers the current program over an archived one with the same start", () => {
+    const profile = lender({
+      effectiveFrom: "2026-03-01",
+      programVersions: [{ effectiveFrom: "2026-03-01", tiers: [{ name: "Draft" }] }],
+    });
+    const resolved = resolveLenderProgram(profile, "2026-03-05");
+    expect(resolved.status === "in-force" && resolved.current).toBe(true);
+  });
+
+  it("reports expiry and programs not yet in force", () => {
+    const profile = lender({ effectiveFrom: "2026-03-01", effectiveTo: "2026-03-31" });
+    expect(resolveLenderProgram(profile, "2026-04-02")).toEqual({
+      status: "expired",
+      expiredOn: "2026-03-31",
+    });
+    expect(resolveLenderProgram(profile, "2026-02-01")).toEqual({
+      status: "not-yet-effective",
+      effectiveFrom: "2026-03-01",
+    });
+    expect(expiredProgramDate(profile, "2026-04-02")).toBe("2026-03-31");
+    expect(expiredProgramDate(profile, "2026-03-31")).toBeNull();
+  });
+});
+
+describe("supersedeProgram", () => {
+  it("archives the current program ending the day before the new one", () => {
+    const profile = lender({ effectiveFrom: "2026-02-01", minIncome: 2000 });
+    const patch = supersedeProgram(profile, "2026-03-01", "2026-02-27T12:00:00.000Z");
+
+    expect(patch.effectiveFrom).toBe("2026-03-01");
+    expect(patch.effectiveTo).toBe("");
+    expect(patch.programVersions).toEqual([
+      {
+        effectiveFrom: "2026-02-01",
+        effectiveTo: "2026-02-28",
+        minIncome: 2000,
+        tiers: profile.tiers,
+        savedAt: "2026-02-27T12:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("keeps an earlier end date and leaves a same-day sheet's window alone", () => {
+    const ended = supersedeProgram(
+      lender({ effectiveFrom: "2026-01-01", effectiveTo: "2026-01-31" }),
+      "2026-03-01"
+    );
+    expect(ended.programVersions?.[0]?.effectiveTo).toBe("2026-01-31");
+
+    const sameDay = supersedeProgram(lender({ effectiveFrom: "2026-03-01" }), "2026-03-01");
+    expect(sameDay.programVersions?.[0]?.effectiveFrom).toBe("2026-03-01");
+    expect(sameDay.programVersions?.[0]?.effectiveTo).toBeUndefined();
+  });
+
+  it("lists versions oldest first with the current program last on a tie", () => {
+    const profile = lender({
+      effectiveFrom: "2026-03-01",
+      ...supersedeProgram(lender({ effectiveFrom: "2026-02-01" }), "2026-03-01"),
+    });
+    expect(listProgramVersions(profile).map((v) => v.key)).toEqual(["v0", "current"]);
+  });
+});
+
+describe("diffLenderPrograms", () => {
+  it("reports lender limits and tiers added, removed and changed", () => {
+    const diff = diffLenderPrograms(
+      {
+        maxPti: 15,
+        tiers: [
+          { name: "Prime", minFico: 700, maxLtv: 120, confidence: 0.9 },
+          { name: "Subprime", minFico: 550 },
+        ],
+      },
+      {
+        maxPti: 18,
+        minIncome: 2000,
+        tiers: [
+          { name: "Prime", minFico: 700, maxLtv: 125, confidence: 0.5 },
+          { name: "Near Prime", minFico: 620 },
+        ],
+      }
+    );
+
+    expect(diff.lender).toEqual([
+      { field: "minIncome", before: undefined, after: 2000 },
+      { field: "maxPti", before: 15, after: 18 },
+    ]);
+    expect(diff.tiers).toEqual([
+      {
+        tier: "Prime",
+        change: "changed",
+        fields: [{ field: "maxLtv", before: 120, after: 125 }],
+      },
+      { tier: "Subprime", change: "removed", fields: [] },
+      { tier: "Near Prime", change: "added", fields: [] },
+    ]);
+  });
+
+  it("finds no changes between identical versions", () => {
+    const terms = { tiers: [{ name: "Prime", allowedStructures: ["balloon" as const] }] };
+    expect(diffLenderPrograms(terms, structuredClone(terms))).toEqual({ lender: [], tiers: [] });
+  });
+
+  it("formats diffed values for display", () => {
+    expect(formatProgramValue(undefined)).toBe("—");
+    expect(formatProgramValue(["balloon", "biweekly"])).toBe("balloon, biweekly");
+    expect(formatProgramValue(125)).toBe("125");
+  });
+});
@@ -0,0 +1,360 @@
+import type {
+  DealData,
+  LenderProfile,
+  LenderProgramTerms,
+  LenderProgramVersion,
+  LenderRule,
+  LenderTier,
+  MileageBookAdjustment,
+  TierRateAdders,
+} from "../types";
+import { fmt } from "../utils/format";
+import { parseIsoDate } from "./firstPayment";
+import { RATE_ADDER_GRIDS, formatRateAdder, rateAdderCellLabel } from "./rateAdders";
+
+/**
+ * lenderPrograms — dated lender rate sheets. The terms on a LenderProfile are
+ * its current program, in force from effectiveFrom through effectiveTo;
+ * programVersions holds the sheets it superseded and any scheduled to replace
+ * it. checkBankEligibility evaluates a deal against the version in force on
+ * the deal date — the contract date when one is entered, otherwise today.
+ *
+ * A profile with no dates and no versions is undated and always in force, so
+ * lenders entered before versioning behave as they always did.
+ */
+
+/** Lender-level fields that belong to a rate sheet, in display order. */
+export const PROGRAM_TERM_FIELDS = [
+  "minIncome",
+  "maxPti",
+  "maxDti",
+  "maxBackend",
+  "minAmountFinanced",
+  "maxAmountFinanced",
+  "stipulations",
+  "rules",
+] as const satisfies readonly (keyof LenderProgramTerms)[];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isoFromTime = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/** Today's local calendar date as "YYYY-MM-DD". */
+export const todayIso = (now: Date = new Date()): string =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(
+    now.getDate()
+  ).padStart(2, "0")}`;
+
+/** The date a deal is evaluated on: a valid contract date, else today. */
+export const dealDate = (deal: Pick<DealData, "contractDate">, today = todayIso()): string =>
+  parseIsoDate(deal.contractDate) !== null ? deal.contractDate!.trim() : today;
+
+/**
+ * A rate sheet's printed effective date as "YYYY-MM-DD". Accepts ISO dates
+ * and US "M/D/YYYY" (or "M/D/YY"); anything else is null.
+ */
+export const parseSheetDate = (value: string | undefined): string | null => {
+  const text = value?.trim() ?? "";
+  if (parseIsoDate(text) !== null) return text;
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(text);
+  if (!match) return null;
+  const year = match[3]!.length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  const iso = `${year}-${match[1]!.padStart(2, "0")}-${match[2]!.padStart(2, "0")}`;
+  return parseIsoDate(iso) !== null ? iso : null;
+};
+
+/** The day before an ISO date, e.g. "2026-03-01" → "2026-02-28". */
+export const dayBefore = (iso: string): string => {
+  const time = parseIsoDate(iso);
+  if (time === null) throw new Error(`Invalid date: ${iso}`);
+  return isoFromTime(time - MS_PER_DAY);
+};
+
+const programTerms = (source: LenderProgramTerms): LenderProgramTerms => {
+  const terms: LenderProgramTerms = { tiers: source.tiers };
+  for (const field of PROGRAM_TERM_FIELDS) {
+    if (source[field] !== undefined) (terms as Record<string, unknown>)[field] = source[field];
+  }
+  return terms;
+};
+
+/** The profile's current program as a version. */
+export const currentProgram = (lender: LenderProfile): LenderProgramVersion => ({
+  ...programTerms(lender),
+  ...(lender.effectiveFrom ? { effectiveFrom: lender.effectiveFrom } : {}),
+  ...(lender.effectiveTo ? { effectiveTo: lender.effectiveTo } : {}),
+});
+
+export interface ProgramVersionEntry {
+  /** "current" for the profile's own terms, else "v<index>" into programVersions. */
+  key: string;
+  version: LenderProgramVersion;
+  current: boolean;
+}
+
+/** Every version of a lender's program, oldest effective date first. */
+export const listProgramVersions = (lender: LenderProfile): ProgramVersionEntry[] =>
+  [
+    ...(lender.programVersions ?? []).map((version, index) => ({
+      key: `v${index}`,
+      version,
+      current: false,
+    })),
+    { key: "current", version: currentProgram(lender), current: true },
+  ].sort(
+    (a, b) =>
+      (a.version.effectiveFrom ?? "").localeCompare(b.version.effectiveFrom ?? "") ||
+      Number(a.current) - Number(b.current)
+  );
+
+/** "2026-03-01 – open" style label for a version's window. */
+export const programWindowLabel = (version: LenderProgramVersion): string =>
+  `${version.effectiveFrom || "undated"} – ${version.effectiveTo || "open"}`;
+
+/** The profile with a version's terms in place of its own; unset terms stay unset. */
+const withProgram = (lender: LenderProfile, version: LenderProgramVersion): LenderProfile => ({
+  ...lender,
+  ...Object.fromEntries(PROGRAM_TERM_FIELDS.map((field) => [field, version[field]])),
+  tiers: version.tiers,
+  effectiveFrom: version.effectiveFrom,
+  effectiveTo: version.effectiveTo,
+});
+
+const inForce = (version: LenderProgramVersion, date: string): boolean =>
+  (!version.effectiveFrom || version.effectiveFrom <= date) &&
+  (!version.effectiveTo || date <= version.effectiveTo);
+
+export type ProgramResolution =
+  | {
+      status: "in-force";
+      /** The profile with the in-force version's terms and dates applied. */
+      lender: LenderProfile;
+      version: LenderProgramVersion;
+      current: boolean;
+    }
+  | { status: "expired"; expiredOn: string }
+  | { status: "not-yet-effective"; effectiveFrom: string };
+
+/**
+ * The program in force on `date` ("YYYY-MM-DD"). Where windows overlap, the
+ * latest effective date wins, and the current program wins a tie, so a
+ * corrected sheet re-loaded for the same date replaces the one it corrects.
+ * With nothing in force, a lapsed window reports the latest end date and
+ * otherwise the earliest upcoming start.
+ */
+export const resolveLenderProgram = (lender: LenderProfile, date: string): ProgramResolution => {
+  const versions = listProgramVersions(lender);
+  const matches = versions.filter((entry) => inForce(entry.version, date));
+  const entry = matches[matches.length - 1];
+  if (entry) {
+    return {
+      status: "in-force",
+      lender: entry.current ? lender : withProgram(lender, entry.version),
+      version: entry.version,
+      current: entry.current,
+    };
+  }
+  const ended = versions
+    .map((e) => e.version.effectiveTo)
+    .filter((to): to is string => !!to && to < date)
+    .sort();
+  if (ended.length > 0) return { status: "expired", expiredOn: ended[ended.length - 1]! };
+  const upcoming = versions
+    .map((e) => e.version.effectiveFrom)
+    .filter((from): from is string => !!from && from > date)
+    .sort();
+  return { status: "not-yet-effective", effectiveFrom: upcoming[0] ?? date };
+};
+
+/** Why a lender has no program on the date, for rules-engine reasons. */
+export const programUnavailableReason = (
+  resolution: Exclude<ProgramResolution, { status: "in-force" }>
+): string =>
+  resolution.status === "expired"
+    ? `Program expired ${resolution.expiredOn}; load the current rate sheet`
+    : `Program not in force until ${resolution.effectiveFrom}`;
+
+/**
+ * Patch that archives the current program and starts a new one on
+ * `effectiveFrom`. The archived copy ends the day before unless it already
+ * ended earlier; one starting on or after the new date keeps its window and
+ * is shadowed by the new sheet. Callers apply the new terms alongside.
+ */
+export const supersedeProgram = (
+  lender: LenderProfile,
+  effectiveFrom: string,
+  savedAt: string = new Date().toISOString()
+): Pick<LenderProfile, "effectiveFrom" | "effectiveTo" | "programVersions"> => {
+  const archived: LenderProgramVersion = { ...currentProgram(lender), savedAt };
+  if (!archived.effectiveFrom || archived.effectiveFrom < effectiveFrom) {
+    const lastDay = dayBefore(effectiveFrom);
+    if (!archived.effectiveTo || archived.effectiveTo > lastDay) archived.effectiveTo = lastDay;
+  }
+  return {
+    effectiveFrom,
+    // "" rather than undefined so a partial update clears a stored end date.
+    effectiveTo: "",
+    programVersions: [...(lender.programVersions ?? []), archived],
+  };
+};
+
+/** A program whose window has closed on `date`, or null. */
+export const expiredProgramDate = (lender: LenderProfile, date: string): string | null => {
+  const resolution = resolveLenderProgram(lender, date);
+  return resolution.status === "expired" ? resolution.expiredOn : null;
+};
+
+export interface ProgramFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ProgramTierChange {
+  tier: string;
+  change: "added" | "removed" | "changed";
+  fields: ProgramFieldChange[];
+}
+
+export interface ProgramDiff {
+  lender: ProgramFieldChange[];
+  tiers: ProgramTierChange[];
+}
+
+/** Tier fields that describe extraction, not terms. */
+const TIER_META_FIELDS = new Set(["confidence", "extractionSource"]);
+
+/** Unset, null and empty lists all mean "not configured". */
+const configured = (value: unknown): unknown =>
+  value === undefined || (Array.isArray(value) && value.length === 0) ? null : value;
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(configured(a)) === JSON.stringify(configured(b));
+
+const tierLabel = (tier: LenderTier, index: number): string =>
+  tier.name?.trim() || tier.tierName?.trim() || `Tier ${index + 1}`;
+
+const fieldChanges = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: Iterable<string>
+): ProgramFieldChange[] =>
+  [...fields]
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+
+/**
+ * What changed from one version to another. Tiers are matched by name (a
+ * repeated name by its occurrence), so a renamed tier reads as one removed
+ * and one added.
+ */
+export const diffLenderPrograms = (
+  before: LenderProgramTerms,
+  after: LenderProgramTerms
+): ProgramDiff => {
+  const keyed = (tiers: LenderTier[] | undefined) => {
+    const seen = new Map<string, number>();
+    return (tiers ?? []).map((tier, index) => {
+      const label = tierLabel(tier, index);
+      const occurrence = seen.get(label) ?? 0;
+      seen.set(label, occurrence + 1);
+      return { key: `${label}#${occurrence}`, label, tier };
+    });
+  };
+  const beforeTiers = keyed(before.tiers);
+  const afterTiers = keyed(after.tiers);
+  const afterByKey = new Map(afterTiers.map((t) => [t.key, t]));
+  const beforeKeys = new Set(beforeTiers.map((t) => t.key));
+
+  const tiers: ProgramTierChange[] = [];
+  for (const { key, label, tier } of beforeTiers) {
+    const next = afterByKey.get(key);
+    if (!next) {
+      tiers.push({ tier: label, change: "removed", fields: [] });
+      continue;
+    }
+    const prev: Record<string, unknown> = { ...tier };
+    const curr: Record<string, unknown> = { ...next.tier };
+    const fields = new Set(
+      [...Object.keys(prev), ...Object.keys(curr)].filter((f) => !TIER_META_FIELDS.has(f))
+    );
+    const changes = fieldChanges(prev, curr, fields);
+    if (changes.length > 0) tiers.push({ tier: label, change: "changed", fields: changes });
+  }
+  for (const { key, label } of afterTiers) {
+    if (!beforeKeys.has(key)) tiers.push({ tier: label, change: "added", fields: [] });
+  }
+
+  return {
+    lender: fieldChanges(
+      before as Record<string, unknown>,
+      after as Record<string, unknown>,
+      PROGRAM_TERM_FIELDS
+    ),
+    tiers,
+  };
+};
+
+/** "100,001+ mi −$1,500" for a mileage book adjustment band. */
+const mileageAdjustmentLabel = (band: MileageBookAdjustment): string =>
+  `${rateAdderCellLabel({ minMileage: band.minMileage, maxMileage: band.maxMileage, adder: 0 }, "mileage")} ${band.amount < 0 ? "−" : "+"}${fmt(Math.abs(band.amount))}`;
+
+/** Display form of a diffed value: "—" for unset, lists comma-joined, rules by condition. */
+export const formatProgramValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "—";
+    return value
+      .map((item: unknown) =>
+        item && typeof item === "object" && "when" in item
+          ? `${String((item as LenderRule).when)} ⇒ ${String((item as LenderRule).outcome)}`
+          : item && typeof item === "object" && "amount" in item
+            ? mileageAdjustmentLabel(item as MileageBookAdjustment)
+            : String(item)
+      )
+      .join(", ");
+  }
+  if (value && typeof value === "object") {
+    // A tier's rateAdders grids: one "label +0.50%" entry per cell.
+    const grids = value as TierRateAdders;
+    const cells = (Object.keys(RATE_ADDER_GRIDS) as (keyof TierRateAdders)[]).flatMap((grid) =>
+      (grids[grid] ?? []).map(
+        (cell) => `${rateAdderCellLabel(cell, grid)} ${formatRateAdder(cell.adder)}`
+      )
+    );
+    return cells.length > 0 ? cells.join(", ") : "—";
+  }
+  return String(value);
+};
+
+const PROGRAM_FIELD_LABELS: Record<string, string> = {
+  minIncome: "Min income",
+  maxPti: "Max PTI %",
+  maxDti: "Max DTI %",
+  maxBackend: "Max backend",
+  minAmountFinanced: "Min financed",
+  maxAmountFinanced: "Max financed",
+  stipulations: "Stipulations",
+  minFico: "Min FICO",
+  maxFico: "Max FICO",
+  maxLtv: "Max LTV %",
+  otdLtv: "Max OTD LTV %",
+  frontEndLtv: "Front-end LTV %",
+  maxTerm: "Max term",
+  minTerm: "Min term",
+  minYear: "Min year",
+  maxYear: "Max year",
+  maxAge: "Max age",
+  maxMileage: "Max miles",
+  baseInterestRate: "Buy rate",
+  rateAdder: "Rate adder",
+  rateAdders: "Rate adder grids",
+  maxNegativeEquity: "Max negative equity",
+  maxAdvance: "Max advance",
+  mileageBookAdjustments: "Mileage book adjustments",
+  allowedStructures: "Structures",
+  rules: "Custom rules",
+};
+
+/** Readable name for a diffed field; unknown fields show as stored. */
+export const programFieldLabel = (field: string): string => PROGRAM_FIELD_LABELS[field] ?? field;
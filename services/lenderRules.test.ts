@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  RuleSyntaxError,
+  evaluateLenderRules,
+  evaluateRuleExpression,
+  parseRuleExpression,
+  ruleExpressionFields,
+  validateLenderRule,
+  __ruleCacheSize,
+} from "./lenderRules";
+
+const holds = (condition: string, context: Parameters<typeof evaluateRuleExpression>[1]) =>
+  evaluateRuleExpression(parseRuleExpression(condition), context);
+
+describe("parseRuleExpression", () => {
+  it("parses comparisons joined by and/or with the usual precedence", () => {
+    expect(parseRuleExpression("creditScore < 580 or mileage > 100000 and loanTerm >= 72")).toEqual(
+      {
+        kind: "or",
+        left: { kind: "compare", field: "creditScore", op: "<", value: 580 },
+        right: {
+          kind: "and",
+          left: { kind: "compare", field: "mileage", op: ">", value: 100000 },
+          right: { kind: "compare", field: "loanTerm", op: ">=", value: 72 },
+        },
+      }
+    );
+  });
+
+  it("parses in-lists, not and parentheses", () => {
+    expect(parseRuleExpression("not (make not in ('Tesla', \"BMW\"))")).toEqual({
+      kind: "not",
+      operand: { kind: "in", field: "make", values: ["Tesla", "BMW"], negated: true },
+    });
+  });
+
+  it("rejects unknown fields, type mismatches and trailing input", () => {
+    expect(() => parseRuleExpression("titleStatus = 'salvage'")).toThrow(/Unknown field/);
+    expect(() => parseRuleExpression("make > 'A'")).toThrow(/only =, != and in/);
+    expect(() => parseRuleExpression("mileage > 'high'")).toThrow(/compares to a number/);
+    expect(() => parseRuleExpression("mileage > 1 mileage")).toThrow(RuleSyntaxError);
+    expect(() => parseRuleExpression("")).toThrow(/empty/);
+    expect(() => parseRuleExpression("make = 'Ford")).toThrow(/Unterminated/);
+  });
+
+  it("never evaluates the condition as code", () => {
+    expect(() => parseRuleExpression("constructor.constructor('x')()")).toThrow(RuleSyntaxError);
+  });
+
+  it("lists the fields a condition reads", () => {
+    expect(
+      ruleExpressionFields(
+        parseRuleExpression("creditScore < 580 and (ltv > 120 or creditScore < 500)")
+      )
+    ).toEqual(["creditScore", "ltv"]);
+  });
+});
+
+describe("evaluateRuleExpression", () => {
+  it("compares numbers and text case-insensitively", () => {
+    expect(holds("mileage > 100000", { mileage: 120000 })).toBe(true);
+    expect(holds("mileage > 100000", { mileage: 100000 })).toBe(false);
+    expect(holds("make = 'tesla'", { make: "Tesla " })).toBe(true);
+    expect(holds("condition != 'new'", { condition: "used" })).toBe(true);
+    expect(holds("titleBrand in ('salvage', 'rebuilt')", { titleBrand: "Salvage" })).toBe(true);
+    expect(holds("openAutoLoans > 2", { openAutoLoans: 2 })).toBe(false);
+  });
+
+  it("is unknown when a deciding field is missing", () => {
+    expect(holds("creditScore < 580 and downPaymentPct < 10", { creditScore: 560 })).toBeNull();
+    expect(holds("creditScore < 580 and downPaymentPct < 10", { creditScore: 700 })).toBe(false);
+    expect(holds("creditScore < 580 or mileage > 1", { creditScore: 500 })).toBe(true);
+    expect(holds("not mileage > 1", {})).toBeNull();
+  });
+});
+
+describe("evaluateLenderRules", () => {
+  it("applies each outcome when its condition holds", () => {
+    const result = evaluateLenderRules(
+      [
+        {
+          when: "creditScore < 580 and downPaymentPct < 10",
+          outcome: "ineligible",
+          message: "Min 10% down below 580",
+        },
+        { when: "monthlyIncome < 2500", outcome: "pending-stip", message: "Proof of income" },
+        {
+          when: "mileage > 100000",
+          outcome: "rate-adder",
+          rateAdder: 0.5,
+          message: "Over 100k miles",
+        },
+        { when: "loanTerm > 72", outcome: "rate-adder", rateAdder: 0.25 },
+      ],
+      { creditScore: 560, downPaymentPct: 5, monthlyIncome: 2000, mileage: 110000, loanTerm: 60 }
+    );
+
+    expect(result).toEqual({
+      rejections: ["Lender rule: Min 10% down below 580"],
+      pending: ["stipulation: Proof of income"],
+      rateAdder: 0.5,
+      notes: ["Rate +0.50% (Over 100k miles)"],
+      adjustments: [{ label: "Rule: Over 100k miles", adder: 0.5 }],
+      evaluated: 4,
+    });
+  });
+
+  it("leaves rules with missing inputs pending, naming the inputs", () => {
+    const result = evaluateLenderRules(
+      [{ when: "downPaymentPct < 10", outcome: "ineligible" }],
+      {}
+    );
+    expect(result.pending).toEqual(["down payment % of price for rule: downPaymentPct < 10"]);
+    expect(result.evaluated).toBe(0);
+  });
+
+  it("reports an unparseable rule as pending instead of skipping it", () => {
+    const result = evaluateLenderRules([{ when: "mileage >> 1", outcome: "ineligible" }], {
+      mileage: 5,
+    });
+    expect(result.pending).toEqual(["valid lender rule (mileage >> 1)"]);
+  });
+});
+
+describe("validateLenderRule", () => {
+  it("explains what is wrong with a rule", () => {
+    expect(validateLenderRule({ when: "mileage > 100000", outcome: "ineligible" })).toBeNull();
+    expect(validateLenderRule({ when: "miles > 1", outcome: "ineligible" })).toBe(
+      'Unknown field "miles"'
+    );
+    expect(validateLenderRule({ when: "mileage > 1", outcome: "rate-adder" })).toMatch(/points/);
+  });
+
+  it("keeps a bounded cache as the editor validates each keystroke", () => {
+    for (let miles = 0; miles < 1200; miles++) {
+      validateLenderRule({ when: `mileage > ${miles}`, outcome: "ineligible" });
+    }
+    expect(__ruleCacheSize()).toBeLessThanOrEqual(500);
+  });
+});
@@ -0,0 +1,447 @@
+import type { LenderRule } from "../types";
+import { formatRateAdder, type RateAdjustment } from "./rateAdders";
+
+/**
+ * lenderRules — a small declarative rule language for lender quirks the fixed
+ * tier fields cannot express ("+0.5% over 100k miles", "10% down below 580").
+ * Rules attach to a LenderProfile or a LenderTier and checkBankEligibility
+ * evaluates them after the built-in limits.
+ *
+ * A condition compares deal, vehicle and customer fields (RULE_FIELDS) to
+ * literals, joined with and / or / not and parentheses:
+ *
+ *   creditScore < 580 and downPaymentPct < 10
+ *   mileage > 100000
+ *   make in ('Tesla', 'Polestar') or condition = 'new'
+ *   titleBrand in ('salvage', 'rebuilt') or openAutoLoans > 2
+ *
+ * Conditions are parsed, never evaluated as code. A field the deal does not
+ * supply makes the condition unknown, and an unknown condition leaves the
+ * lender pending on that input rather than guessing.
+ */
+
+type RuleFieldType = "number" | "text";
+
+interface RuleFieldSpec {
+  /** Name shown in pending constraints, e.g. "credit score". */
+  label: string;
+  type: RuleFieldType;
+}
+
+export const RULE_FIELDS = {
+  creditScore: { label: "credit score", type: "number" },
+  monthlyIncome: { label: "monthly income", type: "number" },
+  monthlyDebt: { label: "monthly debt", type: "number" },
+  pti: { label: "PTI %", type: "number" },
+  dti: { label: "DTI %", type: "number" },
+  payment: { label: "monthly payment", type: "number" },
+  loanTerm: { label: "loan term", type: "number" },
+  apr: { label: "quoted APR", type: "number" },
+  amountFinanced: { label: "amount financed", type: "number" },
+  ltv: { label: "LTV %", type: "number" },
+  downPayment: { label: "down payment", type: "number" },
+  downPaymentPct: { label: "down payment % of price", type: "number" },
+  tradeInValue: { label: "trade-in value", type: "number" },
+  negativeEquity: { label: "negative equity", type: "number" },
+  backendProducts: { label: "backend amount", type: "number" },
+  price: { label: "vehicle price", type: "number" },
+  modelYear: { label: "vehicle model year", type: "number" },
+  vehicleAge: { label: "vehicle age", type: "number" },
+  mileage: { label: "vehicle mileage", type: "number" },
+  make: { label: "vehicle make", type: "text" },
+  model: { label: "vehicle model", type: "text" },
+  condition: { label: "vehicle condition", type: "text" },
+  titleBrand: { label: "title brand", type: "text" },
+  openAutoLoans: { label: "open auto loans", type: "number" },
+} as const satisfies Record<string, RuleFieldSpec>;
+
+export type RuleField = keyof typeof RULE_FIELDS;
+
+/** Field values for one deal × vehicle × lender; null or absent is unknown. */
+export type RuleContext = Partial<Record<RuleField, number | string | null>>;
+
+export type RuleOperator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type RuleExpression =
+  | { kind: "and" | "or"; left: RuleExpression; right: RuleExpression }
+  | { kind: "not"; operand: RuleExpression }
+  | { kind: "compare"; field: RuleField; op: RuleOperator; value: number | string }
+  | { kind: "in"; field: RuleField; values: (number | string)[]; negated: boolean };
+
+export class RuleSyntaxError extends Error {
+  /** Character offset into the condition where parsing stopped. */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "RuleSyntaxError";
+    this.position = position;
+  }
+}
+
+/* --- Tokenizer ------------------------------------------------------------ */
+
+type Token =
+  | { type: "ident"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "op"; value: RuleOperator; pos: number }
+  | { type: "(" | ")" | "," | "end"; pos: number };
+
+const OPERATORS: [string, RuleOperator][] = [
+  ["<=", "<="],
+  [">=", ">="],
+  ["!=", "!="],
+  ["<>", "!="],
+  ["==", "="],
+  ["<", "<"],
+  [">", ">"],
+  ["=", "="],
+];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")" || ch === ",") {
+      tokens.push({ type: ch, pos: i });
+      i++;
+      continue;
+    }
+    const op = OPERATORS.find(([text]) => source.startsWith(text, i));
+    if (op) {
+      tokens.push({ type: "op", value: op[1], pos: i });
+      i += op[0].length;
+      continue;
+    }
+    const number = /^-?\d+(?:\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new RuleSyntaxError("Unterminated text value", i);
+      tokens.push({ type: "string", value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: "ident", value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    throw new RuleSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+  tokens.push({ type: "end", pos: source.length });
+  return tokens;
+};
+
+/* --- Parser --------------------------------------------------------------- */
+
+const isKeyword = (token: Token, keyword: string): boolean =>
+  token.type === "ident" && token.value.toLowerCase() === keyword;
+
+const isRuleField = (name: string): name is RuleField =>
+  Object.prototype.hasOwnProperty.call(RULE_FIELDS, name);
+
+/**
+ * Parse a rule condition. Throws RuleSyntaxError for malformed input, unknown
+ * fields, and comparisons that do not fit the field's type (text fields take
+ * quoted values and only =, != and in).
+ */
+export const parseRuleExpression = (source: string): RuleExpression => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index]!;
+  const next = () => tokens[index++]!;
+
+  const literal = (field: RuleField): number | string => {
+    const token = next();
+    const type = RULE_FIELDS[field].type;
+    if (type === "number" && token.type === "number") return token.value;
+    if (type === "text" && token.type === "string") return token.value;
+    throw new RuleSyntaxError(
+      type === "number"
+        ? `${field} compares to a number`
+        : `${field} compares to quoted text, e.g. ${field} = 'value'`,
+      token.pos
+    );
+  };
+
+  const comparison = (): RuleExpression => {
+    const token = next();
+    if (token.type !== "ident") throw new RuleSyntaxError("Expected a field name", token.pos);
+    if (!isRuleField(token.value)) {
+      throw new RuleSyntaxError(`Unknown field "${token.value}"`, token.pos);
+    }
+    const field = token.value;
+
+    const negated = isKeyword(peek(), "not");
+    if (negated) next();
+    if (isKeyword(peek(), "in")) {
+      next();
+      const open = next();
+      if (open.type !== "(") throw new RuleSyntaxError('Expected "(" after in', open.pos);
+      const values = [literal(field)];
+      while (peek().type === ",") {
+        next();
+        values.push(literal(field));
+      }
+      const close = next();
+      if (close.type !== ")") throw new RuleSyntaxError('Expected ")"', close.pos);
+      return { kind: "in", field, values, negated };
+    }
+    if (negated) throw new RuleSyntaxError('Expected "in" after not', peek().pos);
+
+    const op = next();
+    if (op.type !== "op") throw new RuleSyntaxError(`Expected a comparison after ${field}`, op.pos);
+    if (RULE_FIELDS[field].type === "text" && op.value !== "=" && op.value !== "!=") {
+      throw new RuleSyntaxError(`${field} supports only =, != and in`, op.pos);
+    }
+    return { kind: "compare", field, op: op.value, value: literal(field) };
+  };
+
+  const unary = (): RuleExpression => {
+    if (isKeyword(peek(), "not")) {
+      next();
+      return { kind: "not", operand: unary() };
+    }
+    if (peek().type === "(") {
+      next();
+      const inner = or();
+      const close = next();
+      if (close.type !== ")") throw new RuleSyntaxError('Expected ")"', close.pos);
+      return inner;
+    }
+    return comparison();
+  };
+
+  const and = (): RuleExpression => {
+    let left = unary();
+    while (isKeyword(peek(), "and")) {
+      next();
+      left = { kind: "and", left, right: unary() };
+    }
+    return left;
+  };
+
+  function or(): RuleExpression {
+    let left = and();
+    while (isKeyword(peek(), "or")) {
+      next();
+      left = { kind: "or", left, right: and() };
+    }
+    return left;
+  }
+
+  if (peek().type === "end") throw new RuleSyntaxError("Condition is empty", 0);
+  const expression = or();
+  const trailing = peek();
+  if (trailing.type !== "end") throw new RuleSyntaxError("Unexpected input", trailing.pos);
+  return expression;
+};
+
+/* --- Evaluation ----------------------------------------------------------- */
+
+const known = (value: number | string | null | undefined): value is number | string =>
+  value !== null && value !== undefined && value !== "";
+
+const normalize = (value: number | string): number | string =>
+  typeof value === "string" ? value.trim().toLowerCase() : value;
+
+const compare = (left: number | string, op: RuleOperator, right: number | string): boolean => {
+  const a = normalize(left);
+  const b = normalize(right);
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "=":
+      return a === b;
+    case "!=":
+      return a !== b;
+  }
+};
+
+/**
+ * Three-valued evaluation: null when the answer depends on an unknown field.
+ * A known false side still decides an and, and a known true side an or.
+ */
+export const evaluateRuleExpression = (
+  expression: RuleExpression,
+  context: RuleContext
+): boolean | null => {
+  switch (expression.kind) {
+    case "and": {
+      const left = evaluateRuleExpression(expression.left, context);
+      const right = evaluateRuleExpression(expression.right, context);
+      if (left === false || right === false) return false;
+      return left === null || right === null ? null : true;
+    }
+    case "or": {
+      const left = evaluateRuleExpression(expression.left, context);
+      const right = evaluateRuleExpression(expression.right, context);
+      if (left === true || right === true) return true;
+      return left === null || right === null ? null : false;
+    }
+    case "not": {
+      const operand = evaluateRuleExpression(expression.operand, context);
+      return operand === null ? null : !operand;
+    }
+    case "compare": {
+      const value = context[expression.field];
+      return known(value) ? compare(value, expression.op, expression.value) : null;
+    }
+    case "in": {
+      const value = context[expression.field];
+      if (!known(value)) return null;
+      const found = expression.values.some((candidate) => compare(value, "=", candidate));
+      return expression.negated ? !found : found;
+    }
+  }
+};
+
+/** Every field a condition reads, in order of first use. */
+export const ruleExpressionFields = (expression: RuleExpression): RuleField[] => {
+  switch (expression.kind) {
+    case "and":
+    case "or":
+      return [
+        ...new Set([
+          ...ruleExpressionFields(expression.left),
+          ...ruleExpressionFields(expression.right),
+        ]),
+      ];
+    case "not":
+      return ruleExpressionFields(expression.operand);
+    default:
+      return [expression.field];
+  }
+};
+
+// Rules run for every vehicle × lender on each rescore; parse each condition
+// once. The rule editor validates on every keystroke, so the cache keeps the
+// most recently used conditions (a Map iterates oldest first) and drops the
+// rest.
+const RULE_CACHE_LIMIT = 500;
+const parsedRules = new Map<string, RuleExpression | RuleSyntaxError>();
+
+const parseCached = (source: string): RuleExpression | RuleSyntaxError => {
+  let parsed = parsedRules.get(source);
+  if (parsed) {
+    parsedRules.delete(source);
+  } else {
+    try {
+      parsed = parseRuleExpression(source);
+    } catch (error) {
+      if (!(error instanceof RuleSyntaxError)) throw error;
+      parsed = error;
+    }
+    if (parsedRules.size >= RULE_CACHE_LIMIT) {
+      const oldest = parsedRules.keys().next();
+      if (!oldest.done) parsedRules.delete(oldest.value);
+    }
+  }
+  parsedRules.set(source, parsed);
+  return parsed;
+};
+
+/** Test hook: how many parsed conditions the cache holds. */
+export const __ruleCacheSize = (): number => parsedRules.size;
+
+/** Editor validation: the problem with a rule, or null when it is usable. */
+export const validateLenderRule = (rule: LenderRule): string | null => {
+  const parsed = parseCached(rule.when ?? "");
+  if (parsed instanceof RuleSyntaxError) return parsed.message;
+  if (rule.outcome === "rate-adder" && !Number.isFinite(rule.rateAdder)) {
+    return "Rate adder rules need the points to add";
+  }
+  return null;
+};
+
+/** What a rule says in reasons: its message, else its condition. */
+export const describeLenderRule = (rule: LenderRule): string =>
+  rule.message?.trim() || rule.when.trim();
+
+export interface RuleEvaluation {
+  /** Reasons from ineligible rules whose condition holds. */
+  rejections: string[];
+  /** Pending constraints: stipulations that apply, and rules missing inputs. */
+  pending: string[];
+  /** Rate points added by rate-adder rules that apply. */
+  rateAdder: number;
+  /** One explanation per applied rate adder. */
+  notes: string[];
+  /** The applied rate adders as buy-rate breakdown lines. */
+  adjustments: RateAdjustment[];
+  /** Rules whose condition could be decided. */
+  evaluated: number;
+}
+
+/**
+ * Evaluate a lender's or tier's rules. A rule that cannot be parsed (saved
+ * outside the editor) is reported as pending rather than skipped, so a
+ * broken rule never reads as a pass.
+ */
+export const evaluateLenderRules = (
+  rules: LenderRule[] | undefined,
+  context: RuleContext
+): RuleEvaluation => {
+  const result: RuleEvaluation = {
+    rejections: [],
+    pending: [],
+    rateAdder: 0,
+    notes: [],
+    adjustments: [],
+    evaluated: 0,
+  };
+  for (const rule of Array.isArray(rules) ? rules : []) {
+    if (!rule || typeof rule.when !== "string") continue;
+    const description = describeLenderRule(rule);
+    const expression = parseCached(rule.when);
+    if (expression instanceof RuleSyntaxError) {
+      result.pending.push(`valid lender rule (${description})`);
+      continue;
+    }
+    const holds = evaluateRuleExpression(expression, context);
+    if (holds === null) {
+      const missing = ruleExpressionFields(expression)
+        .filter((field) => !known(context[field]))
+        .map((field) => RULE_FIELDS[field].label);
+      result.pending.push(`${missing.join(", ")} for rule: ${description}`);
+      continue;
+    }
+    result.evaluated++;
+    if (!holds) continue;
+    if (rule.outcome === "ineligible") {
+      result.rejections.push(`Lender rule: ${description}`);
+    } else if (rule.outcome === "pending-stip") {
+      result.pending.push(`stipulation: ${description}`);
+    } else if (rule.outcome === "rate-adder") {
+      const points = Number.isFinite(rule.rateAdder) ? rule.rateAdder! : 0;
+      result.rateAdder += points;
+      result.notes.push(`Rate ${formatRateAdder(points)} (${description})`);
+      result.adjustments.push({ label: `Rule: ${description}`, adder: points });
+    }
+  }
+  return result;
+};
+
+export const LENDER_RULE_OUTCOME_LABELS: Record<LenderRule["outcome"], string> = {
+  ineligible: "Ineligible",
+  "pending-stip": "Pending stip",
+  "rate-adder": "Rate adder",
+};
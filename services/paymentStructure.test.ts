@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  allowedStructuresValue,
+  getPaymentStructure,
+  parseAllowedStructures,
+  paymentCount,
+  paymentPlanLabel,
+  paymentStructureNote,
+  requiredStructures,
+} from "./paymentStructure";
+
+describe("getPaymentStructure", () => {
+  it("defaults to monthly with no balloon", () => {
+    expect(getPaymentStructure({})).toEqual({ frequency: "monthly", balloon: 0 });
+    expect(getPaymentStructure({ balloonAmount: -500 }).balloon).toBe(0);
+    expect(getPaymentStructure({ balloonAmount: Number.NaN }).balloon).toBe(0);
+  });
+
+  it("reads the deal's balloon and frequency", () => {
+    expect(getPaymentStructure({ balloonAmount: 8000, paymentFrequency: "biweekly" })).toEqual({
+      frequency: "biweekly",
+      balloon: 8000,
+    });
+  });
+});
+
+describe("paymentCount", () => {
+  it("converts a term in months to biweekly payments", () => {
+    expect(paymentCount(60, "monthly")).toBe(60);
+    expect(paymentCount(60, "biweekly")).toBe(130);
+    expect(paymentCount(72, "biweekly")).toBe(156);
+  });
+});
+
+describe("requiredStructures", () => {
+  it("lists what a lender program must allow", () => {
+    expect(requiredStructures({})).toEqual([]);
+    expect(requiredStructures({ balloonAmount: 0, paymentFrequency: "monthly" })).toEqual([]);
+    expect(requiredStructures({ balloonAmount: 5000, paymentFrequency: "biweekly" })).toEqual([
+      "balloon",
+      "biweekly",
+    ]);
+  });
+});
+
+describe("labels", () => {
+  it("describes the structure and the schedule", () => {
+    expect(paymentStructureNote({ frequency: "monthly", balloon: 0 })).toBe("");
+    expect(paymentStructureNote({ frequency: "biweekly", balloon: 8000 })).toBe(
+      "Biweekly + $8,000 balloon"
+    );
+    expect(
+      paymentPlanLabel({ frequency: "monthly", payment: 436.66, payments: 60, balloon: 10000 })
+    ).toBe("60 monthly payments + $10,000 balloon");
+  });
+});
+
+describe("allowed structure select values", () => {
+  it("round-trips through the comma-joined value", () => {
+    expect(allowedStructuresValue(undefined)).toBe("");
+    expect(allowedStructuresValue(["biweekly", "balloon"])).toBe("balloon,biweekly");
+    expect(parseAllowedStructures("balloon,biweekly")).toEqual(["balloon", "biweekly"]);
+    expect(parseAllowedStructures("")).toBeUndefined();
+  });
+});
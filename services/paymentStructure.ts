@@ -0,0 +1,100 @@
+import type { DealData, PaymentFrequency, PaymentPlan, PaymentStructure } from "../types";
+import { fmt } from "../utils/format";
+
+/**
+ * paymentStructure — balloon notes and biweekly payments. A deal's structure
+ * is read from DealData here so the calculator, the desk and the rules engine
+ * agree on what a deal asks of a lender.
+ *
+ * The term stays in months for every structure. A biweekly deal makes 26
+ * payments a year over that term at the APR divided by 26; its monthly
+ * equivalent (payment × 26 / 12) is what PTI, DTI and lender payment limits
+ * see. A balloon is owed with the last regular payment.
+ */
+
+export const PERIODS_PER_YEAR: Record<PaymentFrequency, number> = {
+  monthly: 12,
+  biweekly: 26,
+};
+
+export const PAYMENT_STRUCTURE_LABELS: Record<PaymentStructure, string> = {
+  balloon: "Balloon",
+  biweekly: "Biweekly",
+};
+
+export interface DealPaymentStructure {
+  frequency: PaymentFrequency;
+  /** Balloon in dollars; 0 for a fully amortizing loan. */
+  balloon: number;
+}
+
+type StructureFields = Partial<Pick<DealData, "balloonAmount" | "paymentFrequency">>;
+
+/** The deal's structure; blank, negative or non-numeric balloons are no balloon. */
+export const getPaymentStructure = (deal: StructureFields): DealPaymentStructure => {
+  const balloon = deal.balloonAmount;
+  return {
+    frequency: deal.paymentFrequency === "biweekly" ? "biweekly" : "monthly",
+    balloon: typeof balloon === "number" && Number.isFinite(balloon) && balloon > 0 ? balloon : 0,
+  };
+};
+
+/** True for the plain case: monthly payments with no balloon. */
+export const isLevelMonthly = (structure: DealPaymentStructure): boolean =>
+  structure.frequency === "monthly" && structure.balloon === 0;
+
+/** Regular payments over a term in months, e.g. 60 months biweekly → 130. */
+export const paymentCount = (termMonths: number, frequency: PaymentFrequency): number =>
+  frequency === "monthly"
+    ? termMonths
+    : Math.round((termMonths * PERIODS_PER_YEAR[frequency]) / 12);
+
+/** Structures a lender program must allow to buy this deal. */
+export const requiredStructures = (deal: StructureFields): PaymentStructure[] => {
+  const structure = getPaymentStructure(deal);
+  const required: PaymentStructure[] = [];
+  if (structure.balloon > 0) required.push("balloon");
+  if (structure.frequency === "biweekly") required.push("biweekly");
+  return required;
+};
+
+/** Short per-payment suffix, e.g. "$412/2 wk". */
+export const paymentPeriodSuffix = (frequency: PaymentFrequency): string =>
+  frequency === "biweekly" ? "/2 wk" : "/mo";
+
+/** "Biweekly + $8,000 balloon" style note; "" for a level monthly deal. */
+export const paymentStructureNote = (structure: DealPaymentStructure): string =>
+  [
+    structure.frequency === "biweekly" ? "Biweekly" : "",
+    structure.balloon > 0 ? `${fmt(structure.balloon)} balloon` : "",
+  ]
+    .filter(Boolean)
+    .join(" + ");
+
+/** "130 biweekly payments + $8,000 balloon" style description. */
+export const paymentPlanLabel = (plan: PaymentPlan): string => {
+  const count = `${plan.payments} ${plan.frequency} payment${plan.payments === 1 ? "" : "s"}`;
+  return plan.balloon > 0 ? `${count} + ${fmt(plan.balloon)} balloon` : count;
+};
+
+/**
+ * Select options for a tier's allowed structures. The value is the
+ * comma-joined list, so a plain <select> can edit the array.
+ */
+export const ALLOWED_STRUCTURE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Monthly only" },
+  { value: "balloon", label: "Balloon" },
+  { value: "biweekly", label: "Biweekly" },
+  { value: "balloon,biweekly", label: "Balloon + biweekly" },
+];
+
+export const allowedStructuresValue = (structures: PaymentStructure[] | undefined): string =>
+  (["balloon", "biweekly"] as const).filter((s) => structures?.includes(s)).join(",");
+
+/** Inverse of allowedStructuresValue; an empty selection clears the field. */
+export const parseAllowedStructures = (value: string): PaymentStructure[] | undefined => {
+  const parsed = value
+    .split(",")
+    .filter((s): s is PaymentStructure => s === "balloon" || s === "biweekly");
+  return parsed.length > 0 ? parsed : undefined;
+};
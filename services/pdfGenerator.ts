@@ -6,6 +6,7 @@ import { LenderCheatSheetTemplate } from "../components/pdf/LenderCheatSheetTemp
 import { mapDealData } from "../lib/dealMappers";
 import { BlobDownloadError, assertDownloadBlob } from "../utils/downloadBlob";
 import type { DealPdfData, LenderProfile, Settings } from "../types";
+import type { LenderAdvance } from "./lenderAdvance";
 
 export type PdfGenerationErrorCode =
   | "browser_unsupported"
@@ -350,13 +351,23 @@ const renderComponentAsPdfBlob = async (
   }
 };
 
-export const generateDealPdf = async (data: DealPdfData, settings: Settings): Promise<Blob> => {
-  const props = { ...normalizePdfData(data), settings };
+export interface DealPdfOptions {
+  /** Append the payoff-projection (amortization) page. */
+  includeAmortization?: boolean;
+}
+
+export const generateDealPdf = async (
+  data: DealPdfData,
+  settings: Settings,
+  options: DealPdfOptions = {}
+): Promise<Blob> => {
+  const includeAmortization = options.includeAmortization === true;
+  const props = { ...normalizePdfData(data), settings, includeAmortization };
   return renderComponentAsPdfBlob(
     React.createElement(PdfTemplate, props),
     "portrait",
     "explicit-pages",
-    2
+    includeAmortization ? 3 : 2
   );
 };
 
@@ -368,8 +379,11 @@ export const generateFavoritesPdf = async (
   return renderComponentAsPdfBlob(React.createElement(FavoritesPdfTemplate, props), "portrait");
 };
 
-export const generateLenderCheatSheetPdf = async (profiles: LenderProfile[]): Promise<Blob> => {
-  const props = { profiles };
+export const generateLenderCheatSheetPdf = async (
+  profiles: LenderProfile[],
+  advances?: Record<string, LenderAdvance | null>
+): Promise<Blob> => {
+  const props = { profiles, advances };
   return renderComponentAsPdfBlob(
     React.createElement(LenderCheatSheetTemplate, props),
     "landscape"
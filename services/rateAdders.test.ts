@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRateBreakdown,
+  formatRateAdder,
+  rateAdderCellLabel,
+  rateBreakdownText,
+  tierRateAdjustments,
+} from "./rateAdders";
+
+const inputs = { creditScore: 640, term: 75, ltv: 118, mileage: 120000 };
+
+describe("rateAdderCellLabel", () => {
+  it("names every bounded dimension of a cell", () => {
+    expect(
+      rateAdderCellLabel({ minFico: 620, maxFico: 659, minTerm: 73, adder: 1 }, "creditTerm")
+    ).toBe("FICO 620–659 · 73+ mo");
+    expect(rateAdderCellLabel({ maxLtv: 100, adder: 0 }, "ltv")).toBe("LTV ≤100%");
+    expect(rateAdderCellLabel({ minMileage: 100001, adder: 0.5 }, "mileage")).toBe("100,001+ mi");
+  });
+
+  it("falls back to the grid name for an unbounded cell", () => {
+    expect(rateAdderCellLabel({ adder: 0.25 }, "ltv")).toBe("LTV");
+  });
+});
+
+describe("tierRateAdjustments", () => {
+  it("applies the flat adder and the first matching cell of each grid", () => {
+    const result = tierRateAdjustments(
+      {
+        name: "Tier 3",
+        rateAdder: 0.1,
+        rateAdders: {
+          creditTerm: [
+            { minFico: 660, adder: 0 },
+            { minFico: 620, maxFico: 659, minTerm: 73, adder: 0.75 },
+            { minTerm: 73, adder: 2 },
+          ],
+          ltv: [{ minLtv: 121, adder: 0.5 }],
+          mileage: [{ minMileage: 100001, adder: -0.25 }],
+        },
+      },
+      inputs
+    );
+
+    expect(result.pending).toEqual([]);
+    expect(result.adjustments).toEqual([
+      { label: "Tier adder", adder: 0.1 },
+      { label: "FICO 620–659 · 73+ mo", adder: 0.75 },
+      { label: "100,001+ mi", adder: -0.25 },
+    ]);
+  });
+
+  it("reports the missing figure when the applicable cell cannot be told", () => {
+    const result = tierRateAdjustments(
+      {
+        name: "Tier 3",
+        rateAdders: {
+          ltv: [
+            { maxLtv: 100, adder: 0 },
+            { minLtv: 100.01, adder: 0.5 },
+          ],
+        },
+      },
+      { ...inputs, ltv: null }
+    );
+
+    expect(result.adjustments).toEqual([]);
+    expect(result.pending).toEqual(["book value for LTV for LTV rate adders"]);
+  });
+
+  it("decides on known figures before asking for unknown ones", () => {
+    const result = tierRateAdjustments(
+      {
+        name: "Tier 3",
+        rateAdders: {
+          creditTerm: [
+            { maxTerm: 60, minFico: 700, adder: 0 },
+            { minTerm: 61, adder: 1 },
+          ],
+        },
+      },
+      { ...inputs, creditScore: null }
+    );
+
+    expect(result.pending).toEqual([]);
+    expect(result.adjustments).toEqual([{ label: "61+ mo", adder: 1 }]);
+  });
+});
+
+describe("buildRateBreakdown", () => {
+  it("sums the adjustments onto the base and describes them", () => {
+    const breakdown = buildRateBreakdown(5.99, [
+      { label: "FICO 620–659 · 73+ mo", adder: 0.75 },
+      { label: "Rule: New customer", adder: -0.25 },
+    ]);
+
+    expect(breakdown.rate).toBeCloseTo(6.49, 10);
+    expect(rateBreakdownText(breakdown)).toBe(
+      "5.99% base +0.75% FICO 620–659 · 73+ mo −0.25% Rule: New customer"
+    );
+    expect(formatRateAdder(0)).toBe("+0.00%");
+  });
+});
@@ -0,0 +1,183 @@
+import type { LenderTier, RateAdderCell, TierRateAdders } from "../types";
+import { fmtN } from "../utils/format";
+
+/**
+ * rateAdders — how a deal's buy rate is built from a tier's rate sheet. The
+ * tier's baseInterestRate is the starting point; its flat rateAdder, the
+ * first matching cell of each adder grid (FICO × term, LTV, mileage) and any
+ * custom-rule adders are then added in that order. checkBankEligibility keeps
+ * the lines so the desk can show where each point came from.
+ */
+
+export interface RateAdjustment {
+  label: string;
+  /** Rate points; negative for a discount. */
+  adder: number;
+}
+
+export interface RateBreakdown {
+  base: number;
+  adjustments: RateAdjustment[];
+  /** base plus every adjustment. */
+  rate: number;
+}
+
+/** Deal figures the grids are keyed on; null when unknown. */
+export interface RateAdderInputs {
+  creditScore: number | null;
+  term: number | null;
+  /** Percent of the lender's book value. */
+  ltv: number | null;
+  mileage: number | null;
+}
+
+export interface TierRateAdderResult {
+  adjustments: RateAdjustment[];
+  /** Deal figures a grid needs but the deal does not have yet. */
+  pending: string[];
+}
+
+export type RateAdderGrid = keyof TierRateAdders;
+
+export const RATE_ADDER_GRIDS: Record<RateAdderGrid, string> = {
+  creditTerm: "FICO × term",
+  ltv: "LTV",
+  mileage: "Mileage",
+};
+
+interface CellDimension {
+  input: keyof RateAdderInputs;
+  min: keyof RateAdderCell;
+  max: keyof RateAdderCell;
+  /** Unchecked-constraint wording when the input is missing. */
+  missing: string;
+  format: (range: string) => string;
+}
+
+const DIMENSIONS: CellDimension[] = [
+  {
+    input: "creditScore",
+    min: "minFico",
+    max: "maxFico",
+    missing: "credit score",
+    format: (range) => `FICO ${range}`,
+  },
+  {
+    input: "term",
+    min: "minTerm",
+    max: "maxTerm",
+    missing: "loan term",
+    format: (range) => `${range} mo`,
+  },
+  {
+    input: "ltv",
+    min: "minLtv",
+    max: "maxLtv",
+    missing: "book value for LTV",
+    format: (range) => `LTV ${range}%`,
+  },
+  {
+    input: "mileage",
+    min: "minMileage",
+    max: "maxMileage",
+    missing: "vehicle mileage",
+    format: (range) => `${range} mi`,
+  },
+];
+
+const bound = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const rangeText = (min: number | null, max: number | null, input: string): string => {
+  const show = (n: number) => (input === "mileage" ? fmtN(n) : String(n));
+  if (min !== null && max !== null) return `${show(min)}–${show(max)}`;
+  if (min !== null) return `${show(min)}+`;
+  return `≤${show(max!)}`;
+};
+
+/** "FICO 620–659 · 73+ mo" style label; the grid name for an unbounded cell. */
+export const rateAdderCellLabel = (cell: RateAdderCell, grid: RateAdderGrid): string => {
+  const parts = DIMENSIONS.flatMap((dimension) => {
+    const min = bound(cell[dimension.min]);
+    const max = bound(cell[dimension.max]);
+    if (min === null && max === null) return [];
+    return [dimension.format(rangeText(min, max, dimension.input))];
+  });
+  return parts.length > 0 ? parts.join(" · ") : RATE_ADDER_GRIDS[grid];
+};
+
+/** True, false, or null when an input the cell is bounded on is unknown. */
+const cellMatches = (
+  cell: RateAdderCell,
+  inputs: RateAdderInputs,
+  missing: Set<string>
+): boolean | null => {
+  let unknown = false;
+  for (const dimension of DIMENSIONS) {
+    const min = bound(cell[dimension.min]);
+    const max = bound(cell[dimension.max]);
+    if (min === null && max === null) continue;
+    const value = inputs[dimension.input];
+    if (value === null) {
+      missing.add(dimension.missing);
+      unknown = true;
+      continue;
+    }
+    if ((min !== null && value < min) || (max !== null && value > max)) return false;
+  }
+  return unknown ? null : true;
+};
+
+/**
+ * Adjustments a tier's flat adder and adder grids make for this deal. A grid
+ * whose applicable cell depends on a figure the deal lacks adds nothing and
+ * reports the figure as pending, since the buy rate cannot be known yet.
+ */
+export const tierRateAdjustments = (
+  tier: LenderTier,
+  inputs: RateAdderInputs
+): TierRateAdderResult => {
+  const result: TierRateAdderResult = { adjustments: [], pending: [] };
+  const flat = bound(tier.rateAdder);
+  if (flat !== null && flat !== 0) result.adjustments.push({ label: "Tier adder", adder: flat });
+
+  const grids = tier.rateAdders && typeof tier.rateAdders === "object" ? tier.rateAdders : {};
+  for (const grid of Object.keys(RATE_ADDER_GRIDS) as RateAdderGrid[]) {
+    const cells = grids[grid];
+    if (!Array.isArray(cells)) continue;
+    for (const cell of cells) {
+      if (!cell || bound(cell.adder) === null) continue;
+      const missing = new Set<string>();
+      const matches = cellMatches(cell, inputs, missing);
+      if (matches === false) continue;
+      if (matches === null) {
+        missing.forEach((item) =>
+          result.pending.push(`${item} for ${RATE_ADDER_GRIDS[grid]} rate adders`)
+        );
+      } else if (cell.adder !== 0) {
+        result.adjustments.push({ label: rateAdderCellLabel(cell, grid), adder: cell.adder });
+      }
+      break;
+    }
+  }
+  return result;
+};
+
+export const buildRateBreakdown = (base: number, adjustments: RateAdjustment[]): RateBreakdown => ({
+  base,
+  adjustments,
+  rate: adjustments.reduce((rate, adjustment) => rate + adjustment.adder, base),
+});
+
+/** "+0.50%" / "−0.25%". */
+export const formatRateAdder = (points: number): string =>
+  `${points < 0 ? "−" : "+"}${Math.abs(points).toFixed(2)}%`;
+
+/** "5.99% base +0.75% FICO 620–659 · 73+ mo +0.50% LTV 121–130%". */
+export const rateBreakdownText = (breakdown: RateBreakdown): string =>
+  [
+    `${breakdown.base.toFixed(2)}% base`,
+    ...breakdown.adjustments.map(
+      (adjustment) => `${formatRateAdder(adjustment.adder)} ${adjustment.label}`
+    ),
+  ].join(" ");
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { jurisdictionLabel, normalizeZip, resolveTaxJurisdiction } from "./taxJurisdictions";
+
+describe("resolveTaxJurisdiction", () => {
+  it("matches a ZIP by its county prefix", () => {
+    expect(resolveTaxJurisdiction("OH", { zip: "43604" })?.county).toBe("Lucas");
+  });
+
+  it("prefers the longest ZIP match, so a city beats its county", () => {
+    const city = resolveTaxJurisdiction("WI", { zip: "53202" })!;
+    expect(jurisdictionLabel(city)).toBe("Milwaukee County (Milwaukee)");
+    const suburb = resolveTaxJurisdiction("WI", { zip: "53214" })!;
+    expect(jurisdictionLabel(suburb)).toBe("Milwaukee County");
+  });
+
+  it("falls back to a county-wide entry by name", () => {
+    expect(resolveTaxJurisdiction("IL", { county: " cook County " })?.city).toBeUndefined();
+    expect(resolveTaxJurisdiction("IL", { zip: "60601", county: "Cook" })?.city).toBe("Chicago");
+  });
+
+  it("ignores jurisdictions in another state and malformed ZIPs", () => {
+    expect(resolveTaxJurisdiction("MI", { zip: "43604" })).toBeNull();
+    expect(resolveTaxJurisdiction("OH", { zip: "436" })).toBeNull();
+    expect(resolveTaxJurisdiction("OH", {})).toBeNull();
+  });
+});
+
+describe("normalizeZip", () => {
+  it("keeps the five-digit ZIP of a ZIP+4", () => {
+    expect(normalizeZip("33130-1234")).toBe("33130");
+    expect(normalizeZip("331301234")).toBe("33130");
+    expect(normalizeZip("ABCDE")).toBeNull();
+  });
+});
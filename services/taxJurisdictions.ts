@@ -0,0 +1,199 @@
+import type { AppState } from "../types";
+
+/**
+ * taxJurisdictions — bundled, offline county/city sales tax add-ons for
+ * buyers whose local tax sits on top of the state rate (services/taxRules.ts).
+ * A resolved jurisdiction REPLACES the state rule's statewide localRate; an
+ * unresolved buyer keeps it.
+ *
+ * Scope is deliberately small: the metro counties our stores sell into most,
+ * not a national rate database. ZIP patterns are 3-digit sectional prefixes
+ * (only where the prefix sits inside one county) or full 5-digit ZIPs; the
+ * longest match wins, so a city can sit inside its county's prefix. A ZIP
+ * outside the table falls back to the state rule.
+ *
+ * Sources (verified 2026): Ohio Dept. of Taxation county rate table; Illinois
+ * Dept. of Revenue RUT-25 / local rate finder; Wisconsin DOR county and
+ * municipal rate list; Florida DOR Form DR-15DSS (discretionary surtax applies
+ * to the first $5,000 of a motor vehicle sale). Indiana, Kentucky and
+ * Michigan have no local sales tax on vehicles.
+ * Re-verify against current state guidance before pilot use.
+ */
+
+export interface LocalTaxRate {
+  /** Display name, e.g. "Lucas County" or "City of Chicago". */
+  name: string;
+  /** Rate as a fraction. */
+  rate: number;
+  /** Only this much of the taxable amount is subject to the add-on (FL surtax). */
+  maxTaxable?: number;
+}
+
+export interface TaxJurisdiction {
+  state: AppState;
+  county: string;
+  /** City or district the rates below include, when narrower than the county. */
+  city?: string;
+  zips: readonly string[];
+  rates: readonly LocalTaxRate[];
+}
+
+export const TAX_JURISDICTIONS: readonly TaxJurisdiction[] = [
+  {
+    state: "OH",
+    county: "Lucas",
+    zips: ["436"],
+    rates: [{ name: "Lucas County", rate: 0.015 }],
+  },
+  {
+    state: "OH",
+    county: "Wood",
+    zips: ["43402", "43403", "43447", "43451", "43460", "43551", "43552"],
+    rates: [{ name: "Wood County", rate: 0.01 }],
+  },
+  {
+    state: "OH",
+    county: "Cuyahoga",
+    zips: ["441"],
+    rates: [{ name: "Cuyahoga County", rate: 0.0225 }],
+  },
+  {
+    state: "OH",
+    county: "Franklin",
+    zips: ["432"],
+    rates: [
+      { name: "Franklin County", rate: 0.0125 },
+      { name: "COTA transit", rate: 0.005 },
+    ],
+  },
+  {
+    state: "OH",
+    county: "Hamilton",
+    zips: ["452"],
+    rates: [{ name: "Hamilton County", rate: 0.0205 }],
+  },
+  {
+    // Suburban Cook: reached by county name only, since municipal add-ons
+    // differ town to town.
+    state: "IL",
+    county: "Cook",
+    zips: [],
+    rates: [
+      { name: "Cook County", rate: 0.0175 },
+      { name: "RTA", rate: 0.01 },
+    ],
+  },
+  {
+    state: "IL",
+    county: "Cook",
+    city: "Chicago",
+    zips: ["606"],
+    rates: [
+      { name: "Cook County", rate: 0.0175 },
+      { name: "City of Chicago", rate: 0.0125 },
+      { name: "RTA", rate: 0.01 },
+    ],
+  },
+  {
+    state: "WI",
+    county: "Milwaukee",
+    zips: ["532"],
+    rates: [{ name: "Milwaukee County", rate: 0.009 }],
+  },
+  {
+    state: "WI",
+    county: "Milwaukee",
+    city: "Milwaukee",
+    zips: [
+      "53202",
+      "53203",
+      "53204",
+      "53205",
+      "53206",
+      "53208",
+      "53210",
+      "53212",
+      "53216",
+      "53218",
+      "53223",
+      "53224",
+      "53225",
+    ],
+    rates: [
+      { name: "Milwaukee County", rate: 0.009 },
+      { name: "City of Milwaukee", rate: 0.02 },
+    ],
+  },
+  {
+    state: "WI",
+    county: "Dane",
+    zips: ["537"],
+    rates: [{ name: "Dane County", rate: 0.005 }],
+  },
+  {
+    state: "FL",
+    county: "Miami-Dade",
+    zips: ["331"],
+    rates: [{ name: "Miami-Dade surtax", rate: 0.01, maxTaxable: 5000 }],
+  },
+  {
+    state: "FL",
+    county: "Orange",
+    zips: ["328"],
+    rates: [{ name: "Orange County surtax", rate: 0.005, maxTaxable: 5000 }],
+  },
+  {
+    state: "FL",
+    county: "Duval",
+    zips: ["322"],
+    rates: [{ name: "Duval County surtax", rate: 0.015, maxTaxable: 5000 }],
+  },
+];
+
+/** First five digits of a ZIP or ZIP+4, or null when it is not a US ZIP. */
+export const normalizeZip = (value: string | undefined): string | null => {
+  const match = /^(\d{5})(?:-?\d{4})?$/.exec(value?.trim() ?? "");
+  return match ? match[1]! : null;
+};
+
+const normalizeCounty = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+county$/, "");
+
+/**
+ * The jurisdiction for a buyer in `state`. The ZIP wins when it matches; a
+ * county name (with or without "County") is the fallback for buyers without
+ * a ZIP on file. Entries in other states never match, so a ZIP that disagrees
+ * with the buyer state leaves the state rule's default in place.
+ */
+export const resolveTaxJurisdiction = (
+  state: AppState,
+  location: { zip?: string; county?: string }
+): TaxJurisdiction | null => {
+  const candidates = TAX_JURISDICTIONS.filter((j) => j.state === state);
+  const zip = normalizeZip(location.zip);
+  if (zip) {
+    let best: TaxJurisdiction | null = null;
+    let bestLength = 0;
+    for (const jurisdiction of candidates) {
+      for (const pattern of jurisdiction.zips) {
+        if (zip.startsWith(pattern) && pattern.length > bestLength) {
+          best = jurisdiction;
+          bestLength = pattern.length;
+        }
+      }
+    }
+    if (best) return best;
+  }
+  // A county name alone cannot place the buyer inside a city, so only
+  // county-wide entries match.
+  const county = location.county ? normalizeCounty(location.county) : "";
+  if (!county) return null;
+  return candidates.find((j) => !j.city && normalizeCounty(j.county) === county) ?? null;
+};
+
+/** "Cook County (Chicago)" style label for a resolved jurisdiction. */
+export const jurisdictionLabel = (jurisdiction: TaxJurisdiction): string =>
+  `${jurisdiction.county} County${jurisdiction.city ? ` (${jurisdiction.city})` : ""}`;
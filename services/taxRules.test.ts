@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  STATE_TAX_RULES,
+  TAX_STATES,
+  getHomeState,
+  getStateTaxRule,
+  isTaxState,
+  taxStateLabel,
+  tradeCreditCapFor,
+} from "./taxRules";
+
+describe("tax rule table", () => {
+  it("has one row per modeled state, keyed by its own code", () => {
+    expect(TAX_STATES).toEqual(["MI", "OH", "IN", "IL", "FL", "WI", "KY"]);
+    for (const state of TAX_STATES) expect(STATE_TAX_RULES[state].state).toBe(state);
+  });
+
+  it("rejects states outside the table", () => {
+    expect(isTaxState("WI")).toBe(true);
+    expect(isTaxState("TX")).toBe(false);
+    expect(isTaxState("toString")).toBe(false);
+    expect(() => getStateTaxRule("TX")).toThrow(/Unsupported tax state: TX/);
+  });
+
+  it("defaults the dealership to Michigan for settings that predate homeState", () => {
+    expect(getHomeState({})).toBe("MI");
+    expect(getHomeState({ homeState: "KY" })).toBe("KY");
+  });
+
+  it("caps the Michigan trade credit by settings and leaves other states uncapped", () => {
+    expect(tradeCreditCapFor(STATE_TAX_RULES.MI, { miTradeInCreditCap: 13000 })).toBe(13000);
+    expect(tradeCreditCapFor(STATE_TAX_RULES.WI, { miTradeInCreditCap: 13000 })).toBe(
+      Number.POSITIVE_INFINITY
+    );
+  });
+
+  it("labels buyer states with the rate the home state would collect", () => {
+    expect(taxStateLabel("MI", "MI")).toBe("MI · 6%");
+    expect(taxStateLabel("OH", "MI")).toBe("OH · 5.75%");
+    expect(taxStateLabel("IN", "MI")).toBe("IN · 6% recip.");
+    expect(taxStateLabel("WI", "MI")).toBe("WI · 5.5%");
+    expect(taxStateLabel("MI", "WI")).toBe("MI · 5.5% recip.");
+  });
+});
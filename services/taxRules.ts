@@ -0,0 +1,188 @@
+import type { AppState, Settings, VehicleCondition } from "../types";
+import { getMiTradeInCreditCap } from "../constants";
+import type { LeaseTaxMethod } from "./leaseCalculator";
+
+/**
+ * taxRules — the per-state sales/use tax table behind calculateSalesTax and
+ * the lease engine. [G16]
+ *
+ * Each row describes one state twice over: as the BUYER's state (rate, trade
+ * credit, lease method) and as the DEALERSHIP's home state (how it collects
+ * from out-of-state buyers). Adding a state is a new row here plus the
+ * AppState union; the engines have no per-state branches.
+ *
+ * Sources (statutory state-level rates, verified 2026):
+ * - MI 6%    — MCL 205.52; trade credit capped (see getMiTradeInCreditCap)
+ * - OH 5.75% — Ohio Rev. Code 5739.02; trade credit on new vehicles only
+ * - IN 7%    — Ind. Code 6-2.5-2-2
+ * - IL 6.25% — 35 ILCS 105/3-10
+ * - FL 6%    — Fla. Stat. 212.05
+ * - WI 5%    — Wis. Stat. 77.52, plus the 0.5% county tax nearly every county levies
+ * - KY 6%    — KRS 138.460 motor vehicle usage tax; no local add-on
+ * County/municipal add-ons that vary within OH, IL and FL are not in
+ * localRate — they depend on the buyer's jurisdiction, not the state.
+ * Re-verify against current state guidance before pilot use.
+ */
+
+/**
+ * How a dealership collects from a buyer registering in another state.
+ * - "lesser-of": compute under both the buyer's state law and the home
+ *   state's law and collect the lesser (Michigan Form 485 reciprocity).
+ * - "buyer-state": collect the buyer's state tax as the buyer's state computes it.
+ */
+export type OutOfStateCollection = "lesser-of" | "buyer-state";
+
+export interface StateTaxRule {
+  state: AppState;
+  name: string;
+  /** Statutory state-level rate, as a fraction. */
+  rate: number;
+  /** Local (county/city) add-on owed statewide on vehicle sales, as a fraction. */
+  localRate: number;
+  /** Purchased-vehicle conditions whose trade-in reduces the taxable price. */
+  tradeCreditConditions: readonly VehicleCondition[];
+  /** Dollar cap on the trade credit for a calendar year; omitted when uncapped. */
+  tradeCreditCap?: (year?: number) => number;
+  /** Whether doc, CVR and dealer transaction fees are part of the taxable base. */
+  docFeeTaxable: boolean;
+  /**
+   * How a lease is taxed (see services/leaseCalculator.ts). "monthly" taxes
+   * each base payment as billed; "upfront" taxes the total of base payments
+   * at signing. Cash cap-cost reductions are taxed at signing under both.
+   */
+  leaseTaxMethod: LeaseTaxMethod;
+  /** Collection method when this is the dealership's home state. */
+  outOfStateCollection: OutOfStateCollection;
+}
+
+const BOTH_CONDITIONS: readonly VehicleCondition[] = ["new", "used"];
+
+export const STATE_TAX_RULES: Record<AppState, StateTaxRule> = {
+  MI: {
+    state: "MI",
+    name: "Michigan",
+    rate: 0.06,
+    localRate: 0,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    tradeCreditCap: getMiTradeInCreditCap,
+    docFeeTaxable: true,
+    leaseTaxMethod: "monthly",
+    outOfStateCollection: "lesser-of",
+  },
+  OH: {
+    state: "OH",
+    name: "Ohio",
+    rate: 0.0575,
+    localRate: 0,
+    tradeCreditConditions: ["new"],
+    docFeeTaxable: true,
+    leaseTaxMethod: "upfront",
+    outOfStateCollection: "lesser-of",
+  },
+  IN: {
+    state: "IN",
+    name: "Indiana",
+    rate: 0.07,
+    localRate: 0,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    docFeeTaxable: true,
+    leaseTaxMethod: "monthly",
+    outOfStateCollection: "lesser-of",
+  },
+  IL: {
+    state: "IL",
+    name: "Illinois",
+    rate: 0.0625,
+    localRate: 0,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    docFeeTaxable: true,
+    leaseTaxMethod: "upfront",
+    outOfStateCollection: "lesser-of",
+  },
+  FL: {
+    state: "FL",
+    name: "Florida",
+    rate: 0.06,
+    localRate: 0,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    docFeeTaxable: true,
+    leaseTaxMethod: "monthly",
+    outOfStateCollection: "lesser-of",
+  },
+  WI: {
+    state: "WI",
+    name: "Wisconsin",
+    rate: 0.05,
+    localRate: 0.005,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    docFeeTaxable: true,
+    leaseTaxMethod: "monthly",
+    outOfStateCollection: "lesser-of",
+  },
+  KY: {
+    state: "KY",
+    name: "Kentucky",
+    rate: 0.06,
+    localRate: 0,
+    tradeCreditConditions: BOTH_CONDITIONS,
+    docFeeTaxable: true,
+    leaseTaxMethod: "upfront",
+    outOfStateCollection: "lesser-of",
+  },
+};
+
+/** Every state the tax engine models, in table order. */
+export const TAX_STATES = Object.keys(STATE_TAX_RULES) as AppState[];
+
+export const isTaxState = (value: unknown): value is AppState =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(STATE_TAX_RULES, value);
+
+/**
+ * Rule for a state. Throws instead of silently taxing an unknown state at a
+ * default rate — if this fires, data outside the modeled domain reached the
+ * tax engine. [G16]
+ */
+export const getStateTaxRule = (state: unknown): StateTaxRule => {
+  if (!isTaxState(state)) throw new Error(`Unsupported tax state: ${String(state)}`);
+  return STATE_TAX_RULES[state];
+};
+
+/** Combined state + statewide local rate, as a fraction. */
+export const combinedTaxRate = (rule: StateTaxRule): number => rule.rate + rule.localRate;
+
+/** The dealership's own state; stored settings that predate it are Michigan dealers. */
+export const getHomeState = (settings: Pick<Settings, "homeState">): AppState =>
+  settings.homeState ?? "MI";
+
+/**
+ * Trade credit cap under a rule. The Settings MI cap is a dealer override of
+ * the Michigan statutory schedule; stale stored settings may predate it, in
+ * which case the statutory cap for the current calendar year applies. [G17]
+ */
+export const tradeCreditCapFor = (
+  rule: StateTaxRule,
+  settings: Pick<Settings, "miTradeInCreditCap">
+): number => {
+  if (rule.state === "MI" && Number.isFinite(settings.miTradeInCreditCap)) {
+    return Math.max(0, settings.miTradeInCreditCap);
+  }
+  return rule.tradeCreditCap ? rule.tradeCreditCap() : Number.POSITIVE_INFINITY;
+};
+
+/** A rate fraction as a trimmed percentage, e.g. 0.0575 → "5.75%". */
+export const formatTaxRate = (fraction: number): string =>
+  `${Number((fraction * 100).toFixed(3))}%`;
+
+/**
+ * Short desk label for a buyer state as seen from the home state, e.g.
+ * "OH · 5.75%" or "IN · 6% recip." when lesser-of reciprocity caps the rate.
+ */
+export const taxStateLabel = (state: AppState, homeState: AppState): string => {
+  const buyerRate = combinedTaxRate(STATE_TAX_RULES[state]);
+  const home = STATE_TAX_RULES[homeState];
+  const homeRate = combinedTaxRate(home);
+  if (state !== homeState && home.outOfStateCollection === "lesser-of" && buyerRate > homeRate) {
+    return `${state} · ${formatTaxRate(homeRate)} recip.`;
+  }
+  return `${state} · ${formatTaxRate(buyerRate)}`;
+};
@@ -13,9 +13,16 @@ export interface Vehicle {
   make?: string;
   model?: string;
   trim?: string;
+  /** ISO timestamp the unit arrived in stock; see services/inventoryAging.ts. */
+  inStockAt?: string;
+  /** ISO timestamp a full-feed import marked the unit sold. */
+  soldAt?: string;
   // Calculated properties will be added to a different type
 }
 
+/** Days-in-stock bands for aging reports and filters; see services/inventoryAging.ts. */
+export type AgingBucket = "0-30" | "31-60" | "61-90" | "90+";
+
 /**
  * Approval-odds band, per the dc design contract: "strong" (score ≥ 72),
  * "moderate" (≥ 50), "weak" (below), and "none". The numeric score is shown on
@@ -28,6 +35,30 @@ export type EligibilityStatus = "eligible" | "ineligible" | "pending";
 export type RebateType = "manufacturer" | "dealer";
 export type VehicleCondition = "new" | "used";
 
+/** Brand on the vehicle's title; "clean" means no brand. */
+export type TitleBrand = "clean" | "salvage" | "rebuilt" | "flood" | "lemon";
+/** Joint applications: which applicant's score a lender underwrites. */
+export type CoBuyerFicoRule = "primary" | "highest";
+/** Joint applications: whether a lender counts co-buyer income and debt for PTI/DTI. */
+export type CoBuyerIncomeRule = "primary" | "combined";
+
+/** How often the customer pays. Biweekly is 26 payments a year. */
+export type PaymentFrequency = "monthly" | "biweekly";
+
+/** Structures beyond a level monthly loan that a lender program can allow. */
+export type PaymentStructure = "balloon" | "biweekly";
+
+/** Periodic payment schedule for a deal that is not level monthly. */
+export interface PaymentPlan {
+  frequency: PaymentFrequency;
+  /** Amount of each regular payment (per month or per two weeks). */
+  payment: number | "Error" | "N/A";
+  /** Number of regular payments before the balloon. */
+  payments: number;
+  /** Balloon due with the last payment; 0 when there is none. */
+  balloon: number;
+}
+
 export interface CalculatedVehicle extends Vehicle {
   salesTax: number | "Error" | "N/A";
   frontEndLtv: number | "Error" | "N/A";
@@ -35,6 +66,16 @@ export interface CalculatedVehicle extends Vehicle {
   amountToFinance: number | "Error" | "N/A";
   otdLtv: number | "Error" | "N/A";
   monthlyPayment: number | "Error" | "N/A";
+  /**
+   * Trade payoff in excess of the trade allowance, already included in
+   * amountToFinance. Optional so vehicles priced before it existed stay valid.
+   */
+  negativeEquity?: number;
+  /**
+   * Set only for balloon or biweekly deals; monthlyPayment then holds the
+   * monthly equivalent that PTI, DTI and lender limits use.
+   */
+  paymentPlan?: PaymentPlan;
   // Redesign-derived metrics, populated by the processedInventory selector via
   // approvalScorer + lenderFit. Optional so existing call sites stay valid.
   approvalScore?: number; // 0-100 internal odds index (hardened, eligibility-capped)
@@ -42,6 +83,7 @@ export interface CalculatedVehicle extends Vehicle {
   ptiRatio?: number; // payment-to-income %, or undefined when income is unknown
   fitCount?: number; // # of active lenders the current deal fits
   fitNames?: string[]; // names of the active lenders the current deal fits
+  daysInStock?: number | null; // whole days from inStockAt to today (or soldAt); null when unknown
 }
 
 export interface DealData {
@@ -62,6 +104,8 @@ export interface DealData {
   buyerState?: AppState;
   /** Explicit condition of the vehicle being purchased; never inferred from age or mileage. */
   vehicleCondition?: VehicleCondition;
+  /** Title brand of the vehicle being purchased, as entered on the desk. */
+  titleBrand?: TitleBrand;
   /**
    * Legacy rebate amount. Records without a rebateType retain the historical
    * manufacturer-rebate behavior (taxable, then deducted from amount financed).
@@ -86,6 +130,41 @@ export interface DealData {
    */
   vscAmount?: number;
   gapAmount?: number;
+  /**
+   * Lease structuring inputs. A lease quote is produced alongside the retail
+   * quote only when both the residual % and money factor are entered (see
+   * hasLeaseTerms in services/leaseCalculator.ts); the retail calculator
+   * ignores these fields entirely.
+   */
+  leaseTerm?: number;
+  /** Residual as a % of the selling price (inventory carries no MSRP). */
+  leaseResidualPercent?: number;
+  /** Lender money factor, e.g. 0.00125 (≈ 3.0% APR equivalent). */
+  leaseMoneyFactor?: number;
+  /** Lender acquisition (bank) fee, capitalized into the gross cap cost. */
+  leaseAcquisitionFee?: number;
+  /** Disposition fee due at lease end; disclosed, never part of the payment. */
+  leaseDispositionFee?: number;
+  /**
+   * Contract and first-payment dates as "YYYY-MM-DD". When both are set the
+   * desk and PDF show the odd first-period adjustment (services/firstPayment.ts)
+   * next to the standard 30-day payment; the calculator's payment is unchanged.
+   */
+  contractDate?: string;
+  firstPaymentDate?: string;
+  /**
+   * Buyer's ZIP and county for local (county/city) sales tax. The ZIP wins
+   * when both are set; see services/taxJurisdictions.ts for the bundled table.
+   */
+  buyerZip?: string;
+  buyerCounty?: string;
+  /**
+   * Lump sum due after the last regular payment. Unset or 0 is a fully
+   * amortizing loan; see services/paymentStructure.ts.
+   */
+  balloonAmount?: number;
+  /** Unset means monthly. */
+  paymentFrequency?: PaymentFrequency;
 }
 
 export interface FilterData {
@@ -101,6 +180,17 @@ export interface FilterData {
   vin: string;
   /** Min approval odds (0-100) filter, applied post-scoring. [reconciliation 12] */
   minScore?: number | null;
+  /** Days-in-stock band filter, applied post-scoring. */
+  agingBucket?: AgingBucket | null;
+  /**
+   * Co-applicant on a joint application. How these combine with the primary
+   * applicant is a per-lender rule; see services/coBuyer.ts.
+   */
+  coBuyerCreditScore?: number | null;
+  coBuyerMonthlyIncome?: number | null;
+  coBuyerMonthlyDebt?: number | null;
+  /** Open auto loans on the credit report, for lenders that cap concurrent auto tradelines. */
+  openAutoLoans?: number | null;
 }
 
 export interface SortConfig {
@@ -108,6 +198,61 @@ export interface SortConfig {
   direction: "asc" | "desc";
 }
 
+/** What a custom lender rule does when its condition holds. */
+export type LenderRuleOutcome = "ineligible" | "pending-stip" | "rate-adder";
+
+/**
+ * A lender quirk the fixed tier fields cannot express. `when` is a condition
+ * in the rule language of services/lenderRules.ts, e.g.
+ * "creditScore < 580 and downPaymentPct < 10".
+ */
+export interface LenderRule {
+  when: string;
+  outcome: LenderRuleOutcome;
+  /** Rate points added by a "rate-adder" rule. */
+  rateAdder?: number;
+  /** Shown in eligibility reasons; the condition is shown when blank. */
+  message?: string;
+}
+
+/**
+ * One cell of a rate sheet's adder grid. Bounds are inclusive and an omitted
+ * bound is open, so { minFico: 620, maxFico: 659, minTerm: 73, adder: 0.75 }
+ * reads "FICO 620-659 over 72 months: +0.75".
+ */
+export interface RateAdderCell {
+  minFico?: number;
+  maxFico?: number;
+  minTerm?: number;
+  maxTerm?: number;
+  minLtv?: number; // Percent of the lender's book value
+  maxLtv?: number;
+  minMileage?: number;
+  maxMileage?: number;
+  adder: number; // Rate points; negative for a discount
+}
+
+/**
+ * Add-on grids of a tier, applied on top of baseInterestRate. In each grid the
+ * first cell that contains the deal applies; no matching cell adds nothing.
+ */
+export interface TierRateAdders {
+  creditTerm?: RateAdderCell[]; // FICO band × term bucket
+  ltv?: RateAdderCell[];
+  mileage?: RateAdderCell[];
+}
+
+/**
+ * Dollars a lender adds to (or, when negative, deducts from) its book value
+ * for vehicles in a mileage band before applying its advance LTV. Bounds are
+ * inclusive and an omitted bound is open.
+ */
+export interface MileageBookAdjustment {
+  minMileage?: number;
+  maxMileage?: number;
+  amount: number;
+}
+
 export interface LenderTier {
   name: string; // e.g. "New - Tier 1", "Used 2018+ - Gold"
   tierName?: string; // Display name for the tier
@@ -126,7 +271,8 @@ export interface LenderTier {
   minLtv?: number; // Minimum LTV floor
   frontEndLtv?: number; // Max LTV on front-end (before backend products)
   otdLtv?: number; // Max Out-The-Door LTV (includes all fees/products)
-  maxAdvance?: number; // Dollar cap on advance over book/invoice
+  maxAdvance?: number; // Dollar cap on the amount advanced, whatever the LTV allows
+  mileageBookAdjustments?: MileageBookAdjustment[]; // First matching band adjusts the book
 
   // Amount limits
   minAmountFinanced?: number;
@@ -135,6 +281,7 @@ export interface LenderTier {
   // Rate information
   baseInterestRate?: number; // Base APR/buy rate for this tier
   rateAdder?: number; // Additional rate adjustment (e.g., +0.25% for 80+ months)
+  rateAdders?: TierRateAdders; // Deal-specific adders by FICO × term, LTV and mileage
   maxRate?: number; // Maximum rate cap
 
   // Vehicle restrictions
@@ -151,6 +298,15 @@ export interface LenderTier {
   maxBackend?: number; // Maximum backend products in dollars
   maxBackendPercent?: number; // Maximum backend as % of amount financed
 
+  // Trade limits
+  maxNegativeEquity?: number; // Maximum rolled-in negative equity in dollars
+
+  // Payment structures
+  allowedStructures?: PaymentStructure[]; // Omitted = level monthly payments only
+
+  // Custom rules
+  rules?: LenderRule[]; // Evaluated after the fields above; see services/lenderRules.ts
+
   // Extraction metadata
   confidence?: number; // 0.0-1.0 confidence score
   extractionSource?: string; // "table", "text", "inferred"
@@ -170,7 +326,19 @@ export interface LenderProfile {
   minAmountFinanced?: number;
   maxAmountFinanced?: number;
   stipulations?: string;
+  /** Lender-wide custom rules, applied to every tier. */
+  rules?: LenderRule[];
+  /** Effective date as printed on the sheet; free text, not enforced. */
   effectiveDate?: string;
+  /**
+   * Dates the current program (the terms on this profile) is in force, as
+   * "YYYY-MM-DD", inclusive. Unset ends are open; a profile with neither and
+   * no programVersions is undated and always in force.
+   */
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  /** Superseded and scheduled rate sheets; see services/lenderPrograms.ts. */
+  programVersions?: LenderProgramVersion[];
   contactName?: string;
   contactPhone?: string;
   contactEmail?: string;
@@ -178,13 +346,48 @@ export interface LenderProfile {
   portalUrl?: string;
   generalNotes?: string;
   enrichmentSources?: { url: string; title?: string; fieldsCited?: string[] }[];
-  /** Dealer reserve/participation %, display metadata only (never consumed by the rules engine). */
+  /**
+   * Dealer participation, as a % of the finance charge the rate markup earns
+   * (split model). Used by services/dealerReserve.ts, never by the rules engine.
+   */
   reservePct?: number;
+  /** Max rate markup over the buy rate, in APR points. Unset means no markup. */
+  maxMarkup?: number;
+  /** Flat reserve as a % of amount financed; when set it replaces the split model. */
+  flatReservePct?: number;
   /** Typical funding speed, e.g. "same day", "1–2 days" — display metadata only. */
   fundingDays?: string;
+  /** Joint applications: whose score is underwritten. Unset means the primary's. */
+  coBuyerFico?: CoBuyerFicoRule;
+  /** Joint applications: whether co-buyer income counts for PTI/DTI. Unset means combined. */
+  coBuyerIncome?: CoBuyerIncomeRule;
   tiers: LenderTier[];
 }
 
+/** Lender terms that change from one rate sheet to the next. */
+export type LenderProgramTerms = Pick<
+  LenderProfile,
+  | "minIncome"
+  | "maxPti"
+  | "maxDti"
+  | "maxBackend"
+  | "minAmountFinanced"
+  | "maxAmountFinanced"
+  | "stipulations"
+  | "rules"
+  | "tiers"
+>;
+
+/** One dated rate sheet for a lender. */
+export interface LenderProgramVersion extends LenderProgramTerms {
+  /** First day in force, "YYYY-MM-DD"; unset for sheets that predate versioning. */
+  effectiveFrom?: string;
+  /** Last day in force, inclusive; unset means open-ended. */
+  effectiveTo?: string;
+  /** When the version was archived, as an ISO timestamp. */
+  savedAt?: string;
+}
+
 export interface Message {
   text: string;
   type: "success" | "error" | "warning" | "info";
@@ -197,6 +400,61 @@ export interface TierSortConfig {
   direction: "asc" | "desc";
 }
 
+export type StipulationStatus = "needed" | "received" | "cleared" | "waived";
+
+/** One item on a deal's stipulation checklist; see services/dealStipulations.ts. */
+export interface DealStipulation {
+  id: string;
+  label: string;
+  /** Required stips must be cleared or waived before the deal can fund. */
+  required: boolean;
+  status: StipulationStatus;
+  /** File names in the deal's stipulationDocs field that belong to this stip. */
+  documents?: string[];
+  note?: string;
+  /** When the status last changed, as an ISO timestamp. */
+  updatedAt?: string;
+}
+
+export type LenderDecision = "pending" | "approved" | "countered" | "declined";
+
+/** One lender a saved deal was sent to and what it said; see services/lenderDecisions.ts. */
+export interface DealSubmission {
+  id: string;
+  dealId: string;
+  lenderName: string;
+  /** ISO timestamp. */
+  submittedAt: string;
+  decision: LenderDecision;
+  decidedAt?: string;
+  /** Approved (or countered) amount financed, APR and term in months. */
+  approvedAmount?: number;
+  approvedRate?: number;
+  approvedTerm?: number;
+  /** What a counter-offer asks for, e.g. "+$1,500 down, 60 mo max". */
+  conditions?: string;
+  declineReason?: string;
+}
+
+/** Inventory values whose changes are kept per VIN; see services/inventoryHistory.ts. */
+export type TrackedInventoryField = "price" | "unitCost" | "jdPower" | "jdPowerRetail" | "mileage";
+
+/** One value an inventory sync changed. Null means the value was unset. */
+export interface InventoryFieldChange {
+  field: TrackedInventoryField;
+  before: number | null;
+  after: number | null;
+}
+
+/** One sync that changed a unit's tracked values. */
+export interface InventoryHistoryEntry {
+  id: string;
+  vin: string;
+  /** ISO timestamp. */
+  changedAt: string;
+  changes: InventoryFieldChange[];
+}
+
 export interface SavedDeal {
   id: string;
   date: string;
@@ -208,6 +466,10 @@ export interface SavedDeal {
     creditScore: number | null;
     monthlyIncome: number | null;
     monthlyDebt?: number | null;
+    coBuyerCreditScore?: number | null;
+    coBuyerMonthlyIncome?: number | null;
+    coBuyerMonthlyDebt?: number | null;
+    openAutoLoans?: number | null;
   };
   notes?: string;
   // Legacy/compat fields so older saves don't crash the UI
@@ -224,6 +486,8 @@ export interface LenderEligibilityStatus {
   reasons: string[];
   matchedTier: LenderTier | null;
   uncheckedConstraints?: string[];
+  /** 0-100 per-lender approval odds (services/lenderOdds.ts); null when not scored. */
+  approvalOdds?: number | null;
 }
 
 export interface DealPdfData {
@@ -233,6 +497,10 @@ export interface DealPdfData {
     creditScore: number | null;
     monthlyIncome: number | null;
     monthlyDebt?: number | null;
+    coBuyerCreditScore?: number | null;
+    coBuyerMonthlyIncome?: number | null;
+    coBuyerMonthlyDebt?: number | null;
+    openAutoLoans?: number | null;
   };
   customerName: string;
   salespersonName: string;
@@ -240,12 +508,71 @@ export interface DealPdfData {
   dealNumber?: number;
 }
 
-export type AppState = "MI" | "OH" | "IN" | "IL" | "FL";
+/** States in the tax rule table (services/taxRules.ts). */
+export type AppState = "MI" | "OH" | "IN" | "IL" | "FL" | "WI" | "KY";
+
+/**
+ * Approval-odds model fitted from one dealership's own approved/funded vs
+ * declined deals (services/approvalCalibration.ts). Replaces the default
+ * component weights and maps the weighted score through a logistic curve.
+ */
+export interface ApprovalCalibration {
+  /** Component weights, summing to 1. */
+  weights: { credit: number; ltv: number; pti: number };
+  /** p = 1 / (1 + e^-(intercept + slope · weightedScore / 100)). */
+  curve: { intercept: number; slope: number };
+  /** Decided deals the fit used. */
+  sampleSize: number;
+  approved: number;
+  declined: number;
+  /** Brier score of the fitted and the default model on those deals (lower is better). */
+  brier: number;
+  defaultBrier: number;
+  fittedAt: string;
+}
+
+/** Inventory fields an import column can feed (services/fileParser.ts). */
+export type InventoryImportField =
+  | "stock"
+  | "vin"
+  | "vehicle"
+  | "make"
+  | "model"
+  | "trim"
+  | "modelYear"
+  | "mileage"
+  | "price"
+  | "jdPower"
+  | "jdPowerRetail"
+  | "unitCost";
+
+/** The file header that feeds each field; an unmapped field is left out. */
+export type InventoryColumnMapping = Partial<Record<InventoryImportField, string>>;
+
+/**
+ * A saved column mapping for one source's export layout (DMS, vAuto, an
+ * auction). Picked again on upload by the file's header signature
+ * (services/columnMapping.ts).
+ */
+export interface InventoryMappingProfile {
+  id: string;
+  name: string;
+  /** Normalized header set of the file the profile was saved from. */
+  signature: string;
+  mapping: InventoryColumnMapping;
+  updatedAt: string;
+}
 
 export interface Settings {
   defaultTerm: number;
   defaultApr: number;
+  /** Default BUYER state for deals that do not set one. */
   defaultState: AppState;
+  /**
+   * The dealership's own state, which decides how out-of-state buyers are
+   * taxed. Unset means Michigan, the only home state before this existed.
+   */
+  homeState?: AppState;
   docFee: number;
   cvrFee: number;
   defaultStateFees: number;
@@ -266,4 +593,8 @@ export interface Settings {
     critical: number;
   };
   ai: import("./lib/aiModelRegistry").AiSettings;
+  /** Dealer-fitted approval-odds model; unset or null uses APPROVAL_CONFIG. */
+  approvalCalibration?: ApprovalCalibration | null;
+  /** Saved inventory-import column mappings, one per export layout. */
+  inventoryMappingProfiles?: InventoryMappingProfile[];
 }
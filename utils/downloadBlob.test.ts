@@ -37,6 +37,9 @@ describe("downloadBlob", () => {
 
   it("sanitizes filenames and appends a PDF extension", () => {
     expect(sanitizeDownloadFilename(' Deal Sheet: "STK/5101" ')).toBe("Deal_Sheet_STK_5101.pdf");
+    expect(sanitizeDownloadFilename("Lender matrix", "download.csv", ".csv")).toBe(
+      "Lender_matrix.csv"
+    );
   });
 
   it("validates empty and wrong-type blobs", () => {
@@ -18,6 +18,8 @@ export interface BlobDownloadOptions {
   expectedType?: string;
   minBytes?: number;
   revokeAfterMs?: number;
+  /** Extension the saved filename is forced to end with; defaults to ".pdf". */
+  extension?: string;
 }
 
 export interface BlobDownloadResult {
@@ -29,7 +31,11 @@ export interface BlobDownloadResult {
 
 const DEFAULT_REVOKE_AFTER_MS = 60_000;
 
-export const sanitizeDownloadFilename = (filename: string, fallback = "download.pdf"): string => {
+export const sanitizeDownloadFilename = (
+  filename: string,
+  fallback = "download.pdf",
+  extension = ".pdf"
+): string => {
   const withoutControls = Array.from(filename.trim())
     .filter((char) => char.charCodeAt(0) >= 32)
     .join("");
@@ -44,7 +50,7 @@ export const sanitizeDownloadFilename = (filename: string, fallback = "download.
   if (!candidate) {
     throw new BlobDownloadError("filename_empty", "Download filename is empty.");
   }
-  return candidate.toLowerCase().endsWith(".pdf") ? candidate : `${candidate}.pdf`;
+  return candidate.toLowerCase().endsWith(extension) ? candidate : `${candidate}${extension}`;
 };
 
 export const assertDownloadBlob = (
@@ -79,7 +85,8 @@ export const downloadBlob = (
   }
 
   assertDownloadBlob(blob, options);
-  const safeFilename = sanitizeDownloadFilename(filename);
+  const extension = options.extension ?? ".pdf";
+  const safeFilename = sanitizeDownloadFilename(filename, `download${extension}`, extension);
   const url = URL.createObjectURL(blob);
   let revoked = false;
   const revoke = () => {
@@ -0,0 +1,71 @@
+/**
+ * @vitest-environment node
+ */
+
+import { strFromU8, unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { columnName, toCsv, toXlsx } from "./spreadsheet";
+
+describe("toCsv", () => {
+  it("quotes only when needed and defuses formula-like text", () => {
+    expect(
+      toCsv([
+        ["Stock", "Reason", "Advance"],
+        ["A1", 'Over "max" LTV, by 5%', 18500],
+        ["=HYPERLINK(1)", null, -250],
+      ])
+    ).toBe('Stock,Reason,Advance\nA1,"Over ""max"" LTV, by 5%",18500\n\'=HYPERLINK(1),,-250');
+  });
+});
+
+describe("columnName", () => {
+  it("counts columns the way spreadsheets letter them", () => {
+    expect([0, 25, 26, 51, 52, 701, 702].map(columnName)).toEqual([
+      "A",
+      "Z",
+      "AA",
+      "AZ",
+      "BA",
+      "ZZ",
+      "AAA",
+    ]);
+  });
+});
+
+describe("toXlsx", () => {
+  it("writes a one-sheet workbook with inline strings and numeric cells", () => {
+    const files = unzipSync(
+      toXlsx(
+        [
+          ["Stock", "Price"],
+          ["A&B <1>", 21000],
+          [null, 0],
+        ],
+        "Lender matrix: 10/19"
+      )
+    );
+
+    expect(Object.keys(files).sort()).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/_rels/workbook.xml.rels",
+      "xl/workbook.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    const workbook = strFromU8(files["xl/workbook.xml"] ?? new Uint8Array());
+    expect(workbook).toContain('<sheet name="Lender matrix  10 19"');
+
+    const sheet = strFromU8(files["xl/worksheets/sheet1.xml"] ?? new Uint8Array());
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">A&amp;B &lt;1&gt;</t></is></c><c r="B2"><v>21000</v></c></row>'
+    );
+    expect(sheet).toContain('<row r="3"><c r="B3"><v>0</v></c></row>');
+    expect(sheet).toContain('state="frozen"');
+  });
+
+  it("drops characters XML can't carry and keeps tabs and newlines", () => {
+    const files = unzipSync(toXlsx([["Note"], ["a\u0001b\tc\nd\uFFFEe"]], "Sheet"));
+    const sheet = strFromU8(files["xl/worksheets/sheet1.xml"] ?? new Uint8Array());
+    expect(sheet).toContain('<t xml:space="preserve">ab\tc\nde</t>');
+  });
+});
@@ -0,0 +1,123 @@
+import { strToU8, zipSync } from "fflate";
+
+/**
+ * spreadsheet — writes plain tables out as CSV or a single-sheet XLSX
+ * workbook. Numbers stay numbers (so Excel can sum and sort them), null is
+ * an empty cell. Text that a spreadsheet would run as a formula (leading
+ * =, +, -, @) is prefixed with an apostrophe in CSV, since lender reasons and
+ * vehicle names come from imported files.
+ */
+
+export type SpreadsheetCell = string | number | null;
+
+export const CSV_MIME = "text/csv;charset=utf-8";
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: SpreadsheetCell): string => {
+  if (value === null) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: SpreadsheetCell[][]): string =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\n");
+
+// Characters XML 1.0 can't carry at all (controls other than tab, newline and
+// carriage return, and U+FFFE/U+FFFF); dropped rather than escaped.
+const isXmlChar = (code: number): boolean =>
+  code >= 32 ? code !== 0xfffe && code !== 0xffff : code === 9 || code === 10 || code === 13;
+
+const escapeXml = (text: string): string =>
+  Array.from(text)
+    .filter((char) => isXmlChar(char.charCodeAt(0)))
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** Spreadsheet column letters: 0 → A, 25 → Z, 26 → AA. */
+export const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const xlsxCell = (value: SpreadsheetCell, ref: string): string => {
+  if (value === null || value === "") return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : "";
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+/** Excel rejects sheet names over 31 characters or containing []:*?/\. */
+const safeSheetName = (name: string): string =>
+  name
+    .replace(/[[\]:*?/\\]/g, " ")
+    .trim()
+    .slice(0, 31) || "Sheet1";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * A one-sheet .xlsx workbook. Strings are written inline rather than through
+ * a shared-strings table, which every spreadsheet app reads and keeps the
+ * writer to five small parts. The header row is frozen.
+ */
+export const toXlsx = (
+  rows: SpreadsheetCell[][],
+  sheetName = "Sheet1"
+): Uint8Array<ArrayBuffer> => {
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`)).join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  const freeze =
+    rows.length > 1
+      ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      : "";
+
+  const parts: Record<string, string> = {
+    "[Content_Types].xml":
+      XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+    "_rels/.rels":
+      XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+    "xl/workbook.xml":
+      XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(safeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+    "xl/_rels/workbook.xml.rels":
+      XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>",
+    "xl/worksheets/sheet1.xml":
+      XML_HEADER +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `${freeze}<sheetData>${sheetRows}</sheetData>` +
+      "</worksheet>",
+  };
+
+  // zipSync always allocates a plain ArrayBuffer, which Blob requires.
+  return zipSync(
+    Object.fromEntries(Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)]))
+  ) as Uint8Array<ArrayBuffer>;
+};